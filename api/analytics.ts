@@ -0,0 +1,334 @@
+/**
+ * Relay de conversiones del lado del servidor (Vercel Function)
+ *
+ * Recibe los lotes del destino `beacon` (lib/analytics-destinations.ts, con
+ * VITE_ANALYTICS_ENDPOINT=/api/analytics) y reenvía las conversiones del
+ * catálogo (lib/analytics-events.ts) a:
+ *
+ * - Meta Conversions API, con consentimiento de marketing. Usa el mismo
+ *   `event_id` que el Pixel (`<id>.<evento>`), así Meta descarta el duplicado
+ *   cuando ambos llegan.
+ * - GA4 Measurement Protocol, con consentimiento de analítica y solo las
+ *   conversiones marcadas `ga4Relay`: gtag.js no estaba cargado cuando se
+ *   despacharon, y el destino ga4 del cliente no las envía (GA4 no deduplica).
+ *
+ * Las web vitals (`web_vital`, lib/web-vitals.ts) no se reenvían: con
+ * consentimiento de analítica se escriben como una línea JSON en los logs de la
+ * función (`type: "web_vital"`), para consultarlas o mandarlas a un log drain.
+ *
+ * Los eventos se vuelven a validar y resolver contra el catálogo: se ignora el
+ * mapeo que manda el cliente.
+ *
+ * El endpoint es público, así que se limita a lo que manda el propio sitio:
+ * - `Origin` (o `Referer`) del dominio, del deploy de preview (`VERCEL_URL`,
+ *   `VERCEL_BRANCH_URL`) o, fuera de producción (`VERCEL_ENV`), de localhost;
+ *   lo demás responde 403
+ * - como máximo `ANALYTICS_BEACON_MAX_EVENTS` eventos por petición
+ * - `RATE_LIMIT` peticiones por IP y minuto (429). Se cuenta en memoria de
+ *   cada instancia de la función: frena ráfagas, no es un límite global.
+ *
+ * Vercel la ejecuta como módulo ES de Node, sin bundler: los imports locales
+ * llevan extensión `.js` y los JSON `with { type: 'json' }`, y solo se importan
+ * módulos que cumplen lo mismo (analytics-events.ts solo depende de zod).
+ *
+ * Variables de entorno (en Vercel, no `VITE_`):
+ * - META_PIXEL_ID, META_CAPI_ACCESS_TOKEN, META_TEST_EVENT_CODE (opcional)
+ * - GA4_MEASUREMENT_ID, GA4_API_SECRET
+ * - META_CAPI_URL, GA4_MP_URL: para apuntar a un mock en local
+ *   (scripts/analytics-mock-server.js)
+ */
+import {
+  ANALYTICS_EVENTS,
+  analyticsBeaconPayloadSchema,
+  resolveAnalyticsEvent,
+  validateAnalyticsEvent,
+  type AnalyticsBeaconPayload,
+  type AnalyticsEventName,
+  type AnalyticsEventParams,
+} from '../src/lib/analytics-events.js';
+import site from '../src/content/site.json' with { type: 'json' };
+
+const MAX_BODY_BYTES = 64 * 1024;
+const RATE_LIMIT = { requests: 20, windowMs: 60_000 };
+/** IPs recordadas como máximo antes de vaciar el contador */
+const RATE_LIMIT_MAX_CLIENTS = 5000;
+const DEFAULT_META_CAPI_URL = 'https://graph.facebook.com/v21.0';
+const DEFAULT_GA4_MP_URL = 'https://www.google-analytics.com/mp/collect';
+
+type BeaconEvent = AnalyticsBeaconPayload['events'][number];
+
+interface RelayRequestContext {
+  ip?: string;
+  userAgent?: string;
+  cookies: Record<string, string>;
+}
+
+interface RelayResult {
+  sent: number;
+  error?: string;
+}
+
+const json = (
+  body: unknown,
+  status: number,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const parseCookies = (header: string | null) => {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+};
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const getAllowedOrigins = () =>
+  new Set(
+    [
+      site.url,
+      process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`,
+      process.env.VERCEL_BRANCH_URL &&
+        `https://${process.env.VERCEL_BRANCH_URL}`,
+    ].flatMap((url) => (url ? [new URL(url).origin] : [])),
+  );
+
+/** Origen de la petición (`Origin` o, si falta, el de `Referer`) */
+const getRequestOrigin = (request: Request) => {
+  const value = request.headers.get('origin') ?? request.headers.get('referer');
+  if (!value) return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+const isAllowedOrigin = (request: Request) => {
+  const origin = getRequestOrigin(request);
+  if (!origin) return false;
+  // Cualquiera puede mandar `Origin: http://localhost`: solo vale en dev y
+  // previews, nunca contra las propiedades de producción
+  return (
+    getAllowedOrigins().has(origin.origin) ||
+    (process.env.VERCEL_ENV !== 'production' &&
+      LOCAL_HOSTNAMES.has(origin.hostname))
+  );
+};
+
+const requestCounts = new Map<string, { count: number; resetAt: number }>();
+
+/** Cuenta la petición de la IP; false si ya pasó de `RATE_LIMIT` */
+const takeRateLimit = (ip: string, now = Date.now()) => {
+  const entry = requestCounts.get(ip);
+  if (!entry || entry.resetAt <= now) {
+    if (requestCounts.size >= RATE_LIMIT_MAX_CLIENTS) requestCounts.clear();
+    requestCounts.set(ip, { count: 1, resetAt: now + RATE_LIMIT.windowMs });
+    return true;
+  }
+  entry.count += 1;
+  return entry.count <= RATE_LIMIT.requests;
+};
+
+/** Valida el evento contra el catálogo y lo resuelve de nuevo en el servidor */
+const resolveConversion = (event: BeaconEvent) => {
+  const name = event.name as AnalyticsEventName;
+  if (validateAnalyticsEvent(name, event.params).length > 0) return null;
+  const resolved = resolveAnalyticsEvent(
+    name,
+    event.params as AnalyticsEventParams<AnalyticsEventName>,
+  );
+  if (!resolved || !ANALYTICS_EVENTS[name].conversion) return null;
+  return { ...event, ...resolved };
+};
+
+type Conversion = NonNullable<ReturnType<typeof resolveConversion>>;
+
+/** Escribe las web vitals válidas en los logs; devuelve cuántas */
+const logWebVitals = (events: BeaconEvent[]) => {
+  let logged = 0;
+  for (const event of events) {
+    if (event.name !== 'web_vital') continue;
+    if (validateAnalyticsEvent('web_vital', event.params).length > 0) continue;
+    console.info(
+      JSON.stringify({
+        type: 'web_vital',
+        timestamp: new Date(event.timestamp).toISOString(),
+        ...event.params,
+      }),
+    );
+    logged += 1;
+  }
+  return logged;
+};
+
+const postJson = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+  }
+};
+
+const sendToMeta = async (
+  conversions: Conversion[],
+  context: RelayRequestContext,
+): Promise<RelayResult | null> => {
+  const pixelId = process.env.META_PIXEL_ID;
+  const accessToken = process.env.META_CAPI_ACCESS_TOKEN;
+  if (!pixelId || !accessToken) return null;
+
+  const data = conversions.flatMap((conversion) =>
+    conversion.meta.map((metaEvent) => ({
+      event_name: metaEvent.event,
+      event_time: Math.floor(conversion.timestamp / 1000),
+      event_id: `${conversion.id}.${metaEvent.event}`,
+      action_source: 'website',
+      event_source_url: conversion.page.location,
+      user_data: {
+        client_ip_address: context.ip,
+        client_user_agent: context.userAgent,
+        fbp: context.cookies._fbp,
+        fbc: context.cookies._fbc,
+      },
+      custom_data: {
+        ...metaEvent.params,
+        ...conversion.attribution,
+        ...conversion.utm,
+      },
+    })),
+  );
+  if (data.length === 0) return null;
+
+  const baseUrl = process.env.META_CAPI_URL || DEFAULT_META_CAPI_URL;
+  try {
+    await postJson(`${baseUrl}/${pixelId}/events`, {
+      data,
+      access_token: accessToken,
+      ...(process.env.META_TEST_EVENT_CODE && {
+        test_event_code: process.env.META_TEST_EVENT_CODE,
+      }),
+    });
+    return { sent: data.length };
+  } catch (error) {
+    console.error('Analytics relay: Meta Conversions API error:', error);
+    return { sent: 0, error: 'meta' };
+  }
+};
+
+const sendToGA4 = async (
+  conversions: Conversion[],
+  clientId: string,
+): Promise<RelayResult | null> => {
+  const measurementId = process.env.GA4_MEASUREMENT_ID;
+  const apiSecret = process.env.GA4_API_SECRET;
+  if (!measurementId || !apiSecret || conversions.length === 0) return null;
+
+  const url = new URL(process.env.GA4_MP_URL || DEFAULT_GA4_MP_URL);
+  url.searchParams.set('measurement_id', measurementId);
+  url.searchParams.set('api_secret', apiSecret);
+  try {
+    await postJson(url.toString(), {
+      client_id: clientId,
+      events: conversions.map((conversion) => ({
+        name: conversion.ga4.event,
+        timestamp_micros: conversion.timestamp * 1000,
+        params: {
+          ...conversion.ga4.params,
+          ...conversion.attribution,
+          ...conversion.utm,
+          page_location: conversion.page.location,
+          page_title: conversion.page.title,
+          engagement_time_msec: 1,
+        },
+      })),
+    });
+    return { sent: conversions.length };
+  } catch (error) {
+    console.error('Analytics relay: GA4 Measurement Protocol error:', error);
+    return { sent: 0, error: 'ga4' };
+  }
+};
+
+export async function POST(request: Request): Promise<Response> {
+  if (!isAllowedOrigin(request)) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  if (!takeRateLimit(ip ?? 'unknown')) {
+    return json({ error: 'Too many requests' }, 429, {
+      'Retry-After': String(RATE_LIMIT.windowMs / 1000),
+    });
+  }
+
+  const body = await request.text();
+  if (body.length > MAX_BODY_BYTES) {
+    return json({ error: 'Payload too large' }, 413);
+  }
+
+  let payload: AnalyticsBeaconPayload;
+  try {
+    const result = analyticsBeaconPayloadSchema.safeParse(JSON.parse(body));
+    if (!result.success) {
+      return json({ error: 'Invalid payload' }, 400);
+    }
+    payload = result.data;
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const conversions = payload.events.flatMap((event) => {
+    const conversion = resolveConversion(event);
+    return conversion ? [conversion] : [];
+  });
+
+  const context: RelayRequestContext = {
+    ip,
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    cookies: parseCookies(request.headers.get('cookie')),
+  };
+
+  const webVitals = payload.consent.analytics
+    ? logWebVitals(payload.events)
+    : 0;
+
+  const [meta, ga4] = await Promise.all([
+    payload.consent.marketing ? sendToMeta(conversions, context) : null,
+    payload.consent.analytics
+      ? sendToGA4(
+          conversions.filter((conversion) => conversion.ga4Relay),
+          payload.clientId,
+        )
+      : null,
+  ]);
+
+  // Solo se pide reintento (5xx) si no se entregó nada: reenviar un lote que
+  // ya llegó a GA4 lo duplicaría (Meta sí deduplica por event_id)
+  const attempted = [meta, ga4].filter(
+    (result): result is RelayResult => result !== null,
+  );
+  const failed =
+    attempted.length > 0 && attempted.every((result) => result.error);
+
+  return json(
+    { received: payload.events.length, meta, ga4, webVitals },
+    failed ? 502 : 202,
+  );
+}
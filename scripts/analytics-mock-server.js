@@ -0,0 +1,91 @@
+/**
+ * Servidor mock de la API de Conversiones de Meta y del Measurement Protocol
+ * de GA4, para probar el relay (api/analytics.ts) sin enviar datos reales
+ *
+ * Uso (el destino beacon solo se activa en producción):
+ *   npm run analytics:mock
+ *   # en .env.local
+ *   VITE_ANALYTICS_ENDPOINT=/api/analytics
+ *   META_CAPI_URL=http://localhost:8788/meta
+ *   META_PIXEL_ID=test
+ *   META_CAPI_ACCESS_TOKEN=test
+ *   GA4_MP_URL=http://localhost:8788/ga4
+ *   GA4_MEASUREMENT_ID=G-TEST
+ *   GA4_API_SECRET=test
+ *   # después
+ *   npm run build && npm run preview
+ *
+ * Imprime cada envío recibido. Con `ANALYTICS_MOCK_FAIL=true` responde 500
+ * para probar los reintentos del destino beacon.
+ */
+import { createServer } from 'http';
+
+const PORT = Number(process.env.ANALYTICS_MOCK_PORT || 8788);
+const SHOULD_FAIL = process.env.ANALYTICS_MOCK_FAIL === 'true';
+
+const server = createServer((req, res) => {
+  const { pathname, searchParams } = new URL(
+    req.url,
+    `http://${req.headers.host}`,
+  );
+  const isMeta = /^\/meta\/[^/]+\/events$/.test(pathname);
+  const isGA4 = pathname === '/ga4';
+
+  if (req.method !== 'POST' || (!isMeta && !isGA4)) {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'JSON inválido' }));
+      return;
+    }
+
+    if (isMeta) {
+      console.log(`📘 Meta CAPI (${pathname.split('/')[2]}):`);
+      for (const event of request.data ?? []) {
+        console.log(
+          `  ${event.event_name} [${event.event_id}]`,
+          event.custom_data,
+        );
+      }
+    } else {
+      console.log(
+        `📊 GA4 MP (${searchParams.get('measurement_id')}), client_id ${request.client_id}:`,
+      );
+      for (const event of request.events ?? []) {
+        console.log(`  ${event.name}`, event.params);
+      }
+    }
+
+    if (SHOULD_FAIL) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Fallo simulado' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify(
+        isMeta ? { events_received: request.data?.length ?? 0 } : {},
+      ),
+    );
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Mock de Meta CAPI en http://localhost:${PORT}/meta`);
+  console.log(
+    `✅ Mock de GA4 Measurement Protocol en http://localhost:${PORT}/ga4`,
+  );
+});
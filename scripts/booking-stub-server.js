@@ -0,0 +1,77 @@
+/**
+ * Servidor stub para probar el formulario de citas en modo `http`
+ *
+ * Uso:
+ *   npm run booking:stub
+ *   VITE_BOOKING_PROVIDER=http VITE_BOOKING_ENDPOINT=http://localhost:8787/booking npm run dev
+ *
+ * Imprime cada solicitud recibida y responde con un folio. Con
+ * `BOOKING_STUB_FAIL=true` responde 500 para probar el manejo de errores.
+ */
+import { createServer } from 'http';
+
+const PORT = Number(process.env.BOOKING_STUB_PORT || 8787);
+const SHOULD_FAIL = process.env.BOOKING_STUB_FAIL === 'true';
+
+let counter = 0;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/booking') {
+    res.writeHead(404, corsHeaders);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400, {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      });
+      res.end(JSON.stringify({ error: 'JSON inválido' }));
+      return;
+    }
+
+    console.log('📅 Solicitud de cita recibida:');
+    console.log(request);
+
+    if (SHOULD_FAIL) {
+      res.writeHead(500, {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      });
+      res.end(JSON.stringify({ error: 'Fallo simulado' }));
+      return;
+    }
+
+    counter += 1;
+    const reference = `CITA-${String(counter).padStart(4, '0')}`;
+    res.writeHead(201, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ reference }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `✅ Stub de citas escuchando en http://localhost:${PORT}/booking`,
+  );
+});
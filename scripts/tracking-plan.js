@@ -0,0 +1,34 @@
+/**
+ * Genera docs/TRACKING_PLAN.md desde el catálogo de eventos
+ * (src/lib/analytics-events.ts)
+ *
+ * Uso (después de cambiar el catálogo):
+ *   npm run tracking-plan
+ *
+ * El build falla si el archivo no coincide con el catálogo
+ * (trackingPlanPlugin en vite.config.ts).
+ */
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { createServer } from 'vite';
+
+const server = await createServer({
+  configFile: false,
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { renderTrackingPlan } = await server.ssrLoadModule(
+    '/src/lib/analytics-events.ts',
+  );
+  writeFileSync(
+    join(process.cwd(), 'docs', 'TRACKING_PLAN.md'),
+    renderTrackingPlan(),
+    'utf-8',
+  );
+  console.log('📝 docs/TRACKING_PLAN.md generado desde el catálogo');
+} finally {
+  await server.close();
+}
@@ -1,139 +1,59 @@
 import { GraduationCap, Award, Heart, Clock, Check } from 'lucide-react';
 import { ClinicGallery } from './ClinicGallery';
 import { ScrollAnimated } from './ScrollAnimated';
-import { useEffect } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { MessageKey } from '@/lib/i18n';
 
 interface Credential {
   icon: React.ElementType;
-  title: string;
-  description: string;
-  benefit?: string;
+  /** Prefijo de las claves title/description/benefit en el catálogo */
+  messages:
+    | 'about.credentials.uem'
+    | 'about.credentials.uvm'
+    | 'about.credentials.innn';
   completed: boolean;
   inProgress?: boolean;
-  inProgressText?: string;
+  inProgressText?: MessageKey;
 }
 
-const credentials = [
+const credentials: Credential[] = [
   {
     icon: GraduationCap,
-    title: 'Universidad Europea de Madrid',
-    description: 'Fisioterapia (España, 2015)',
-    benefit: 'Técnicas europeas de vanguardia',
+    messages: 'about.credentials.uem',
     completed: true,
   },
   {
     icon: GraduationCap,
-    title: 'Universidad del Valle de México',
-    description: 'Licenciatura en Fisioterapia (México, 2017)',
-    benefit: 'Conocimiento del contexto local',
+    messages: 'about.credentials.uvm',
     completed: true,
   },
   {
     icon: Award,
-    title: 'Instituto Nacional de Neurología',
-    description: 'Diplomado en Abordaje Integral del Dolor (México, 2024)',
-    benefit: 'Especialista en manejo del dolor',
+    messages: 'about.credentials.innn',
     completed: true,
   },
 ];
 
 const values = [
+  { icon: Heart, messages: 'about.values.personalized' },
+  { icon: Award, messages: 'about.values.evidence' },
+] as const;
+
+const languages = [
   {
-    icon: Heart,
-    title: 'Atención Personalizada',
-    description: 'Cada sesión está adaptada a tus necesidades específicas.',
+    flag: '🇲🇽',
+    name: 'about.languages.spanish',
+    level: 'about.languages.native',
   },
   {
-    icon: Award,
-    title: 'Basado en Evidencia',
-    description: 'Tratamientos respaldados por la ciencia más actual.',
+    flag: '🇬🇧',
+    name: 'about.languages.english',
+    level: 'about.languages.advanced',
   },
-];
-
-const languages = [
-  { flag: '🇲🇽', name: 'Español', level: 'Nativo' },
-  { flag: '🇬🇧', name: 'Inglés', level: 'Avanzado' },
-];
-
-// Genera el schema AboutPage para SEO
-const generateAboutPageSchema = () => ({
-  '@context': 'https://schema.org',
-  '@type': 'AboutPage',
-  name: 'Sobre Mí - FisioAnalaura',
-  description:
-    'Conoce a la Lic. Analaura Reyes Priego, fisioterapeuta con doble titulación de México y España, especialista en traumatología, ATM, hipopresivos y manejo del dolor.',
-  url: 'https://fisio-movimiento.com/#sobre-mi',
-  mainEntity: {
-    '@type': 'Person',
-    '@id': 'https://fisio-movimiento.com/#person',
-    name: 'Lic. Analaura Reyes Priego',
-    jobTitle: 'Fisioterapeuta',
-    description:
-      'Fisioterapeuta con doble titulación de México y España. Especialista en tratamientos personalizados y basados en evidencia científica.',
-    alumniOf: [
-      {
-        '@type': 'EducationalOrganization',
-        name: 'Universidad Europea de Madrid',
-        location: { '@type': 'Place', addressCountry: 'ES' },
-        endDate: '2015',
-      },
-      {
-        '@type': 'EducationalOrganization',
-        name: 'Universidad del Valle de México',
-        location: { '@type': 'Place', addressCountry: 'MX' },
-        endDate: '2017',
-      },
-    ],
-    hasCredential: [
-      {
-        '@type': 'EducationalOccupationalCredential',
-        credentialCategory: 'degree',
-        recognizedBy: {
-          '@type': 'Organization',
-          name: 'Universidad Europea de Madrid',
-        },
-        educationalLevel: "Bachelor's Degree",
-      },
-      {
-        '@type': 'EducationalOccupationalCredential',
-        credentialCategory: 'degree',
-        recognizedBy: {
-          '@type': 'Organization',
-          name: 'Universidad del Valle de México',
-        },
-        educationalLevel: "Bachelor's Degree",
-      },
-      {
-        '@type': 'EducationalOccupationalCredential',
-        credentialCategory: 'certification',
-        recognizedBy: {
-          '@type': 'Organization',
-          name: 'Instituto Nacional de Neurología y Neurocirugía',
-        },
-        educationalLevel: 'Diploma',
-      },
-    ],
-  },
-});
+] as const;
 
 export const AboutSection = () => {
-  // Inyectar schema AboutPage para SEO
-  useEffect(() => {
-    const existingScript = document.querySelector(
-      'script[data-about-page-schema]',
-    );
-    if (!existingScript) {
-      const script = document.createElement('script');
-      script.type = 'application/ld+json';
-      script.setAttribute('data-about-page-schema', 'true');
-      script.textContent = JSON.stringify(generateAboutPageSchema());
-      document.head.appendChild(script);
-    }
-    return () => {
-      const script = document.querySelector('script[data-about-page-schema]');
-      if (script) script.remove();
-    };
-  }, []);
+  const { t } = useTranslation();
 
   return (
     <section id="sobre-mi" className="py-16 lg:py-24 bg-background">
@@ -149,21 +69,20 @@ export const AboutSection = () => {
             <div className="space-y-6 lg:space-y-8">
               <div className="space-y-3 lg:space-y-4">
                 <span className="text-primary font-semibold text-sm uppercase tracking-wider">
-                  Sobre Mí
+                  {t('about.eyebrow')}
                 </span>
                 <h2 className="font-display text-3xl md:text-4xl lg:text-5xl font-bold text-foreground">
-                  Fisioterapia <span className="text-primary">Humana</span> y de
-                  Calidad
+                  {t('about.titleStart')}{' '}
+                  <span className="text-primary">
+                    {t('about.titleHighlight')}
+                  </span>{' '}
+                  {t('about.titleEnd')}
                 </h2>
                 <p className="text-base lg:text-lg text-muted-foreground leading-relaxed font-medium">
-                  Soy fisioterapeuta con doble titulación de México y España. Mi
-                  enfoque se centra en tratamientos personalizados y basados en
-                  evidencia científica.
+                  {t('about.intro')}
                 </p>
                 <p className="hidden sm:block text-base lg:text-lg text-muted-foreground leading-relaxed font-medium">
-                  Para mí, lo más importante eres tú. Tengo experiencia en
-                  traumatología, ortopedia, hipopresivos, tratamiento de ATM y
-                  manejo del dolor.
+                  {t('about.experience')}
                 </p>
               </div>
 
@@ -181,10 +100,10 @@ export const AboutSection = () => {
                       </div>
                       <div>
                         <h3 className="font-bold text-foreground mb-1">
-                          {value.title}
+                          {t(`${value.messages}.title`)}
                         </h3>
                         <p className="text-sm text-muted-foreground leading-relaxed">
-                          {value.description}
+                          {t(`${value.messages}.description`)}
                         </p>
                       </div>
                     </div>
@@ -201,16 +120,16 @@ export const AboutSection = () => {
             <ScrollAnimated animation="fade-up" delay={100}>
               <div className="text-center mb-8 lg:mb-12">
                 <span className="text-primary font-semibold text-sm uppercase tracking-wider">
-                  Formación Académica
+                  {t('about.credentialsEyebrow')}
                 </span>
                 <h2 className="font-display text-2xl md:text-3xl lg:text-4xl font-bold text-foreground mt-2">
-                  Credenciales y Educación
+                  {t('about.credentialsTitle')}
                 </h2>
               </div>
             </ScrollAnimated>
 
             <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
-              {credentials.map((credential: Credential, index) => (
+              {credentials.map((credential, index) => (
                 <ScrollAnimated
                   key={index}
                   animation="scale-in"
@@ -222,7 +141,9 @@ export const AboutSection = () => {
                       <div className="absolute -top-3 -right-3 z-10">
                         <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-full gradient-cta text-white text-xs font-bold shadow-lg border-2 border-accent-foreground/20">
                           <Clock className="w-3 h-3" />
-                          <span>{credential.inProgressText}</span>
+                          {credential.inProgressText && (
+                            <span>{t(credential.inProgressText)}</span>
+                          )}
                         </div>
                       </div>
                     )}
@@ -240,17 +161,15 @@ export const AboutSection = () => {
                       <credential.icon className="w-7 h-7 text-primary-foreground" />
                     </div>
                     <h3 className="font-display font-bold text-lg text-foreground mb-2">
-                      {credential.title}
+                      {t(`${credential.messages}.title`)}
                     </h3>
                     <p className="text-muted-foreground leading-relaxed mb-2">
-                      {credential.description}
+                      {t(`${credential.messages}.description`)}
                     </p>
                     {/* Beneficio para el paciente */}
-                    {'benefit' in credential && credential.benefit && (
-                      <p className="text-xs font-semibold text-primary bg-primary/10 px-2 py-1 rounded-full inline-block">
-                        → {credential.benefit}
-                      </p>
-                    )}
+                    <p className="text-xs font-semibold text-primary bg-primary/10 px-2 py-1 rounded-full inline-block">
+                      → {t(`${credential.messages}.benefit`)}
+                    </p>
 
                     {/* Indicador adicional si está en curso */}
                     {credential.inProgress && (
@@ -258,7 +177,7 @@ export const AboutSection = () => {
                         <div className="flex items-center gap-2 text-sm">
                           <div className="w-2 h-2 rounded-full bg-accent animate-pulse" />
                           <span className="text-muted-foreground font-medium">
-                            Formación continua
+                            {t('about.continuingEducation')}
                           </span>
                         </div>
                       </div>
@@ -274,7 +193,7 @@ export const AboutSection = () => {
         <ScrollAnimated animation="fade-up" delay={200}>
           <div className="mt-8 flex flex-wrap items-center justify-center gap-3">
             <span className="text-sm text-muted-foreground font-medium">
-              Idiomas:
+              {t('about.languagesLabel')}
             </span>
             {languages.map((language, index) => (
               <div
@@ -283,10 +202,10 @@ export const AboutSection = () => {
               >
                 <span className="text-lg">{language.flag}</span>
                 <span className="font-medium text-foreground">
-                  {language.name}
+                  {t(language.name)}
                 </span>
                 <span className="text-xs text-muted-foreground">
-                  • {language.level}
+                  • {t(language.level)}
                 </span>
               </div>
             ))}
@@ -0,0 +1,281 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  Activity,
+  ChevronDown,
+  ChevronUp,
+  Download,
+  Trash2,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getGA4Payload, getMetaPayloads } from '@/lib/analytics-destinations';
+import {
+  clearAnalyticsDebugEntries,
+  getAnalyticsDebugEntries,
+  isAnalyticsDebugEnabled,
+  subscribeToAnalyticsDebug,
+  type AnalyticsDebugEntry,
+  type DestinationStatus,
+} from '@/lib/analytics-debug';
+import { cn } from '@/lib/utils';
+
+const ALL_EVENTS = '__all__';
+
+const STATUS_STYLES: Record<DestinationStatus, string> = {
+  sent: 'bg-green-100 text-green-800 border-green-300',
+  queued: 'bg-blue-100 text-blue-800 border-blue-300',
+  disabled: 'bg-muted text-muted-foreground border-border',
+  failed: 'bg-red-100 text-red-800 border-red-300',
+  filtered: 'bg-muted text-muted-foreground border-border line-through',
+};
+
+const STATUS_LABELS: Record<DestinationStatus, string> = {
+  sent: 'enviado',
+  queued: 'en cola',
+  disabled: 'deshabilitado (dev o sin consentimiento)',
+  failed: 'falló',
+  filtered: 'no aplica a este destino',
+};
+
+const formatMs = (ms: number) => `${(ms / 1000).toFixed(2)} s`;
+
+/** Lo que recibiría cada destino, para el detalle y la exportación */
+const describeEntry = (entry: AnalyticsDebugEntry) => ({
+  id: entry.event.id,
+  name: entry.event.name,
+  params: entry.event.params,
+  page: entry.event.page,
+  timestamp: new Date(entry.event.timestamp).toISOString(),
+  dispatchedAtMs: Math.round(entry.dispatchedAt),
+  destinations: entry.destinations.map(({ id, status, sentAt }) => ({
+    id,
+    status,
+    ...(sentAt !== undefined && { sentAtMs: Math.round(sentAt) }),
+  })),
+  ga4: getGA4Payload(entry.event),
+  meta: getMetaPayloads(entry.event),
+  utm: entry.event.utm,
+  attribution: entry.event.attribution,
+  conversion: entry.event.conversion,
+});
+
+const exportEntries = (entries: AnalyticsDebugEntry[]) => {
+  const blob = new Blob([JSON.stringify(entries.map(describeEntry), null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `analytics-debug-${new Date().toISOString()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Overlay de depuración de analítica - Solo visible en desarrollo
+ * Se activa con `?analytics_debug=1` (lib/analytics-debug.ts) y lista cada
+ * evento con sus parámetros, lo que recibiría cada destino, UTM y atribución,
+ * y los tiempos de despacho y envío
+ */
+export const AnalyticsDebugOverlay = () => {
+  const entries = useSyncExternalStore(
+    subscribeToAnalyticsDebug,
+    getAnalyticsDebugEntries,
+    getAnalyticsDebugEntries,
+  );
+  const [collapsed, setCollapsed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [eventName, setEventName] = useState(ALL_EVENTS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const eventNames = useMemo(
+    () => [...new Set(entries.map((entry) => entry.event.name))].sort(),
+    [entries],
+  );
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries
+      .filter(
+        (entry) =>
+          (eventName === ALL_EVENTS || entry.event.name === eventName) &&
+          (!needle ||
+            JSON.stringify(describeEntry(entry))
+              .toLowerCase()
+              .includes(needle)),
+      )
+      .reverse();
+  }, [entries, eventName, query]);
+
+  if (!isAnalyticsDebugEnabled()) {
+    return null;
+  }
+
+  return (
+    <Card className="fixed bottom-4 left-4 w-[28rem] max-w-[calc(100vw-2rem)] z-50 shadow-lg border-2 border-blue-500">
+      <CardHeader className="bg-blue-50 py-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-blue-800 text-base">
+            <Activity className="w-5 h-5" />
+            Analytics Debug (Dev Only)
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => exportEntries(filtered)}
+              disabled={filtered.length === 0}
+              aria-label="Exportar JSON"
+              title="Exportar JSON"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={clearAnalyticsDebugEntries}
+              aria-label="Limpiar"
+              title="Limpiar"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setCollapsed((current) => !current)}
+              aria-label={collapsed ? 'Expandir' : 'Contraer'}
+            >
+              {collapsed ? (
+                <ChevronUp className="w-4 h-4" />
+              ) : (
+                <ChevronDown className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+        </div>
+        <CardDescription className="text-blue-700">
+          {entries.length} eventos · desactivar con ?analytics_debug=0
+        </CardDescription>
+      </CardHeader>
+      {!collapsed && (
+        <CardContent className="pt-3 space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filtrar (parámetros, destino, UTM...)"
+              className="h-9"
+            />
+            <Select value={eventName} onValueChange={setEventName}>
+              <SelectTrigger className="h-9 w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_EVENTS}>Todos los eventos</SelectItem>
+                {eventNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ScrollArea className="h-80">
+            {filtered.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                Sin eventos
+              </p>
+            ) : (
+              <ul className="space-y-2 pr-3">
+                {filtered.map((entry) => {
+                  const expanded = expandedId === entry.event.id;
+                  return (
+                    <li
+                      key={entry.event.id}
+                      className="rounded-md border border-border p-2 text-xs"
+                    >
+                      <button
+                        type="button"
+                        className="w-full text-left"
+                        onClick={() =>
+                          setExpandedId(expanded ? null : entry.event.id)
+                        }
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-mono font-semibold text-foreground">
+                            {entry.event.name}
+                            {entry.event.conversion && (
+                              <span className="ml-1 text-green-700">★</span>
+                            )}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {formatMs(entry.dispatchedAt)}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {entry.destinations.map((destination) => (
+                            <Badge
+                              key={destination.id}
+                              variant="outline"
+                              className={cn(
+                                'font-mono text-[10px] px-1.5 py-0',
+                                STATUS_STYLES[destination.status],
+                              )}
+                              title={`${STATUS_LABELS[destination.status]}${
+                                destination.sentAt !== undefined
+                                  ? ` en ${formatMs(destination.sentAt)}`
+                                  : ''
+                              }`}
+                            >
+                              {destination.id}
+                            </Badge>
+                          ))}
+                        </div>
+                      </button>
+                      {expanded && (
+                        <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-2 font-mono text-[10px] leading-snug">
+                          {JSON.stringify(describeEntry(entry), null, 2)}
+                        </pre>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <div className="pt-2 border-t text-xs text-muted-foreground space-y-1">
+            <p>
+              <span className="text-green-700">★</span> conversión (se reenvía
+              desde el servidor con atribución)
+            </p>
+            <p>
+              Verde: enviado · azul: en cola · gris: deshabilitado en dev o sin
+              consentimiento · tachado: no aplica
+            </p>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,399 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  DOCTORALIA_ADDRESSES,
+  localizeAddress,
+} from '@/lib/doctoralia-addresses';
+import {
+  createAppointmentRequestSchema,
+  getBookingProvider,
+  TIME_PREFERENCES,
+  type AppointmentRequest,
+  type BookingProvider,
+  type BookingResult,
+} from '@/lib/booking';
+import { track } from '@/lib/analytics';
+
+const FORM_NAME = 'Appointment Request';
+
+interface AppointmentRequestFormProps {
+  /** Servicio preseleccionado (p. ej. desde /servicios/:slug) */
+  defaultService?: string;
+  /** addressId preseleccionado (p. ej. desde /consultorio/:slug) */
+  defaultLocationId?: string;
+  /** Proveedor de envío; por defecto el configurado por entorno */
+  provider?: BookingProvider;
+}
+
+export const AppointmentRequestForm = ({
+  defaultService = '',
+  defaultLocationId = '',
+  provider,
+}: AppointmentRequestFormProps) => {
+  const { locale, t, localizePath } = useTranslation();
+  const { specialties } = useContent();
+  const unsureService = t('booking.form.unsureService');
+  const bookingProvider = useMemo(
+    () => provider ?? getBookingProvider(locale),
+    [provider, locale],
+  );
+  const schema = useMemo(
+    () => createAppointmentRequestSchema(locale),
+    [locale],
+  );
+  const [result, setResult] = useState<BookingResult | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const hasStarted = useRef(false);
+
+  const form = useForm<AppointmentRequest>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      locationId: defaultLocationId,
+      service: defaultService,
+      firstDate: '',
+      secondDate: '',
+      timePreference: 'any',
+      name: '',
+      phone: '',
+      email: '',
+      notes: '',
+      privacyConsent: false,
+    },
+  });
+
+  // GA4: registrar el inicio del formulario una sola vez (primer foco)
+  const handleFormFocus = () => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      track('form_interaction', { form_name: FORM_NAME, action: 'start' });
+    }
+  };
+
+  const onSubmit = async (values: AppointmentRequest) => {
+    setSubmitError(null);
+    try {
+      const bookingResult = await bookingProvider.submit(values);
+      track('form_interaction', {
+        form_name: FORM_NAME,
+        action: 'submit',
+        service: values.service,
+      });
+      setResult(bookingResult);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Error desconocido';
+      track('form_interaction', {
+        form_name: FORM_NAME,
+        action: 'error',
+        error_message: message,
+      });
+      setSubmitError(t('booking.form.submitError'));
+    }
+  };
+
+  const onInvalid = () => {
+    track('form_interaction', {
+      form_name: FORM_NAME,
+      action: 'error',
+      error_message: 'validation',
+    });
+  };
+
+  if (result) {
+    return (
+      <div className="text-center py-8" role="status">
+        <CheckCircle className="w-12 h-12 text-primary mx-auto mb-4" />
+        <h4 className="font-display text-xl font-bold text-foreground mb-2">
+          {result.status === 'sent'
+            ? t('booking.result.sentTitle')
+            : t('booking.result.handoffTitle')}
+        </h4>
+        <p className="text-muted-foreground max-w-md mx-auto">
+          {result.status === 'sent'
+            ? t('booking.result.sentDescription')
+            : t('booking.result.handoffDescription')}
+        </p>
+        {result.reference && (
+          <p className="text-sm text-foreground mt-3">
+            {t('booking.result.reference')} <strong>{result.reference}</strong>
+          </p>
+        )}
+        <Button
+          variant="outline"
+          className="mt-6"
+          onClick={() => {
+            form.reset();
+            setResult(null);
+          }}
+        >
+          {t('booking.result.again')}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit, onInvalid)}
+        onFocus={handleFormFocus}
+        className="space-y-5"
+        noValidate
+      >
+        <div className="grid gap-5 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="locationId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.location')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={t('booking.form.locationPlaceholder')}
+                      />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {DOCTORALIA_ADDRESSES.map((address) => (
+                      <SelectItem
+                        key={address.addressId}
+                        value={address.addressId}
+                      >
+                        {localizeAddress(address, locale).name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="service"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.service')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={t('booking.form.servicePlaceholder')}
+                      />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {specialties.map((specialty) => (
+                      <SelectItem key={specialty.slug} value={specialty.title}>
+                        {specialty.title}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={unsureService}>
+                      {unsureService}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="firstDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.firstDate')}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="secondDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.secondDate')}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="timePreference"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>{t('booking.form.timePreference')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(TIME_PREFERENCES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {t(label)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>{t('booking.form.name')}</FormLabel>
+                <FormControl>
+                  <Input autoComplete="name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.phone')}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="tel"
+                    inputMode="tel"
+                    autoComplete="tel"
+                    placeholder="55 1234 5678"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('booking.form.email')}</FormLabel>
+                <FormControl>
+                  <Input type="email" autoComplete="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="notes"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>{t('booking.form.notes')}</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormDescription>{t('booking.form.notesHint')}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="privacyConsent"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start gap-3 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <div className="space-y-1 leading-snug">
+                <FormLabel className="font-normal">
+                  {t('booking.form.privacyConsent')}{' '}
+                  <Link
+                    to={localizePath('/aviso-privacidad')}
+                    className="text-primary hover:underline"
+                  >
+                    {t('legal.privacy')}
+                  </Link>
+                  .
+                </FormLabel>
+                <FormMessage />
+              </div>
+            </FormItem>
+          )}
+        />
+
+        {submitError && (
+          <p className="text-sm font-medium text-destructive" role="alert">
+            {submitError}
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          variant="cta"
+          size="lg"
+          className="w-full"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <Send className="w-5 h-5" />
+          )}
+          {bookingProvider.submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -14,76 +14,23 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-
-// Importar imágenes locales optimizadas con vite-imagetools
-// Generar múltiples tamaños para srcset responsive (400w, 665w, 800w)
-// Aspect ratio 4:3 para mantener consistencia
-
-// CDMX 1 - Múltiples tamaños
-import clinicCdmx1Small from '@/assets/clinics/physioholistic-cdmx.jpeg?w=400&h=300&format=webp';
-import clinicCdmx1Medium from '@/assets/clinics/physioholistic-cdmx.jpeg?w=665&h=499&format=webp';
-import clinicCdmx1Large from '@/assets/clinics/physioholistic-cdmx.jpeg?w=800&h=600&format=webp';
-import clinicCdmx1Fallback from '@/assets/clinics/physioholistic-cdmx.jpeg?w=800&h=600';
-
-// CDMX 2 - Múltiples tamaños
-import clinicCdmx2Small from '@/assets/clinics/physioholistic-cdmx-2.jpeg?w=400&h=300&format=webp';
-import clinicCdmx2Medium from '@/assets/clinics/physioholistic-cdmx-2.jpeg?w=665&h=499&format=webp';
-import clinicCdmx2Large from '@/assets/clinics/physioholistic-cdmx-2.jpeg?w=800&h=600&format=webp';
-import clinicCdmx2Fallback from '@/assets/clinics/physioholistic-cdmx-2.jpeg?w=800&h=600';
-
-// Toluca 1 - Múltiples tamaños
-import clinicToluca1Small from '@/assets/clinics/physioholistic-consultorio-toluca.jpeg?w=400&h=300&format=webp';
-import clinicToluca1Medium from '@/assets/clinics/physioholistic-consultorio-toluca.jpeg?w=665&h=499&format=webp';
-import clinicToluca1Large from '@/assets/clinics/physioholistic-consultorio-toluca.jpeg?w=800&h=600&format=webp';
-import clinicToluca1Fallback from '@/assets/clinics/physioholistic-consultorio-toluca.jpeg?w=800&h=600';
-
-// Toluca 2 - Múltiples tamaños
-import clinicToluca2Small from '@/assets/clinics/physioholistic-consultorio-toluca-calle.jpeg?w=400&h=300&format=webp';
-import clinicToluca2Medium from '@/assets/clinics/physioholistic-consultorio-toluca-calle.jpeg?w=665&h=499&format=webp';
-import clinicToluca2Large from '@/assets/clinics/physioholistic-consultorio-toluca-calle.jpeg?w=800&h=600&format=webp';
-import clinicToluca2Fallback from '@/assets/clinics/physioholistic-consultorio-toluca-calle.jpeg?w=800&h=600';
-
-interface GalleryImage {
-  srcSet: string;
-  fallback: string;
-  alt: string;
-  caption?: string;
-}
-
-// Imágenes del consultorio con srcset responsive para optimización
-// Tamaños: 400w (móvil), 665w (tablet), 800w (desktop)
-const galleryImages: GalleryImage[] = [
-  {
-    srcSet: `${clinicCdmx1Small} 400w, ${clinicCdmx1Medium} 665w, ${clinicCdmx1Large} 800w`,
-    fallback: clinicCdmx1Fallback,
-    alt: 'Consultorio PhysioHolistic CDMX - Sala de tratamiento principal',
-    caption: 'Consultorio CDMX',
-  },
-  {
-    srcSet: `${clinicCdmx2Small} 400w, ${clinicCdmx2Medium} 665w, ${clinicCdmx2Large} 800w`,
-    fallback: clinicCdmx2Fallback,
-    alt: 'Consultorio PhysioHolistic CDMX - Instalaciones',
-    caption: 'Consultorio CDMX',
-  },
-  {
-    srcSet: `${clinicToluca1Small} 400w, ${clinicToluca1Medium} 665w, ${clinicToluca1Large} 800w`,
-    fallback: clinicToluca1Fallback,
-    alt: 'Consultorio PhysioHolistic Metepec - Sala de tratamiento',
-    caption: 'Consultorio Metepec',
-  },
-  {
-    srcSet: `${clinicToluca2Small} 400w, ${clinicToluca2Medium} 665w, ${clinicToluca2Large} 800w`,
-    fallback: clinicToluca2Fallback,
-    alt: 'Consultorio PhysioHolistic Metepec - Vista exterior',
-    caption: 'Consultorio Metepec',
-  },
-];
+import type { GalleryImage } from '@/content';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
 
 interface ClinicGalleryProps {
   compact?: boolean;
+  /** Imágenes a mostrar (por defecto, todas las de src/content/gallery.json) */
+  images?: GalleryImage[];
 }
 
-export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
+export const ClinicGallery = ({
+  compact = false,
+  images,
+}: ClinicGalleryProps) => {
+  const { t } = useTranslation();
+  const { galleryImages } = useContent();
+  const visibleImages = images ?? galleryImages;
   const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
 
   return (
@@ -92,10 +39,11 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
       {!compact && (
         <div className="text-center mb-6">
           <span className="text-primary font-semibold text-sm uppercase tracking-wider">
-            Instalaciones
+            {t('gallery.eyebrow')}
           </span>
           <h3 className="font-display text-xl md:text-2xl font-bold text-foreground mt-2">
-            Conoce Mis <span className="text-primary">Consultorios</span>
+            {t('gallery.titleStart')}{' '}
+            <span className="text-primary">{t('gallery.titleHighlight')}</span>
           </h3>
         </div>
       )}
@@ -108,12 +56,13 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
         className="w-full"
       >
         <CarouselContent className="-ml-2">
-          {galleryImages.map((image, index) => (
+          {visibleImages.map((image, index) => (
             <CarouselItem
               key={index}
               className={`pl-2 ${compact ? 'basis-full' : 'basis-full'}`}
             >
               <div
+                data-behavior="gallery-image"
                 className="group relative aspect-[4/3] rounded-2xl overflow-hidden cursor-pointer shadow-soft hover:shadow-glow transition-all duration-300"
                 onClick={() => setSelectedImage(image)}
                 onKeyDown={(e) => {
@@ -124,7 +73,7 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
                 }}
                 role="button"
                 tabIndex={0}
-                aria-label={`Ver imagen ${index + 1} en tamaño completo`}
+                aria-label={t('gallery.viewImage', { number: index + 1 })}
               >
                 {/* Optimized image with WebP, srcset responsive, and fallback */}
                 <picture>
@@ -136,6 +85,8 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
                   <img
                     src={image.fallback}
                     alt={image.alt}
+                    // Se incluye en sitemap.xml como <image:image>
+                    data-sitemap-image
                     className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
                     loading="lazy"
                     decoding="async"
@@ -171,7 +122,7 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
 
       {/* Mobile swipe hint */}
       <p className="text-center text-xs text-muted-foreground mt-3 sm:hidden">
-        ← Desliza para ver más →
+        {t('gallery.swipeHint')}
       </p>
 
       {/* Decorative element */}
@@ -186,18 +137,21 @@ export const ClinicGallery = ({ compact = false }: ClinicGalleryProps) => {
           {/* DialogTitle for accessibility - visually hidden but accessible to screen readers */}
           <DialogTitle className="sr-only">
             {selectedImage
-              ? `${selectedImage.caption || 'Imagen de galería'} - ${selectedImage.alt}`
-              : 'Visor de imagen'}
+              ? `${selectedImage.caption || t('gallery.imageFallback')} - ${selectedImage.alt}`
+              : t('gallery.viewer')}
           </DialogTitle>
           {/* DialogDescription for accessibility - visually hidden but accessible to screen readers */}
           <DialogDescription className="sr-only">
             {selectedImage
-              ? `Imagen ampliada de ${selectedImage.caption || 'la galería'}. Presiona Escape o haz clic en el botón de cerrar para cerrar el visor.`
-              : 'Visor de imagen ampliada. Presiona Escape o haz clic en el botón de cerrar para cerrar.'}
+              ? t('gallery.enlargedImage', {
+                  caption:
+                    selectedImage.caption || t('gallery.galleryFallback'),
+                })
+              : t('gallery.viewerDescription')}
           </DialogDescription>
           <DialogClose className="absolute top-4 right-4 z-50 w-10 h-10 rounded-full bg-black/50 backdrop-blur-sm flex items-center justify-center text-white hover:bg-black/70 transition-colors">
             <X className="w-5 h-5" />
-            <span className="sr-only">Cerrar visor de imagen</span>
+            <span className="sr-only">{t('gallery.close')}</span>
           </DialogClose>
           {selectedImage && (
             <div className="relative rounded-2xl overflow-hidden bg-black">
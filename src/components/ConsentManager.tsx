@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Cookie } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { useConsent } from '@/hooks/use-consent';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  CONSENT_CATEGORIES,
+  getConsent,
+  onOpenConsentPreferences,
+  type ConsentChoices,
+} from '@/lib/consent';
+
+const NO_CHOICES: ConsentChoices = {
+  analytics: false,
+  marketing: false,
+  errors: false,
+};
+
+/**
+ * Banner de cookies (mientras no haya decisión) y diálogo de preferencias por
+ * categoría. Se monta en Layout solo en el cliente; el diálogo también se abre
+ * con openConsentPreferences() (Footer, aviso de privacidad).
+ */
+export const ConsentManager = () => {
+  const { t, localizePath } = useTranslation();
+  const { consent, save, acceptAll, rejectAll } = useConsent();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [choices, setChoices] = useState<ConsentChoices>(NO_CHOICES);
+
+  const openDialog = useCallback(() => {
+    setChoices(getConsent()?.choices ?? NO_CHOICES);
+    setDialogOpen(true);
+  }, []);
+
+  useEffect(() => onOpenConsentPreferences(openDialog), [openDialog]);
+
+  const handleSave = () => {
+    save(choices);
+    setDialogOpen(false);
+  };
+
+  return (
+    <>
+      {!consent && !dialogOpen && (
+        <div
+          role="region"
+          aria-label={t('consent.banner.label')}
+          className="fixed inset-x-0 bottom-0 z-[60] p-4 lg:p-6"
+        >
+          <div className="container mx-auto max-w-4xl bg-card rounded-2xl shadow-lg border border-border p-5 lg:p-6 flex flex-col lg:flex-row lg:items-center gap-4">
+            <div className="flex items-start gap-3 flex-1">
+              <Cookie className="w-6 h-6 text-primary shrink-0 mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                {t('consent.banner.text')}{' '}
+                <Link
+                  to={localizePath('/aviso-privacidad')}
+                  className="text-primary hover:underline"
+                >
+                  {t('legal.privacy')}
+                </Link>
+              </p>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 shrink-0">
+              <Button variant="ghost" size="sm" onClick={openDialog}>
+                {t('consent.customize')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={rejectAll}>
+                {t('consent.rejectAll')}
+              </Button>
+              <Button size="sm" onClick={acceptAll}>
+                {t('consent.acceptAll')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('consent.dialog.title')}</DialogTitle>
+            <DialogDescription>
+              {t('consent.dialog.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-semibold text-foreground">
+                  {t('consent.categories.necessary.title')}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {t('consent.categories.necessary.description')}
+                </p>
+              </div>
+              <Switch
+                checked
+                disabled
+                aria-label={t('consent.categories.necessary.title')}
+              />
+            </div>
+            {CONSENT_CATEGORIES.map((category) => (
+              <div
+                key={category}
+                className="flex items-start justify-between gap-4"
+              >
+                <div>
+                  <p className="font-semibold text-foreground">
+                    {t(`consent.categories.${category}.title`)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {t(`consent.categories.${category}.description`)}
+                  </p>
+                </div>
+                <Switch
+                  checked={choices[category]}
+                  onCheckedChange={(checked) =>
+                    setChoices((current) => ({
+                      ...current,
+                      [category]: checked,
+                    }))
+                  }
+                  aria-label={t(`consent.categories.${category}.title`)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={handleSave}>
+              {t('consent.dialog.save')}
+            </Button>
+            <Button
+              onClick={() => {
+                acceptAll();
+                setDialogOpen(false);
+              }}
+            >
+              {t('consent.acceptAll')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
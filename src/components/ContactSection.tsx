@@ -10,101 +10,80 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { LazyMapIframe } from './LazyMapIframe';
 import { ScrollAnimated } from './ScrollAnimated';
-import {
-  trackPhoneClick,
-  trackWhatsAppClick,
-  trackExternalLink,
-  trackEvent,
-} from '@/lib/analytics';
+import { track } from '@/lib/analytics';
 import {
   getPhysicalAddresses,
   getAllAddresses,
+  getGoogleMapsEmbedUrl,
+  localizeAddress,
 } from '@/lib/doctoralia-addresses';
-import { useEffect, useRef } from 'react';
+import { formatWeeklySchedule } from '@/lib/opening-hours';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import { OpeningStatusBadge } from './OpeningStatusBadge';
+import { AppointmentRequestForm } from './AppointmentRequestForm';
+import { useEffect, useMemo, useRef } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Locale } from '@/lib/i18n';
+import { siteConfig } from '@/lib/site-config';
 
 // Obtener direcciones físicas desde la configuración centralizada
 const physicalAddresses = getPhysicalAddresses();
 
-// Función para generar URL de embed de Google Maps correctamente
-const generateGoogleMapsEmbedUrl = (lat: number, lng: number): string => {
-  // Usar el formato de búsqueda con output=embed que funciona sin API key
-  // Cada ubicación tendrá su propia URL única basada en sus coordenadas
-  return `https://www.google.com/maps?q=${lat},${lng}&output=embed&hl=es&z=15`;
-};
-
 // Mapear a formato compatible con el componente existente
-const locations = physicalAddresses.map((addr) => ({
-  name: addr.name,
-  address: addr.address,
-  mapUrl:
-    addr.mapUrl ||
-    `https://www.google.com/maps?q=${addr.coordinates?.lat},${addr.coordinates?.lng}`,
-  embedUrl: addr.coordinates
-    ? generateGoogleMapsEmbedUrl(addr.coordinates.lat, addr.coordinates.lng)
-    : '',
-}));
-
-const contactMethods = [
-  {
-    icon: Phone,
-    label: 'Teléfono',
-    value: '+52 55 6505 3202',
-    href: 'tel:+525565053202',
-    description: 'Llama para agendar tu cita',
-  },
-  {
-    icon: MessageCircle,
-    label: 'WhatsApp',
-    value: '+52 55 6505 3202',
-    href: 'https://wa.me/525565053202',
-    description: 'Escríbeme por WhatsApp',
-  },
-  {
-    icon: Calendar,
-    label: 'Doctoralia',
-    value: 'Reservar en línea',
-    href: 'https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec',
-    description: 'Agenda tu cita online',
-  },
-];
-
-// Genera el schema ContactPage para SEO
-const generateContactPageSchema = () => ({
-  '@context': 'https://schema.org',
-  '@type': 'ContactPage',
-  name: 'Contacto - FisioAnalaura',
-  description:
-    'Agenda tu cita de fisioterapia en CDMX o Metepec. Consultorios en Iztapalapa y Metepec. Reserva en línea o por teléfono.',
-  url: 'https://fisio-movimiento.com/#contacto',
-  mainEntity: {
-    '@type': 'Organization',
-    '@id': 'https://fisio-movimiento.com/#organization',
-    name: 'Fisioterapia Analaura Reyes Priego',
-    telephone: '+52 55 6505 3202',
-    email: 'fisio-movimiento.mx@gmail.com',
-    address: [
-      {
-        '@type': 'PostalAddress',
-        streetAddress: 'Andres Tutino 25c',
-        addressLocality: 'Iztapalapa',
-        addressRegion: 'CDMX',
-        postalCode: '09360',
-        addressCountry: 'MX',
-      },
-      {
-        '@type': 'PostalAddress',
-        streetAddress: 'Priv. 5 de Mayo 5, San Jerónimo Chicahualco',
-        addressLocality: 'Metepec',
-        addressRegion: 'México',
-        postalCode: '52179',
-        addressCountry: 'MX',
-      },
-    ],
-  },
-});
+const getLocations = (locale: Locale) =>
+  physicalAddresses.map((addr) => {
+    const { name, address } = localizeAddress(addr, locale);
+    return {
+      slug: addr.slug,
+      name,
+      schedule: addr.schedule,
+      address,
+      mapUrl:
+        addr.mapUrl ||
+        `https://www.google.com/maps?q=${addr.coordinates?.lat},${addr.coordinates?.lng}`,
+      embedUrl: addr.coordinates
+        ? getGoogleMapsEmbedUrl(addr.coordinates.lat, addr.coordinates.lng)
+        : '',
+      whatsapp: buildWhatsAppLink({
+        intent: 'booking',
+        location: addr.slug,
+        locale,
+      }),
+    };
+  });
 
 export const ContactSection = () => {
   const agendaRef = useRef<HTMLDivElement>(null);
+  const { locale, t, localizePath } = useTranslation();
+
+  const locations = useMemo(() => getLocations(locale), [locale]);
+  const contactWhatsApp = useMemo(
+    () => buildWhatsAppLink({ intent: 'general', locale }),
+    [locale],
+  );
+  const contactMethods = [
+    {
+      icon: Phone,
+      label: t('contact.methods.phone.label'),
+      value: siteConfig.phoneDisplay,
+      href: siteConfig.telHref,
+      description: t('contact.methods.phone.description'),
+    },
+    {
+      icon: MessageCircle,
+      label: t('common.whatsapp'),
+      value: siteConfig.phoneDisplay,
+      href: contactWhatsApp.href,
+      description: t('contact.methods.whatsapp.description'),
+    },
+    {
+      icon: Calendar,
+      label: 'Doctoralia',
+      value: t('contact.methods.doctoralia.value'),
+      href: siteConfig.doctoraliaUrl,
+      description: t('contact.methods.doctoralia.description'),
+    },
+  ];
 
   // GA4: registrar (una sola vez) cuando el usuario llega al calendario de
   // Doctoralia. Al ser un iframe cross-origin no podemos detectar clicks
@@ -115,7 +94,7 @@ export const ContactSection = () => {
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0]?.isIntersecting) {
-          trackEvent('agenda_view', { location: 'Contact Section' });
+          track('agenda_view', { location: 'Contact Section' });
           observer.disconnect();
         }
       },
@@ -125,24 +104,6 @@ export const ContactSection = () => {
     return () => observer.disconnect();
   }, []);
 
-  // Inyectar schema ContactPage para SEO
-  useEffect(() => {
-    const existingScript = document.querySelector(
-      'script[data-contact-page-schema]',
-    );
-    if (!existingScript) {
-      const script = document.createElement('script');
-      script.type = 'application/ld+json';
-      script.setAttribute('data-contact-page-schema', 'true');
-      script.textContent = JSON.stringify(generateContactPageSchema());
-      document.head.appendChild(script);
-    }
-    return () => {
-      const script = document.querySelector('script[data-contact-page-schema]');
-      if (script) script.remove();
-    };
-  }, []);
-
   return (
     <section id="contacto" className="py-12 lg:py-24 bg-background">
       <div className="container mx-auto px-4">
@@ -150,13 +111,16 @@ export const ContactSection = () => {
         <ScrollAnimated animation="fade-up" delay={0}>
           <div className="text-center mb-6 lg:mb-16">
             <span className="text-primary font-semibold text-xs lg:text-sm uppercase tracking-wider">
-              Contacto
+              {t('contact.eyebrow')}
             </span>
             <h2 className="font-display text-2xl lg:text-5xl font-bold text-foreground mt-1 lg:mt-2">
-              Agenda tu <span className="text-primary">Cita</span>
+              {t('contact.titleStart')}{' '}
+              <span className="text-primary">
+                {t('contact.titleHighlight')}
+              </span>
             </h2>
             <p className="text-base lg:text-lg text-muted-foreground mt-2 lg:mt-4 max-w-2xl mx-auto">
-              Reserva en menos de 1 minuto. Elige tu consultorio, fecha y hora.
+              {t('contact.subtitle')}
             </p>
             {/* Próxima disponibilidad destacada */}
             {/*  <div className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-accent/10 border border-accent/20 animate-pulse-soft">
@@ -173,9 +137,12 @@ export const ContactSection = () => {
           <ScrollAnimated animation="fade-up" delay={100}>
             <div className="grid grid-cols-3 gap-2">
               <a
-                href="tel:+525565053202"
+                href={siteConfig.telHref}
                 onClick={() =>
-                  trackPhoneClick('+525565053202', 'Contact Section Mobile')
+                  track('phone_click', {
+                    phone_number: siteConfig.phone,
+                    location: 'Contact Section Mobile',
+                  })
                 }
                 className="flex flex-col items-center gap-1.5 p-3 rounded-xl bg-card border border-border/50 hover:border-primary/30 transition-all duration-200 active:scale-95"
               >
@@ -183,18 +150,15 @@ export const ContactSection = () => {
                   <Phone className="w-5 h-5 text-primary-foreground" />
                 </div>
                 <span className="text-xs font-semibold text-foreground">
-                  Llamar
+                  {t('contact.call')}
                 </span>
               </a>
               <a
-                href="https://wa.me/525565053202"
+                href={contactWhatsApp.href}
                 target="_blank"
                 rel="noopener noreferrer nofollow"
                 onClick={() =>
-                  trackWhatsAppClick(
-                    'Contact Section Mobile',
-                    'Contact Section',
-                  )
+                  trackWhatsAppLink(contactWhatsApp, 'Contact Section Mobile')
                 }
                 className="flex flex-col items-center gap-1.5 p-3 rounded-xl bg-card border border-border/50 hover:border-primary/30 transition-all duration-200 active:scale-95"
               >
@@ -202,18 +166,18 @@ export const ContactSection = () => {
                   <MessageCircle className="w-5 h-5 text-white" />
                 </div>
                 <span className="text-xs font-semibold text-foreground">
-                  WhatsApp
+                  {t('common.whatsapp')}
                 </span>
               </a>
               <a
-                href="https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec"
+                href={siteConfig.doctoraliaUrl}
                 target="_blank"
                 rel="noopener noreferrer nofollow"
                 onClick={() =>
-                  trackExternalLink(
-                    'https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec',
-                    'Doctoralia Mobile',
-                  )
+                  track('external_link_click', {
+                    link_url: siteConfig.doctoraliaUrl,
+                    link_text: 'Doctoralia Mobile',
+                  })
                 }
                 className="flex flex-col items-center gap-1.5 p-3 rounded-xl bg-card border border-border/50 hover:border-primary/30 transition-all duration-200 active:scale-95"
               >
@@ -221,7 +185,7 @@ export const ContactSection = () => {
                   <Calendar className="w-5 h-5 text-white" />
                 </div>
                 <span className="text-xs font-semibold text-foreground">
-                  Reservar
+                  {t('contact.book')}
                 </span>
               </a>
             </div>
@@ -276,7 +240,7 @@ export const ContactSection = () => {
               {/* Columna izquierda: Instrucciones simplificadas */}
               <div className="bg-card rounded-2xl p-4 md:p-6 lg:p-8 shadow-soft border border-border/50">
                 <h5 className="font-semibold text-foreground mb-4 text-center lg:text-left text-lg md:text-xl">
-                  Reserva en 3 pasos simples:
+                  {t('contact.steps.title')}
                 </h5>
                 <div className="space-y-3">
                   <div className="flex items-start gap-4 p-4 rounded-lg bg-background/50 border border-border/30">
@@ -285,31 +249,32 @@ export const ContactSection = () => {
                     </div>
                     <div className="flex-1">
                       <p className="font-semibold text-foreground mb-2">
-                        Selecciona el consultorio
+                        {t('contact.steps.clinicTitle')}
                       </p>
                       <p className="text-sm text-muted-foreground mb-3">
-                        En el calendario de la derecha, selecciona uno de estos
-                        consultorios en el selector de ubicaciones:
+                        {t('contact.steps.clinicDescription')}
                       </p>
                       <ul className="space-y-2 text-sm text-muted-foreground ml-4">
-                        {getAllAddresses().map((address) => (
-                          <li
-                            key={address.addressId}
-                            className="flex items-start gap-2"
-                          >
-                            <span className="text-primary mt-1">•</span>
-                            <div>
-                              <span className="font-medium text-foreground">
-                                {address.name}
-                              </span>
-                              {!address.isOnline && (
-                                <span className="block text-xs mt-0.5">
-                                  {address.address}
+                        {getAllAddresses()
+                          .map((address) => localizeAddress(address, locale))
+                          .map((address) => (
+                            <li
+                              key={address.addressId}
+                              className="flex items-start gap-2"
+                            >
+                              <span className="text-primary mt-1">•</span>
+                              <div>
+                                <span className="font-medium text-foreground">
+                                  {address.name}
                                 </span>
-                              )}
-                            </div>
-                          </li>
-                        ))}
+                                {!address.isOnline && (
+                                  <span className="block text-xs mt-0.5">
+                                    {address.address}
+                                  </span>
+                                )}
+                              </div>
+                            </li>
+                          ))}
                       </ul>
                     </div>
                   </div>
@@ -319,10 +284,9 @@ export const ContactSection = () => {
                     </div>
                     <div className="flex-1">
                       <p className="font-medium text-foreground text-sm">
-                        Selecciona el día y la hora{' '}
+                        {t('contact.steps.dateTitle')}{' '}
                         <span className="text-muted-foreground">
-                          que mejor se adapte a tu agenda del calendario
-                          disponible.
+                          {t('contact.steps.dateDescription')}
                         </span>
                       </p>
                     </div>
@@ -333,9 +297,9 @@ export const ContactSection = () => {
                       3
                     </div>
                     <p className="font-medium text-foreground text-sm">
-                      ¡Confirma y listo!{' '}
+                      {t('contact.steps.confirmTitle')}{' '}
                       <span className="text-muted-foreground">
-                        Recibirás recordatorio
+                        {t('contact.steps.confirmDescription')}
                       </span>
                     </p>
                   </div>
@@ -345,19 +309,19 @@ export const ContactSection = () => {
                 <div className="mt-6">
                   <Button size="lg" className="w-full" asChild>
                     <a
-                      href="https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec"
+                      href={siteConfig.doctoraliaUrl}
                       target="_blank"
                       rel="noopener noreferrer nofollow"
                       className="inline-flex items-center gap-2"
                       onClick={() =>
-                        trackExternalLink(
-                          'https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec',
-                          'Abrir en Doctoralia',
-                        )
+                        track('external_link_click', {
+                          link_url: siteConfig.doctoraliaUrl,
+                          link_text: 'Abrir en Doctoralia',
+                        })
                       }
                     >
                       <Calendar className="w-5 h-5" />
-                      Abrir en Doctoralia
+                      {t('contact.openDoctoralia')}
                       <ExternalLink className="w-4 h-4" />
                     </a>
                   </Button>
@@ -367,28 +331,31 @@ export const ContactSection = () => {
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
                   <Button variant="outline" className="w-full" asChild>
                     <a
-                      href="tel:+525565053202"
+                      href={siteConfig.telHref}
                       className="inline-flex items-center gap-2"
                       onClick={() =>
-                        trackPhoneClick('+525565053202', 'Contact Section')
+                        track('phone_click', {
+                          phone_number: siteConfig.phone,
+                          location: 'Contact Section',
+                        })
                       }
                     >
                       <Phone className="w-4 h-4" />
-                      Llamar ahora
+                      {t('nav.callNow')}
                     </a>
                   </Button>
                   <Button variant="outline" className="w-full" asChild>
                     <a
-                      href="https://wa.me/525565053202"
+                      href={contactWhatsApp.href}
                       target="_blank"
                       rel="noopener noreferrer nofollow"
                       className="inline-flex items-center gap-2"
                       onClick={() =>
-                        trackWhatsAppClick('Contact Section', 'Contact Section')
+                        trackWhatsAppLink(contactWhatsApp, 'Contact Section')
                       }
                     >
                       <MessageCircle className="w-4 h-4" />
-                      WhatsApp
+                      {t('common.whatsapp')}
                     </a>
                   </Button>
                 </div>
@@ -401,11 +368,10 @@ export const ContactSection = () => {
                     <Calendar className="w-6 h-6 text-primary-foreground" />
                   </div>
                   <h5 className="font-semibold text-foreground mb-2 text-lg">
-                    Calendario de Disponibilidad
+                    {t('contact.calendar.title')}
                   </h5>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Selecciona el consultorio y elige la fecha y hora que
-                    prefieras directamente en el calendario
+                    {t('contact.calendar.description')}
                   </p>
                 </div>
 
@@ -414,7 +380,7 @@ export const ContactSection = () => {
                   <iframe
                     src="https://www.doctoralia.com.mx/ajax/marketing/doctor/widget/big_with_calendar/analaura-reyes-priego?hide_branding=true&saasonly=true"
                     className="w-full"
-                    title="Calendario de reserva de citas con Lic. Analaura Reyes Priego - Fisioterapeuta. Selecciona el consultorio, fecha y hora para agendar tu consulta."
+                    title={t('contact.calendar.iframeTitle')}
                     loading="lazy"
                     style={{
                       height: '600px',
@@ -431,6 +397,24 @@ export const ContactSection = () => {
           </div>
         </ScrollAnimated>
 
+        {/* Solicitud de cita desde el sitio (alternativa al calendario) */}
+        <ScrollAnimated animation="fade-up" delay={200}>
+          <div
+            id="solicitar-cita"
+            className="scroll-mt-24 max-w-3xl mx-auto mb-8 lg:mb-16 bg-card rounded-2xl p-4 md:p-6 lg:p-8 shadow-soft border border-border/50"
+          >
+            <div className="text-center mb-6">
+              <h3 className="font-display text-xl lg:text-2xl font-bold text-foreground">
+                {t('contact.request.title')}
+              </h3>
+              <p className="text-sm lg:text-base text-muted-foreground mt-2">
+                {t('contact.request.description')}
+              </p>
+            </div>
+            <AppointmentRequestForm />
+          </div>
+        </ScrollAnimated>
+
         {/* Locations - Mobile Optimized */}
         <ScrollAnimated animation="fade-up" delay={300}>
           <div className="space-y-4 md:space-y-0 md:grid md:grid-cols-2 md:gap-8">
@@ -445,22 +429,38 @@ export const ContactSection = () => {
                   <LazyMapIframe
                     key={`map-${location.name}-${location.embedUrl}`}
                     src={location.embedUrl}
-                    title={`Mapa interactivo de Google Maps mostrando la ubicación de ${location.name} - ${location.address}`}
+                    title={t('contact.mapTitle', {
+                      name: location.name,
+                      address: location.address,
+                    })}
                     className="h-40 md:h-64"
                   />
 
                   <div className="p-4 md:p-6">
                     <h3 className="font-display text-lg md:text-xl font-bold text-foreground mb-2">
-                      {location.name}
+                      <Link
+                        to={localizePath(`/consultorio/${location.slug}`)}
+                        className="hover:text-primary transition-colors"
+                      >
+                        {location.name}
+                      </Link>
                     </h3>
                     <div className="flex items-start gap-2 text-muted-foreground mb-3 md:mb-4 text-sm">
                       <MapPin className="w-4 h-4 md:w-5 md:h-5 shrink-0 mt-0.5" />
                       <span>{location.address}</span>
                     </div>
 
-                    <div className="flex items-center gap-2 text-muted-foreground mb-4 text-sm">
-                      <Clock className="w-4 h-4 md:w-5 md:h-5" />
-                      <span>Lun - Vie: 9:00 AM - 7:00 PM</span>
+                    <div className="flex items-start gap-2 text-muted-foreground mb-4 text-sm">
+                      <Clock className="w-4 h-4 md:w-5 md:h-5 shrink-0 mt-0.5" />
+                      <div className="flex flex-col gap-0.5">
+                        <span>
+                          {formatWeeklySchedule(location.schedule, locale)}
+                        </span>
+                        <OpeningStatusBadge
+                          schedules={location.schedule}
+                          className="text-xs font-semibold text-foreground"
+                        />
+                      </div>
                     </div>
 
                     {/* Mobile: Compact buttons */}
@@ -472,9 +472,12 @@ export const ContactSection = () => {
                         asChild
                       >
                         <a
-                          href="tel:+525565053202"
+                          href={siteConfig.telHref}
                           onClick={() =>
-                            trackPhoneClick('+525565053202', location.name)
+                            track('phone_click', {
+                              phone_number: siteConfig.phone,
+                              location: location.name,
+                            })
                           }
                         >
                           <Phone className="w-4 h-4" />
@@ -487,14 +490,11 @@ export const ContactSection = () => {
                         asChild
                       >
                         <a
-                          href={`https://wa.me/525565053202?text=Hola,%20me%20gustaría%20agendar%20una%20cita%20en%20${encodeURIComponent(location.name)}`}
+                          href={location.whatsapp.href}
                           target="_blank"
                           rel="noopener noreferrer nofollow"
                           onClick={() =>
-                            trackWhatsAppClick(
-                              `Cita en ${location.name}`,
-                              location.name,
-                            )
+                            trackWhatsAppLink(location.whatsapp, location.name)
                           }
                         >
                           <MessageCircle className="w-4 h-4" />
@@ -511,10 +511,10 @@ export const ContactSection = () => {
                           target="_blank"
                           rel="noopener noreferrer nofollow"
                           onClick={() =>
-                            trackExternalLink(
-                              location.mapUrl,
-                              `Ver Mapa - ${location.name}`,
-                            )
+                            track('external_link_click', {
+                              link_url: location.mapUrl,
+                              link_text: `Ver Mapa - ${location.name}`,
+                            })
                           }
                         >
                           <MapPin className="w-4 h-4" />
@@ -526,29 +526,29 @@ export const ContactSection = () => {
                     <div className="hidden md:flex flex-col sm:flex-row gap-3">
                       <Button variant="default" className="flex-1" asChild>
                         <a
-                          href="tel:+525565053202"
+                          href={siteConfig.telHref}
                           onClick={() =>
-                            trackPhoneClick('+525565053202', location.name)
+                            track('phone_click', {
+                              phone_number: siteConfig.phone,
+                              location: location.name,
+                            })
                           }
                         >
                           <Phone className="w-4 h-4" />
-                          Llamar
+                          {t('contact.call')}
                         </a>
                       </Button>
                       <Button variant="cta" className="flex-1" asChild>
                         <a
-                          href={`https://wa.me/525565053202?text=Hola,%20me%20gustaría%20agendar%20una%20cita%20en%20${encodeURIComponent(location.name)}`}
+                          href={location.whatsapp.href}
                           target="_blank"
                           rel="noopener noreferrer nofollow"
                           onClick={() =>
-                            trackWhatsAppClick(
-                              `Cita en ${location.name}`,
-                              location.name,
-                            )
+                            trackWhatsAppLink(location.whatsapp, location.name)
                           }
                         >
                           <MessageCircle className="w-4 h-4" />
-                          WhatsApp
+                          {t('common.whatsapp')}
                         </a>
                       </Button>
                       <Button variant="outline" className="flex-1" asChild>
@@ -557,14 +557,14 @@ export const ContactSection = () => {
                           target="_blank"
                           rel="noopener noreferrer nofollow"
                           onClick={() =>
-                            trackExternalLink(
-                              location.mapUrl,
-                              `Ver Mapa - ${location.name}`,
-                            )
+                            track('external_link_click', {
+                              link_url: location.mapUrl,
+                              link_text: `Ver Mapa - ${location.name}`,
+                            })
                           }
                         >
                           <MapPin className="w-4 h-4" />
-                          Ver Mapa
+                          {t('contact.viewMap')}
                         </a>
                       </Button>
                     </div>
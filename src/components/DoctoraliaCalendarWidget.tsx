@@ -6,8 +6,12 @@ import {
   Phone,
   MessageCircle,
 } from 'lucide-react';
-import { getAllAddresses } from '@/lib/doctoralia-addresses';
+import { useMemo } from 'react';
+import { getAllAddresses, localizeAddress } from '@/lib/doctoralia-addresses';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
 import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-translation';
+import { siteConfig } from '@/lib/site-config';
 
 interface DoctoraliaCalendarWidgetProps {
   className?: string;
@@ -16,11 +20,17 @@ interface DoctoraliaCalendarWidgetProps {
 export const DoctoraliaCalendarWidget = ({
   className = '',
 }: DoctoraliaCalendarWidgetProps) => {
-  const doctoraliaUrl =
-    'https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec';
+  const { locale, t } = useTranslation();
+  const doctoraliaUrl = siteConfig.doctoraliaUrl;
+  const bookingWhatsApp = useMemo(
+    () => buildWhatsAppLink({ intent: 'booking', locale }),
+    [locale],
+  );
 
   // Obtener todas las direcciones dinámicamente
-  const addresses = getAllAddresses();
+  const addresses = getAllAddresses().map((address) =>
+    localizeAddress(address, locale),
+  );
 
   return (
     <div className={`w-full max-w-full ${className}`}>
@@ -30,17 +40,17 @@ export const DoctoraliaCalendarWidget = ({
             <Calendar className="w-8 h-8 text-primary-foreground" />
           </div>
           <h3 className="font-display text-2xl md:text-3xl font-bold text-foreground mb-2">
-            Agenda tu Cita en Línea
+            {t('doctoraliaWidget.title')}
           </h3>
           <p className="text-muted-foreground text-base md:text-lg">
-            Reserva tu cita directamente en Doctoralia en 3 sencillos pasos
+            {t('doctoraliaWidget.subtitle')}
           </p>
         </div>
 
         {/* Instrucciones paso a paso */}
         <div className="mb-6">
           <h5 className="font-semibold text-foreground mb-4 text-center text-lg">
-            Sigue estos pasos para agendar tu cita:
+            {t('doctoraliaWidget.stepsTitle')}
           </h5>
           <div className="space-y-4 max-w-2xl mx-auto">
             <div className="flex items-start gap-4 p-4 rounded-lg bg-background/50 border border-border/30">
@@ -49,11 +59,10 @@ export const DoctoraliaCalendarWidget = ({
               </div>
               <div className="flex-1">
                 <p className="font-semibold text-foreground mb-2">
-                  Selecciona el consultorio
+                  {t('contact.steps.clinicTitle')}
                 </p>
                 <p className="text-sm text-muted-foreground mb-3">
-                  En la página de Doctoralia, asegúrate de seleccionar uno de
-                  estos consultorios en el selector de ubicaciones:
+                  {t('doctoraliaWidget.clinicDescription')}
                 </p>
                 <ul className="space-y-2 text-sm text-muted-foreground ml-4">
                   {addresses.map((address) => (
@@ -84,11 +93,10 @@ export const DoctoraliaCalendarWidget = ({
               </div>
               <div className="flex-1">
                 <p className="font-semibold text-foreground mb-1">
-                  Selecciona el servicio
+                  {t('doctoraliaWidget.serviceTitle')}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Elige el tipo de consulta o tratamiento que necesitas de la
-                  lista de servicios disponibles.
+                  {t('doctoraliaWidget.serviceDescription')}
                 </p>
               </div>
             </div>
@@ -99,11 +107,10 @@ export const DoctoraliaCalendarWidget = ({
               </div>
               <div className="flex-1">
                 <p className="font-semibold text-foreground mb-1">
-                  Elige fecha y hora
+                  {t('doctoraliaWidget.dateTitle')}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Selecciona el día y la hora que mejor se adapte a tu agenda
-                  del calendario disponible.
+                  {t('doctoraliaWidget.dateDescription')}
                 </p>
               </div>
             </div>
@@ -120,7 +127,7 @@ export const DoctoraliaCalendarWidget = ({
               className="inline-flex items-center gap-2"
             >
               <Calendar className="w-5 h-5" />
-              Agendar en Doctoralia
+              {t('doctoraliaWidget.cta')}
               <ExternalLink className="w-4 h-4" />
             </a>
           </Button>
@@ -130,22 +137,25 @@ export const DoctoraliaCalendarWidget = ({
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-md mx-auto mb-6">
           <Button variant="outline" className="w-full" asChild>
             <a
-              href="tel:+525565053202"
+              href={siteConfig.telHref}
               className="inline-flex items-center gap-2"
             >
               <Phone className="w-4 h-4" />
-              Llamar ahora
+              {t('nav.callNow')}
             </a>
           </Button>
           <Button variant="outline" className="w-full" asChild>
             <a
-              href="https://wa.me/525565053202"
+              href={bookingWhatsApp.href}
               target="_blank"
               rel="noopener noreferrer nofollow"
               className="inline-flex items-center gap-2"
+              onClick={() =>
+                trackWhatsAppLink(bookingWhatsApp, 'Doctoralia Widget')
+              }
             >
               <MessageCircle className="w-4 h-4" />
-              WhatsApp
+              {t('common.whatsapp')}
             </a>
           </Button>
         </div>
@@ -153,7 +163,7 @@ export const DoctoraliaCalendarWidget = ({
         {/* Información adicional */}
         <div className="mt-6 text-center">
           <p className="text-sm text-muted-foreground mb-4">
-            ¿Necesitas más información?
+            {t('doctoraliaWidget.moreInfo')}
           </p>
           <a
             href={doctoraliaUrl}
@@ -161,7 +171,7 @@ export const DoctoraliaCalendarWidget = ({
             rel="noopener noreferrer nofollow"
             className="inline-flex items-center gap-2 text-primary hover:text-primary/80 font-medium transition-colors text-sm"
           >
-            Ver perfil completo en Doctoralia
+            {t('doctoraliaWidget.viewProfile')}
             <ExternalLink className="w-4 h-4" />
           </a>
         </div>
@@ -1,7 +1,6 @@
 import { Component, ErrorInfo, ReactNode } from 'react';
 import * as Sentry from '@sentry/react';
-import { AlertTriangle, RefreshCw, Home } from 'lucide-react';
-import { Button } from '@/components/ui/button';
+import { ErrorFallback } from './ErrorFallback';
 
 interface Props {
   children: ReactNode;
@@ -29,8 +28,9 @@ export class ErrorBoundary extends Component<Props, State> {
   public componentDidCatch(error: Error, errorInfo: ErrorInfo) {
     console.error('Error caught by ErrorBoundary:', error, errorInfo);
 
-    // Report to Sentry if configured
-    if (import.meta.env.PROD && import.meta.env.VITE_SENTRY_DSN) {
+    // Report to Sentry if it was initialised (main.tsx). The event carries the
+    // release, dist and environment, so it points to the deploy that broke.
+    if (Sentry.isInitialized()) {
       Sentry.captureException(error, {
         contexts: {
           react: {
@@ -39,6 +39,7 @@ export class ErrorBoundary extends Component<Props, State> {
         },
         tags: {
           errorBoundary: true,
+          app_version: __APP_VERSION__,
         },
       });
     }
@@ -48,10 +49,6 @@ export class ErrorBoundary extends Component<Props, State> {
     this.setState({ hasError: false, error: undefined });
   };
 
-  private handleGoHome = () => {
-    window.location.href = '/';
-  };
-
   public render() {
     if (this.state.hasError) {
       if (this.props.fallback) {
@@ -59,54 +56,7 @@ export class ErrorBoundary extends Component<Props, State> {
       }
 
       return (
-        <div className="min-h-[400px] flex items-center justify-center p-6">
-          <div className="max-w-md w-full text-center">
-            <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mx-auto mb-6">
-              <AlertTriangle className="w-8 h-8 text-destructive" />
-            </div>
-
-            <h2 className="font-display text-2xl font-bold text-foreground mb-2">
-              Algo salió mal
-            </h2>
-
-            <p className="text-muted-foreground mb-6">
-              Lo sentimos, ocurrió un error inesperado. Por favor, intenta de
-              nuevo.
-            </p>
-
-            <div className="flex flex-col sm:flex-row gap-3 justify-center">
-              <Button
-                variant="default"
-                onClick={this.handleRetry}
-                className="gap-2"
-              >
-                <RefreshCw className="w-4 h-4" />
-                Reintentar
-              </Button>
-              <Button
-                variant="outline"
-                onClick={this.handleGoHome}
-                className="gap-2"
-              >
-                <Home className="w-4 h-4" />
-                Ir al inicio
-              </Button>
-            </div>
-
-            {process.env.NODE_ENV === 'development' && this.state.error && (
-              <details className="mt-6 text-left">
-                <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
-                  Detalles del error (desarrollo)
-                </summary>
-                <pre className="mt-2 p-4 bg-secondary rounded-lg text-xs overflow-auto max-h-40">
-                  {this.state.error.message}
-                  {'\n'}
-                  {this.state.error.stack}
-                </pre>
-              </details>
-            )}
-          </div>
-        </div>
+        <ErrorFallback error={this.state.error} onRetry={this.handleRetry} />
       );
     }
 
@@ -0,0 +1,62 @@
+import { AlertTriangle, RefreshCw, Home } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface ErrorFallbackProps {
+  error?: Error;
+  onRetry: () => void;
+}
+
+/**
+ * Pantalla de error de ErrorBoundary. Es un componente de función aparte
+ * para poder usar useTranslation (el boundary es una clase).
+ */
+export const ErrorFallback = ({ error, onRetry }: ErrorFallbackProps) => {
+  const { t, localizePath } = useTranslation();
+
+  return (
+    <div className="min-h-[400px] flex items-center justify-center p-6">
+      <div className="max-w-md w-full text-center">
+        <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mx-auto mb-6">
+          <AlertTriangle className="w-8 h-8 text-destructive" />
+        </div>
+
+        <h2 className="font-display text-2xl font-bold text-foreground mb-2">
+          {t('errors.title')}
+        </h2>
+
+        <p className="text-muted-foreground mb-6">{t('errors.description')}</p>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <Button variant="default" onClick={onRetry} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            {t('errors.retry')}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              window.location.href = localizePath('/');
+            }}
+            className="gap-2"
+          >
+            <Home className="w-4 h-4" />
+            {t('errors.goHome')}
+          </Button>
+        </div>
+
+        {process.env.NODE_ENV === 'development' && error && (
+          <details className="mt-6 text-left">
+            <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
+              {t('errors.details')}
+            </summary>
+            <pre className="mt-2 p-4 bg-secondary rounded-lg text-xs overflow-auto max-h-40">
+              {error.message}
+              {'\n'}
+              {error.stack}
+            </pre>
+          </details>
+        )}
+      </div>
+    </div>
+  );
+};
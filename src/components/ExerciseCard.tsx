@@ -0,0 +1,135 @@
+import { Check, ExternalLink, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Exercise } from '@/content';
+
+/**
+ * Pasos y precauciones de un ejercicio (tarjeta del catálogo y programa
+ * impreso)
+ */
+export const ExerciseInstructions = ({ exercise }: { exercise: Exercise }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h4 className="font-semibold text-foreground mb-2">
+          {t('exercises.howTo')}
+        </h4>
+        <ol className="list-decimal pl-5 space-y-1 text-muted-foreground">
+          {exercise.steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      </div>
+      <div>
+        <h4 className="font-semibold text-foreground mb-2">
+          {t('exercises.precautions')}
+        </h4>
+        <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+          {exercise.contraindications.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface ExerciseCardProps {
+  exercise: Exercise;
+  /** Dosis como texto (la del catálogo) */
+  dosage: string;
+  /** Si el ejercicio ya está en el programa en edición */
+  selected: boolean;
+  /** El programa está lleno: no se pueden agregar más ejercicios */
+  full?: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Tarjeta de un ejercicio en el catálogo (/ejercicios), con el botón para
+ * agregarlo o quitarlo del programa en edición
+ */
+export const ExerciseCard = ({
+  exercise,
+  dosage,
+  selected,
+  full = false,
+  onToggle,
+}: ExerciseCardProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <article className="h-full flex flex-col bg-card rounded-2xl shadow-soft border border-border/50 overflow-hidden">
+      <img
+        src={exercise.image}
+        alt={exercise.name}
+        width={240}
+        height={160}
+        loading="lazy"
+        className="w-full aspect-[3/2] object-contain bg-secondary/40 p-4"
+      />
+      <div className="flex-1 flex flex-col p-6">
+        <div className="flex flex-wrap gap-2 mb-3 text-xs font-semibold uppercase tracking-wider">
+          <span className="text-primary">
+            {t(`exercises.regions.${exercise.region}`)}
+          </span>
+          <span aria-hidden="true" className="text-muted-foreground">
+            ·
+          </span>
+          <span className="text-muted-foreground">
+            {t(`exercises.levels.${exercise.difficulty}`)}
+          </span>
+        </div>
+        <h2 className="font-display text-xl font-bold text-foreground mb-2">
+          {exercise.name}
+        </h2>
+        <p className="text-muted-foreground leading-relaxed mb-3">
+          {exercise.description}
+        </p>
+        <p className="text-sm font-semibold text-foreground mb-3">{dosage}</p>
+        <p className="text-sm text-muted-foreground mb-4">
+          <span className="font-semibold text-foreground">
+            {t('exercises.indicatedFor')}:
+          </span>{' '}
+          {exercise.conditions.join(', ')}
+        </p>
+
+        <details className="mb-6">
+          <summary className="cursor-pointer text-sm font-semibold text-primary hover:underline">
+            {t('exercises.details')}
+          </summary>
+          <div className="mt-4">
+            <ExerciseInstructions exercise={exercise} />
+            {exercise.video && (
+              <a
+                href={exercise.video}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-4 inline-flex items-center gap-1.5 text-sm font-semibold text-primary hover:underline"
+              >
+                <ExternalLink className="w-4 h-4" />
+                {t('exercises.video')}
+              </a>
+            )}
+          </div>
+        </details>
+
+        <Button
+          variant={selected ? 'secondary' : 'outline'}
+          className="mt-auto"
+          disabled={!selected && full}
+          onClick={onToggle}
+        >
+          {selected ? (
+            <Check className="w-4 h-4" />
+          ) : (
+            <Plus className="w-4 h-4" />
+          )}
+          {selected ? t('exercises.remove') : t('exercises.add')}
+        </Button>
+      </div>
+    </article>
+  );
+};
@@ -0,0 +1,289 @@
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Printer, Trash2, X } from 'lucide-react';
+import { ExerciseProgramShare } from '@/components/ExerciseProgramShare';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useTranslation } from '@/hooks/use-translation';
+import { EXERCISE_DOSAGE_LIMITS, type Exercise } from '@/content';
+import { track } from '@/lib/analytics';
+import {
+  EXERCISE_PROGRAM_PATH,
+  PROGRAM_TEXT_LIMITS,
+  normalizeDosage,
+  serializeExerciseProgram,
+  type ExerciseDosage,
+  type ExerciseProgram,
+} from '@/lib/exercise-program';
+import { absoluteUrl } from '@/lib/site-config';
+
+const range = (min: number, max: number, step = 1) =>
+  Array.from(
+    { length: Math.floor((max - min) / step) + 1 },
+    (_, index) => min + index * step,
+  );
+
+// Los segundos se eligen de 5 en 5 (más el valor actual si no es múltiplo)
+const DOSAGE_OPTIONS = {
+  sets: range(EXERCISE_DOSAGE_LIMITS.sets.min, EXERCISE_DOSAGE_LIMITS.sets.max),
+  reps: range(EXERCISE_DOSAGE_LIMITS.reps.min, EXERCISE_DOSAGE_LIMITS.reps.max),
+  holdSeconds: range(
+    EXERCISE_DOSAGE_LIMITS.holdSeconds.min,
+    EXERCISE_DOSAGE_LIMITS.holdSeconds.max,
+    5,
+  ),
+};
+
+const selectClassName =
+  'h-10 w-full rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+interface DosageSelectProps {
+  id: string;
+  label: string;
+  field: keyof typeof DOSAGE_OPTIONS;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const DosageSelect = ({
+  id,
+  label,
+  field,
+  value,
+  onChange,
+}: DosageSelectProps) => {
+  const options = DOSAGE_OPTIONS[field].includes(value)
+    ? DOSAGE_OPTIONS[field]
+    : [...DOSAGE_OPTIONS[field], value].sort((a, b) => a - b);
+
+  return (
+    <div className="flex-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className={selectClassName}
+      >
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+interface ExerciseProgramComposerProps {
+  program: ExerciseProgram;
+  /** Catálogo en el idioma de la página */
+  exercises: Exercise[];
+  onChange: (program: ExerciseProgram) => void;
+}
+
+/**
+ * Editor del programa para casa en /ejercicios: orden y dosis de cada
+ * ejercicio, nombre del paciente e indicaciones. El programa se abre en
+ * /ejercicios/programa para imprimirlo o se comparte como enlace.
+ */
+export const ExerciseProgramComposer = ({
+  program,
+  exercises,
+  onChange,
+}: ExerciseProgramComposerProps) => {
+  const { t, localizePath } = useTranslation();
+  const items = program.exercises.flatMap((item) => {
+    const exercise = exercises.find((entry) => entry.id === item.id);
+    return exercise ? [{ item, exercise }] : [];
+  });
+  const programPath = `${localizePath(EXERCISE_PROGRAM_PATH)}#${serializeExerciseProgram(program)}`;
+  const count = program.exercises.length;
+
+  const updateDosage = (index: number, dosage: Partial<ExerciseDosage>) =>
+    onChange({
+      ...program,
+      exercises: program.exercises.map((item, current) =>
+        current === index
+          ? { id: item.id, ...normalizeDosage(item, { ...item, ...dosage }) }
+          : item,
+      ),
+    });
+
+  const move = (index: number, offset: number) => {
+    const next = [...program.exercises];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange({ ...program, exercises: next });
+  };
+
+  const remove = (index: number) => {
+    onChange({
+      ...program,
+      exercises: program.exercises.filter((_, current) => current !== index),
+    });
+    track('exercise_program', {
+      action: 'remove_exercise',
+      exercise_count: count - 1,
+    });
+  };
+
+  return (
+    <section
+      id="programa"
+      aria-labelledby="programa-title"
+      className="bg-card rounded-2xl p-6 shadow-soft border border-border/50"
+    >
+      <h2
+        id="programa-title"
+        className="font-display text-xl font-bold text-foreground mb-4"
+      >
+        {t('exercises.program.composerTitle')}
+        {count > 0 && (
+          <span className="ml-2 text-base text-muted-foreground">
+            ({count})
+          </span>
+        )}
+      </h2>
+
+      {count === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('exercises.program.composerEmpty')}
+        </p>
+      ) : (
+        <>
+          <ol className="space-y-3 mb-6">
+            {items.map(({ item, exercise }, index) => (
+              <li
+                key={item.id}
+                className="rounded-xl border border-border p-3 space-y-2"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-semibold text-foreground pt-1">
+                    {index + 1}. {exercise.name}
+                  </span>
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`${t('exercises.program.moveUp')}: ${exercise.name}`}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, 1)}
+                      disabled={index === items.length - 1}
+                      aria-label={`${t('exercises.program.moveDown')}: ${exercise.name}`}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label={`${t('exercises.remove')}: ${exercise.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <DosageSelect
+                    id={`sets-${item.id}`}
+                    label={t('exercises.program.sets')}
+                    field="sets"
+                    value={item.sets}
+                    onChange={(sets) => updateDosage(index, { sets })}
+                  />
+                  {item.holdSeconds !== undefined ? (
+                    <DosageSelect
+                      id={`seconds-${item.id}`}
+                      label={t('exercises.program.seconds')}
+                      field="holdSeconds"
+                      value={item.holdSeconds}
+                      onChange={(holdSeconds) =>
+                        updateDosage(index, { holdSeconds })
+                      }
+                    />
+                  ) : (
+                    <DosageSelect
+                      id={`reps-${item.id}`}
+                      label={t('exercises.program.reps')}
+                      field="reps"
+                      value={item.reps ?? 1}
+                      onChange={(reps) => updateDosage(index, { reps })}
+                    />
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="space-y-4 mb-6">
+            <div className="space-y-1.5">
+              <Label htmlFor="program-patient">
+                {t('exercises.program.patient')}
+              </Label>
+              <Input
+                id="program-patient"
+                value={program.patient ?? ''}
+                maxLength={PROGRAM_TEXT_LIMITS.patient}
+                placeholder={t('exercises.program.patientPlaceholder')}
+                autoComplete="off"
+                onChange={(event) =>
+                  onChange({ ...program, patient: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="program-notes">
+                {t('exercises.program.notes')}
+              </Label>
+              <Textarea
+                id="program-notes"
+                value={program.notes ?? ''}
+                maxLength={PROGRAM_TEXT_LIMITS.notes}
+                placeholder={t('exercises.program.notesPlaceholder')}
+                rows={3}
+                onChange={(event) =>
+                  onChange({ ...program, notes: event.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Button variant="hero" asChild>
+              <Link
+                to={programPath}
+                onClick={() =>
+                  track('exercise_program', {
+                    action: 'open',
+                    exercise_count: count,
+                  })
+                }
+              >
+                <Printer className="w-4 h-4" />
+                {t('exercises.program.open')}
+              </Link>
+            </Button>
+            <ExerciseProgramShare
+              url={absoluteUrl(programPath)}
+              exerciseCount={count}
+            />
+            <Button variant="ghost" onClick={() => onChange({ exercises: [] })}>
+              <Trash2 className="w-4 h-4" />
+              {t('exercises.program.clear')}
+            </Button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
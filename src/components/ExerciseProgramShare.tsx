@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Check, Copy, MessageCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-translation';
+import { track } from '@/lib/analytics';
+
+interface ExerciseProgramShareProps {
+  /** URL absoluta del programa (con el fragmento) */
+  url: string;
+  exerciseCount: number;
+}
+
+/**
+ * Copiar el enlace de un programa de ejercicios o enviarlo por WhatsApp (el
+ * paciente elige el contacto en WhatsApp)
+ */
+export const ExerciseProgramShare = ({
+  url,
+  exerciseCount,
+}: ExerciseProgramShareProps) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+  const whatsappHref = `https://wa.me/?text=${encodeURIComponent(
+    `${t('exercises.program.shareText')} ${url}`,
+  )}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      track('exercise_program', {
+        action: 'copy_link',
+        exercise_count: exerciseCount,
+      });
+    } catch (err) {
+      console.error('Error al copiar:', err);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleCopy}>
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        <span aria-live="polite">
+          {copied
+            ? t('exercises.program.copied')
+            : t('exercises.program.copyLink')}
+        </span>
+      </Button>
+      <Button variant="outline" asChild>
+        <a
+          href={whatsappHref}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={() =>
+            track('exercise_program', {
+              action: 'whatsapp',
+              exercise_count: exerciseCount,
+            })
+          }
+        >
+          <MessageCircle className="w-4 h-4" />
+          {t('exercises.program.whatsapp')}
+        </a>
+      </Button>
+    </>
+  );
+};
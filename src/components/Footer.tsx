@@ -1,26 +1,45 @@
+import { Fragment } from 'react';
 import { Phone, MapPin, Instagram, Facebook, Youtube } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { ShareButtons } from './ShareButtons';
+import { useTranslation } from '@/hooks/use-translation';
+import { BLOG_PATH } from '@/lib/blog';
+import { openConsentPreferences } from '@/lib/consent';
+import { EXERCISES_PATH } from '@/lib/exercise-program';
+import { stripLocalePrefix, type MessageKey } from '@/lib/i18n';
+import { siteConfig } from '@/lib/site-config';
+
+// Secciones de la home (`id`) o páginas propias (`path`)
+const navItems: { label: MessageKey; id: string; path?: string }[] = [
+  { label: 'nav.home', id: 'inicio' },
+  { label: 'nav.about', id: 'sobre-mi' },
+  { label: 'nav.services', id: 'servicios' },
+  { label: 'nav.pricing', id: 'precios' },
+  { label: 'nav.reviews', id: 'opiniones' },
+  { label: 'nav.faqs', id: 'faqs' },
+  { label: 'nav.contact', id: 'contacto' },
+  { label: 'nav.blog', id: 'blog', path: BLOG_PATH },
+  { label: 'nav.exercises', id: 'ejercicios', path: EXERCISES_PATH },
+];
+
+const legalLinks: { label: MessageKey; path: string }[] = [
+  { label: 'legal.privacy', path: '/aviso-privacidad' },
+  { label: 'legal.cancellation', path: '/politica-cancelacion' },
+  { label: 'legal.terms', path: '/terminos-condiciones' },
+];
 
 export const Footer = () => {
   const currentYear = new Date().getFullYear();
   const location = useLocation();
-  const isHomePage = location.pathname === '/';
+  const { t, localizePath } = useTranslation();
+  const isHomePage = stripLocalePrefix(location.pathname) === '/';
+  const license = siteConfig.professional.license;
 
-  const navItems = [
-    'Inicio',
-    'Sobre mí',
-    'Servicios',
-    'Precios',
-    'Opiniones',
-    'FAQs',
-    'Contacto',
-  ];
-
-  // Función para generar el href de navegación
-  const getNavHref = (item: string) => {
-    const hash = `#${item.toLowerCase().replace(' ', '-')}`;
-    return isHomePage ? hash : `/${hash}`;
+  // Función para generar el href de navegación (igual que en Navbar)
+  const getNavHref = (item: (typeof navItems)[number]) => {
+    if (item.path) return localizePath(item.path);
+    const hash = `#${item.id}`;
+    return isHomePage ? hash : localizePath(`/${hash}`);
   };
 
   // Función para hacer scroll al top cuando se hace clic en enlaces legales
@@ -39,14 +58,14 @@ export const Footer = () => {
               Fisio<span className="text-primary-light">Analaura</span>
             </span>
             <p className="mt-3 text-sm text-primary-foreground/70 max-w-xs mx-auto">
-              Fisioterapia humana y de calidad para tu bienestar integral.
+              {t('footer.taglineShort')}
             </p>
           </div>
 
           {/* Social Icons - Horizontal centered */}
           <div className="flex justify-center gap-3">
             <a
-              href="https://www.instagram.com/physioholisticmx/"
+              href={siteConfig.social.instagram}
               target="_blank"
               rel="noopener noreferrer nofollow"
               className="w-11 h-11 rounded-full bg-primary-foreground/10 hover:bg-gradient-to-br hover:from-purple-600 hover:to-pink-600 hover:text-white flex items-center justify-center transition-all duration-300 active:scale-95"
@@ -55,7 +74,7 @@ export const Footer = () => {
               <Instagram className="w-5 h-5" />
             </a>
             <a
-              href="https://www.facebook.com/fisio.movimiento.mx"
+              href={siteConfig.social.facebook}
               target="_blank"
               rel="noopener noreferrer nofollow"
               className="w-11 h-11 rounded-full bg-primary-foreground/10 hover:bg-[#1877F2] hover:text-white flex items-center justify-center transition-all duration-300 active:scale-95"
@@ -77,15 +96,15 @@ export const Footer = () => {
           {/* Quick Contact */}
           <div className="flex flex-col items-center gap-3">
             <a
-              href="tel:+525565053202"
+              href={siteConfig.telHref}
               className="inline-flex items-center gap-2 px-4 py-2.5 rounded-full bg-primary-foreground/10 text-primary-foreground/80 text-sm font-medium hover:bg-primary-foreground/20 transition-colors active:scale-95"
             >
               <Phone className="w-4 h-4" />
-              +52 55 6505 3202
+              {siteConfig.phoneDisplay}
             </a>
             <div className="flex items-center gap-2 text-sm text-primary-foreground/60">
               <MapPin className="w-4 h-4" />
-              <span>CDMX • Metepec</span>
+              <span>{t('footer.locationsShort')}</span>
             </div>
           </div>
 
@@ -93,11 +112,11 @@ export const Footer = () => {
           <div className="grid grid-cols-2 gap-2 px-4">
             {navItems.map((item) => (
               <a
-                key={item}
+                key={item.id}
                 href={getNavHref(item)}
                 className="text-sm text-primary-foreground/60 hover:text-white transition-colors py-2 text-center"
               >
-                {item}
+                {t(item.label)}
               </a>
             ))}
           </div>
@@ -108,39 +127,38 @@ export const Footer = () => {
           {/* Legal Links */}
           <div className="text-center space-y-2 pt-4 border-t border-primary-foreground/10">
             <div className="flex flex-wrap justify-center gap-3 text-xs">
-              <Link
-                to="/aviso-privacidad"
-                onClick={handleLegalLinkClick}
-                className="text-primary-foreground/60 hover:text-white transition-colors"
-              >
-                Aviso de Privacidad
-              </Link>
-              <span className="text-primary-foreground/30">•</span>
-              <Link
-                to="/politica-cancelacion"
-                onClick={handleLegalLinkClick}
-                className="text-primary-foreground/60 hover:text-white transition-colors"
-              >
-                Política de Cancelación
-              </Link>
+              {legalLinks.map((link, index) => (
+                <Fragment key={link.path}>
+                  {index > 0 && (
+                    <span className="text-primary-foreground/30">•</span>
+                  )}
+                  <Link
+                    to={localizePath(link.path)}
+                    onClick={handleLegalLinkClick}
+                    className="text-primary-foreground/60 hover:text-white transition-colors"
+                  >
+                    {t(link.label)}
+                  </Link>
+                </Fragment>
+              ))}
               <span className="text-primary-foreground/30">•</span>
-              <Link
-                to="/terminos-condiciones"
-                onClick={handleLegalLinkClick}
+              <button
+                type="button"
+                onClick={openConsentPreferences}
                 className="text-primary-foreground/60 hover:text-white transition-colors"
               >
-                Términos y Condiciones
-              </Link>
+                {t('consent.footerLink')}
+              </button>
             </div>
           </div>
 
           {/* Copyright */}
           <div className="text-center space-y-1 pt-4">
             <p className="text-xs text-primary-foreground/50">
-              © {currentYear} Lic. Analaura Reyes Priego
+              {t('footer.copyright', { year: currentYear })}
             </p>
             <p className="text-xs text-primary-foreground/50">
-              Cédula: 10909109
+              {t('common.licenseShort', { license })}
             </p>
           </div>
         </div>
@@ -154,12 +172,11 @@ export const Footer = () => {
                 Fisio<span className="text-primary-light">Analaura</span>
               </span>
               <p className="mt-4 text-primary-foreground/70 max-w-md">
-                Fisioterapia humana y de calidad. Tratamientos personalizados,
-                basados en evidencia, para tu bienestar integral.
+                {t('footer.taglineLong')}
               </p>
               <div className="flex gap-4 mt-6">
                 <a
-                  href="https://www.instagram.com/physioholisticmx/"
+                  href={siteConfig.social.instagram}
                   target="_blank"
                   rel="noopener noreferrer nofollow"
                   className="w-12 h-12 rounded-full bg-primary-foreground/10 hover:bg-gradient-to-br hover:from-purple-600 hover:to-pink-600 hover:text-white flex items-center justify-center transition-all duration-300 hover:scale-110 hover:shadow-glow"
@@ -168,7 +185,7 @@ export const Footer = () => {
                   <Instagram className="w-5 h-5" />
                 </a>
                 <a
-                  href="https://www.facebook.com/fisio.movimiento.mx"
+                  href={siteConfig.social.facebook}
                   target="_blank"
                   rel="noopener noreferrer nofollow"
                   className="w-12 h-12 rounded-full bg-primary-foreground/10 hover:bg-[#1877F2] hover:text-white flex items-center justify-center transition-all duration-300 hover:scale-110 hover:shadow-glow"
@@ -191,16 +208,16 @@ export const Footer = () => {
             {/* Quick Links */}
             <div>
               <h4 className="font-display font-semibold text-lg mb-4">
-                Navegación
+                {t('footer.navigation')}
               </h4>
               <ul className="space-y-3">
                 {navItems.map((item) => (
-                  <li key={item}>
+                  <li key={item.id}>
                     <a
                       href={getNavHref(item)}
                       className="text-primary-foreground/70 hover:text-white transition-all duration-300 hover:translate-x-1 inline-block font-medium"
                     >
-                      {item}
+                      {t(item.label)}
                     </a>
                   </li>
                 ))}
@@ -210,25 +227,25 @@ export const Footer = () => {
             {/* Contact Info */}
             <div>
               <h4 className="font-display font-semibold text-lg mb-4">
-                Contacto
+                {t('footer.contact')}
               </h4>
               <ul className="space-y-3">
                 <li>
                   <a
-                    href="tel:+525565053202"
+                    href={siteConfig.telHref}
                     className="flex items-center gap-3 text-primary-foreground/70 hover:text-white transition-colors"
                   >
                     <Phone className="w-4 h-4" />
-                    +52 55 6505 3202
+                    {siteConfig.phoneDisplay}
                   </a>
                 </li>
                 <li>
                   <div className="flex items-start gap-3 text-primary-foreground/70">
                     <MapPin className="w-4 h-4 shrink-0 mt-1" />
                     <span>
-                      Iztapalapa, CDMX
+                      {t('footer.locationIztapalapa')}
                       <br />
-                      Metepec, Estado de México
+                      {t('footer.locationMetepec')}
                     </span>
                   </div>
                 </li>
@@ -244,40 +261,38 @@ export const Footer = () => {
           {/* Legal Links */}
           <div className="mt-8 pt-8 border-t border-primary-foreground/10">
             <div className="flex flex-wrap justify-center gap-4 text-sm mb-6">
-              <Link
-                to="/aviso-privacidad"
-                onClick={handleLegalLinkClick}
-                className="text-primary-foreground/60 hover:text-white transition-colors"
-              >
-                Aviso de Privacidad
-              </Link>
-              <span className="text-primary-foreground/30">•</span>
-              <Link
-                to="/politica-cancelacion"
-                onClick={handleLegalLinkClick}
-                className="text-primary-foreground/60 hover:text-white transition-colors"
-              >
-                Política de Cancelación
-              </Link>
+              {legalLinks.map((link, index) => (
+                <Fragment key={link.path}>
+                  {index > 0 && (
+                    <span className="text-primary-foreground/30">•</span>
+                  )}
+                  <Link
+                    to={localizePath(link.path)}
+                    onClick={handleLegalLinkClick}
+                    className="text-primary-foreground/60 hover:text-white transition-colors"
+                  >
+                    {t(link.label)}
+                  </Link>
+                </Fragment>
+              ))}
               <span className="text-primary-foreground/30">•</span>
-              <Link
-                to="/terminos-condiciones"
-                onClick={handleLegalLinkClick}
+              <button
+                type="button"
+                onClick={openConsentPreferences}
                 className="text-primary-foreground/60 hover:text-white transition-colors"
               >
-                Términos y Condiciones
-              </Link>
+                {t('consent.footerLink')}
+              </button>
             </div>
           </div>
 
           {/* Bottom */}
           <div className="pt-4 border-t border-primary-foreground/10 flex flex-col md:flex-row items-center justify-between gap-4">
             <p className="text-sm text-primary-foreground/50">
-              © {currentYear} Lic. Analaura Reyes Priego. Todos los derechos
-              reservados.
+              {t('footer.rightsReserved', { year: currentYear })}
             </p>
             <p className="text-sm text-primary-foreground/50">
-              Cédula Profesional: 10909109
+              {t('footer.licenseLong', { license })}
             </p>
           </div>
         </div>
@@ -13,9 +13,22 @@ import therapistImage from '@/assets/analaura-reyes-fisioterapeuta.jpg';
 import therapistImageWebP400 from '@/assets/analaura-reyes-fisioterapeuta.jpg?w=400&format=webp';
 import therapistImageWebP800 from '@/assets/analaura-reyes-fisioterapeuta.jpg?w=800&format=webp';
 import therapistImageWebP1200 from '@/assets/analaura-reyes-fisioterapeuta.jpg?w=1200&format=webp';
-import { trackCTAClick, trackWhatsAppClick } from '@/lib/analytics';
+import { useExperiment } from '@/hooks/use-experiment';
+import { useTranslation } from '@/hooks/use-translation';
+import { track } from '@/lib/analytics';
+import { siteConfig } from '@/lib/site-config';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
 
 export const HeroSection = () => {
+  const { locale, t } = useTranslation();
+  const headlineVariant = useExperiment('hero-headline');
+  const ctaVariant = useExperiment('hero-cta');
+  const heroWhatsApp = buildWhatsAppLink({
+    intent: 'booking',
+    service: t('common.physiotherapy'),
+    locale,
+  });
+
   return (
     <section
       id="inicio"
@@ -45,37 +58,35 @@ export const HeroSection = () => {
               <div className="inline-flex items-center gap-2 bg-primary-foreground/15 backdrop-blur-md px-4 py-2 lg:px-5 lg:py-2.5 rounded-full border border-primary-foreground/20 shadow-soft animate-scale-in">
                 <Award className="w-4 h-4 text-white" />
                 <span className="text-xs lg:text-sm font-semibold">
-                  Doble Titulación • México & España
+                  {t('hero.badge')}
                 </span>
               </div>
 
               {/* H1 optimizado para SEO - keyword principal */}
               <h1 className="font-display text-4xl sm:text-5xl md:text-6xl lg:text-7xl font-extrabold leading-[1.1] tracking-tight">
-                Fisioterapeuta en
+                {/* El prerender siempre usa el titular de control (SEO) */}
+                {headlineVariant === 'benefit'
+                  ? t('hero.benefitLine1')
+                  : t('hero.titleLine1')}
                 <br />
                 <span className="text-white drop-shadow-lg">
-                  CDMX y Metepec
+                  {headlineVariant === 'benefit'
+                    ? t('hero.benefitLine2')
+                    : t('hero.titleLine2')}
                 </span>
               </h1>
 
               {/* Nombre como subtítulo prominente */}
               <p className="text-lg sm:text-xl md:text-2xl font-semibold opacity-95">
-                Lic. Analaura Reyes Priego
+                {t('hero.name')}
               </p>
             </div>
 
             {/* Propuesta de valor - visible en móvil también */}
             <p className="text-sm sm:text-base lg:text-lg opacity-90 max-w-xl leading-relaxed">
-              <span className="font-semibold">
-                ¿Dolor de espalda, cuello o articulaciones?
-              </span>{' '}
-              <span className="hidden sm:inline">
-                Tratamientos personalizados y basados en evidencia para
-                recuperar tu movilidad.
-              </span>
-              <span className="sm:hidden">
-                Recupera tu movilidad sin dolor.
-              </span>
+              <span className="font-semibold">{t('hero.painQuestion')}</span>{' '}
+              <span className="hidden sm:inline">{t('hero.valueLong')}</span>
+              <span className="sm:hidden">{t('hero.valueShort')}</span>
             </p>
 
             {/* Stats - horizontal scroll on mobile, grid on desktop */}
@@ -85,7 +96,7 @@ export const HeroSection = () => {
                   10+
                 </div>
                 <div className="text-xs lg:text-sm font-medium opacity-90">
-                  Años exp.
+                  {t('hero.statYears')}
                 </div>
               </div>
               <div className="flex-shrink-0 text-center bg-primary-foreground/10 backdrop-blur-sm px-4 py-3 lg:px-6 lg:py-4 rounded-xl lg:rounded-2xl border border-primary-foreground/20 shadow-soft hover:scale-105 transition-transform duration-300 min-w-[100px] lg:min-w-0">
@@ -94,7 +105,7 @@ export const HeroSection = () => {
                 </div>
                 <div className="text-xs lg:text-sm font-medium opacity-90 flex items-center justify-center gap-1">
                   <Star className="w-3 h-3 lg:w-3.5 lg:h-3.5 fill-white text-white" />
-                  en Doctoralia
+                  {t('hero.statRating')}
                 </div>
               </div>
               <div className="flex-shrink-0 text-center bg-primary-foreground/10 backdrop-blur-sm px-4 py-3 lg:px-6 lg:py-4 rounded-xl lg:rounded-2xl border border-primary-foreground/20 shadow-soft hover:scale-105 transition-transform duration-300 min-w-[100px] lg:min-w-0">
@@ -102,7 +113,7 @@ export const HeroSection = () => {
                   500+
                 </div>
                 <div className="text-xs lg:text-sm font-medium opacity-90">
-                  Pacientes
+                  {t('hero.statPatients')}
                 </div>
               </div>
             </div>
@@ -117,13 +128,22 @@ export const HeroSection = () => {
               >
                 <a
                   href="#agenda"
-                  onClick={() => trackCTAClick('Reservar Cita', 'Hero Section')}
+                  onClick={() =>
+                    track('cta_click', {
+                      cta_name: 'Reservar Cita',
+                      cta_location: 'Hero Section',
+                    })
+                  }
                 >
                   <Calendar className="w-5 h-5" />
                   <span className="flex flex-col items-start leading-tight">
-                    <span>Reservar Cita</span>
+                    <span>
+                      {ctaVariant === 'assessment'
+                        ? t('hero.bookAssessment')
+                        : t('hero.book')}
+                    </span>
                     <span className="text-[10px] lg:text-xs opacity-80 font-normal">
-                      Próxima disponible: mañana
+                      {t('hero.nextAvailable')}
                     </span>
                   </span>
                 </a>
@@ -135,14 +155,11 @@ export const HeroSection = () => {
                 asChild
               >
                 <a
-                  href={`https://wa.me/525565053202?text=${encodeURIComponent('Hola, me gustaría agendar una cita de fisioterapia')}`}
+                  href={heroWhatsApp.href}
                   target="_blank"
                   rel="noopener noreferrer"
                   onClick={() =>
-                    trackWhatsAppClick(
-                      'Hola, me gustaría agendar una cita de fisioterapia',
-                      'Hero Section',
-                    )
+                    trackWhatsAppLink(heroWhatsApp, 'Hero Section')
                   }
                 >
                   <MessageCircle className="w-5 h-5" />
@@ -154,7 +171,7 @@ export const HeroSection = () => {
             {/* Badge de garantía */}
             <div className="flex items-center gap-2 text-xs sm:text-sm opacity-85 bg-primary-foreground/10 backdrop-blur-sm px-3 py-2 rounded-full border border-primary-foreground/20 w-fit">
               <Check className="w-4 h-4 text-white" />
-              <span>Primera cita $700 MXN</span>
+              <span>{t('hero.firstVisit')}</span>
             </div>
 
             {/* Locations - Simplified on mobile */}
@@ -169,7 +186,7 @@ export const HeroSection = () => {
               </div>
               <div className="flex items-center gap-1.5 lg:gap-2 bg-primary-foreground/10 backdrop-blur-sm px-2.5 py-1 lg:px-3 lg:py-1.5 rounded-full border border-primary-foreground/20">
                 <Video className="w-3 h-3 lg:w-4 lg:h-4" />
-                <span className="font-medium">Online</span>
+                <span className="font-medium">{t('common.online')}</span>
               </div>
             </div>
           </div>
@@ -190,7 +207,7 @@ export const HeroSection = () => {
                   />
                   <img
                     src={therapistImage}
-                    alt="Lic. Analaura Reyes Priego - Fisioterapeuta"
+                    alt={t('hero.imageAlt')}
                     className="w-full h-auto object-cover"
                     loading="eager"
                     // @ts-expect-error - fetchpriority is a valid HTML attribute but not yet in React types
@@ -214,10 +231,12 @@ export const HeroSection = () => {
                   </div>
                   <div>
                     <div className="font-display font-bold text-foreground">
-                      Cédula Profesional
+                      {t('common.professionalLicense')}
                     </div>
                     <div className="text-sm font-medium text-muted-foreground">
-                      No. 10909109
+                      {t('common.licenseNumber', {
+                        license: siteConfig.professional.license,
+                      })}
                     </div>
                   </div>
                 </div>
@@ -227,7 +246,9 @@ export const HeroSection = () => {
               <div className="lg:hidden mt-3 flex items-center justify-center gap-2 bg-card/90 backdrop-blur-sm rounded-xl px-4 py-2 shadow-soft border border-border/50">
                 <Award className="w-4 h-4 text-primary" />
                 <span className="text-sm font-semibold text-foreground">
-                  Cédula: 10909109
+                  {t('common.licenseShort', {
+                    license: siteConfig.professional.license,
+                  })}
                 </span>
               </div>
             </div>
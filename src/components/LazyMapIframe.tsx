@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
 
 interface LazyMapIframeProps {
   src: string;
@@ -19,6 +20,7 @@ export const LazyMapIframe = ({
   const [isVisible, setIsVisible] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -54,7 +56,7 @@ export const LazyMapIframe = ({
           <div className="text-center">
             <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-2" />
             <span className="text-sm text-muted-foreground">
-              Cargando mapa...
+              {t('map.loading')}
             </span>
           </div>
         </div>
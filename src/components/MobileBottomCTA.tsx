@@ -1,8 +1,17 @@
 import { Calendar, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { trackCTAClick, trackWhatsAppClick } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/use-translation';
+import { track } from '@/lib/analytics';
+import { getPhysicalAddresses } from '@/lib/doctoralia-addresses';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import { OpeningStatusBadge } from './OpeningStatusBadge';
+
+const physicalSchedules = getPhysicalAddresses().map((addr) => addr.schedule);
 
 export const MobileBottomCTA = () => {
+  const { locale, t } = useTranslation();
+  const bookingWhatsApp = buildWhatsAppLink({ intent: 'booking', locale });
+
   return (
     <div className="fixed bottom-0 left-0 right-0 z-40 lg:hidden">
       {/* Gradient fade effect */}
@@ -10,6 +19,10 @@ export const MobileBottomCTA = () => {
 
       {/* CTA Bar */}
       <div className="bg-card/95 backdrop-blur-md border-t border-border/50 shadow-[0_-4px_20px_rgba(0,0,0,0.1)] px-4 py-3 safe-area-bottom">
+        <OpeningStatusBadge
+          schedules={physicalSchedules}
+          className="w-full justify-center text-xs text-muted-foreground mb-2"
+        />
         <div className="flex gap-3">
           <Button
             variant="cta"
@@ -18,10 +31,15 @@ export const MobileBottomCTA = () => {
           >
             <a
               href="#agenda"
-              onClick={() => trackCTAClick('Agendar Cita', 'Mobile Bottom CTA')}
+              onClick={() =>
+                track('cta_click', {
+                  cta_name: 'Agendar Cita',
+                  cta_location: 'Mobile Bottom CTA',
+                })
+              }
             >
               <Calendar className="w-5 h-5" />
-              Agendar Cita
+              {t('mobileCta.book')}
             </a>
           </Button>
           <Button
@@ -30,11 +48,11 @@ export const MobileBottomCTA = () => {
             asChild
           >
             <a
-              href="https://wa.me/525565053202?text=Hola,%20me%20gustaría%20agendar%20una%20cita"
+              href={bookingWhatsApp.href}
               target="_blank"
               rel="noopener noreferrer nofollow"
               onClick={() =>
-                trackWhatsAppClick('Contactar', 'Mobile Bottom CTA')
+                trackWhatsAppLink(bookingWhatsApp, 'Mobile Bottom CTA')
               }
             >
               <MessageCircle className="w-5 h-5" />
@@ -1,24 +1,44 @@
 import { useState, useEffect } from 'react';
-import { useLocation } from 'react-router-dom';
-import { Menu, X, Phone, Calendar } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { Menu, X, Phone, Calendar, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useFocusTrap } from '@/hooks/use-focus-trap';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  LOCALES,
+  LOCALE_INFO,
+  localizePath,
+  stripLocalePrefix,
+  type MessageKey,
+} from '@/lib/i18n';
+import { siteConfig } from '@/lib/site-config';
 
-const navItems = [
-  { label: 'Inicio', id: 'inicio' },
-  { label: 'Sobre mí', id: 'sobre-mi' },
-  { label: 'Servicios', id: 'servicios' },
-  { label: 'Precios', id: 'precios' },
-  { label: 'Opiniones', id: 'opiniones' },
-  { label: 'FAQs', id: 'faqs' },
-  { label: 'Contacto', id: 'contacto' },
+const navItems: { label: MessageKey; id: string }[] = [
+  { label: 'nav.home', id: 'inicio' },
+  { label: 'nav.about', id: 'sobre-mi' },
+  { label: 'nav.services', id: 'servicios' },
+  { label: 'nav.pricing', id: 'precios' },
+  { label: 'nav.reviews', id: 'opiniones' },
+  { label: 'nav.faqs', id: 'faqs' },
+  { label: 'nav.contact', id: 'contacto' },
 ];
 
 export const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const location = useLocation();
-  const isHomePage = location.pathname === '/';
+  const { locale, t } = useTranslation();
+  const basePath = stripLocalePrefix(location.pathname);
+  const isHomePage = basePath === '/';
+  // Misma página en el otro idioma (solo hay dos: es-MX y en)
+  const otherLocale = LOCALES.find((item) => item !== locale) ?? locale;
+  const otherLocaleInfo = LOCALE_INFO[otherLocale];
+  const languageSwitchProps = {
+    to: `${localizePath(basePath, otherLocale)}${location.hash}`,
+    hrefLang: otherLocaleInfo.hreflang,
+    lang: otherLocaleInfo.htmlLang,
+    'aria-label': t('language.switchTo', { language: otherLocaleInfo.label }),
+  };
 
   // Focus trap for mobile menu accessibility
   const menuRef = useFocusTrap<HTMLDivElement>(isOpen, () => setIsOpen(false));
@@ -26,7 +46,7 @@ export const Navbar = () => {
   // Función para generar el href de navegación (igual que en Footer)
   const getNavHref = (id: string) => {
     const hash = `#${id}`;
-    return isHomePage ? hash : `/${hash}`;
+    return isHomePage ? hash : localizePath(`/${hash}`, locale);
   };
 
   useEffect(() => {
@@ -108,15 +128,26 @@ export const Navbar = () => {
                     : 'text-white/90 hover:text-white drop-shadow-md'
                 }`}
               >
-                {item.label}
+                {t(item.label)}
               </a>
             ))}
           </div>
 
           {/* CTA Button */}
           <div className="hidden lg:flex items-center gap-4">
+            <Link
+              {...languageSwitchProps}
+              className={`flex items-center gap-1 text-sm font-semibold transition-colors ${
+                isScrolled
+                  ? 'text-foreground/80 hover:text-primary'
+                  : 'text-white/90 hover:text-white drop-shadow-md'
+              }`}
+            >
+              <Languages className="w-4 h-4" aria-hidden="true" />
+              {otherLocaleInfo.shortLabel}
+            </Link>
             <a
-              href="tel:+525565053202"
+              href={siteConfig.telHref}
               className={`flex items-center gap-2 text-sm transition-colors ${
                 isScrolled
                   ? 'text-primary hover:text-primary/80'
@@ -124,12 +155,12 @@ export const Navbar = () => {
               }`}
             >
               <Phone className="w-4 h-4" />
-              <span>+52 55 6505 3202</span>
+              <span>{siteConfig.phoneDisplay}</span>
             </a>
             <Button variant="cta" size="sm" asChild>
               <a href={getNavHref('agenda')}>
                 <Calendar className="w-4 h-4" />
-                Reservar Cita
+                {t('nav.bookAppointment')}
               </a>
             </Button>
           </div>
@@ -142,7 +173,7 @@ export const Navbar = () => {
                 ? 'text-foreground hover:bg-primary/10 hover:text-primary'
                 : 'text-white hover:bg-white/20'
             }`}
-            aria-label={isOpen ? 'Cerrar menú' : 'Abrir menú'}
+            aria-label={isOpen ? t('nav.closeMenu') : t('nav.openMenu')}
             aria-expanded={isOpen}
           >
             <div className="relative w-6 h-6">
@@ -192,17 +223,17 @@ export const Navbar = () => {
                   className="font-body text-base font-semibold text-foreground py-3 px-4 rounded-lg hover:bg-primary/10 hover:text-primary transition-all duration-200 active:scale-95 animate-slide-up"
                   style={{ animationDelay: `${index * 0.05}s` }}
                 >
-                  {item.label}
+                  {t(item.label)}
                 </a>
               ))}
               <div className="pt-4 mt-2 border-t border-border/50 space-y-3">
                 <a
-                  href="tel:+525565053202"
+                  href={siteConfig.telHref}
                   className="flex items-center justify-center gap-2 text-sm font-semibold text-primary py-3 px-4 rounded-lg bg-primary/10 hover:bg-primary/20 transition-all duration-200 active:scale-95"
                   onClick={() => setIsOpen(false)}
                 >
                   <Phone className="w-4 h-4" />
-                  Llamar Ahora
+                  {t('nav.callNow')}
                 </a>
                 <Button variant="cta" className="w-full" asChild>
                   <a
@@ -210,9 +241,17 @@ export const Navbar = () => {
                     onClick={() => setIsOpen(false)}
                   >
                     <Calendar className="w-4 h-4" />
-                    Agendar Consulta
+                    {t('nav.scheduleConsultation')}
                   </a>
                 </Button>
+                <Link
+                  {...languageSwitchProps}
+                  onClick={() => setIsOpen(false)}
+                  className="flex items-center justify-center gap-2 text-sm font-semibold text-foreground py-3 px-4 rounded-lg hover:bg-primary/10 hover:text-primary transition-all duration-200 active:scale-95"
+                >
+                  <Languages className="w-4 h-4" aria-hidden="true" />
+                  {otherLocaleInfo.label}
+                </Link>
               </div>
             </div>
           </div>
@@ -0,0 +1,37 @@
+import { useOpeningStatus } from '@/hooks/use-opening-status';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatOpeningStatus, type OpeningSchedule } from '@/lib/opening-hours';
+
+interface OpeningStatusBadgeProps {
+  /** Horario de un consultorio o de varios (abierto si alguno lo está) */
+  schedules: OpeningSchedule | OpeningSchedule[];
+  className?: string;
+}
+
+/**
+ * Indicador "Abierto ahora / Abre mañana a las 9:00"
+ * No renderiza nada en el HTML prerenderizado (ver useOpeningStatus)
+ */
+export const OpeningStatusBadge = ({
+  schedules,
+  className = '',
+}: OpeningStatusBadgeProps) => {
+  const status = useOpeningStatus(schedules);
+  const { locale } = useTranslation();
+  if (!status) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 ${className}`}
+      aria-live="polite"
+    >
+      <span
+        className={`w-2 h-2 rounded-full shrink-0 ${
+          status.isOpen ? 'bg-green-500 animate-pulse' : 'bg-muted-foreground'
+        }`}
+        aria-hidden="true"
+      />
+      {formatOpeningStatus(status, locale)}
+    </span>
+  );
+};
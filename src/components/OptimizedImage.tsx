@@ -1,4 +1,5 @@
 import { useState, useCallback } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
 import { cn } from '@/lib/utils';
 
 interface OptimizedImageProps {
@@ -28,6 +29,7 @@ export const OptimizedImage = ({
   priority = false,
   blurPlaceholder = true,
 }: OptimizedImageProps) => {
+  const { t } = useTranslation();
   const [isLoaded, setIsLoaded] = useState(false);
   const [hasError, setHasError] = useState(false);
 
@@ -78,7 +80,7 @@ export const OptimizedImage = ({
       {hasError && (
         <div className="absolute inset-0 flex items-center justify-center bg-muted">
           <span className="text-muted-foreground text-sm">
-            Error al cargar imagen
+            {t('errors.imageLoad')}
           </span>
         </div>
       )}
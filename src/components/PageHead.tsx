@@ -0,0 +1,187 @@
+import { useLocation } from 'react-router-dom';
+import { Head } from 'vite-react-ssg';
+import { useTranslation } from '@/hooks/use-translation';
+import { BLOG_FEED_PATH, type BlogPost } from '@/lib/blog';
+import {
+  LOCALES,
+  LOCALE_INFO,
+  localizePath,
+  stripLocalePrefix,
+} from '@/lib/i18n';
+import {
+  OG_IMAGE_FORMATS,
+  OG_IMAGE_SIZES,
+  getOGImageUrl,
+} from '@/lib/og-images';
+import { serializeStructuredData } from '@/lib/schema-org';
+import { absoluteUrl, siteConfig } from '@/lib/site-config';
+import { buildStructuredDataGraph } from '@/lib/structured-data';
+
+const DEFAULT_TITLE_TEMPLATE = `%s | ${siteConfig.name}`;
+const DEFAULT_ROBOTS =
+  'index, follow, max-image-preview:large, max-snippet:-1, max-video-preview:-1';
+
+interface PageHeadProps {
+  /** Título de la página; se completa con `titleTemplate` */
+  title: string;
+  description: string;
+  /** Plantilla del <title> (`%s` es `title`); por defecto "%s | FisioAnalaura" */
+  titleTemplate?: string;
+  type?: 'website' | 'article';
+  /** Directivas para crawlers; por defecto se indexa la página */
+  robots?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  twitterTitle?: string;
+  twitterDescription?: string;
+  /** Imágenes de la página para el JSON-LD (galería del consultorio) */
+  structuredDataImages?: string[];
+  /** Artículo del blog que muestra la página (JSON-LD e imagen Open Graph) */
+  article?: BlogPost;
+}
+
+/**
+ * <head> de cada página: título, descripción, canonical, robots, Open Graph,
+ * Twitter Card, `<html lang>`, los `<link rel="alternate" hreflang>` de cada
+ * idioma (más x-default), el feed RSS del blog, las imágenes Open Graph de la ruta (horizontal y
+ * vertical, lib/og-images.ts) y su grafo JSON-LD (lib/structured-data.ts)
+ *
+ * Usa el `<Head>` de vite-react-ssg (react-helmet-async): en el build las
+ * etiquetas se escriben en el HTML prerenderizado de cada ruta, y en el
+ * cliente se actualizan al navegar. La URL canónica y las alternativas se
+ * deducen de la ruta actual.
+ */
+export const PageHead = ({
+  title,
+  description,
+  titleTemplate = DEFAULT_TITLE_TEMPLATE,
+  type = 'website',
+  robots = DEFAULT_ROBOTS,
+  ogTitle,
+  ogDescription,
+  twitterTitle,
+  twitterDescription,
+  structuredDataImages,
+  article,
+}: PageHeadProps) => {
+  const { pathname } = useLocation();
+  const { locale, t } = useTranslation();
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const url = absoluteUrl(path);
+  const basePath = stripLocalePrefix(path);
+  const info = LOCALE_INFO[locale];
+  const fullTitle = titleTemplate.replace('%s', title);
+
+  const ogImages = OG_IMAGE_FORMATS.map((format) => ({
+    format,
+    url: getOGImageUrl(path, format, { article }),
+  }));
+
+  // Los artículos ilustran su JSON-LD con sus propias imágenes Open Graph
+  const graph = buildStructuredDataGraph(path, {
+    images:
+      structuredDataImages ??
+      (article ? ogImages.map((image) => image.url) : undefined),
+    article,
+  });
+
+  return (
+    <Head htmlAttributes={{ lang: info.htmlLang }}>
+      <title>{fullTitle}</title>
+      <meta name="title" content={fullTitle} />
+      <meta name="description" content={description} />
+      <meta name="robots" content={robots} />
+      <meta name="language" content={info.hreflang} />
+      <link rel="canonical" href={url} />
+      {LOCALES.map((alternate) => (
+        <link
+          key={alternate}
+          rel="alternate"
+          hrefLang={LOCALE_INFO[alternate].hreflang}
+          href={absoluteUrl(localizePath(basePath, alternate))}
+        />
+      ))}
+      <link rel="alternate" hrefLang="x-default" href={absoluteUrl(basePath)} />
+      <link
+        rel="alternate"
+        type="application/rss+xml"
+        title={`${t('blog.title')} | ${siteConfig.name}`}
+        href={absoluteUrl(localizePath(BLOG_FEED_PATH, locale))}
+      />
+
+      <meta property="og:type" content={type} />
+      <meta property="og:url" content={url} />
+      <meta property="og:title" content={ogTitle ?? fullTitle} />
+      <meta property="og:description" content={ogDescription ?? description} />
+      {ogImages.flatMap(({ format, url: imageUrl }) => [
+        <meta key={`${format}-url`} property="og:image" content={imageUrl} />,
+        <meta
+          key={`${format}-width`}
+          property="og:image:width"
+          content={String(OG_IMAGE_SIZES[format].width)}
+        />,
+        <meta
+          key={`${format}-height`}
+          property="og:image:height"
+          content={String(OG_IMAGE_SIZES[format].height)}
+        />,
+        <meta
+          key={`${format}-alt`}
+          property="og:image:alt"
+          content={ogTitle ?? fullTitle}
+        />,
+      ])}
+      {article && [
+        <meta
+          key="published"
+          property="article:published_time"
+          content={article.date}
+        />,
+        <meta
+          key="modified"
+          property="article:modified_time"
+          content={article.updated ?? article.date}
+        />,
+        <meta
+          key="author"
+          property="article:author"
+          content={article.author}
+        />,
+        <meta
+          key="section"
+          property="article:section"
+          content={t(`blog.categories.${article.category}`)}
+        />,
+        ...article.tags.map((tag) => (
+          <meta key={`tag-${tag}`} property="article:tag" content={tag} />
+        )),
+      ]}
+      <meta property="og:locale" content={info.ogLocale} />
+      {LOCALES.filter((alternate) => alternate !== locale).map((alternate) => (
+        <meta
+          key={alternate}
+          property="og:locale:alternate"
+          content={LOCALE_INFO[alternate].ogLocale}
+        />
+      ))}
+
+      <meta name="twitter:card" content="summary_large_image" />
+      <meta name="twitter:url" content={url} />
+      <meta name="twitter:title" content={twitterTitle ?? fullTitle} />
+      <meta
+        name="twitter:description"
+        content={twitterDescription ?? description}
+      />
+      <meta
+        name="twitter:image"
+        content={getOGImageUrl(path, 'horizontal', { article })}
+      />
+
+      {graph && (
+        <script type="application/ld+json">
+          {serializeStructuredData(graph)}
+        </script>
+      )}
+    </Head>
+  );
+};
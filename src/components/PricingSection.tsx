@@ -14,53 +14,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { ScrollAnimated } from './ScrollAnimated';
-import { trackPricingTabChange, trackServiceInterest } from '@/lib/analytics';
+import { track } from '@/lib/analytics';
 import { useState, useMemo, useCallback } from 'react';
 import { useSectionTimeTracking } from '@/hooks/use-section-time-tracking';
-
-const plans = [
-  {
-    name: 'Consulta en Línea',
-    price: '450',
-    originalPrice: '600',
-    description: 'Asesoría virtual personalizada',
-    features: [
-      'Videollamada de 45 min',
-      'Evaluación inicial',
-      'Plan de ejercicios',
-      'Seguimiento por WhatsApp',
-    ],
-    popular: false,
-  },
-  {
-    name: 'Primera Visita',
-    price: '700',
-    originalPrice: '850',
-    description: 'Evaluación completa presencial',
-    features: [
-      'Evaluación integral 60 min',
-      'Diagnóstico fisioterapéutico',
-      'Plan de tratamiento',
-      'Primera sesión de terapia',
-    ],
-    popular: true,
-    badge: 'Promoción',
-  },
-  {
-    name: 'Sesión de Fisioterapia',
-    price: '650',
-    description: 'Tratamiento personalizado',
-    features: [
-      'Sesión de 45-60 min',
-      'Terapia manual',
-      'Electroterapia si necesario',
-      'Ejercicios terapéuticos',
-    ],
-    popular: false,
-  },
-];
+import { serviceCategories as baseServiceCategories } from '@/content';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import { useExperiment } from '@/hooks/use-experiment';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
 
 // Función helper para obtener icono basado en el nombre del servicio
+// (siempre el nombre en español: las traducciones tienen la misma estructura)
 const getServiceIcon = (serviceName: string) => {
   const name = serviceName.toLowerCase();
   if (name.includes('consulta') || name.includes('primera vez'))
@@ -83,123 +47,23 @@ const getServiceIcon = (serviceName: string) => {
   return Activity; // Icono por defecto
 };
 
-// Servicios organizados por categorías
-const serviceCategories = [
-  {
-    title: 'Consultas',
-    id: 'consultas',
-    services: [
-      {
-        name: 'Cita de primera vez Fisioterapia',
-        price: '700',
-        description:
-          'Evaluación completa inicial con diagnóstico y plan de tratamiento',
-      },
-      {
-        name: 'Consulta subsecuente',
-        price: '650',
-        description: 'Seguimiento y ajuste del plan de tratamiento',
-      },
-    ],
-  },
-  {
-    title: 'Tratamientos Generales',
-    id: 'generales',
-    services: [
-      {
-        name: 'Sesión de fisioterapia subsecuente',
-        price: '650',
-        description: 'Tratamiento continuo personalizado',
-      },
-      {
-        name: 'Sesión de fisioterapia y rehabilitación',
-        price: '650',
-        description: 'Sesión de fisioterapia estándar',
-      },
-      {
-        name: 'Fisioterapia Ortopédica',
-        price: '650',
-        description: 'Tratamiento de lesiones musculoesqueléticas',
-      },
-      {
-        name: 'Fisioterapia Post-Quirúrgica',
-        price: '650',
-        description: 'Rehabilitación después de cirugía',
-      },
-    ],
-  },
-  {
-    title: 'Tratamientos Especializados',
-    id: 'especializados',
-    services: [
-      {
-        name: 'Rehabilitación de Columna (Cervical, Dorsal, Lumbar)',
-        price: '650',
-        description: 'Tratamiento especializado para problemas de columna',
-      },
-      {
-        name: 'Fisioterapia ATM',
-        price: '650',
-        description: 'Terapia para articulación temporomandibular y bruxismo',
-      },
-      {
-        name: 'Fisioterapia para Dolor',
-        price: '650',
-        description: 'Manejo integral del dolor agudo y crónico',
-      },
-      {
-        name: 'Terapia física y readaptación deportiva',
-        price: '650',
-        description: 'Recuperación funcional para deportistas',
-      },
-      {
-        name: 'Prevención de caídas en adulto mayor',
-        price: '650',
-        description: 'Programa de fortalecimiento y equilibrio',
-      },
-    ],
-  },
-  {
-    title: 'Ejercicios y Técnicas',
-    id: 'ejercicios',
-    services: [
-      {
-        name: 'Ejercicio terapéutico',
-        price: '650',
-        description: 'Programa de ejercicios terapéuticos',
-      },
-      {
-        name: 'Ejercicio terapéutico individualizado',
-        price: '650',
-        description: 'Programa de ejercicios personalizado',
-      },
-      {
-        name: 'Ejercicios de fortalecimiento muscular',
-        price: '650',
-        description: 'Rutina de fortalecimiento adaptada',
-      },
-      {
-        name: 'Ejercicios Hipopresivos',
-        price: '650',
-        description: 'Técnica para suelo pélvico y faja abdominal',
-      },
-      {
-        name: 'Reeducación postural',
-        price: '650',
-        description: 'Corrección de postura y alineación corporal',
-      },
-      {
-        name: 'Masaje de Descarga Muscular',
-        price: '900',
-        description: 'Masaje terapéutico profundo para relajación muscular',
-      },
-    ],
-  },
-];
-
 export const PricingSection = () => {
+  const { locale, t } = useTranslation();
+  const { plans, serviceCategories } = useContent();
+  // Experimento: en móvil (una columna) el plan más popular va primero
+  const popularFirst = useExperiment('pricing-layout') === 'popular-first';
+
+  // Enlace de WhatsApp por plan (mensaje con el nombre del plan)
+  const planWhatsAppLinks = useMemo(
+    () =>
+      plans.map((plan) =>
+        buildWhatsAppLink({ intent: 'pricing', service: plan.name, locale }),
+      ),
+    [plans, locale],
+  );
+
   // Memoizar el tab inicial para evitar cálculos en cada render
-  const initialTab = useMemo(() => serviceCategories[0].id, []);
+  const initialTab = useMemo(() => baseServiceCategories[0].id, []);
   const [activeTab, setActiveTab] = useState(initialTab);
 
   // Track tiempo en sección de precios (solo si pasa >30 segundos)
@@ -208,9 +72,9 @@ export const PricingSection = () => {
   // Optimizar función con useCallback para evitar recrearla en cada render
   const handleTabChange = useCallback((value: string) => {
     setActiveTab(value);
-    const category = serviceCategories.find((cat) => cat.id === value);
+    const category = baseServiceCategories.find((cat) => cat.id === value);
     if (category) {
-      trackPricingTabChange(category.title);
+      track('pricing_tab_change', { tab_name: category.title });
     }
   }, []);
 
@@ -224,13 +88,16 @@ export const PricingSection = () => {
         <ScrollAnimated animation="fade-up" delay={0}>
           <div className="text-center mb-6 lg:mb-16">
             <span className="text-primary font-semibold text-xs lg:text-sm uppercase tracking-wider">
-              Precios
+              {t('pricing.eyebrow')}
             </span>
             <h2 className="font-display text-2xl lg:text-5xl font-bold text-foreground mt-1 lg:mt-2">
-              Tarifas <span className="text-primary">Transparentes</span>
+              {t('pricing.titleStart')}{' '}
+              <span className="text-primary">
+                {t('pricing.titleHighlight')}
+              </span>
             </h2>
             <p className="hidden sm:block text-base lg:text-lg text-muted-foreground mt-2 lg:mt-4 max-w-2xl mx-auto">
-              Sin sorpresas. Precios claros desde el primer día.
+              {t('pricing.intro')}
             </p>
             {/* Garantía visible */}
             {/*   <div className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-accent/10 border border-accent/20">
@@ -250,8 +117,14 @@ export const PricingSection = () => {
                 key={index}
                 animation="scale-in"
                 delay={index * 100}
+                className={
+                  popularFirst && plan.popular
+                    ? 'order-first lg:order-none'
+                    : ''
+                }
               >
                 <div
+                  data-behavior="pricing-card"
                   className={`relative rounded-xl lg:rounded-3xl transition-all duration-200 active:scale-[0.98] ${
                     plan.popular
                       ? 'gradient-hero text-primary-foreground shadow-medium border-2 border-primary-foreground/20'
@@ -262,7 +135,7 @@ export const PricingSection = () => {
                   {plan.popular && (
                     <div className="absolute -top-2.5 left-1/2 -translate-x-1/2 z-10">
                       <span className="gradient-cta text-white text-[10px] lg:text-xs font-semibold px-2.5 py-0.5 lg:px-3 lg:py-1 rounded-full whitespace-nowrap">
-                        Más Popular
+                        {t('pricing.mostPopular')}
                       </span>
                     </div>
                   )}
@@ -316,7 +189,7 @@ export const PricingSection = () => {
                           className="h-8 px-3 text-xs"
                           asChild
                         >
-                          <a href="#agenda">Agendar</a>
+                          <a href="#agenda">{t('pricing.book')}</a>
                         </Button>
                       </div>
                     </div>
@@ -347,7 +220,7 @@ export const PricingSection = () => {
 
                     <div className="text-center mb-6">
                       {/* Precio original tachado si existe */}
-                      {'originalPrice' in plan && plan.originalPrice && (
+                      {plan.originalPrice && (
                         <div
                           className={`text-sm line-through mb-1 ${
                             plan.popular
@@ -355,7 +228,9 @@ export const PricingSection = () => {
                               : 'text-muted-foreground'
                           }`}
                         >
-                          Valor normal: ${plan.originalPrice} MXN
+                          {t('pricing.regularPrice', {
+                            price: plan.originalPrice,
+                          })}
                         </div>
                       )}
                       <span
@@ -377,7 +252,7 @@ export const PricingSection = () => {
                         {' '}
                         MXN
                       </span>
-                      {'originalPrice' in plan && plan.originalPrice && (
+                      {plan.originalPrice && (
                         <div
                           className={`text-xs mt-1 font-semibold ${
                             plan.popular
@@ -385,9 +260,11 @@ export const PricingSection = () => {
                               : 'text-accent-deep'
                           }`}
                         >
-                          Ahorras $
-                          {parseInt(plan.originalPrice) - parseInt(plan.price)}{' '}
-                          MXN
+                          {t('pricing.youSave', {
+                            amount:
+                              parseInt(plan.originalPrice) -
+                              parseInt(plan.price),
+                          })}
                         </div>
                       )}
                     </div>
@@ -428,8 +305,26 @@ export const PricingSection = () => {
                       className="w-full"
                       asChild
                     >
-                      <a href="#agenda">Solicitar Cita</a>
+                      <a href="#agenda">{t('pricing.requestAppointment')}</a>
                     </Button>
+                    <a
+                      href={planWhatsAppLinks[index].href}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow"
+                      className={`block text-center text-sm font-semibold mt-3 hover:underline ${
+                        plan.popular
+                          ? 'text-primary-foreground'
+                          : 'text-primary'
+                      }`}
+                      onClick={() =>
+                        trackWhatsAppLink(
+                          planWhatsAppLinks[index],
+                          'Pricing Section',
+                        )
+                      }
+                    >
+                      {t('pricing.askWhatsApp')}
+                    </a>
                   </div>
                 </div>
               </ScrollAnimated>
@@ -459,7 +354,7 @@ export const PricingSection = () => {
               </TabsList>
             </div>
 
-            {serviceCategories.map((category) => (
+            {serviceCategories.map((category, categoryIndex) => (
               <TabsContent
                 key={category.id}
                 value={category.id}
@@ -468,26 +363,41 @@ export const PricingSection = () => {
                 {/* Mobile: Ultra compact list */}
                 <div className="lg:hidden space-y-1.5">
                   {category.services.map((service, serviceIndex) => {
-                    const ServiceIcon = getServiceIcon(service.name);
+                    const baseName =
+                      baseServiceCategories[categoryIndex].services[
+                        serviceIndex
+                      ].name;
+                    const ServiceIcon = getServiceIcon(baseName);
                     return (
                       <div
                         key={serviceIndex}
                         className="flex items-center gap-2.5 p-2.5 rounded-lg bg-card border border-border/30 active:scale-[0.98] transition-transform duration-150 cursor-pointer"
                         onClick={() =>
-                          trackServiceInterest(service.name, 'click')
+                          track('service_interest', {
+                            service_name: baseName,
+                            interaction_type: 'click',
+                          })
                         }
                         onKeyDown={(e) => {
                           if (e.key === 'Enter' || e.key === ' ') {
                             e.preventDefault();
-                            trackServiceInterest(service.name, 'click');
+                            track('service_interest', {
+                              service_name: baseName,
+                              interaction_type: 'click',
+                            });
                           }
                         }}
                         onMouseEnter={() =>
-                          trackServiceInterest(service.name, 'view')
+                          track('service_interest', {
+                            service_name: baseName,
+                            interaction_type: 'view',
+                          })
                         }
                         role="button"
                         tabIndex={0}
-                        aria-label={`Ver detalles de ${service.name}`}
+                        aria-label={t('pricing.serviceDetails', {
+                          service: service.name,
+                        })}
                       >
                         <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
                           <ServiceIcon className="w-4 h-4 text-primary" />
@@ -508,26 +418,42 @@ export const PricingSection = () => {
                 {/* Desktop: Card grid */}
                 <div className="hidden lg:grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
                   {category.services.map((service, serviceIndex) => {
-                    const ServiceIcon = getServiceIcon(service.name);
+                    const baseName =
+                      baseServiceCategories[categoryIndex].services[
+                        serviceIndex
+                      ].name;
+                    const ServiceIcon = getServiceIcon(baseName);
                     return (
                       <div
                         key={serviceIndex}
+                        data-behavior="pricing-service-card"
                         className="group p-5 rounded-xl bg-card hover:shadow-glow hover:border-primary/50 border border-border/50 transition-all duration-300 hover:-translate-y-1 cursor-pointer"
                         onClick={() =>
-                          trackServiceInterest(service.name, 'click')
+                          track('service_interest', {
+                            service_name: baseName,
+                            interaction_type: 'click',
+                          })
                         }
                         onKeyDown={(e) => {
                           if (e.key === 'Enter' || e.key === ' ') {
                             e.preventDefault();
-                            trackServiceInterest(service.name, 'click');
+                            track('service_interest', {
+                              service_name: baseName,
+                              interaction_type: 'click',
+                            });
                           }
                         }}
                         onMouseEnter={() =>
-                          trackServiceInterest(service.name, 'view')
+                          track('service_interest', {
+                            service_name: baseName,
+                            interaction_type: 'view',
+                          })
                         }
                         role="button"
                         tabIndex={0}
-                        aria-label={`Ver detalles de ${service.name}`}
+                        aria-label={t('pricing.serviceDetails', {
+                          service: service.name,
+                        })}
                       >
                         <div className="flex items-start gap-3 mb-3">
                           <div className="w-10 h-10 rounded-lg bg-primary/10 group-hover:bg-primary/20 flex items-center justify-center shrink-0 transition-colors duration-300">
@@ -27,6 +27,9 @@ export const SentryTestPanel = () => {
     return null;
   }
 
+  // Lo que usa el SDK (main.tsx); el build lo define en vite.config.ts
+  const sentryOptions = Sentry.getClient()?.getOptions();
+
   const handleError = (errorType: string, errorFn: () => void) => {
     setLastError(errorType);
     console.log(`🧪 Testing Sentry: ${errorType}`);
@@ -148,7 +151,13 @@ export const SentryTestPanel = () => {
               : '❌ No configurado'}
           </p>
           <p>
-            <strong>Environment:</strong> {import.meta.env.MODE}
+            <strong>Environment:</strong>{' '}
+            {sentryOptions?.environment ?? __SENTRY_ENVIRONMENT__}
+          </p>
+          <p>
+            <strong>Release:</strong>{' '}
+            {sentryOptions?.release ?? __SENTRY_RELEASE__}
+            {sentryOptions?.dist && ` (${sentryOptions.dist})`}
           </p>
         </div>
       </CardContent>
@@ -1,208 +1,22 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import {
-  Activity,
-  Bone,
-  Brain,
-  Heart,
-  Zap,
-  Users,
-  Target,
-  Sparkles,
-  ArrowRight,
-  ChevronDown,
-  ChevronUp,
-} from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { ArrowRight, ChevronDown, ChevronUp } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { ScrollAnimated } from './ScrollAnimated';
-
-// Genera el schema Service para SEO
-const generateServiceSchema = (specialtiesList: typeof specialties) => ({
-  '@context': 'https://schema.org',
-  '@type': 'Service',
-  serviceType: 'Fisioterapia',
-  provider: {
-    '@type': 'Person',
-    name: 'Lic. Analaura Reyes Priego',
-    jobTitle: 'Fisioterapeuta',
-  },
-  areaServed: [
-    { '@type': 'City', name: 'Ciudad de México' },
-    { '@type': 'City', name: 'Metepec' },
-    { '@type': 'Country', name: 'México' },
-  ],
-  hasOfferCatalog: {
-    '@type': 'OfferCatalog',
-    name: 'Servicios de Fisioterapia',
-    itemListElement: specialtiesList.map((specialty, index) => ({
-      '@type': 'Offer',
-      itemOffered: {
-        '@type': 'Service',
-        name: specialty.title,
-        description: specialty.description,
-        provider: {
-          '@type': 'Person',
-          name: 'Lic. Analaura Reyes Priego',
-        },
-      },
-      price: `$${specialty.priceFrom}`,
-      priceCurrency: 'MXN',
-      position: index + 1,
-    })),
-  },
-  url: 'https://fisio-movimiento.com/#servicios',
-});
-
-const specialties = [
-  {
-    icon: Bone,
-    title: 'Traumatológica',
-    description:
-      '¿Sufriste una lesión o saliste de cirugía? Te ayudo a recuperar tu movilidad paso a paso.',
-    priceFrom: '650',
-  },
-  {
-    icon: Zap,
-    title: 'Electroterapia',
-    description:
-      'Alivia el dolor rápidamente con técnicas de electroterapia de última generación.',
-    priceFrom: '650',
-  },
-  {
-    icon: Activity,
-    title: 'Terapias Manuales',
-    description:
-      '¿Contracturas o tensión muscular? Libera la rigidez con técnicas manuales especializadas.',
-    priceFrom: '650',
-  },
-  {
-    icon: Target,
-    title: 'Readaptación Deportiva',
-    description:
-      '¿Lesión deportiva te detuvo? Vuelve a entrenar con un plan de recuperación personalizado.',
-    priceFrom: '650',
-  },
-  {
-    icon: Brain,
-    title: 'Tratamiento ATM',
-    description:
-      '¿Dolor de mandíbula o bruxismo? Tratamiento especializado para que mastiques sin dolor.',
-    priceFrom: '650',
-  },
-  {
-    icon: Sparkles,
-    title: 'Hipopresivos',
-    description:
-      'Fortalece tu suelo pélvico y abdomen con ejercicios que realmente funcionan.',
-    priceFrom: '650',
-  },
-  {
-    icon: Heart,
-    title: 'Manejo del Dolor',
-    description:
-      '¿Dolor crónico que no cede? Tratamiento integral basado en la evidencia más actual.',
-    priceFrom: '650',
-  },
-  {
-    icon: Users,
-    title: 'Adulto Mayor',
-    description:
-      'Mantén tu independencia y prevén caídas con un programa diseñado para ti.',
-    priceFrom: '650',
-  },
-];
-
-const conditions = [
-  'Ciática',
-  'Lesiones deportivas',
-  'Tendinitis',
-  'Dolor muscular',
-  'Contractura cervical',
-  'Tendinitis del manguito de los rotadores',
-  'Síndrome de pinzamiento del hombro',
-  'Radiculopatía lumbar',
-  'Dolor de cuello',
-  'Dolor de espalda',
-  'Cefalea de origen cervical',
-  'Prótesis de cadera y rodilla',
-  'Articulación temporomandibular (ATM) (bruxismo)',
-  'Prevención de caidas en adulto mayor',
-  'Dolor crónico',
-  'Parálisis facial',
-  'Hipopresivos',
-  'Reeducación postural',
-  'Lesiones de hombro',
-];
+import { SpecialtyIcon } from './SpecialtyIcon';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const ServicesSection = () => {
   const [showAllConditions, setShowAllConditions] = useState(false);
+  const { t, localizePath } = useTranslation();
+  const { specialties, conditions } = useContent();
 
   // Memoizar visibleConditions para evitar recalcular en cada render
   const visibleConditions = useMemo(
     () => (showAllConditions ? conditions : conditions.slice(0, 8)),
-    [showAllConditions],
+    [showAllConditions, conditions],
   );
 
-  // Memoizar función generadora de schema para evitar recrearla en cada render
-  const generateConditionListSchema = useCallback(
-    (conditionsList: string[]) => ({
-      '@context': 'https://schema.org',
-      '@type': 'ItemList',
-      name: 'Condiciones Tratadas',
-      description:
-        'Lista de condiciones y lesiones que tratamos en fisioterapia',
-      itemListElement: conditionsList.map((condition, index) => ({
-        '@type': 'ListItem',
-        position: index + 1,
-        item: {
-          '@type': 'MedicalCondition',
-          name: condition,
-        },
-      })),
-    }),
-    [],
-  );
-
-  // Inyectar schemas para SEO
-  useEffect(() => {
-    // Schema Service
-    const existingServiceScript = document.querySelector(
-      'script[data-service-schema]',
-    );
-    if (!existingServiceScript) {
-      const serviceScript = document.createElement('script');
-      serviceScript.type = 'application/ld+json';
-      serviceScript.setAttribute('data-service-schema', 'true');
-      serviceScript.textContent = JSON.stringify(
-        generateServiceSchema(specialties),
-      );
-      document.head.appendChild(serviceScript);
-    }
-
-    // Schema ItemList para condiciones
-    const existingConditionScript = document.querySelector(
-      'script[data-condition-list-schema]',
-    );
-    if (!existingConditionScript) {
-      const conditionScript = document.createElement('script');
-      conditionScript.type = 'application/ld+json';
-      conditionScript.setAttribute('data-condition-list-schema', 'true');
-      conditionScript.textContent = JSON.stringify(
-        generateConditionListSchema(conditions),
-      );
-      document.head.appendChild(conditionScript);
-    }
-
-    return () => {
-      const serviceScript = document.querySelector(
-        'script[data-service-schema]',
-      );
-      if (serviceScript) serviceScript.remove();
-      const conditionScript = document.querySelector(
-        'script[data-condition-list-schema]',
-      );
-      if (conditionScript) conditionScript.remove();
-    };
-  }, [generateConditionListSchema]);
-
   return (
     <section id="servicios" className="py-16 lg:py-24 bg-secondary/30">
       <div className="container mx-auto px-4">
@@ -210,14 +24,17 @@ export const ServicesSection = () => {
         <ScrollAnimated animation="fade-up" delay={0}>
           <div className="text-center mb-10 lg:mb-16">
             <span className="text-primary font-semibold text-sm uppercase tracking-wider">
-              Especialidades
+              {t('services.eyebrow')}
             </span>
             <h2 className="font-display text-3xl md:text-4xl lg:text-5xl font-bold text-foreground mt-2">
-              ¿Qué <span className="text-primary">Tratamiento</span> Necesitas?
+              {t('services.titleStart')}{' '}
+              <span className="text-primary">
+                {t('services.titleHighlight')}
+              </span>{' '}
+              {t('services.titleEnd')}
             </h2>
             <p className="text-base lg:text-lg text-muted-foreground mt-4 max-w-2xl mx-auto">
-              Cuéntame tu dolor y juntos encontraremos la solución. Todos los
-              tratamientos son personalizados para ti.
+              {t('services.intro')}
             </p>
           </div>
         </ScrollAnimated>
@@ -229,9 +46,15 @@ export const ServicesSection = () => {
             <div className="flex gap-4 overflow-x-auto pb-4 snap-x snap-mandatory scrollbar-hide">
               {specialties.map((specialty, index) => (
                 <div key={index} className="flex-shrink-0 w-[280px] snap-start">
-                  <div className="group relative p-5 rounded-2xl bg-card shadow-soft border border-border/50 h-full min-h-[200px]">
+                  <Link
+                    to={localizePath(`/servicios/${specialty.slug}`)}
+                    className="group relative flex flex-col p-5 rounded-2xl bg-card shadow-soft border border-border/50 h-full min-h-[200px]"
+                  >
                     <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center mb-3">
-                      <specialty.icon className="w-6 h-6 text-primary" />
+                      <SpecialtyIcon
+                        icon={specialty.icon}
+                        className="w-6 h-6 text-primary"
+                      />
                     </div>
                     <h3 className="font-display font-bold text-base text-foreground mb-2">
                       {specialty.title}
@@ -242,11 +65,13 @@ export const ServicesSection = () => {
                     {specialty.priceFrom && (
                       <div className="mt-auto pt-3 border-t border-border/30">
                         <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-primary/10 text-primary text-xs font-semibold border border-primary/20">
-                          Desde ${specialty.priceFrom} MXN
+                          {t('services.priceFrom', {
+                            price: specialty.priceFrom,
+                          })}
                         </span>
                       </div>
                     )}
-                  </div>
+                  </Link>
                 </div>
               ))}
             </div>
@@ -263,7 +88,7 @@ export const ServicesSection = () => {
                 ))}
               </div>
               <p className="text-xs text-muted-foreground flex items-center gap-1">
-                <span>←</span> Desliza para ver más <span>→</span>
+                <span>←</span> {t('services.swipeHint')} <span>→</span>
               </p>
             </div>
           </div>
@@ -276,9 +101,15 @@ export const ServicesSection = () => {
                 animation="scale-in"
                 delay={index * 50}
               >
-                <div className="group relative p-6 rounded-2xl bg-card shadow-soft hover:shadow-glow transition-all duration-300 hover:-translate-y-2 border border-border/50 hover:border-primary/30">
+                <Link
+                  to={localizePath(`/servicios/${specialty.slug}`)}
+                  className="group relative block p-6 rounded-2xl bg-card shadow-soft hover:shadow-glow transition-all duration-300 hover:-translate-y-2 border border-border/50 hover:border-primary/30"
+                >
                   <div className="w-14 h-14 rounded-2xl bg-primary/10 group-hover:gradient-hero flex items-center justify-center mb-4 transition-all duration-300 group-hover:scale-110 group-hover:shadow-glow">
-                    <specialty.icon className="w-7 h-7 text-primary group-hover:text-primary-foreground transition-colors duration-300" />
+                    <SpecialtyIcon
+                      icon={specialty.icon}
+                      className="w-7 h-7 text-primary group-hover:text-primary-foreground transition-colors duration-300"
+                    />
                   </div>
                   <h3 className="font-display font-bold text-lg text-foreground mb-2">
                     {specialty.title}
@@ -289,11 +120,13 @@ export const ServicesSection = () => {
                   {specialty.priceFrom && (
                     <div className="mt-3 pt-3 border-t border-border/30">
                       <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-primary/10 text-primary text-xs font-semibold border border-primary/20">
-                        Desde ${specialty.priceFrom} MXN
+                        {t('services.priceFrom', {
+                          price: specialty.priceFrom,
+                        })}
                       </span>
                     </div>
                   )}
-                </div>
+                </Link>
               </ScrollAnimated>
             ))}
           </div>
@@ -312,7 +145,7 @@ export const ServicesSection = () => {
                   ?.scrollIntoView({ behavior: 'smooth' });
               }}
             >
-              Ver todos los precios
+              {t('services.seeAllPrices')}
               <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
             </a>
           </div>
@@ -326,12 +159,10 @@ export const ServicesSection = () => {
           >
             <div className="text-center mb-6 lg:mb-8">
               <h3 className="font-display text-xl md:text-2xl lg:text-3xl font-bold text-foreground">
-                Condiciones que tratamos
+                {t('services.conditionsTitle')}
               </h3>
               <p className="text-muted-foreground mt-2 text-sm lg:text-base">
-                Amplia experiencia en el tratamiento de diversas patologías:
-                dolor de espalda, cuello, ATM, lesiones deportivas, hipopresivos
-                y más.
+                {t('services.conditionsIntro')}
               </p>
             </div>
 
@@ -355,12 +186,12 @@ export const ServicesSection = () => {
               >
                 {showAllConditions ? (
                   <>
-                    Ver menos
+                    {t('services.showLess')}
                     <ChevronUp className="w-4 h-4" />
                   </>
                 ) : (
                   <>
-                    Ver {conditions.length - 8} más
+                    {t('services.showMore', { count: conditions.length - 8 })}
                     <ChevronDown className="w-4 h-4" />
                   </>
                 )}
@@ -1,4 +1,4 @@
-import { trackEvent } from '@/lib/analytics';
+import { track } from '@/lib/analytics';
 import {
   Facebook,
   Twitter,
@@ -9,6 +9,8 @@ import {
   Check,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
+import { siteConfig } from '@/lib/site-config';
 
 interface ShareButtonsProps {
   url?: string;
@@ -21,12 +23,15 @@ interface ShareButtonsProps {
 export const ShareButtons = ({
   url = typeof window !== 'undefined'
     ? window.location.href
-    : 'https://fisio-movimiento.com/',
-  title = 'Lic. Analaura Reyes Priego | Fisioterapeuta en CDMX y Metepec',
-  description = 'Fisioterapeuta con doble titulación. Especialista en traumatología, ATM, hipopresivos y manejo del dolor.',
+    : `${siteConfig.url}/`,
+  title: titleProp,
+  description: descriptionProp,
   className = '',
   variant = 'default',
 }: ShareButtonsProps) => {
+  const { t } = useTranslation();
+  const title = titleProp ?? t('share.defaultTitle');
+  const description = descriptionProp ?? t('share.defaultDescription');
   const [copied, setCopied] = useState(false);
 
   // Web Share API availability is resolved on the client only. Reading
@@ -79,28 +84,28 @@ export const ShareButtons = ({
       icon: Facebook,
       href: shareLinks.facebook,
       color: 'hover:bg-[#1877F2] hover:text-white',
-      label: 'Compartir en Facebook',
+      label: t('share.shareOn', { network: 'Facebook' }),
     },
     {
       name: 'Twitter',
       icon: Twitter,
       href: shareLinks.twitter,
       color: 'hover:bg-[#1DA1F2] hover:text-white',
-      label: 'Compartir en Twitter',
+      label: t('share.shareOn', { network: 'Twitter' }),
     },
     {
       name: 'WhatsApp',
       icon: MessageCircle,
       href: shareLinks.whatsapp,
       color: 'hover:bg-[#25D366] hover:text-white',
-      label: 'Compartir en WhatsApp',
+      label: t('share.shareOn', { network: 'WhatsApp' }),
     },
     {
       name: 'LinkedIn',
       icon: Linkedin,
       href: shareLinks.linkedin,
       color: 'hover:bg-[#0077B5] hover:text-white',
-      label: 'Compartir en LinkedIn',
+      label: t('share.shareOn', { network: 'LinkedIn' }),
     },
   ];
 
@@ -108,7 +113,7 @@ export const ShareButtons = ({
     return (
       <div className={`flex items-center gap-2 ${className}`}>
         <span className="text-sm text-muted-foreground font-medium">
-          Compartir:
+          {t('share.shareLabel')}
         </span>
         <div className="flex gap-2">
           {shareButtons.map((button) => {
@@ -122,7 +127,7 @@ export const ShareButtons = ({
                 className={`w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center transition-all duration-300 hover:scale-110 ${button.color}`}
                 aria-label={button.label}
                 onClick={() => {
-                  trackEvent('share', {
+                  track('share', {
                     method: button.name,
                     platform: button.name,
                   });
@@ -136,7 +141,7 @@ export const ShareButtons = ({
             <button
               onClick={handleShare}
               className="w-8 h-8 rounded-full bg-primary text-primary-foreground hover:bg-primary/90 flex items-center justify-center transition-all duration-300 hover:scale-110"
-              aria-label="Compartir usando el navegador"
+              aria-label={t('share.nativeShare')}
             >
               <Share2 className="w-4 h-4" />
             </button>
@@ -152,7 +157,7 @@ export const ShareButtons = ({
         <div className="bg-card rounded-2xl p-4 shadow-glow border border-border/50 animate-scale-in">
           <div className="flex flex-col gap-3">
             <div className="text-sm font-semibold text-foreground mb-2">
-              Compartir
+              {t('share.shareTitle')}
             </div>
             {shareButtons.map((button) => {
               const Icon = button.icon;
@@ -173,19 +178,21 @@ export const ShareButtons = ({
             <button
               onClick={handleCopy}
               className="flex items-center gap-3 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300 hover:scale-105"
-              aria-label="Copiar enlace"
+              aria-label={t('share.copyLink')}
             >
               {copied ? (
                 <>
                   <Check className="w-5 h-5 text-green-500" />
                   <span className="text-sm font-medium text-green-500">
-                    ¡Copiado!
+                    {t('share.copied')}
                   </span>
                 </>
               ) : (
                 <>
                   <Copy className="w-5 h-5" />
-                  <span className="text-sm font-medium">Copiar enlace</span>
+                  <span className="text-sm font-medium">
+                    {t('share.copyLink')}
+                  </span>
                 </>
               )}
             </button>
@@ -193,10 +200,12 @@ export const ShareButtons = ({
               <button
                 onClick={handleShare}
                 className="flex items-center gap-3 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300 hover:scale-105"
-                aria-label="Compartir usando el navegador"
+                aria-label={t('share.nativeShare')}
               >
                 <Share2 className="w-5 h-5" />
-                <span className="text-sm font-medium">Más opciones</span>
+                <span className="text-sm font-medium">
+                  {t('share.moreOptions')}
+                </span>
               </button>
             )}
           </div>
@@ -209,7 +218,7 @@ export const ShareButtons = ({
   return (
     <div className={`flex flex-wrap items-center gap-4 ${className}`}>
       <span className="text-sm font-semibold text-foreground">
-        Compartir en:
+        {t('share.shareOnLabel')}
       </span>
       <div className="flex flex-wrap gap-3">
         {shareButtons.map((button) => {
@@ -259,19 +268,19 @@ export const ShareButtons = ({
         <button
           onClick={handleCopy}
           className={`flex items-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300 hover:scale-105 shadow-soft hover:shadow-glow ${copied ? 'bg-green-500/20 text-green-500' : ''}`}
-          aria-label="Copiar enlace"
+          aria-label={t('share.copyLink')}
         >
           {copied ? (
             <>
               <Check className="w-5 h-5 text-green-500" />
               <span className="text-sm font-medium text-green-500">
-                ¡Copiado!
+                {t('share.copied')}
               </span>
             </>
           ) : (
             <>
               <Copy className="w-5 h-5" />
-              <span className="text-sm font-medium">Copiar enlace</span>
+              <span className="text-sm font-medium">{t('share.copyLink')}</span>
             </>
           )}
         </button>
@@ -279,10 +288,12 @@ export const ShareButtons = ({
           <button
             onClick={handleShare}
             className="flex items-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300 hover:scale-105 shadow-soft hover:shadow-glow"
-            aria-label="Compartir usando el navegador"
+            aria-label={t('share.nativeShare')}
           >
             <Share2 className="w-5 h-5" />
-            <span className="text-sm font-medium">Más opciones</span>
+            <span className="text-sm font-medium">
+              {t('share.moreOptions')}
+            </span>
           </button>
         )}
       </div>
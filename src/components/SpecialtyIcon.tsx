@@ -0,0 +1,37 @@
+import {
+  Activity,
+  Bone,
+  Brain,
+  Heart,
+  Sparkles,
+  Target,
+  Users,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import type { SpecialtyIcon as SpecialtyIconName } from '@/content';
+
+// Iconos disponibles para las especialidades (ver SPECIALTY_ICONS en el esquema)
+const specialtyIcons: Record<SpecialtyIconName, LucideIcon> = {
+  Activity,
+  Bone,
+  Brain,
+  Heart,
+  Sparkles,
+  Target,
+  Users,
+  Zap,
+};
+
+interface SpecialtyIconProps {
+  icon: SpecialtyIconName;
+  className?: string;
+}
+
+/**
+ * Renderiza el icono de lucide-react guardado por nombre en specialties.json
+ */
+export const SpecialtyIcon = ({ icon, className }: SpecialtyIconProps) => {
+  const Icon = specialtyIcons[icon];
+  return <Icon className={className} />;
+};
@@ -8,121 +8,18 @@ import {
 import { Button } from '@/components/ui/button';
 import { ScrollAnimated } from '@/components/ScrollAnimated';
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
-
-// Genera el schema Review para SEO
-const generateReviewSchema = (testimonials: typeof featuredTestimonials) => ({
-  '@context': 'https://schema.org',
-  '@type': 'Organization',
-  '@id': 'https://fisio-movimiento.com/#organization',
-  name: 'Fisioterapia Analaura Reyes Priego',
-  aggregateRating: {
-    '@type': 'AggregateRating',
-    ratingValue: '5.0',
-    reviewCount: testimonials.length.toString(),
-    bestRating: '5',
-    worstRating: '1',
-  },
-  review: testimonials.map((testimonial) => ({
-    '@type': 'Review',
-    author: {
-      '@type': 'Person',
-      name: testimonial.name,
-    },
-    reviewRating: {
-      '@type': 'Rating',
-      ratingValue: testimonial.rating.toString(),
-      bestRating: '5',
-      worstRating: '1',
-    },
-    reviewBody: testimonial.text,
-    datePublished: new Date().toISOString().split('T')[0], // Approximate date
-  })),
-});
-
-const featuredTestimonials = [
-  {
-    name: 'María G.',
-    rating: 5,
-    text: 'Excelente consulta, todo bien, muy clara en su explicación. Me sentí escuchada desde el primer momento.',
-    date: 'Hace 2 semanas',
-    category: 'General',
-    transformation: 'Dolor de cuello → Sin molestias',
-  },
-  {
-    name: 'Carlos R.',
-    rating: 5,
-    text: 'Excelente atención, explica a detalle y te hace sentir cómodo. 100% recomendable. Llegué con dolor intenso y salí mucho mejor.',
-    date: 'Hace 1 mes',
-    category: 'Atención',
-    transformation: 'Lumbalgia → Recuperación total',
-  },
-  {
-    name: 'Ana L.',
-    rating: 5,
-    text: 'La doctora es muy profesional, explica de manera detallada el tratamiento a seguir y resuelve cada una de las dudas. He visto una gran mejoría con el tratamiento indicado.',
-    date: 'Hace 3 semanas',
-    category: 'Tratamiento',
-    transformation: 'Ciática crónica → Vida sin dolor',
-  },
-  {
-    name: 'Roberto M.',
-    rating: 5,
-    text: 'Diagnóstico y atención de buena calidad, acompañamiento en el proceso y se preocupa por integrar ejercicios que mejoren la calidad de vida. Ya puedo hacer ejercicio de nuevo.',
-    date: 'Hace 1 mes',
-    category: 'Calidad de vida',
-    transformation: 'Lesión deportiva → Vuelta al gym',
-  },
-  {
-    name: 'Patricia S.',
-    rating: 5,
-    text: 'Ha sido una grata experiencia. El trato por parte de la especialista es siempre cordial, empático y muy humano. Los ejercicios y la explicación es clara, me han ayudado mucho.',
-    date: 'Hace 2 semanas',
-    category: 'Experiencia',
-    transformation: 'ATM/Bruxismo → Sin dolor al masticar',
-  },
-  {
-    name: 'Jorge H.',
-    rating: 5,
-    text: 'Todo excelente, con mi primera sesión hubo mejoría notable. La Lic. muy atenta y profesional. Buena experiencia y muy agradecido por la atención.',
-    date: 'Hace 1 semana',
-    category: 'Primera sesión',
-    transformation: 'Contractura → Alivio inmediato',
-  },
-  {
-    name: 'Laura V.',
-    rating: 5,
-    text: 'Excelente la fisioterapia recibida, llevaba dolor y salí con mucho menor molestia. Realmente funciona.',
-    date: 'Hace 3 semanas',
-    category: 'Dolor',
-    transformation: 'Dolor de hombro → Movilidad completa',
-  },
-  {
-    name: 'Fernando T.',
-    rating: 5,
-    text: 'Muy acertada como siempre en su exploración y terapia. Llevo 5 sesiones y la diferencia es increíble.',
-    date: 'Hace 2 semanas',
-    category: 'Terapia',
-    transformation: 'Post-operatorio → Rehabilitación exitosa',
-  },
-  {
-    name: 'Diana P.',
-    rating: 5,
-    text: 'Excelente atención y buena explicación, sobre todo paciencia. Me enseñó ejercicios que puedo hacer en casa.',
-    date: 'Hace 1 mes',
-    category: 'Atención',
-    transformation: 'Dolor crónico → Manejo efectivo',
-  },
-];
+import {
+  testimonials as featuredTestimonials,
+  type Testimonial,
+} from '@/content';
+import { useTranslation } from '@/hooks/use-translation';
+import { siteConfig } from '@/lib/site-config';
 
 // Testimonial Card Component with transformation
-const TestimonialCard = ({
-  testimonial,
-}: {
-  testimonial: (typeof featuredTestimonials)[0];
-}) => (
+const TestimonialCard = ({ testimonial }: { testimonial: Testimonial }) => (
   <div className="group bg-card rounded-2xl p-6 shadow-soft hover:shadow-glow transition-all duration-300 lg:hover:-translate-y-2 border border-border/50 hover:border-primary/30 h-full flex flex-col">
     {/* Transformation badge */}
-    {'transformation' in testimonial && testimonial.transformation && (
+    {testimonial.transformation && (
       <div className="mb-3 -mt-1">
         <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-accent/10 text-accent-deep text-xs font-semibold border border-accent/20">
           ✨ {testimonial.transformation}
@@ -164,6 +61,7 @@ export const TestimonialsSection = () => {
   const [canScrollLeft, setCanScrollLeft] = useState(false);
   const [canScrollRight, setCanScrollRight] = useState(true);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const { t } = useTranslation();
 
   // Memoizar displayedTestimonials para evitar recalcular en cada render
   const displayedTestimonials = useMemo(
@@ -171,24 +69,6 @@ export const TestimonialsSection = () => {
     [],
   );
 
-  // Inyectar schema Review para SEO
-  useEffect(() => {
-    const existingScript = document.querySelector('script[data-review-schema]');
-    if (!existingScript) {
-      const script = document.createElement('script');
-      script.type = 'application/ld+json';
-      script.setAttribute('data-review-schema', 'true');
-      script.textContent = JSON.stringify(
-        generateReviewSchema(featuredTestimonials),
-      );
-      document.head.appendChild(script);
-    }
-    return () => {
-      const script = document.querySelector('script[data-review-schema]');
-      if (script) script.remove();
-    };
-  }, []);
-
   const updateScrollState = useCallback(() => {
     const container = scrollContainerRef.current;
     if (container) {
@@ -253,13 +133,16 @@ export const TestimonialsSection = () => {
         {/* Header */}
         <div className="text-center mb-10 lg:mb-16">
           <span className="text-primary font-semibold text-sm uppercase tracking-wider">
-            Testimonios
+            {t('testimonials.eyebrow')}
           </span>
           <h2 className="font-display text-3xl md:text-4xl lg:text-5xl font-bold text-foreground mt-2">
-            Lo que Dicen Mis <span className="text-primary">Pacientes</span>
+            {t('testimonials.titleStart')}{' '}
+            <span className="text-primary">
+              {t('testimonials.titleHighlight')}
+            </span>
           </h2>
           <p className="hidden sm:block text-base lg:text-lg text-muted-foreground mt-3 lg:mt-4 max-w-2xl mx-auto">
-            La satisfacción de mis pacientes es mi mayor recompensa
+            {t('testimonials.intro')}
           </p>
 
           {/* Rating Summary - Compact on mobile */}
@@ -276,7 +159,7 @@ export const TestimonialsSection = () => {
               5.0
             </span>
             <span className="text-sm lg:text-base text-muted-foreground">
-              • +150 opiniones
+              {t('testimonials.reviewCount')}
             </span>
           </div>
         </div>
@@ -287,10 +170,13 @@ export const TestimonialsSection = () => {
             <ScrollAnimated animation="fade-up" delay={300}>
               <div className="text-center mb-6 lg:mb-12">
                 <h3 className="font-display text-xl md:text-2xl lg:text-3xl font-bold text-foreground mb-2">
-                  Testimonios <span className="text-primary">Destacados</span>
+                  {t('testimonials.featuredStart')}{' '}
+                  <span className="text-primary">
+                    {t('testimonials.featuredHighlight')}
+                  </span>
                 </h3>
                 <p className="hidden sm:block text-sm lg:text-base text-muted-foreground max-w-2xl mx-auto">
-                  Reseñas verificadas de pacientes satisfechos
+                  {t('testimonials.featuredIntro')}
                 </p>
               </div>
             </ScrollAnimated>
@@ -300,14 +186,17 @@ export const TestimonialsSection = () => {
               {/* Navigation Buttons */}
               <div className="flex justify-between items-center mb-4">
                 <span className="text-sm text-muted-foreground">
-                  {currentIndex + 1} de {displayedTestimonials.length}
+                  {t('testimonials.position', {
+                    current: currentIndex + 1,
+                    total: displayedTestimonials.length,
+                  })}
                 </span>
                 <div className="flex gap-2">
                   <button
                     onClick={() => scroll('left')}
                     disabled={!canScrollLeft}
                     className="p-2 rounded-full bg-card border border-border shadow-sm disabled:opacity-40 disabled:cursor-not-allowed touch-target"
-                    aria-label="Testimonio anterior"
+                    aria-label={t('testimonials.previous')}
                   >
                     <ChevronLeft className="w-5 h-5 text-foreground" />
                   </button>
@@ -315,7 +204,7 @@ export const TestimonialsSection = () => {
                     onClick={() => scroll('right')}
                     disabled={!canScrollRight}
                     className="p-2 rounded-full bg-card border border-border shadow-sm disabled:opacity-40 disabled:cursor-not-allowed touch-target"
-                    aria-label="Siguiente testimonio"
+                    aria-label={t('testimonials.next')}
                   >
                     <ChevronRight className="w-5 h-5 text-foreground" />
                   </button>
@@ -372,10 +261,10 @@ export const TestimonialsSection = () => {
         <ScrollAnimated animation="fade-up" delay={350}>
           <div className="text-center mb-8 lg:mb-12 p-6 lg:p-8 bg-gradient-to-r from-primary/5 via-accent/5 to-primary/5 rounded-2xl border border-primary/20">
             <h3 className="font-display text-xl lg:text-2xl font-bold text-foreground mb-2">
-              ¿Quieres resultados como estos?
+              {t('testimonials.ctaTitle')}
             </h3>
             <p className="text-muted-foreground mb-4">
-              Únete a más de 500 pacientes que ya recuperaron su bienestar
+              {t('testimonials.ctaText')}
             </p>
             <Button
               variant="cta"
@@ -383,7 +272,7 @@ export const TestimonialsSection = () => {
               className="min-h-[52px] px-8"
               asChild
             >
-              <a href="#agenda">Reservar Mi Cita Ahora</a>
+              <a href="#agenda">{t('testimonials.ctaButton')}</a>
             </Button>
           </div>
         </ScrollAnimated>
@@ -406,7 +295,7 @@ export const TestimonialsSection = () => {
                 />
               </div>
               <p className="text-muted-foreground">
-                Lee todas las opiniones verificadas en mi perfil de Doctoralia
+                {t('testimonials.doctoraliaText')}
               </p>
               <Button
                 variant="outline"
@@ -414,12 +303,12 @@ export const TestimonialsSection = () => {
                 className="group min-h-[48px] px-6"
                 onClick={() =>
                   window.open(
-                    'https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/iztapalapa#profile-reviews',
+                    `${siteConfig.doctoralia.profileUrl}/iztapalapa#profile-reviews`,
                     '_blank',
                   )
                 }
               >
-                Ver Todas las Opiniones
+                {t('testimonials.doctoraliaButton')}
                 <ExternalLink className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" />
               </Button>
             </div>
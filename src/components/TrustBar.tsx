@@ -1,39 +1,54 @@
 import { GraduationCap, BadgeCheck, MapPin, CreditCard } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import { getPhysicalAddresses } from '@/lib/doctoralia-addresses';
+import type { MessageKey } from '@/lib/i18n';
+import { siteConfig } from '@/lib/site-config';
+import { OpeningStatusBadge } from './OpeningStatusBadge';
+
+const physicalSchedules = getPhysicalAddresses().map((addr) => addr.schedule);
 
 /**
  * Trust bar - banda de credenciales y sedes justo debajo del Hero.
  * Refuerza la confianza (doble titulación, cédula, sedes, pagos) antes de que
  * el usuario baje. Estático y ligero para no afectar el LCP.
  */
-const items = [
+const items: {
+  icon: typeof GraduationCap;
+  title: MessageKey;
+  detail: MessageKey;
+  showOpeningStatus?: boolean;
+}[] = [
   {
     icon: GraduationCap,
-    title: 'Doble titulación',
-    detail: 'México & España',
+    title: 'trustBar.degreeTitle',
+    detail: 'trustBar.degreeDetail',
   },
   {
     icon: BadgeCheck,
-    title: 'Cédula profesional',
-    detail: 'No. 10909109',
+    title: 'trustBar.licenseTitle',
+    detail: 'common.licenseNumber',
   },
   {
     icon: MapPin,
-    title: '2 consultorios',
-    detail: 'CDMX y Metepec',
+    title: 'trustBar.clinicsTitle',
+    detail: 'trustBar.clinicsDetail',
+    // Estado en vivo (solo tras hidratar, no afecta el HTML estático)
+    showOpeningStatus: true,
   },
   {
     icon: CreditCard,
-    title: 'Pagos flexibles',
-    detail: 'Tarjeta y efectivo',
+    title: 'trustBar.paymentsTitle',
+    detail: 'trustBar.paymentsDetail',
   },
 ];
 
 export const TrustBar = () => {
+  const { t } = useTranslation();
   return (
     <div className="border-y border-border bg-card">
       <div className="container mx-auto px-4">
         <ul className="grid grid-cols-2 md:grid-cols-4 divide-y divide-border md:divide-y-0 md:divide-x">
-          {items.map(({ icon: Icon, title, detail }) => (
+          {items.map(({ icon: Icon, title, detail, showOpeningStatus }) => (
             <li
               key={title}
               className="flex items-center gap-3 px-2 py-4 md:px-6 md:py-5 md:justify-center"
@@ -43,11 +58,17 @@ export const TrustBar = () => {
               </span>
               <span className="leading-tight">
                 <span className="block text-sm font-semibold text-foreground">
-                  {title}
+                  {t(title)}
                 </span>
                 <span className="block text-xs text-muted-foreground">
-                  {detail}
+                  {t(detail, { license: siteConfig.professional.license })}
                 </span>
+                {showOpeningStatus && (
+                  <OpeningStatusBadge
+                    schedules={physicalSchedules}
+                    className="text-[11px] font-medium text-foreground mt-0.5"
+                  />
+                )}
               </span>
             </li>
           ))}
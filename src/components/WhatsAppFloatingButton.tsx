@@ -1,6 +1,12 @@
 import { useState } from 'react';
 import { X } from 'lucide-react';
-import { trackWhatsAppClick } from '@/lib/analytics';
+import { useTranslation } from '@/hooks/use-translation';
+import { getStoredUTMParams } from '@/lib/analytics';
+import {
+  buildWhatsAppLink,
+  trackWhatsAppLink,
+  type WhatsAppIntent,
+} from '@/lib/whatsapp';
 
 // SVG del logo oficial de WhatsApp
 const WhatsAppIcon = ({ className }: { className?: string }) => (
@@ -15,22 +21,37 @@ const WhatsAppIcon = ({ className }: { className?: string }) => (
 );
 
 interface WhatsAppFloatingButtonProps {
-  phoneNumber?: string;
-  message?: string;
+  intent?: WhatsAppIntent;
+  /** Servicio o plan de la página actual */
+  service?: string;
+  /** Slug del consultorio de la página actual */
+  location?: string;
 }
 
 export const WhatsAppFloatingButton = ({
-  phoneNumber = '+525565053202',
-  message = 'Hola, me gustaría agendar una cita',
+  intent = 'booking',
+  service,
+  location,
 }: WhatsAppFloatingButtonProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { locale, t } = useTranslation();
 
-  const whatsappUrl = `https://wa.me/${phoneNumber.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+  // El enlace solo se muestra al expandir (en el cliente), así que aquí sí
+  // se pueden incluir las UTMs de la visita en el folio
+  const whatsapp = isExpanded
+    ? buildWhatsAppLink({
+        intent,
+        service,
+        location,
+        utm: getStoredUTMParams(),
+        locale,
+      })
+    : null;
 
   return (
     <div className="fixed bottom-20 right-4 md:bottom-6 md:right-6 z-50 hidden lg:block">
       {/* Expanded Card */}
-      {isExpanded && (
+      {whatsapp && (
         <div className="mb-4 bg-card rounded-2xl p-4 shadow-glow border border-border/50 animate-scale-in max-w-[280px]">
           <div className="flex items-start justify-between mb-3">
             <div className="flex items-center gap-3">
@@ -39,32 +60,32 @@ export const WhatsAppFloatingButton = ({
               </div>
               <div>
                 <h4 className="font-bold text-foreground text-sm">
-                  ¿Necesitas ayuda?
+                  {t('whatsappButton.title')}
                 </h4>
                 <p className="text-xs text-muted-foreground">
-                  Escríbenos por WhatsApp
+                  {t('whatsappButton.subtitle')}
                 </p>
               </div>
             </div>
             <button
               onClick={() => setIsExpanded(false)}
               className="w-6 h-6 rounded-full bg-secondary hover:bg-secondary/80 flex items-center justify-center transition-colors shrink-0"
-              aria-label="Cerrar"
+              aria-label={t('whatsappButton.close')}
             >
               <X className="w-4 h-4 text-foreground" />
             </button>
           </div>
           <a
-            href={whatsappUrl}
+            href={whatsapp.href}
             target="_blank"
             rel="noopener noreferrer nofollow"
             className="block w-full px-4 py-3 rounded-lg gradient-cta text-white font-semibold text-center shadow-md hover:shadow-glow hover:scale-105 transition-all duration-300"
             onClick={() => {
               setIsExpanded(false);
-              trackWhatsAppClick(message, 'Floating Button');
+              trackWhatsAppLink(whatsapp, 'Floating Button');
             }}
           >
-            Abrir WhatsApp
+            {t('whatsappButton.open')}
           </a>
         </div>
       )}
@@ -73,7 +94,9 @@ export const WhatsAppFloatingButton = ({
       <button
         onClick={() => setIsExpanded(!isExpanded)}
         className="group relative w-14 h-14 md:w-16 md:h-16 rounded-full bg-[#25D366] shadow-glow hover:shadow-glow-strong flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 hover:bg-[#20BA5A]"
-        aria-label={isExpanded ? 'Cerrar' : 'Abrir WhatsApp'}
+        aria-label={
+          isExpanded ? t('whatsappButton.close') : t('whatsappButton.open')
+        }
       >
         {!isExpanded ? (
           <WhatsAppIcon className="w-7 h-7 md:w-8 md:h-8 text-white group-hover:scale-110 transition-transform duration-300 relative z-10" />
@@ -0,0 +1,271 @@
+/**
+ * Capa de contenido del sitio
+ *
+ * Los textos y precios viven en `src/content/*.json` (editar ahí, no en JSX).
+ * Este módulo los valida con los esquemas de `./schema` y exporta los datos
+ * tipados. Un archivo inválido lanza un error legible al cargar el módulo y,
+ * antes aún, detiene el build vía `contentValidationPlugin` (vite.config.ts).
+ *
+ * Las traducciones viven en `./en/` con la misma estructura; los componentes
+ * leen la versión del idioma de la página con `useContent()`. Los exports
+ * sueltos (`plans`, `specialties`...) son la versión en español.
+ *
+ * Los ejercicios (`exercises.json`) se publican con la URL de su ilustración
+ * (`src/assets/exercises/`).
+ *
+ * Los artículos del blog son MDX en `./blog/` (y `./en/blog/`): sus
+ * metadatos llegan ya validados por `virtual:blog-posts` y el cuerpo se carga
+ * bajo demanda (ver lib/blog.ts).
+ */
+import type { MDXModule } from 'mdx/types';
+import { blogPosts as localizedBlogPosts } from 'virtual:blog-posts';
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '@/lib/i18n';
+import {
+  findBrokenContentReferences,
+  parseContent,
+  type ExerciseEntry,
+  type GalleryEntry,
+  type Specialty,
+} from './schema';
+import plansData from './plans.json';
+import serviceCategoriesData from './service-categories.json';
+import specialtiesData from './specialties.json';
+import conditionsData from './conditions.json';
+import faqsData from './faqs.json';
+import testimonialsData from './testimonials.json';
+import galleryData from './gallery.json';
+import exercisesData from './exercises.json';
+import plansEnData from './en/plans.json';
+import serviceCategoriesEnData from './en/service-categories.json';
+import specialtiesEnData from './en/specialties.json';
+import conditionsEnData from './en/conditions.json';
+import faqsEnData from './en/faqs.json';
+import galleryEnData from './en/gallery.json';
+import exercisesEnData from './en/exercises.json';
+
+export type {
+  Plan,
+  Service,
+  ServiceCategory,
+  Specialty,
+  SpecialtyIcon,
+  FAQ,
+  Testimonial,
+  GalleryEntry,
+  BlogCategory,
+  ExerciseRegion,
+  ExerciseLevel,
+} from './schema';
+export {
+  BLOG_CATEGORIES,
+  EXERCISE_DOSAGE_LIMITS,
+  EXERCISE_LEVELS,
+  EXERCISE_REGIONS,
+} from './schema';
+export type { BlogPost } from '@/lib/blog';
+
+export const plans = parseContent('plans.json', plansData);
+export const serviceCategories = parseContent(
+  'service-categories.json',
+  serviceCategoriesData,
+);
+export const specialties = parseContent('specialties.json', specialtiesData);
+export const conditions = parseContent('conditions.json', conditionsData);
+export const faqs = parseContent('faqs.json', faqsData);
+export const testimonials = parseContent('testimonials.json', testimonialsData);
+
+const localizedCollections = {
+  'es-MX': { plans, serviceCategories, specialties, conditions, faqs },
+  en: {
+    plans: parseContent('en/plans.json', plansEnData),
+    serviceCategories: parseContent(
+      'en/service-categories.json',
+      serviceCategoriesEnData,
+    ),
+    specialties: parseContent('en/specialties.json', specialtiesEnData),
+    conditions: parseContent('en/conditions.json', conditionsEnData),
+    faqs: parseContent('en/faqs.json', faqsEnData),
+  },
+} satisfies Record<Locale, unknown>;
+
+for (const collections of Object.values(localizedCollections)) {
+  const brokenReferences = findBrokenContentReferences(
+    collections.specialties,
+    collections.serviceCategories,
+  );
+  if (brokenReferences) {
+    throw new Error(brokenReferences);
+  }
+}
+
+/** Busca una especialidad por su slug de landing (/servicios/:slug) */
+export const getSpecialtyBySlug = (
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+) =>
+  localizedCollections[locale].specialties.find(
+    (specialty) => specialty.slug === slug,
+  );
+
+/** Servicios con precio (service-categories.json) listados por una especialidad */
+export const getSpecialtyServices = (
+  specialty: Specialty,
+  locale: Locale = DEFAULT_LOCALE,
+) =>
+  specialty.services.flatMap((name) =>
+    localizedCollections[locale].serviceCategories.flatMap((category) =>
+      category.services.filter((service) => service.name === name),
+    ),
+  );
+
+// ============================================
+// Galería: resolución de imágenes con vite-imagetools
+// ============================================
+
+// Generar múltiples tamaños para srcset responsive (400w, 665w, 800w)
+// Aspect ratio 4:3 para mantener consistencia
+const clinicImages400 = import.meta.glob<string>('../assets/clinics/*', {
+  query: '?w=400&h=300&format=webp',
+  import: 'default',
+  eager: true,
+});
+const clinicImages665 = import.meta.glob<string>('../assets/clinics/*', {
+  query: '?w=665&h=499&format=webp',
+  import: 'default',
+  eager: true,
+});
+const clinicImages800 = import.meta.glob<string>('../assets/clinics/*', {
+  query: '?w=800&h=600&format=webp',
+  import: 'default',
+  eager: true,
+});
+const clinicImagesFallback = import.meta.glob<string>('../assets/clinics/*', {
+  query: '?w=800&h=600',
+  import: 'default',
+  eager: true,
+});
+
+export interface GalleryImage extends Omit<GalleryEntry, 'file'> {
+  srcSet: string;
+  fallback: string;
+}
+
+const resolveGalleryImage = (entry: GalleryEntry): GalleryImage => {
+  const key = `../assets/clinics/${entry.file}`;
+  const fallback = clinicImagesFallback[key];
+  if (!fallback) {
+    throw new Error(
+      `Contenido inválido en src/content/gallery.json:\n  - "${entry.file}" no existe en src/assets/clinics/`,
+    );
+  }
+  return {
+    alt: entry.alt,
+    caption: entry.caption,
+    location: entry.location,
+    srcSet: `${clinicImages400[key]} 400w, ${clinicImages665[key]} 665w, ${clinicImages800[key]} 800w`,
+    fallback,
+  };
+};
+
+export const galleryImages: GalleryImage[] = parseContent(
+  'gallery.json',
+  galleryData,
+).map(resolveGalleryImage);
+
+const localizedGalleryImages: Record<Locale, GalleryImage[]> = {
+  'es-MX': galleryImages,
+  en: parseContent('en/gallery.json', galleryEnData).map(resolveGalleryImage),
+};
+
+/** Imágenes de la galería de un consultorio (por slug de ubicación) */
+export const getGalleryImagesByLocation = (
+  location: string,
+  locale: Locale = DEFAULT_LOCALE,
+) =>
+  localizedGalleryImages[locale].filter((image) => image.location === location);
+
+// ============================================
+// Ejercicios: ilustraciones de src/assets/exercises/
+// ============================================
+
+const exerciseIllustrations = import.meta.glob<string>(
+  '../assets/exercises/*.svg',
+  { import: 'default', eager: true },
+);
+
+export interface Exercise extends Omit<ExerciseEntry, 'illustration'> {
+  /** URL de la ilustración */
+  image: string;
+}
+
+const resolveExercise = ({
+  illustration,
+  ...exercise
+}: ExerciseEntry): Exercise => {
+  const image = exerciseIllustrations[`../assets/exercises/${illustration}`];
+  if (!image) {
+    throw new Error(
+      `Contenido inválido en src/content/exercises.json:\n  - "${illustration}" no existe en src/assets/exercises/`,
+    );
+  }
+  return { ...exercise, image };
+};
+
+export const exercises: Exercise[] = parseContent(
+  'exercises.json',
+  exercisesData,
+).map(resolveExercise);
+
+const localizedExercises: Record<Locale, Exercise[]> = {
+  'es-MX': exercises,
+  en: parseContent('en/exercises.json', exercisesEnData).map(resolveExercise),
+};
+
+// ============================================
+// Blog: metadatos de virtual:blog-posts, cuerpo MDX bajo demanda
+// ============================================
+
+const blogPostBodies = import.meta.glob<MDXModule>([
+  './blog/*.mdx',
+  './en/blog/*.mdx',
+]);
+
+export const blogPosts = localizedBlogPosts['es-MX'];
+
+/** Busca un artículo del blog por su slug (/blog/:slug) */
+export const getBlogPostBySlug = (
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+) => localizedBlogPosts[locale].find((post) => post.slug === slug);
+
+/** Carga el módulo MDX (cuerpo) de un artículo que existe en `blogPosts` */
+export const loadBlogPostBody = (slug: string, locale: Locale) => {
+  const load =
+    blogPostBodies[`.${LOCALE_INFO[locale].prefix}/blog/${slug}.mdx`];
+  if (!load) {
+    throw new Error(`No existe el artículo "${slug}" (${locale})`);
+  }
+  return load();
+};
+
+const localizedContent = {
+  'es-MX': {
+    ...localizedCollections['es-MX'],
+    testimonials,
+    galleryImages: localizedGalleryImages['es-MX'],
+    exercises,
+    blogPosts,
+  },
+  en: {
+    ...localizedCollections.en,
+    testimonials,
+    galleryImages: localizedGalleryImages.en,
+    exercises: localizedExercises.en,
+    blogPosts: localizedBlogPosts.en,
+  },
+} satisfies Record<Locale, unknown>;
+
+/**
+ * Contenido en el idioma indicado (testimonios siempre en su idioma original)
+ */
+export const getContent = (locale: Locale) => localizedContent[locale];
@@ -0,0 +1,531 @@
+/**
+ * Esquemas de la capa de contenido (`src/content/*.json`)
+ *
+ * Cada archivo JSON del directorio se valida contra su esquema en dos momentos:
+ * - En build/dev, vía `contentValidationPlugin` (vite.config.ts), para que un
+ *   contenido inválido detenga el build con un mensaje legible.
+ * - Al cargar el módulo `@/content`, para obtener los datos ya tipados.
+ *
+ * Este archivo solo depende de zod: vite.config.ts lo importa directamente.
+ */
+import { z, type ZodError, type ZodTypeAny } from 'zod';
+
+/** Precio en pesos mexicanos, sin símbolo ni decimales (p. ej. "650") */
+const price = z.string().regex(/^\d+$/, 'Debe ser un entero sin símbolo ($)');
+
+const nonEmpty = z.string().trim().min(1, 'No puede estar vacío');
+
+const slug = z.string().regex(/^[a-z0-9-]+$/, 'Usa kebab-case (a-z, 0-9, -)');
+
+export const planSchema = z
+  .object({
+    name: nonEmpty,
+    price,
+    originalPrice: price.optional(),
+    description: nonEmpty,
+    features: z.array(nonEmpty).min(1),
+    popular: z.boolean().default(false),
+    badge: nonEmpty.optional(),
+  })
+  .strict();
+
+export const serviceSchema = z
+  .object({
+    name: nonEmpty,
+    price,
+    description: nonEmpty.optional(),
+  })
+  .strict();
+
+export const serviceCategorySchema = z
+  .object({
+    id: slug,
+    title: nonEmpty,
+    services: z.array(serviceSchema).min(1),
+  })
+  .strict();
+
+/** Iconos de lucide-react disponibles para las especialidades */
+export const SPECIALTY_ICONS = [
+  'Activity',
+  'Bone',
+  'Brain',
+  'Heart',
+  'Sparkles',
+  'Target',
+  'Users',
+  'Zap',
+] as const;
+
+export const faqSchema = z
+  .object({
+    question: nonEmpty,
+    answer: nonEmpty,
+    category: nonEmpty.optional(),
+  })
+  .strict();
+
+/**
+ * Especialidad: tarjeta en ServicesSection y landing en /servicios/:slug
+ */
+export const specialtySchema = z
+  .object({
+    /** Segmento de URL de la landing (/servicios/<slug>) */
+    slug,
+    icon: z.enum(SPECIALTY_ICONS),
+    title: nonEmpty,
+    /** Texto corto de la tarjeta en la home */
+    description: nonEmpty,
+    priceFrom: price,
+    seoTitle: nonEmpty.max(70, 'Máximo 70 caracteres (se corta en Google)'),
+    seoDescription: nonEmpty.max(
+      170,
+      'Máximo 170 caracteres (se corta en Google)',
+    ),
+    /** Párrafo introductorio de la landing */
+    intro: nonEmpty,
+    /** Padecimientos que atiende (lista de la landing) */
+    treats: z.array(nonEmpty).min(1),
+    /** Nombres exactos de servicios de service-categories.json */
+    services: z.array(nonEmpty).min(1),
+    /** Preguntas frecuentes específicas del servicio */
+    faqs: z.array(faqSchema).min(1),
+  })
+  .strict();
+
+export const conditionSchema = nonEmpty;
+
+export const testimonialSchema = z
+  .object({
+    name: nonEmpty,
+    rating: z.number().int().min(1).max(5),
+    text: nonEmpty,
+    date: nonEmpty,
+    category: nonEmpty,
+    transformation: nonEmpty.optional(),
+  })
+  .strict();
+
+export const galleryEntrySchema = z
+  .object({
+    /** Nombre del archivo dentro de src/assets/clinics/ */
+    file: z
+      .string()
+      .regex(/^[a-z0-9-]+\.(jpe?g|png)$/, 'Archivo de src/assets/clinics/'),
+    alt: nonEmpty,
+    caption: nonEmpty.optional(),
+    /** Slug del consultorio (lib/doctoralia-addresses.ts) para su landing */
+    location: slug.optional(),
+  })
+  .strict();
+
+/**
+ * Categorías del blog (/blog/categoria/<categoría>); el nombre visible de cada
+ * una está en `blog.categories` de src/locales/
+ */
+export const BLOG_CATEGORIES = [
+  'ejercicios',
+  'padecimientos',
+  'prevencion',
+] as const;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Usa el formato AAAA-MM-DD');
+
+/**
+ * Frontmatter de un artículo del blog (`src/content/blog/<slug>.mdx`, con su
+ * traducción en `en/blog/`). El slug es el nombre del archivo.
+ */
+export const blogPostSchema = z
+  .object({
+    title: nonEmpty.max(70, 'Máximo 70 caracteres (se corta en Google)'),
+    description: nonEmpty.max(
+      170,
+      'Máximo 170 caracteres (se corta en Google)',
+    ),
+    author: nonEmpty,
+    /** Fecha de publicación */
+    date: isoDate,
+    /** Última revisión del contenido, si cambió después de publicarse */
+    updated: isoDate.optional(),
+    category: z.enum(BLOG_CATEGORIES),
+    tags: z.array(nonEmpty).min(1),
+    /** Slugs de especialidades relacionadas (specialties.json) */
+    services: z.array(slug).default([]),
+  })
+  .strict();
+
+const url = z.string().url('Debe ser una URL completa (https://...)');
+
+/**
+ * Regiones del cuerpo de los ejercicios (filtro de /ejercicios); el nombre
+ * visible de cada una está en `exercises.regions` de src/locales/
+ */
+export const EXERCISE_REGIONS = [
+  'cuello',
+  'hombro',
+  'espalda',
+  'core',
+  'cadera',
+  'rodilla',
+  'tobillo',
+  'mandibula',
+] as const;
+
+/** Niveles de dificultad (`exercises.levels` en src/locales/) */
+export const EXERCISE_LEVELS = ['basico', 'intermedio', 'avanzado'] as const;
+
+/** Rangos de la dosis de un ejercicio (catálogo y programas) */
+export const EXERCISE_DOSAGE_LIMITS = {
+  sets: { min: 1, max: 10 },
+  reps: { min: 1, max: 50 },
+  holdSeconds: { min: 5, max: 120 },
+} as const;
+
+const dosage = (field: keyof typeof EXERCISE_DOSAGE_LIMITS) =>
+  z
+    .number()
+    .int()
+    .min(EXERCISE_DOSAGE_LIMITS[field].min)
+    .max(EXERCISE_DOSAGE_LIMITS[field].max);
+
+/**
+ * Ejercicio terapéutico del catálogo (/ejercicios) y de los programas para
+ * casa (/ejercicios/programa). La dosis es la sugerida; la fisioterapeuta la
+ * ajusta en cada programa.
+ */
+export const exerciseSchema = z
+  .object({
+    /** Identificador estable: va en las URLs de los programas compartidos */
+    id: slug,
+    name: nonEmpty,
+    region: z.enum(EXERCISE_REGIONS),
+    difficulty: z.enum(EXERCISE_LEVELS),
+    /** Resumen de una línea (tarjeta del catálogo) */
+    description: nonEmpty,
+    /** Padecimientos para los que se indica (filtro del catálogo) */
+    conditions: z.array(nonEmpty).min(1),
+    /** Instrucciones paso a paso */
+    steps: z.array(nonEmpty).min(1),
+    sets: dosage('sets'),
+    /** Repeticiones por serie (ejercicios dinámicos) */
+    reps: dosage('reps').optional(),
+    /** Segundos por serie (ejercicios isométricos y estiramientos) */
+    holdSeconds: dosage('holdSeconds').optional(),
+    /** Cuándo no hacerlo o suspenderlo */
+    contraindications: z.array(nonEmpty).min(1),
+    /** Ilustración dentro de src/assets/exercises/ */
+    illustration: z
+      .string()
+      .regex(/^[a-z0-9-]+\.svg$/, 'Archivo .svg de src/assets/exercises/'),
+    /** Video demostrativo (YouTube, Vimeo...), si lo hay */
+    video: url.optional(),
+  })
+  .strict()
+  .refine(
+    (exercise) =>
+      (exercise.reps === undefined) !== (exercise.holdSeconds === undefined),
+    {
+      path: ['reps'],
+      message: 'Indica "reps" o "holdSeconds" (solo uno)',
+    },
+  );
+
+/**
+ * Datos del negocio (nombre, dominio, teléfono, perfiles externos). Es un
+ * objeto único, no una colección: se consume vía `siteConfig`
+ * (src/lib/site-config.ts) y desde los scripts/plugins de build.
+ */
+export const siteSchema = z
+  .object({
+    /** Nombre corto de la marca (og:site_name, PWA short_name) */
+    name: nonEmpty,
+    /** Nombre largo: "<marca> - <propuesta>" */
+    title: nonEmpty,
+    description: nonEmpty,
+    /** Dominio canónico, sin "/" final */
+    url: url.regex(/^https:\/\/[^/]+$/, 'Solo el origen, sin "/" final'),
+    /** Locale de Open Graph (p. ej. "es_MX") */
+    locale: z.string().regex(/^[a-z]{2}_[A-Z]{2}$/, 'Formato xx_XX'),
+    professional: z
+      .object({
+        name: nonEmpty,
+        license: z.string().regex(/^\d+$/, 'Solo dígitos'),
+        /** Títulos y diplomados (llms.txt) */
+        credentials: z.array(nonEmpty).min(1),
+      })
+      .strict(),
+    /** Teléfono en formato E.164 (también es el número de WhatsApp) */
+    phone: z.string().regex(/^\+52\d{10}$/, 'Usa +52 y 10 dígitos'),
+    /** El mismo teléfono, como se muestra en el sitio */
+    phoneDisplay: nonEmpty,
+    email: z.string().email('Correo inválido'),
+    doctoralia: z
+      .object({
+        /** Perfil sin ciudad (la ciudad la pone cada consultorio) */
+        profileUrl: url,
+        /** Ciudad del enlace de reserva general */
+        defaultCity: slug,
+      })
+      .strict(),
+    social: z
+      .object({
+        instagram: url,
+        facebook: url,
+      })
+      .strict(),
+    facebookAppId: z.string().regex(/^\d+$/, 'Solo dígitos'),
+    /** Imagen Open Graph por defecto (ruta dentro de public/) */
+    ogImage: z.string().startsWith('/', 'Ruta absoluta dentro de public/'),
+  })
+  .strict()
+  .refine(
+    (site) => site.phoneDisplay.replace(/\D/g, '') === site.phone.slice(1),
+    { path: ['phoneDisplay'], message: 'No coincide con "phone"' },
+  );
+
+const plansCollection = z.array(planSchema).min(1);
+const serviceCategoriesCollection = z.array(serviceCategorySchema).min(1);
+const specialtiesCollection = z
+  .array(specialtySchema)
+  .min(1)
+  .superRefine((items, ctx) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.slug)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'slug'],
+          message: `Slug duplicado: "${item.slug}"`,
+        });
+      }
+      seen.add(item.slug);
+    });
+  });
+const conditionsCollection = z.array(conditionSchema).min(1);
+const faqsCollection = z.array(faqSchema).min(1);
+const galleryCollection = z.array(galleryEntrySchema).min(1);
+const exercisesCollection = z
+  .array(exerciseSchema)
+  .min(1)
+  .superRefine((items, ctx) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `Id duplicado: "${item.id}"`,
+        });
+      }
+      seen.add(item.id);
+    });
+  });
+
+/**
+ * Registro archivo → esquema. Añadir aquí cualquier colección nueva para que
+ * el plugin de build la valide.
+ *
+ * `en/*.json` son las traducciones: misma estructura que el archivo en español
+ * (ver `findTranslationDrift`). Los testimonios no se traducen (son reseñas
+ * textuales de pacientes).
+ */
+export const CONTENT_COLLECTIONS = {
+  'plans.json': plansCollection,
+  'service-categories.json': serviceCategoriesCollection,
+  'specialties.json': specialtiesCollection,
+  'conditions.json': conditionsCollection,
+  'faqs.json': faqsCollection,
+  'testimonials.json': z.array(testimonialSchema).min(1),
+  'gallery.json': galleryCollection,
+  'exercises.json': exercisesCollection,
+  'site.json': siteSchema,
+  'en/plans.json': plansCollection,
+  'en/service-categories.json': serviceCategoriesCollection,
+  'en/specialties.json': specialtiesCollection,
+  'en/conditions.json': conditionsCollection,
+  'en/faqs.json': faqsCollection,
+  'en/gallery.json': galleryCollection,
+  'en/exercises.json': exercisesCollection,
+} satisfies Record<string, ZodTypeAny>;
+
+/** Colecciones con traducción en `src/content/en/` */
+export const TRANSLATED_CONTENT = [
+  'plans.json',
+  'service-categories.json',
+  'specialties.json',
+  'conditions.json',
+  'faqs.json',
+  'gallery.json',
+  'exercises.json',
+] as const satisfies readonly ContentFile[];
+
+export type TranslatedContentFile = (typeof TRANSLATED_CONTENT)[number];
+
+export type ContentFile = keyof typeof CONTENT_COLLECTIONS;
+
+export type Plan = z.infer<typeof planSchema>;
+export type Service = z.infer<typeof serviceSchema>;
+export type ServiceCategory = z.infer<typeof serviceCategorySchema>;
+export type SpecialtyIcon = (typeof SPECIALTY_ICONS)[number];
+export type Specialty = z.infer<typeof specialtySchema>;
+export type FAQ = z.infer<typeof faqSchema>;
+export type Testimonial = z.infer<typeof testimonialSchema>;
+export type GalleryEntry = z.infer<typeof galleryEntrySchema>;
+export type Site = z.infer<typeof siteSchema>;
+export type BlogCategory = (typeof BLOG_CATEGORIES)[number];
+export type ExerciseRegion = (typeof EXERCISE_REGIONS)[number];
+export type ExerciseLevel = (typeof EXERCISE_LEVELS)[number];
+export type ExerciseEntry = z.infer<typeof exerciseSchema>;
+export type BlogPostFrontmatter = z.infer<typeof blogPostSchema>;
+
+/**
+ * Convierte los issues de zod en un mensaje legible, una línea por problema:
+ *   Contenido inválido en src/content/faqs.json:
+ *     - [3].answer: No puede estar vacío
+ */
+export const formatContentIssues = (
+  source: string,
+  error: ZodError,
+): string => {
+  const lines = error.issues.map((issue) => {
+    const path = issue.path
+      .map((segment) =>
+        typeof segment === 'number' ? `[${segment}]` : `.${segment}`,
+      )
+      .join('')
+      .replace(/^\./, '');
+    return `  - ${path || '(raíz)'}: ${issue.message}`;
+  });
+  return `Contenido inválido en ${source}:\n${lines.join('\n')}`;
+};
+
+/**
+ * Referencias entre archivos que zod no puede validar por separado: cada
+ * servicio listado en una especialidad debe existir en service-categories.json.
+ * Devuelve el mensaje de error (mismo formato que `formatContentIssues`) o null.
+ */
+export const findBrokenContentReferences = (
+  specialties: Pick<Specialty, 'services'>[],
+  serviceCategories: Pick<ServiceCategory, 'services'>[],
+): string | null => {
+  const known = new Set(
+    serviceCategories.flatMap((category) =>
+      category.services.map((service) => service.name),
+    ),
+  );
+  const lines = specialties.flatMap((specialty, index) =>
+    specialty.services
+      .map((name, serviceIndex) => ({ name, serviceIndex }))
+      .filter(({ name }) => !known.has(name))
+      .map(
+        ({ name, serviceIndex }) =>
+          `  - [${index}].services[${serviceIndex}]: "${name}" no existe en service-categories.json`,
+      ),
+  );
+  return lines.length
+    ? `Contenido inválido en src/content/specialties.json:\n${lines.join('\n')}`
+    : null;
+};
+
+// Campos de texto que cambian en una traducción; el resto (slugs, precios,
+// iconos, archivos...) debe ser idéntico al original
+const TRANSLATABLE_FIELDS = new Set([
+  'name',
+  'title',
+  'description',
+  'seoTitle',
+  'seoDescription',
+  'intro',
+  'treats',
+  'services',
+  'features',
+  'badge',
+  'question',
+  'answer',
+  'category',
+  'alt',
+  'caption',
+  'conditions',
+  'steps',
+  'contraindications',
+]);
+
+/**
+ * Compara una traducción (`en/<file>`) con el archivo en español: mismos
+ * elementos y campos, y mismos valores en lo que no es texto traducible. Así
+ * una especialidad, FAQ o precio nuevo sin traducir detiene el build.
+ * Devuelve el mensaje de error (formato de `formatContentIssues`) o null.
+ */
+export const findTranslationDrift = (
+  file: TranslatedContentFile,
+  source: unknown,
+  translation: unknown,
+  locale = 'en',
+): string | null => {
+  const lines: string[] = [];
+  const label = (path: string) => path.replace(/^\./, '') || '(raíz)';
+
+  const walk = (
+    original: unknown,
+    translated: unknown,
+    path: string,
+    translatable: boolean,
+  ) => {
+    if (Array.isArray(original)) {
+      if (!Array.isArray(translated) || translated.length !== original.length) {
+        lines.push(
+          `  - ${label(path)}: tiene ${Array.isArray(translated) ? translated.length : 0} elementos, el original ${original.length}`,
+        );
+        return;
+      }
+      original.forEach((item, index) =>
+        walk(item, translated[index], `${path}[${index}]`, translatable),
+      );
+    } else if (original !== null && typeof original === 'object') {
+      const target = (translated ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(original), ...Object.keys(target)]);
+      for (const key of keys) {
+        const fieldPath = `${path}.${key}`;
+        if (!(key in target)) {
+          lines.push(`  - ${label(fieldPath)}: falta traducir`);
+        } else if (!(key in original)) {
+          lines.push(`  - ${label(fieldPath)}: no existe en ${file}`);
+        } else {
+          walk(
+            (original as Record<string, unknown>)[key],
+            target[key],
+            fieldPath,
+            translatable || TRANSLATABLE_FIELDS.has(key),
+          );
+        }
+      }
+    } else if (!translatable && original !== translated) {
+      lines.push(
+        `  - ${label(path)}: ${JSON.stringify(translated)} difiere de ${file} (${JSON.stringify(original)})`,
+      );
+    }
+  };
+
+  // conditions.json es una lista de textos: todo es traducible
+  walk(source, translation, '', file === 'conditions.json');
+  return lines.length
+    ? `Traducción desactualizada en src/content/${locale}/${file}:\n${lines.join('\n')}`
+    : null;
+};
+
+/**
+ * Valida `data` con el esquema de `file` y devuelve el resultado tipado.
+ * Lanza un Error con el mensaje de `formatContentIssues` si no es válido.
+ */
+export const parseContent = <F extends ContentFile>(
+  file: F,
+  data: unknown,
+): z.output<(typeof CONTENT_COLLECTIONS)[F]> => {
+  const result = CONTENT_COLLECTIONS[file].safeParse(data);
+  if (!result.success) {
+    throw new Error(formatContentIssues(`src/content/${file}`, result.error));
+  }
+  return result.data;
+};
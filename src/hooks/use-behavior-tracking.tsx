@@ -0,0 +1,178 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { track } from '@/lib/analytics';
+
+/** Hitos de profundidad de scroll (porcentaje de la página) */
+const SCROLL_MILESTONES = [25, 50, 75, 100] as const;
+const SCROLL_THROTTLE_MS = 250;
+
+/** Clics para considerar un rage click, dentro de la ventana y el radio */
+const RAGE_CLICK_COUNT = 3;
+const RAGE_CLICK_WINDOW_MS = 1000;
+const RAGE_CLICK_RADIUS_PX = 30;
+
+/** Tiempo sin cambios en la página para considerar un clic "muerto" */
+const DEAD_CLICK_WAIT_MS = 1000;
+
+/** Tope de rage / dead clicks por tipo y ruta, para no saturar GA4 */
+const MAX_CLICK_EVENTS_PER_ROUTE = 5;
+
+const INTERACTIVE_SELECTOR =
+  'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], [role="tab"], [role="checkbox"], [role="switch"], [role="menuitem"], [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Nombre del elemento sin texto ni datos del visitante: el `data-behavior`
+ * más cercano o la etiqueta HTML, y el id de su sección
+ */
+const describeElement = (target: Element) => {
+  const named = target.closest<HTMLElement>('[data-behavior]');
+  const element =
+    named?.dataset.behavior ??
+    (target.closest(INTERACTIVE_SELECTOR) ?? target).tagName.toLowerCase();
+  const section = target.closest('section[id]')?.id;
+  return { element, ...(section && { section }) };
+};
+
+/**
+ * Elemento que parece clicable sin serlo: marcado con `data-behavior`, o una
+ * imagen / elemento con cursor pointer fuera de cualquier control interactivo.
+ * Un control real dentro de un elemento marcado (el enlace de WhatsApp de una
+ * tarjeta de precios, que abre otra pestaña sin cambiar la página) no cuenta.
+ */
+const getDeadClickCandidate = (target: Element): Element | null => {
+  const named = target.closest('[data-behavior]');
+  const control = target.closest(INTERACTIVE_SELECTOR);
+  if (control && control !== named) return null;
+  if (named) return named;
+  if (
+    target.tagName === 'IMG' ||
+    window.getComputedStyle(target).cursor === 'pointer'
+  ) {
+    return target;
+  }
+  return null;
+};
+
+/**
+ * Hook para trackear comportamiento en toda la app (se monta en Layout):
+ * - Profundidad de scroll por ruta (25, 50, 75 y 100 %)
+ * - Rage clicks: 3 o más clics en el mismo punto en menos de un segundo
+ * - Dead clicks: clics en elementos que parecen clicables (tarjetas de precios,
+ *   imágenes de la galería; ver `data-behavior`) tras los que la página no
+ *   cambia ni navega
+ *
+ * Privacidad: solo se envía la ruta (sin query string), el nombre del
+ * elemento y su sección; nunca texto de la página ni coordenadas.
+ */
+export const useBehaviorTracking = () => {
+  const { pathname } = useLocation();
+
+  // Profundidad de scroll: cada hito una vez por visita a la ruta
+  useEffect(() => {
+    const reached = new Set<number>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const checkDepth = () => {
+      timer = undefined;
+      const scrollable =
+        document.documentElement.scrollHeight - window.innerHeight;
+      if (scrollable <= 0) return;
+      const percent = Math.round((window.scrollY / scrollable) * 100);
+      for (const milestone of SCROLL_MILESTONES) {
+        if (percent >= milestone && !reached.has(milestone)) {
+          reached.add(milestone);
+          track('scroll_depth', { percent: milestone, page_path: pathname });
+        }
+      }
+    };
+
+    const handleScroll = () => {
+      if (timer === undefined) {
+        timer = setTimeout(checkDepth, SCROLL_THROTTLE_MS);
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      if (timer !== undefined) clearTimeout(timer);
+    };
+  }, [pathname]);
+
+  // Rage clicks y dead clicks
+  useEffect(() => {
+    let recentClicks: { x: number; y: number; time: number }[] = [];
+    let rageClicks = 0;
+    let deadClicks = 0;
+    let deadClickPending = false;
+
+    const checkDeadClick = (candidate: Element) => {
+      deadClickPending = true;
+      const startHref = window.location.href;
+      let changed = false;
+      // Cambios de contenido o de estado (diálogos, acordeones, pestañas); se
+      // ignoran las clases y estilos que cambian solos con las animaciones
+      const observer = new MutationObserver(() => {
+        changed = true;
+        observer.disconnect();
+      });
+      observer.observe(document.body, {
+        childList: true,
+        subtree: true,
+        characterData: true,
+        attributes: true,
+        attributeFilter: [
+          'aria-expanded',
+          'aria-selected',
+          'aria-hidden',
+          'data-state',
+          'open',
+        ],
+      });
+
+      setTimeout(() => {
+        observer.disconnect();
+        deadClickPending = false;
+        if (changed || window.location.href !== startHref) return;
+        deadClicks += 1;
+        track('dead_click', {
+          ...describeElement(candidate),
+          page_path: pathname,
+        });
+      }, DEAD_CLICK_WAIT_MS);
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (!(event.target instanceof Element)) return;
+      const now = event.timeStamp;
+
+      recentClicks = recentClicks.filter(
+        (click) =>
+          now - click.time < RAGE_CLICK_WINDOW_MS &&
+          Math.hypot(click.x - event.clientX, click.y - event.clientY) <=
+            RAGE_CLICK_RADIUS_PX,
+      );
+      recentClicks.push({ x: event.clientX, y: event.clientY, time: now });
+      // Una vez por ráfaga: al llegar justo al umbral
+      if (
+        recentClicks.length === RAGE_CLICK_COUNT &&
+        rageClicks < MAX_CLICK_EVENTS_PER_ROUTE
+      ) {
+        rageClicks += 1;
+        track('rage_click', {
+          ...describeElement(event.target),
+          page_path: pathname,
+        });
+      }
+
+      if (deadClickPending || deadClicks >= MAX_CLICK_EVENTS_PER_ROUTE) return;
+      const candidate = getDeadClickCandidate(event.target);
+      if (candidate) checkDeadClick(candidate);
+    };
+
+    document.addEventListener('click', handleClick, { capture: true });
+    return () => {
+      document.removeEventListener('click', handleClick, { capture: true });
+    };
+  }, [pathname]);
+};
@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from 'react';
+import {
+  acceptAllConsent,
+  getConsent,
+  openConsentPreferences,
+  rejectAllConsent,
+  saveConsent,
+  subscribeToConsent,
+} from '@/lib/consent';
+
+/**
+ * Decisión de consentimiento vigente (null si aún no hay) y acciones para
+ * cambiarla. En el prerender y el primer render del cliente es null, así que
+ * lo que dependa de ella debe montarse después de hidratar.
+ */
+export const useConsent = () => {
+  const consent = useSyncExternalStore(
+    subscribeToConsent,
+    getConsent,
+    () => null,
+  );
+
+  return {
+    consent,
+    save: saveConsent,
+    acceptAll: acceptAllConsent,
+    rejectAll: rejectAllConsent,
+    openPreferences: openConsentPreferences,
+  };
+};
@@ -0,0 +1,8 @@
+import { getContent } from '@/content';
+import { useTranslation } from '@/hooks/use-translation';
+
+/**
+ * Capa de contenido (planes, especialidades, FAQs...) en el idioma de la
+ * página actual
+ */
+export const useContent = () => getContent(useTranslation().locale);
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import {
+  getExperimentVariant,
+  trackExperimentExposure,
+  type ExperimentId,
+  type ExperimentVariant,
+} from '@/lib/experiments';
+
+/**
+ * Variante de un experimento A/B (lib/experiments.ts) para el visitante actual
+ *
+ * El prerender y el primer render del cliente usan `control`, así la
+ * hidratación coincide con el HTML estático; la variante asignada se aplica
+ * después de montar y en ese momento se registra la exposición.
+ *
+ * @param experimentId - Id del experimento en EXPERIMENTS
+ */
+export const useExperiment = <E extends ExperimentId>(
+  experimentId: E,
+): ExperimentVariant<E> => {
+  const [variant, setVariant] = useState<ExperimentVariant<E>>(
+    'control' as ExperimentVariant<E>,
+  );
+
+  useEffect(() => {
+    const assigned = getExperimentVariant(experimentId);
+    setVariant(assigned);
+    trackExperimentExposure(experimentId, assigned);
+  }, [experimentId]);
+
+  return variant;
+};
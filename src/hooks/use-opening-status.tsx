@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import {
+  combineOpeningStatuses,
+  getOpeningStatus,
+  type OpeningSchedule,
+  type OpeningStatus,
+} from '@/lib/opening-hours';
+
+// Recalcular cada minuto para que el estado cambie al abrir/cerrar
+const REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * Hook para obtener el estado "abierto/cerrado" de uno o varios horarios
+ * Devuelve null en el prerender y en el primer render del cliente: el estado
+ * depende de la hora actual, así que calcularlo en SSG produciría un HTML
+ * desactualizado y un hydration mismatch. Se calcula tras el montaje.
+ */
+export const useOpeningStatus = (
+  schedules: OpeningSchedule | OpeningSchedule[],
+): OpeningStatus | null => {
+  const [status, setStatus] = useState<OpeningStatus | null>(null);
+  // Clave estable para no reiniciar el intervalo en cada render
+  const key = JSON.stringify(
+    Array.isArray(schedules) ? schedules : [schedules],
+  );
+
+  useEffect(() => {
+    const list: OpeningSchedule[] = JSON.parse(key);
+    const update = () =>
+      setStatus(
+        combineOpeningStatuses(
+          list.map((schedule) => getOpeningStatus(schedule)),
+        ),
+      );
+
+    update();
+    const interval = window.setInterval(update, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [key]);
+
+  return status;
+};
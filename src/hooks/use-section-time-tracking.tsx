@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { trackTimeOnSection } from '@/lib/analytics';
+import { track } from '@/lib/analytics';
 
 /**
  * Hook para trackear tiempo que el usuario pasa en secciones clave
@@ -72,7 +72,10 @@ export const useSectionTimeTracking = (
 
       // Solo trackear si el tiempo total es significativo (>30 segundos)
       if (totalTimeRef.current > 30) {
-        trackTimeOnSection(sectionName, totalTimeRef.current);
+        track('time_on_section', {
+          section_name: sectionName,
+          time_spent: Math.round(totalTimeRef.current),
+        });
       }
     };
   }, [sectionId, sectionName, enabled]);
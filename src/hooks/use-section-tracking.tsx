@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { trackSectionView } from '@/lib/analytics';
+import { track } from '@/lib/analytics';
 
 interface UseSectionTrackingOptions {
   sectionName: string;
@@ -27,7 +27,7 @@ export const useSectionTracking = ({
       (entries) => {
         entries.forEach((entry) => {
           if (entry.isIntersecting) {
-            trackSectionView(sectionName);
+            track('section_view', { section_name: sectionName });
             if (triggerOnce) {
               hasTracked.current = true;
             }
@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  getLocaleFromPath,
+  localizePath,
+  translate,
+  type MessageKey,
+  type MessageValues,
+} from '@/lib/i18n';
+
+/**
+ * Hook de traducción: idioma de la página actual (según su ruta) y helpers
+ * ligados a él
+ *
+ * Uso:
+ *   const { t, localizePath } = useTranslation();
+ *   <Link to={localizePath('/aviso-privacidad')}>{t('footer.privacy')}</Link>
+ *
+ * `rich` es como `t` pero convierte los `**fragmentos**` del mensaje en
+ * <strong> (textos largos de las páginas legales).
+ */
+export const useTranslation = () => {
+  const { pathname } = useLocation();
+  const locale = getLocaleFromPath(pathname);
+
+  return useMemo(
+    () => ({
+      locale,
+      t: (key: MessageKey, values?: MessageValues) =>
+        translate(locale, key, values),
+      rich: (key: MessageKey, values?: MessageValues) =>
+        translate(locale, key, values)
+          .split(/\*\*(.+?)\*\*/g)
+          .map((part, index) =>
+            index % 2 === 1 ? <strong key={index}>{part}</strong> : part,
+          ),
+      /** Ruta del idioma por defecto → ruta equivalente en el idioma actual */
+      localizePath: (path: string) => localizePath(path, locale),
+    }),
+    [locale],
+  );
+};
@@ -0,0 +1,144 @@
+/**
+ * Registro de eventos de analítica para el overlay de depuración (solo dev)
+ *
+ * En desarrollo los destinos reales (GA4, Meta Pixel, Vercel, beacon) están
+ * deshabilitados; este registro guarda, por evento, lo que recibiría cada uno:
+ * parámetros, mapeo a GA4 / Meta, UTM y atribución, y el estado del envío.
+ *
+ * - Se activa con `?analytics_debug=1` y queda activo en la pestaña
+ *   (sessionStorage) hasta `?analytics_debug=0`.
+ * - `initAnalytics` llama a `initAnalyticsDebug` antes de registrar destinos,
+ *   así el registro incluye el page view inicial.
+ * - El overlay es components/AnalyticsDebugOverlay.tsx.
+ */
+import {
+  addDispatchInspector,
+  type DestinationOutcome,
+  type DispatchInspection,
+} from './analytics-dispatcher';
+import type { AnalyticsEnvelope } from './analytics-events';
+
+const DEBUG_QUERY_PARAM = 'analytics_debug';
+const DEBUG_STORAGE_KEY = 'analytics_debug';
+/** Eventos que se conservan en el registro */
+const MAX_ENTRIES = 200;
+
+export type DestinationStatus =
+  | 'filtered'
+  | 'disabled'
+  | 'queued'
+  | 'sent'
+  | 'failed';
+
+export interface DebugDestination extends DestinationOutcome {
+  status: DestinationStatus;
+  /** Milisegundos desde la carga de la página al enviarse */
+  sentAt?: number;
+}
+
+export interface AnalyticsDebugEntry {
+  event: AnalyticsEnvelope;
+  /** Milisegundos desde la carga de la página al despacharse */
+  dispatchedAt: number;
+  destinations: DebugDestination[];
+}
+
+type DebugListener = () => void;
+
+const listeners = new Set<DebugListener>();
+
+// Se reemplaza (no se muta) en cada cambio, para useSyncExternalStore
+let entries: AnalyticsDebugEntry[] = [];
+let initialized = false;
+
+const setEntries = (next: AnalyticsDebugEntry[]) => {
+  entries = next.slice(-MAX_ENTRIES);
+  for (const listener of listeners) listener();
+};
+
+const initialStatus = (outcome: DestinationOutcome): DestinationStatus => {
+  if (!outcome.accepted) return 'filtered';
+  return outcome.enabled ? 'queued' : 'disabled';
+};
+
+const handleInspection = (inspection: DispatchInspection) => {
+  if (inspection.type === 'dispatch') {
+    setEntries([
+      ...entries,
+      {
+        event: inspection.event,
+        dispatchedAt: performance.now(),
+        destinations: inspection.destinations.map((outcome) => ({
+          ...outcome,
+          status: initialStatus(outcome),
+        })),
+      },
+    ]);
+    return;
+  }
+
+  const { destinationId, eventIds } = inspection;
+  const sentAt = performance.now();
+  setEntries(
+    entries.map((entry) =>
+      eventIds.includes(entry.event.id)
+        ? {
+            ...entry,
+            destinations: entry.destinations.map((destination) =>
+              destination.id === destinationId
+                ? { ...destination, status: inspection.type, sentAt }
+                : destination,
+            ),
+          }
+        : entry,
+    ),
+  );
+};
+
+/** Overlay activo: solo en desarrollo y con el flag de la URL en la pestaña */
+export const isAnalyticsDebugEnabled = (): boolean => {
+  if (!import.meta.env.DEV || typeof window === 'undefined') return false;
+  try {
+    return sessionStorage.getItem(DEBUG_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Lee `?analytics_debug` y, si el overlay está activo, empieza a registrar los
+ * eventos despachados. Sin efecto fuera de desarrollo.
+ */
+export const initAnalyticsDebug = () => {
+  if (!import.meta.env.DEV || typeof window === 'undefined' || initialized) {
+    return;
+  }
+
+  const flag = new URLSearchParams(window.location.search).get(
+    DEBUG_QUERY_PARAM,
+  );
+  try {
+    if (flag === '1' || flag === 'true') {
+      sessionStorage.setItem(DEBUG_STORAGE_KEY, 'true');
+    } else if (flag === '0' || flag === 'false') {
+      sessionStorage.removeItem(DEBUG_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Analytics: Error storing debug flag:', error);
+  }
+
+  if (!isAnalyticsDebugEnabled()) return;
+  initialized = true;
+  addDispatchInspector(handleInspection);
+};
+
+export const getAnalyticsDebugEntries = (): AnalyticsDebugEntry[] => entries;
+
+export const subscribeToAnalyticsDebug = (listener: DebugListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearAnalyticsDebugEntries = () => setEntries([]);
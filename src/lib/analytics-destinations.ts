@@ -0,0 +1,202 @@
+/**
+ * Destinos del despachador de analítica (lib/analytics-dispatcher.ts)
+ *
+ * - ga4: gtag.js; listo cuando index.html inyecta el script (loadAnalytics)
+ * - meta: Meta Pixel; listo cuando se carga fbevents.js (consentimiento de
+ *   marketing)
+ * - vercel: eventos personalizados de Vercel Analytics (las vistas de página
+ *   las registra <Analytics /> por su cuenta, y las web vitals SpeedInsights)
+ * - console: registro en consola, solo en desarrollo
+ * - beacon: POST por lotes de las conversiones y las web vitals a
+ *   `VITE_ANALYTICS_ENDPOINT`
+ *   (relay de api/analytics.ts), con `sendBeacon` al cerrar la página; espera
+ *   mientras no haya conexión
+ *
+ * `initAnalytics` (lib/analytics.ts) registra los que correspondan.
+ */
+import { track as trackVercelEvent } from '@vercel/analytics';
+import type { AnalyticsDestination } from './analytics-dispatcher';
+import {
+  ANALYTICS_BEACON_MAX_EVENTS,
+  type AnalyticsBeaconPayload,
+  type AnalyticsEnvelope,
+} from './analytics-events';
+import { getConsent, hasConsent } from './consent';
+import { isExerciseProgramPath } from './exercise-program';
+
+const isBrowser = () => typeof window !== 'undefined';
+
+/** Evento y parámetros de `gtag('event', ...)`, con atribución y UTM */
+export const getGA4Payload = (event: AnalyticsEnvelope) => ({
+  event: event.ga4.event,
+  params: {
+    // La URL del evento (ya sin el fragmento de un programa de ejercicios) en
+    // lugar de la que gtag.js tomaría de `location` al enviarlo
+    page_location: event.page.location,
+    ...event.ga4.params,
+    ...event.attribution,
+    ...event.utm, // UTM params override any conflicting keys
+  },
+});
+
+/** Llamadas a `fbq(...)` de un evento, con atribución y UTM */
+export const getMetaPayloads = (event: AnalyticsEnvelope) =>
+  event.meta.map((metaEvent) => ({
+    method: metaEvent.custom ? 'trackCustom' : 'track',
+    event: metaEvent.event,
+    params: { ...metaEvent.params, ...event.attribution, ...event.utm },
+    // Mismo eventID que el envío desde servidor, para deduplicar
+    eventID: `${event.id}.${metaEvent.event}`,
+  }));
+
+/** gtag.js ya se descargó y ejecutó (no lo bloqueó nada) */
+export const isGtagLoaded = () => isBrowser() && 'google_tag_manager' in window;
+
+export const createGA4Destination = (): AnalyticsDestination => ({
+  id: 'ga4',
+  isEnabled: () => import.meta.env.PROD && hasConsent('analytics'),
+  // Las conversiones marcadas `ga4Relay` las entrega el relay
+  accepts: (event) => !event.ga4Relay,
+  // Los eventos enviados antes del `config` de index.html no llegan a GA4
+  isReady: () =>
+    isBrowser() &&
+    Boolean(window.gtag) &&
+    document.querySelector('script[src*="googletagmanager.com/gtag/js"]') !==
+      null,
+  send: (events) => {
+    for (const event of events) {
+      const { event: name, params } = getGA4Payload(event);
+      window.gtag('event', name, params);
+    }
+  },
+});
+
+export const createMetaPixelDestination = (): AnalyticsDestination => ({
+  id: 'meta',
+  isEnabled: () => import.meta.env.PROD && hasConsent('marketing'),
+  isReady: () => isBrowser() && Boolean(window.fbq),
+  // fbevents.js manda `location.href` completo, con el programa de ejercicios
+  // del fragmento: en esas páginas las conversiones solo van por el relay
+  accepts: (event) =>
+    event.meta.length > 0 &&
+    !isExerciseProgramPath(new URL(event.page.location).pathname),
+  send: (events) => {
+    for (const event of events) {
+      for (const payload of getMetaPayloads(event)) {
+        window.fbq(payload.method, payload.event, payload.params, {
+          eventID: payload.eventID,
+        });
+      }
+    }
+  },
+});
+
+export const createVercelAnalyticsDestination = (): AnalyticsDestination => ({
+  id: 'vercel',
+  isEnabled: () => import.meta.env.PROD && hasConsent('analytics'),
+  // window.va es la cola que crea <Analytics /> al montarse
+  isReady: () => isBrowser() && typeof window.va === 'function',
+  // Las web vitals ya llegan a Vercel por SpeedInsights
+  accepts: (event) => event.name !== 'page_view' && event.name !== 'web_vital',
+  send: (events) => {
+    for (const event of events) {
+      trackVercelEvent(event.ga4.event, event.ga4.params);
+    }
+  },
+});
+
+export const createConsoleDestination = (): AnalyticsDestination => ({
+  id: 'console',
+  isEnabled: () => import.meta.env.DEV,
+  isReady: () => true,
+  send: (events) => {
+    for (const event of events) {
+      console.log(`Analytics: ${event.name}`, event.params, {
+        ga4: event.ga4,
+        meta: event.meta,
+        attribution: event.attribution,
+        utm: event.utm,
+      });
+    }
+  },
+});
+
+const CLIENT_ID_STORAGE_KEY = 'analytics_client_id';
+
+/** Mismo formato que el client_id de gtag.js: aleatorio.segundos */
+const createClientId = () =>
+  `${Math.floor(Math.random() * 2 ** 31)}.${Math.floor(Date.now() / 1000)}`;
+
+/**
+ * Id del navegador para el Measurement Protocol: el de la cookie `_ga` si
+ * gtag.js ya la creó (así GA4 une ambos envíos), si no uno propio persistente
+ */
+const getClientId = () => {
+  const gaCookie = document.cookie.match(/(?:^|;\s*)_ga=GA\d\.\d\.([^;]+)/);
+  if (gaCookie) return gaCookie[1];
+  try {
+    let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+    if (!clientId) {
+      clientId = createClientId();
+      localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+    }
+    return clientId;
+  } catch {
+    return createClientId();
+  }
+};
+
+const beaconBody = (events: AnalyticsEnvelope[]) => {
+  const choices = getConsent()?.choices;
+  const payload: AnalyticsBeaconPayload = {
+    events,
+    consent: {
+      analytics: choices?.analytics === true,
+      marketing: choices?.marketing === true,
+    },
+    clientId: getClientId(),
+    // A GA4 el relay solo reenvía los eventos marcados `ga4Relay`
+    clientDelivery: {
+      meta: Boolean(
+        (window.fbq as { callMethod?: unknown } | undefined)?.callMethod,
+      ),
+    },
+    sentAt: Date.now(),
+  };
+  return JSON.stringify(payload);
+};
+
+/**
+ * POST por lotes de las conversiones y las web vitals a un endpoint propio
+ * (api/analytics.ts)
+ * @param endpoint - URL del mismo origen que recibe `AnalyticsBeaconPayload`
+ */
+export const createBeaconDestination = (
+  endpoint: string,
+): AnalyticsDestination => ({
+  id: 'beacon',
+  isEnabled: () =>
+    import.meta.env.PROD &&
+    (hasConsent('analytics') || hasConsent('marketing')),
+  isReady: () => isBrowser() && navigator.onLine,
+  accepts: (event) => event.conversion || event.name === 'web_vital',
+  batch: { maxSize: ANALYTICS_BEACON_MAX_EVENTS, maxWaitMs: 5000 },
+  send: async (events) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: beaconBody(events),
+      keepalive: true,
+    });
+    // Un 4xx no mejora al reintentar: solo vuelven a la cola los 5xx
+    if (response.status >= 500) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  },
+  sendBeacon: (events) =>
+    typeof navigator.sendBeacon === 'function' &&
+    navigator.sendBeacon(
+      endpoint,
+      new Blob([beaconBody(events)], { type: 'application/json' }),
+    ),
+});
@@ -0,0 +1,398 @@
+/**
+ * Despachador de eventos de analítica
+ *
+ * `track()` (lib/analytics.ts) arma un `AnalyticsEnvelope` por evento y lo
+ * entrega aquí; el despachador lo reparte entre los destinos registrados
+ * (GA4, Meta Pixel, Vercel Analytics, consola, beacon HTTP; ver
+ * lib/analytics-destinations.ts). Por destino:
+ *
+ * - Si no está habilitado (sin consentimiento, entorno de desarrollo) el evento
+ *   se descarta para ese destino.
+ * - Si aún no está listo (script sin cargar, sin conexión) el evento espera en
+ *   su cola y se reintenta hasta que lo esté.
+ * - Con `batch`, los eventos se agrupan hasta `maxSize` o `maxWaitMs`.
+ * - Si `send` falla (promesa rechazada), el lote vuelve a la cola.
+ *
+ * Las colas se guardan en localStorage, así que lo pendiente sobrevive a una
+ * recarga (se descarta lo que tenga más de un día). Cada pestaña escribe en su
+ * propia clave (id de pestaña en sessionStorage) con la hora de su última
+ * escritura; al iniciar, una pestaña adopta las colas de las que llevan
+ * `ABANDONED_QUEUE_MS` sin escribir (pestañas cerradas), sin repetir eventos
+ * por `id`. Así dos pestañas abiertas no pisan sus colas ni reenvían lo que
+ * la otra ya entregó. Al ocultarse la página
+ * (`visibilitychange` / `pagehide`) se vacían las colas de los destinos listos,
+ * con `sendBeacon` en los que lo implementan.
+ *
+ * `addDispatchInspector` permite observar cada evento despachado y cada envío
+ * (overlay de depuración, lib/analytics-debug.ts).
+ */
+import type { AnalyticsEnvelope } from './analytics-events';
+
+export interface AnalyticsDestination {
+  id: string;
+  /** Sin consentimiento o fuera de producción: los eventos se descartan */
+  isEnabled: () => boolean;
+  /** Mientras devuelva false los eventos esperan en la cola */
+  isReady: () => boolean;
+  /** Filtra los eventos que le interesan (por defecto, todos) */
+  accepts?: (event: AnalyticsEnvelope) => boolean;
+  /** Agrupa los envíos: `send` recibe hasta `maxSize` eventos */
+  batch?: { maxSize: number; maxWaitMs: number };
+  send: (events: AnalyticsEnvelope[]) => void | Promise<void>;
+  /** Envío al ocultarse la página; devuelve false si no se pudo encolar */
+  sendBeacon?: (events: AnalyticsEnvelope[]) => boolean;
+}
+
+/** Qué pasó con un evento en un destino registrado */
+export interface DestinationOutcome {
+  id: string;
+  /** El destino lo acepta (`accepts`) */
+  accepted: boolean;
+  /** Habilitado ahora (consentimiento, entorno); si no, se descarta */
+  enabled: boolean;
+}
+
+export type DispatchInspection =
+  | {
+      type: 'dispatch';
+      event: AnalyticsEnvelope;
+      destinations: DestinationOutcome[];
+    }
+  | {
+      type: 'sent' | 'failed';
+      destinationId: string;
+      eventIds: string[];
+      error?: unknown;
+    };
+
+type DispatchInspector = (inspection: DispatchInspection) => void;
+
+const QUEUE_STORAGE_PREFIX = 'analytics_queue:';
+/** Clave única de versiones anteriores, compartida por todas las pestañas */
+const LEGACY_QUEUE_STORAGE_KEY = 'analytics_queue';
+const TAB_ID_STORAGE_KEY = 'analytics_tab_id';
+/**
+ * Colas de otra pestaña sin escribir en este tiempo: se dan por abandonadas.
+ * Una pestaña abierta con eventos pendientes reescribe la suya en cada intento
+ * (segundos, o un minuto si el navegador la tiene en segundo plano).
+ */
+const ABANDONED_QUEUE_MS = 5 * 60 * 1000;
+/** Eventos pendientes más viejos que esto se descartan al recargar */
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+/** Tope por destino para no llenar localStorage */
+const MAX_QUEUE_SIZE = 100;
+/** Espera entre reintentos de un destino que no está listo */
+const RETRY_DELAY_MS = 1000;
+/** Espera tras un envío fallido */
+const FAILURE_DELAY_MS = 10_000;
+
+const destinations = new Map<string, AnalyticsDestination>();
+const queues = new Map<string, AnalyticsEnvelope[]>();
+const blockedUntil = new Map<string, number>();
+const inspectors = new Set<DispatchInspector>();
+
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let initialized = false;
+let queueStorageKey = `${QUEUE_STORAGE_PREFIX}default`;
+
+/** Colas guardadas de una pestaña */
+interface StoredQueues {
+  /** Última escritura de la pestaña dueña */
+  updatedAt: number;
+  queues: Record<string, AnalyticsEnvelope[]>;
+}
+
+const createTabId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Id de la pestaña: se conserva al recargar (sessionStorage) */
+const getTabId = () => {
+  try {
+    const stored = sessionStorage.getItem(TAB_ID_STORAGE_KEY);
+    if (stored) return stored;
+    const id = createTabId();
+    sessionStorage.setItem(TAB_ID_STORAGE_KEY, id);
+    return id;
+  } catch {
+    return createTabId();
+  }
+};
+
+const persistQueues = () => {
+  try {
+    const pending = Object.fromEntries(
+      [...queues].filter(([, queue]) => queue.length > 0),
+    );
+    if (Object.keys(pending).length === 0) {
+      localStorage.removeItem(queueStorageKey);
+    } else {
+      const stored: StoredQueues = { updatedAt: Date.now(), queues: pending };
+      localStorage.setItem(queueStorageKey, JSON.stringify(stored));
+    }
+  } catch (error) {
+    console.error('Analytics: Error persisting queue:', error);
+  }
+};
+
+/** Agrega eventos guardados a las colas, sin los viejos ni los repetidos */
+const mergeStoredQueues = (stored: Record<string, AnalyticsEnvelope[]>) => {
+  const minTimestamp = Date.now() - MAX_EVENT_AGE_MS;
+  for (const [destinationId, events] of Object.entries(stored)) {
+    const queue = queues.get(destinationId) ?? [];
+    const ids = new Set(queue.map((event) => event.id));
+    const fresh = events.filter(
+      (event) => event.timestamp >= minTimestamp && !ids.has(event.id),
+    );
+    if (fresh.length > 0) {
+      queues.set(
+        destinationId,
+        [...queue, ...fresh]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-MAX_QUEUE_SIZE),
+      );
+    }
+  }
+};
+
+/**
+ * Recupera las colas de esta pestaña (recarga) y adopta las de pestañas que
+ * ya no escriben; las adoptadas se borran para que nadie más las reenvíe
+ */
+const restoreQueues = () => {
+  const now = Date.now();
+  const keys = Array.from({ length: localStorage.length }, (_, index) =>
+    localStorage.key(index),
+  ).filter(
+    (key): key is string =>
+      key === LEGACY_QUEUE_STORAGE_KEY ||
+      !!key?.startsWith(QUEUE_STORAGE_PREFIX),
+  );
+
+  for (const key of keys) {
+    try {
+      const raw = localStorage.getItem(key);
+      if (!raw) continue;
+      if (key === LEGACY_QUEUE_STORAGE_KEY) {
+        localStorage.removeItem(key);
+        mergeStoredQueues(
+          JSON.parse(raw) as Record<string, AnalyticsEnvelope[]>,
+        );
+        continue;
+      }
+      const stored = JSON.parse(raw) as StoredQueues;
+      const own = key === queueStorageKey;
+      if (!own && now - stored.updatedAt < ABANDONED_QUEUE_MS) continue;
+      if (!own) localStorage.removeItem(key);
+      mergeStoredQueues(stored.queues);
+    } catch (error) {
+      console.error('Analytics: Error restoring queue:', error);
+      localStorage.removeItem(key);
+    }
+  }
+};
+
+const inspect = (inspection: DispatchInspection) => {
+  for (const inspector of inspectors) inspector(inspection);
+};
+
+const scheduleFlush = (delay: number) => {
+  if (flushTimer !== undefined) clearTimeout(flushTimer);
+  flushTimer = setTimeout(flushQueues, delay);
+};
+
+/** Envía un lote; si falla, lo devuelve al inicio de la cola */
+const sendBatch = (
+  destination: AnalyticsDestination,
+  events: AnalyticsEnvelope[],
+) => {
+  const eventIds = events.map((event) => event.id);
+  const requeue = (error: unknown) => {
+    console.error(`Analytics: Error sending to ${destination.id}:`, error);
+    inspect({
+      type: 'failed',
+      destinationId: destination.id,
+      eventIds,
+      error,
+    });
+    queues.set(destination.id, [
+      ...events,
+      ...(queues.get(destination.id) ?? []),
+    ]);
+    blockedUntil.set(destination.id, Date.now() + FAILURE_DELAY_MS);
+    persistQueues();
+    scheduleFlush(FAILURE_DELAY_MS);
+  };
+
+  const sent = () =>
+    inspect({ type: 'sent', destinationId: destination.id, eventIds });
+
+  try {
+    const result = destination.send(events);
+    if (result instanceof Promise) {
+      result.then(sent, requeue);
+    } else {
+      sent();
+    }
+  } catch (error) {
+    requeue(error);
+  }
+};
+
+/**
+ * Vacía las colas de los destinos listos y programa el siguiente intento para
+ * los que aún esperan (script sin cargar, lote incompleto, envío fallido)
+ */
+const flushQueues = () => {
+  flushTimer = undefined;
+  const now = Date.now();
+  let nextDelay = Infinity;
+
+  for (const [destinationId, queue] of queues) {
+    if (queue.length === 0) continue;
+    const destination = destinations.get(destinationId);
+    // Colas restauradas de un destino que esta página no registró
+    if (!destination) continue;
+
+    if (!destination.isEnabled()) {
+      queues.set(destinationId, []);
+      continue;
+    }
+
+    const blocked = (blockedUntil.get(destinationId) ?? 0) - now;
+    if (blocked > 0) {
+      nextDelay = Math.min(nextDelay, blocked);
+      continue;
+    }
+    if (!destination.isReady()) {
+      nextDelay = Math.min(nextDelay, RETRY_DELAY_MS);
+      continue;
+    }
+
+    const { batch } = destination;
+    if (!batch) {
+      queues.set(destinationId, []);
+      sendBatch(destination, queue);
+      continue;
+    }
+
+    // Los lotes que fallen vuelven a la cola antes que los pendientes
+    queues.set(destinationId, []);
+    let pending = queue;
+    while (pending.length >= batch.maxSize) {
+      sendBatch(destination, pending.slice(0, batch.maxSize));
+      pending = pending.slice(batch.maxSize);
+    }
+    const waited = pending.length > 0 ? now - pending[0].timestamp : 0;
+    if (pending.length > 0 && waited >= batch.maxWaitMs) {
+      sendBatch(destination, pending);
+      pending = [];
+    } else if (pending.length > 0) {
+      nextDelay = Math.min(nextDelay, batch.maxWaitMs - waited);
+    }
+    queues.set(destinationId, [
+      ...(queues.get(destinationId) ?? []),
+      ...pending,
+    ]);
+  }
+
+  persistQueues();
+  if (nextDelay !== Infinity) scheduleFlush(nextDelay);
+};
+
+/** Al ocultarse la página: vacía lo que se pueda, con sendBeacon si existe */
+const flushOnHide = () => {
+  for (const [destinationId, queue] of queues) {
+    const destination = destinations.get(destinationId);
+    if (!destination || queue.length === 0) continue;
+    if (!destination.isEnabled()) {
+      queues.set(destinationId, []);
+      continue;
+    }
+    if (!destination.isReady()) continue;
+
+    if (destination.sendBeacon) {
+      // En lotes de `maxSize`, como los envíos normales; lo que no se pudo
+      // encolar se queda para la próxima visita
+      const size = destination.batch?.maxSize ?? queue.length;
+      let sent = 0;
+      while (
+        sent < queue.length &&
+        destination.sendBeacon(queue.slice(sent, sent + size))
+      ) {
+        sent += size;
+      }
+      queues.set(destinationId, queue.slice(sent));
+    } else {
+      queues.set(destinationId, []);
+      sendBatch(destination, queue);
+    }
+  }
+  persistQueues();
+};
+
+const initDispatcher = () => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  queueStorageKey = `${QUEUE_STORAGE_PREFIX}${getTabId()}`;
+  try {
+    restoreQueues();
+    persistQueues();
+  } catch (error) {
+    console.error('Analytics: Error restoring queue:', error);
+  }
+  window.addEventListener('online', flushQueues);
+  window.addEventListener('pagehide', flushOnHide);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushOnHide();
+  });
+};
+
+/**
+ * Registra un destino. Recibe los eventos despachados desde entonces y los que
+ * quedaron pendientes para él en una visita anterior.
+ */
+export const registerDestination = (destination: AnalyticsDestination) => {
+  initDispatcher();
+  destinations.set(destination.id, destination);
+  if (!queues.has(destination.id)) queues.set(destination.id, []);
+  scheduleFlush(0);
+};
+
+/** Reparte un evento entre los destinos habilitados que lo aceptan */
+export const dispatch = (event: AnalyticsEnvelope) => {
+  if (typeof window === 'undefined') return;
+  initDispatcher();
+
+  const outcomes: DestinationOutcome[] = [];
+  for (const destination of destinations.values()) {
+    const outcome = {
+      id: destination.id,
+      accepted: !destination.accepts || destination.accepts(event),
+      enabled: destination.isEnabled(),
+    };
+    outcomes.push(outcome);
+    if (!outcome.enabled || !outcome.accepted) continue;
+    const queue = queues.get(destination.id) ?? [];
+    queue.push(event);
+    queues.set(destination.id, queue.slice(-MAX_QUEUE_SIZE));
+  }
+  inspect({ type: 'dispatch', event, destinations: outcomes });
+  flushQueues();
+};
+
+/** Reintenta de inmediato (p. ej. al cambiar el consentimiento) */
+export const flushAnalyticsQueue = () => {
+  if (typeof window === 'undefined') return;
+  flushQueues();
+};
+
+/** Observa los eventos despachados y los envíos; devuelve cómo dejar de hacerlo */
+export const addDispatchInspector = (inspector: DispatchInspector) => {
+  inspectors.add(inspector);
+  return () => {
+    inspectors.delete(inspector);
+  };
+};
@@ -0,0 +1,739 @@
+/**
+ * Catálogo de eventos de analítica
+ *
+ * Cada evento declara:
+ * - `schema`: los parámetros que recibe `track(nombre, params)` (zod)
+ * - `ga4`: nombre del evento en GA4 y, si hace falta, cómo se arman sus
+ *   parámetros a partir de los de `track`
+ * - `meta`: los eventos de Meta Pixel que dispara (estándar o personalizados),
+ *   cada uno con sus parámetros o `null` si no aplica a ese caso
+ *
+ * `track` (lib/analytics.ts) solo acepta nombres y parámetros de este
+ * catálogo, así que tsc detecta cualquier llamada mal formada. En desarrollo
+ * `validateAnalyticsEvent` además avisa en consola de eventos desconocidos o
+ * parámetros inválidos (llamadas con `as`, datos dinámicos).
+ *
+ * `renderTrackingPlan` genera docs/TRACKING_PLAN.md desde este archivo
+ * (`npm run tracking-plan`; `trackingPlanPlugin` en vite.config.ts comprueba
+ * que esté al día); no editar ese documento a mano.
+ *
+ * Solo depende de zod: vite.config.ts lo importa directamente y la función
+ * api/analytics.ts lo carga en Node sin bundler.
+ */
+import { z, type ZodTypeAny } from 'zod';
+
+type ParamValue = string | number | boolean;
+
+type EventParams = Record<string, ParamValue | undefined>;
+
+type MetaParams = Record<string, string | number>;
+
+interface MetaPixelMapping<P> {
+  /** Nombre del evento en Meta Pixel */
+  event: string;
+  /** Evento personalizado (`trackCustom`) en lugar de estándar (`track`) */
+  custom?: boolean;
+  /** Cuándo se envía, para el tracking plan (si no es siempre) */
+  when?: string;
+  /** Parámetros del evento de Meta; `null` para no enviarlo en este caso */
+  params(params: P): MetaParams | null;
+}
+
+export interface AnalyticsEventDefinition<P extends EventParams> {
+  description: string;
+  schema: z.ZodType<P>;
+  ga4: {
+    event: string;
+    /** Parámetros de GA4 (por defecto los mismos que recibe `track`) */
+    params?(params: P): Record<string, ParamValue>;
+  };
+  meta?: MetaPixelMapping<P>[];
+  /**
+   * Conversión: además se envía al relay del servidor (api/analytics.ts), que
+   * la reenvía a la API de Conversiones de Meta y al Measurement Protocol de GA4
+   */
+  conversion?: boolean;
+}
+
+const defineEvent = <P extends EventParams>(
+  definition: AnalyticsEventDefinition<P>,
+) => definition;
+
+/** Quita los parámetros opcionales sin valor (GA4 no acepta undefined) */
+const definedParams = (params: EventParams) =>
+  Object.fromEntries(
+    Object.entries(params).filter(
+      (entry): entry is [string, ParamValue] => entry[1] !== undefined,
+    ),
+  );
+
+/** Parámetros fijos de los eventos de conversión de Meta */
+const ZERO_VALUE = { value: 0, currency: 'MXN' } as const;
+
+const locationParam = z.string().describe('Dónde ocurrió (sección o CTA)');
+
+/** Pasos del embudo de conversión, en orden (lib/funnel.ts) */
+export const FUNNEL_STEP_IDS = [
+  'landing',
+  'services',
+  'pricing',
+  'agenda',
+  'contact',
+] as const;
+
+const funnelStepParam = z.enum(FUNNEL_STEP_IDS);
+
+/** Core Web Vitals que se reportan (lib/web-vitals.ts) */
+export const WEB_VITAL_NAMES = ['LCP', 'INP', 'CLS', 'TTFB', 'FCP'] as const;
+
+/** Clics problemáticos (hooks/use-behavior-tracking.tsx): sin texto del DOM */
+const behaviorClickSchema = z.object({
+  element: z
+    .string()
+    .describe('Atributo data-behavior del elemento, o su etiqueta HTML'),
+  section: z.string().optional().describe('id de la sección que lo contiene'),
+  page_path: z.string().describe('Ruta sin query string'),
+});
+
+export const ANALYTICS_EVENTS = {
+  page_view: defineEvent({
+    description:
+      'Vista de página virtual (carga inicial y navegación por secciones con hash).',
+    schema: z.object({
+      page_path: z.string().describe('Ruta con hash'),
+      page_title: z.string(),
+      page_location: z.string().describe('URL completa'),
+    }),
+    ga4: { event: 'page_view' },
+  }),
+
+  cta_click: defineEvent({
+    description: 'Clic en un CTA principal (reservar, llamar, WhatsApp).',
+    schema: z.object({
+      cta_name: z.string().describe('Texto del CTA'),
+      cta_location: locationParam,
+    }),
+    ga4: { event: 'cta_click' },
+    conversion: true,
+    meta: [
+      {
+        event: 'Lead',
+        when: 'El CTA es de reserva ("reservar" / "cita")',
+        params: ({ cta_name }) =>
+          /reservar|cita/i.test(cta_name)
+            ? { content_name: cta_name, content_category: 'CTA', ...ZERO_VALUE }
+            : null,
+      },
+    ],
+  }),
+
+  external_link_click: defineEvent({
+    description: 'Clic en un enlace externo (Doctoralia, mapas).',
+    schema: z.object({
+      link_url: z.string().url(),
+      link_text: z.string(),
+    }),
+    ga4: { event: 'external_link_click' },
+    conversion: true,
+    meta: [
+      {
+        event: 'InitiateCheckout',
+        when: 'El enlace es de Doctoralia',
+        params: ({ link_url }) =>
+          link_url.includes('doctoralia')
+            ? {
+                content_name: 'Doctoralia Booking',
+                content_category: 'Booking Platform',
+                ...ZERO_VALUE,
+              }
+            : null,
+      },
+    ],
+  }),
+
+  phone_click: defineEvent({
+    description: 'Clic en un enlace tel:.',
+    schema: z.object({
+      phone_number: z.string(),
+      location: locationParam,
+    }),
+    ga4: { event: 'phone_click' },
+    conversion: true,
+    meta: [
+      {
+        event: 'Contact',
+        params: () => ({
+          content_name: 'Phone Call',
+          content_category: 'Contact Method',
+          ...ZERO_VALUE,
+        }),
+      },
+    ],
+  }),
+
+  whatsapp_click: defineEvent({
+    description:
+      'Clic en un enlace de WhatsApp armado con buildWhatsAppLink (lib/whatsapp.ts).',
+    schema: z.object({
+      message_preview: z.string().max(50).describe('Inicio del mensaje'),
+      location: locationParam,
+      intent: z.string().describe('Intención del mensaje (book, question...)'),
+      reference: z.string().optional().describe('Folio corto del mensaje'),
+      service: z.string().optional(),
+      consultorio: z.string().optional(),
+    }),
+    ga4: { event: 'whatsapp_click' },
+    conversion: true,
+    meta: [
+      {
+        event: 'Contact',
+        params: () => ({
+          content_name: 'WhatsApp',
+          content_category: 'Contact Method',
+          ...ZERO_VALUE,
+        }),
+      },
+      {
+        event: 'WhatsAppClick',
+        custom: true,
+        params: ({ location, intent, reference, service, consultorio }) => ({
+          location,
+          intent,
+          ...(reference && { reference }),
+          ...(service && { service }),
+          ...(consultorio && { consultorio }),
+        }),
+      },
+    ],
+  }),
+
+  form_interaction: defineEvent({
+    description: 'Formulario de solicitud de cita: inicio, envío o error.',
+    schema: z.object({
+      form_name: z.string(),
+      action: z.enum(['start', 'submit', 'error']),
+      error_message: z.string().optional(),
+      service: z.string().optional().describe('Servicio elegido (al enviar)'),
+    }),
+    ga4: {
+      event: 'form_interaction',
+      params: ({ form_name, action, error_message }) => ({
+        form_name,
+        action,
+        error_message: error_message ?? '',
+      }),
+    },
+    conversion: true,
+    meta: [
+      {
+        event: 'Lead',
+        when: 'action = submit',
+        params: ({ form_name, action, service }) =>
+          action === 'submit'
+            ? {
+                content_name: form_name,
+                content_category: service ?? 'unknown',
+                ...ZERO_VALUE,
+              }
+            : null,
+      },
+    ],
+  }),
+
+  section_view: defineEvent({
+    description: 'Una sección de la home entra en pantalla.',
+    schema: z.object({ section_name: z.string() }),
+    ga4: { event: 'section_view' },
+  }),
+
+  time_on_section: defineEvent({
+    description:
+      'Tiempo en una sección (solo se envía a partir de 30 s de permanencia).',
+    schema: z.object({
+      section_name: z.string(),
+      time_spent: z.number().int().min(30).describe('Segundos'),
+    }),
+    ga4: {
+      event: 'time_on_section',
+      params: ({ section_name, time_spent }) => ({
+        section_name,
+        time_spent,
+        engagement_time_msec: time_spent * 1000,
+      }),
+    },
+    meta: [
+      {
+        event: 'TimeOnSection',
+        custom: true,
+        when: 'Secciones precios, servicios o contacto',
+        params: ({ section_name, time_spent }) =>
+          ['precios', 'servicios', 'contacto'].includes(
+            section_name.toLowerCase(),
+          )
+            ? { section_name, time_spent }
+            : null,
+      },
+    ],
+  }),
+
+  service_interest: defineEvent({
+    description: 'Interés en un servicio de precios (vista o clic).',
+    schema: z.object({
+      service_name: z.string(),
+      interaction_type: z.enum(['view', 'click']),
+    }),
+    ga4: {
+      event: 'select_content',
+      params: ({ service_name, interaction_type }) => ({
+        content_type: 'service',
+        content_id: service_name,
+        content_name: service_name,
+        interaction_type,
+      }),
+    },
+    meta: [
+      {
+        event: 'ViewContent',
+        params: ({ service_name }) => ({
+          content_name: service_name,
+          content_category: 'Service',
+          content_type: 'service',
+        }),
+      },
+    ],
+  }),
+
+  pricing_tab_change: defineEvent({
+    description: 'Cambio de pestaña en la sección de precios.',
+    schema: z.object({ tab_name: z.string() }),
+    ga4: {
+      event: 'select_item',
+      params: ({ tab_name }) => ({
+        item_list_id: 'pricing_tabs',
+        item_list_name: 'Precios',
+        item_name: tab_name,
+        content_type: 'pricing_category',
+      }),
+    },
+    meta: [
+      {
+        event: 'ViewContent',
+        params: ({ tab_name }) => ({
+          content_name: tab_name,
+          content_category: 'Pricing',
+          content_type: 'pricing_category',
+        }),
+      },
+    ],
+  }),
+
+  faq_interaction: defineEvent({
+    description: 'Se abre o cierra una pregunta frecuente.',
+    schema: z.object({
+      question: z.string().max(100),
+      action: z.enum(['expand', 'collapse']),
+    }),
+    ga4: { event: 'faq_interaction' },
+  }),
+
+  testimonial_interaction: defineEvent({
+    description: 'Interacción con los testimonios.',
+    schema: z.object({
+      action: z.enum(['view', 'expand', 'doctoralia_click']),
+    }),
+    ga4: { event: 'testimonial_interaction' },
+  }),
+
+  share: defineEvent({
+    description: 'Clic en un botón de compartir.',
+    schema: z.object({
+      method: z.string(),
+      platform: z.string(),
+    }),
+    ga4: { event: 'share' },
+  }),
+
+  exercise_program: defineEvent({
+    description:
+      'Acción sobre un programa de ejercicios para casa (/ejercicios). Nunca lleva el nombre del paciente ni las indicaciones.',
+    schema: z.object({
+      action: z.enum([
+        'add_exercise',
+        'remove_exercise',
+        'open',
+        'copy_link',
+        'whatsapp',
+        'print',
+      ]),
+      exercise_count: z.number().int().min(0),
+    }),
+    ga4: { event: 'exercise_program' },
+  }),
+
+  agenda_view: defineEvent({
+    description: 'El widget de agenda de Doctoralia entra en pantalla.',
+    schema: z.object({ location: locationParam }),
+    ga4: { event: 'agenda_view' },
+  }),
+
+  not_found: defineEvent({
+    description: 'Visita a una ruta inexistente (página 404).',
+    schema: z.object({
+      page_path: z.string(),
+      page_url: z.string(),
+    }),
+    ga4: { event: '404_error' },
+  }),
+
+  funnel_step: defineEvent({
+    description:
+      'Avance en el embudo de conversión (lib/funnel.ts): un evento por paso y sesión, numerado en orden.',
+    schema: z.object({
+      step_name: funnelStepParam,
+      step_number: z.number().int().min(1),
+      previous_step: funnelStepParam
+        .optional()
+        .describe('Último paso alcanzado antes de este'),
+      seconds_since_previous: z
+        .number()
+        .int()
+        .min(0)
+        .describe('Segundos desde el paso anterior'),
+      seconds_since_landing: z.number().int().min(0),
+      contact_method: z
+        .enum(['doctoralia', 'whatsapp', 'phone'])
+        .optional()
+        .describe('Solo en el paso contact'),
+    }),
+    ga4: { event: 'funnel_step' },
+  }),
+
+  funnel_drop_off: defineEvent({
+    description:
+      'El visitante sale de la página sin llegar al último paso del embudo.',
+    schema: z.object({
+      last_step: funnelStepParam,
+      last_step_number: z.number().int().min(1),
+      reason: z
+        .enum(['bounce', 'idle', 'exit'])
+        .describe(
+          'bounce: solo la entrada y menos de 10 s; idle: sin interacción el último minuto; exit: salió durante la visita',
+        ),
+      seconds_since_last_step: z.number().int().min(0),
+      steps_completed: z.number().int().min(1),
+    }),
+    ga4: { event: 'funnel_drop_off' },
+  }),
+
+  scroll_depth: defineEvent({
+    description:
+      'Profundidad de scroll alcanzada en una ruta (una vez por hito y visita a la ruta).',
+    schema: z.object({
+      percent: z.number().int().describe('25, 50, 75 o 100'),
+      page_path: z.string().describe('Ruta sin query string'),
+    }),
+    ga4: { event: 'scroll_depth' },
+  }),
+
+  rage_click: defineEvent({
+    description: 'Varios clics seguidos en el mismo punto (frustración).',
+    schema: behaviorClickSchema,
+    ga4: { event: 'rage_click' },
+  }),
+
+  dead_click: defineEvent({
+    description:
+      'Clic en un elemento que parece clicable (tarjetas de precios, imágenes de la galería...) sin ninguna respuesta de la página.',
+    schema: behaviorClickSchema,
+    ga4: { event: 'dead_click' },
+  }),
+
+  web_vital: defineEvent({
+    description:
+      'Core Web Vital medido en campo (lib/web-vitals.ts), con la ruta de entrada, el tipo de dispositivo y el elemento o interacción responsable. Muestreado por sesión (`VITE_WEB_VITALS_SAMPLE_RATE`); también se envía al endpoint propio y a Sentry.',
+    schema: z.object({
+      metric_name: z.enum(WEB_VITAL_NAMES),
+      metric_value: z.number().min(0).describe('Valor en ms (CLS sin unidad)'),
+      metric_delta: z
+        .number()
+        .describe('Cambio desde el último reporte de la misma métrica'),
+      metric_id: z
+        .string()
+        .describe('Id de la métrica en la carga, para agrupar deltas'),
+      metric_rating: z.enum(['good', 'needs-improvement', 'poor']),
+      page_path: z.string().describe('Ruta de entrada, sin query string'),
+      device_class: z.enum(['mobile', 'tablet', 'desktop']),
+      debug_target: z
+        .string()
+        .optional()
+        .describe(
+          'Selector del elemento: LCP, interacción de INP o mayor desplazamiento de CLS',
+        ),
+      debug_phase: z
+        .string()
+        .optional()
+        .describe(
+          'Fase que más aportó (p. ej. resource-load-delay, input-delay) o estado de carga',
+        ),
+      interaction_type: z
+        .enum(['pointer', 'keyboard'])
+        .optional()
+        .describe('Solo INP'),
+      app_version: z.string().describe('Versión de package.json (release)'),
+    }),
+    ga4: {
+      event: 'web_vitals',
+      // GA4 agrega `value` como entero: CLS se multiplica por 1000
+      params: (params) => ({
+        ...definedParams(params),
+        value: Math.round(
+          params.metric_name === 'CLS'
+            ? params.metric_delta * 1000
+            : params.metric_delta,
+        ),
+      }),
+    },
+  }),
+
+  experiment_exposure: defineEvent({
+    description:
+      'El visitante ve una variante de un experimento A/B (lib/experiments.ts); una vez por sesión y experimento. Para comparar conversiones, segmentar en GA4 por `exp_variant_string`.',
+    schema: z.object({
+      experiment_id: z.string().describe('Id del experimento en EXPERIMENTS'),
+      variant_id: z.string().describe('Variante asignada (control, ...)'),
+    }),
+    ga4: {
+      event: 'experience_impression',
+      params: ({ experiment_id, variant_id }) => ({
+        experiment_id,
+        variant_id,
+        exp_variant_string: `${experiment_id}-${variant_id}`,
+      }),
+    },
+  }),
+};
+
+export type AnalyticsEventName = keyof typeof ANALYTICS_EVENTS;
+
+export type AnalyticsEventParams<N extends AnalyticsEventName> =
+  (typeof ANALYTICS_EVENTS)[N] extends AnalyticsEventDefinition<infer P>
+    ? P
+    : never;
+
+/** Un evento de Meta Pixel ya resuelto para unos parámetros concretos */
+export interface ResolvedMetaEvent {
+  event: string;
+  custom: boolean;
+  params: MetaParams;
+}
+
+/**
+ * El catálogo visto sin los parámetros de cada evento, para recorrerlo o
+ * buscar un evento por nombre. Los mapeos (`ga4.params`, `meta[].params`) se
+ * declaran como métodos para que TypeScript acepte este ensanchamiento.
+ */
+const EVENT_DEFINITIONS: Record<
+  string,
+  AnalyticsEventDefinition<EventParams>
+> = ANALYTICS_EVENTS;
+
+const getDefinition = (name: string) =>
+  Object.prototype.hasOwnProperty.call(EVENT_DEFINITIONS, name)
+    ? EVENT_DEFINITIONS[name]
+    : undefined;
+
+/**
+ * Nombre y parámetros de GA4, y eventos de Meta Pixel, para un evento del
+ * catálogo (null si el nombre no está en él)
+ */
+export const resolveAnalyticsEvent = <N extends AnalyticsEventName>(
+  name: N,
+  params: AnalyticsEventParams<N>,
+) => {
+  const definition = getDefinition(name);
+  if (!definition) return null;
+  const meta: ResolvedMetaEvent[] = (definition.meta ?? []).flatMap(
+    (mapping) => {
+      const metaParams = mapping.params(params);
+      return metaParams
+        ? [
+            {
+              event: mapping.event,
+              custom: !!mapping.custom,
+              params: metaParams,
+            },
+          ]
+        : [];
+    },
+  );
+  return {
+    ga4: {
+      event: definition.ga4.event,
+      params: definition.ga4.params?.(params) ?? definedParams(params),
+    },
+    meta,
+    conversion: !!definition.conversion,
+  };
+};
+
+/**
+ * Problemas de un evento frente al catálogo: nombre desconocido, parámetros
+ * faltantes, de otro tipo o que el catálogo no declara. Vacío si es válido.
+ */
+export const validateAnalyticsEvent = (
+  name: string,
+  params: unknown,
+): string[] => {
+  const definition = getDefinition(name);
+  if (!definition) {
+    return [`"${name}" no está en el catálogo (lib/analytics-events.ts)`];
+  }
+  const schema =
+    definition.schema instanceof z.ZodObject
+      ? definition.schema.strict()
+      : definition.schema;
+  const result = schema.safeParse(params);
+  if (result.success) return [];
+  return result.error.issues.map(
+    (issue) =>
+      `"${name}" ${issue.path.join('.') || '(params)'}: ${issue.message}`,
+  );
+};
+
+// ============================================
+// Envío al servidor (destino beacon → api/analytics.ts)
+// ============================================
+
+const paramValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/** Un evento ya resuelto contra el catálogo, listo para cualquier destino */
+export const analyticsEnvelopeSchema = z.object({
+  /** Id único (deduplicación entre el pixel y el envío desde servidor) */
+  id: z.string().min(1).max(64),
+  /** Nombre del evento en el catálogo */
+  name: z.string(),
+  params: z.record(paramValueSchema.optional()),
+  ga4: z.object({
+    event: z.string(),
+    params: z.record(paramValueSchema),
+  }),
+  meta: z.array(
+    z.object({
+      event: z.string(),
+      custom: z.boolean(),
+      params: z.record(z.union([z.string(), z.number()])),
+    }),
+  ),
+  conversion: z.boolean(),
+  /**
+   * La conversión llega a GA4 por el relay (Measurement Protocol) y no por
+   * gtag.js, que no estaba cargado al despacharla. Se decide una vez por
+   * evento para que GA4, que no deduplica, no la reciba por los dos caminos.
+   */
+  ga4Relay: z.boolean().default(false),
+  /** Canal atribuido y demás parámetros de lib/attribution.ts (conversiones) */
+  attribution: z.record(z.union([z.string(), z.number()])).default({}),
+  /** Parámetros UTM vigentes al momento del evento */
+  utm: z.record(z.string()),
+  page: z.object({
+    path: z.string(),
+    location: z.string(),
+    title: z.string(),
+  }),
+  /** Milisegundos desde epoch */
+  timestamp: z.number(),
+});
+
+export type AnalyticsEnvelope = z.infer<typeof analyticsEnvelopeSchema>;
+
+/** Eventos como máximo en cada envío del destino beacon al relay */
+export const ANALYTICS_BEACON_MAX_EVENTS = 10;
+
+/** Cuerpo que el destino beacon envía a `VITE_ANALYTICS_ENDPOINT` */
+export const analyticsBeaconPayloadSchema = z.object({
+  events: z
+    .array(analyticsEnvelopeSchema)
+    .min(1)
+    .max(ANALYTICS_BEACON_MAX_EVENTS),
+  /** Consentimiento vigente: el endpoint solo reenvía lo permitido */
+  consent: z.object({ analytics: z.boolean(), marketing: z.boolean() }),
+  /** Id del navegador para GA4 (cookie `_ga` o uno propio persistente) */
+  clientId: z.string().min(1).max(100),
+  /** Si fbevents.js está cargado (no bloqueado) en el cliente */
+  clientDelivery: z.object({ meta: z.boolean() }),
+  sentAt: z.number(),
+});
+
+export type AnalyticsBeaconPayload = z.infer<
+  typeof analyticsBeaconPayloadSchema
+>;
+
+// ============================================
+// Tracking plan (docs/TRACKING_PLAN.md)
+// ============================================
+
+const describeType = (schema: ZodTypeAny): string => {
+  if (schema instanceof z.ZodOptional) return describeType(schema.unwrap());
+  if (schema instanceof z.ZodEnum) {
+    return (schema.options as string[]).map((o) => `\`${o}\``).join(' \\| ');
+  }
+  if (schema instanceof z.ZodNumber) return 'number';
+  if (schema instanceof z.ZodBoolean) return 'boolean';
+  return 'string';
+};
+
+const paramRows = (schema: ZodTypeAny): string[] => {
+  if (!(schema instanceof z.ZodObject)) return [];
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(
+    ([param, paramSchema]) =>
+      `| \`${param}\` | ${describeType(paramSchema)} | ${paramSchema.isOptional() ? 'no' : 'sí'} | ${paramSchema.description ?? '—'} |`,
+  );
+};
+
+export const renderTrackingPlan = (): string => {
+  const sections = Object.entries(EVENT_DEFINITIONS).map(
+    ([name, definition]) => {
+      const meta = (definition.meta ?? []).map(
+        (mapping) =>
+          `- Meta Pixel: \`${mapping.event}\` (${mapping.custom ? 'personalizado' : 'estándar'})${mapping.when ? ` — ${mapping.when}` : ''}`,
+      );
+      return [
+        `## \`${name}\``,
+        '',
+        definition.description,
+        '',
+        `- GA4: \`${definition.ga4.event}\`${definition.ga4.params ? ' (parámetros transformados)' : ''}`,
+        ...(meta.length > 0 ? meta : ['- Meta Pixel: —']),
+        ...(definition.conversion
+          ? [
+              '- Conversión: lleva parámetros de atribución y también se reenvía desde el servidor',
+            ]
+          : []),
+        '',
+        '| Parámetro | Tipo | Requerido | Descripción |',
+        '| --- | --- | --- | --- |',
+        ...paramRows(definition.schema),
+        '',
+      ].join('\n');
+    },
+  );
+
+  return [
+    '# Tracking plan',
+    '',
+    '<!-- Generado desde src/lib/analytics-events.ts (trackingPlanPlugin). No editar a mano. -->',
+    '',
+    'Eventos que el sitio envía con `track(nombre, params)` (src/lib/analytics.ts).',
+    'Todos los eventos de GA4 y Meta Pixel incluyen además los parámetros UTM',
+    'guardados (`utm_source`, `utm_medium`, `utm_campaign`, `utm_term`,',
+    '`utm_content`) y solo se envían con el consentimiento correspondiente',
+    '(analítica para GA4, marketing para Meta Pixel).',
+    '',
+    'Las conversiones llevan además la atribución multi-touch',
+    '(src/lib/attribution.ts): `attribution_channel`, `attribution_source`,',
+    '`attribution_campaign` (si la hay), `first_touch_channel` y',
+    '`touchpoint_count`.',
+    '',
+    ...sections,
+  ].join('\n');
+};
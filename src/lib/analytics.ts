@@ -5,15 +5,37 @@
  * Uses Google Analytics 4 directly via gtag.js and Meta Pixel via fbq.
  *
  * Usage:
- * - Import: import { trackEvent, trackPageView, trackMetaPixelEvent } from '@/lib/analytics'
- * - Track event in GA4: trackEvent('button_click', { button_name: 'Reservar Cita' })
- * - Track event in Meta Pixel: trackMetaPixelEvent('Lead', { content_name: 'Reservar Cita' })
+ * - Import: import { track, trackPageView } from '@/lib/analytics'
+ * - Track event: track('cta_click', { cta_name: 'Reservar Cita', cta_location: 'Hero Section' })
  * - Track page view: trackPageView('/page-path')
  *
+ * Event catalog (src/lib/analytics-events.ts):
+ * - Every event declares its params schema and its GA4 / Meta Pixel mapping,
+ *   so track() only accepts known events with well-formed params
+ * - In development, malformed or unknown events are reported with console.warn
+ * - docs/TRACKING_PLAN.md is generated from the catalog
+ *
+ * Delivery (src/lib/analytics-dispatcher.ts):
+ * - Events go through a dispatcher with registered destinations: GA4, Meta
+ *   Pixel, Vercel Analytics, console (dev) and an optional HTTP beacon
+ *   (VITE_ANALYTICS_ENDPOINT)
+ * - Events wait in a queue (persisted across reloads) until each destination's
+ *   script is loaded, and are flushed with sendBeacon when the page is hidden
+ * - In development, add ?analytics_debug=1 to the URL to open an overlay that
+ *   lists every event, what each destination would receive and its timing
+ *   (src/lib/analytics-debug.ts, components/AnalyticsDebugOverlay.tsx)
+ *
  * Setup:
  * - GA4 script (gtag.js) is loaded directly in index.html via loadAnalytics() function
  *   (Measurement ID: G-3L9C8QMNZV)
- * - Meta Pixel script is loaded directly in index.html (Pixel ID: 1552455925827622)
+ * - Meta Pixel script is loaded from loadMetaPixel() only after marketing consent
+ *   (Pixel ID: 1552455925827622)
+ *
+ * Consent (src/lib/consent.ts):
+ * - GA4 events are only sent with analytics consent; Google Consent Mode v2
+ *   defaults are declared in index.html
+ * - Meta Pixel events are only sent with marketing consent
+ * - initAnalytics() applies the stored consent and reacts to later changes
  *
  * IMPORTANT: We use Google Analytics 4 (gtag.js) directly, NOT Google Tag Manager (GTM).
  * The iframe noscript in index.html was removed because GA4 doesn't support noscript tracking.
@@ -28,12 +50,51 @@
  * - Automatically includes UTM params in all events (GA4 and Meta Pixel)
  * - Supports: utm_source, utm_medium, utm_campaign, utm_term, utm_content
  *
+ * Attribution (src/lib/attribution.ts):
+ * - Every visit from outside the site is stored as a touchpoint (UTM,
+ *   gclid/fbclid, referrer, landing page) while consent allows it
+ * - Conversion events (booking and contact) carry the attributed channel
+ *   (attribution_channel, attribution_source, first_touch_channel...)
+ *
+ * Funnel (src/lib/funnel.ts):
+ * - Landing → services → pricing → agenda → contact, one ordered funnel_step
+ *   event per step and session, plus funnel_drop_off when the page is left
+ *   before the contact step
+ *
  * Example UTM URL:
  * https://fisio-movimiento.com/?utm_source=facebook&utm_medium=cpc&utm_campaign=promo_enero
- *
- * Note: Most tracking functions automatically track in both GA4 and Meta Pixel
  */
 
+import {
+  createBeaconDestination,
+  createConsoleDestination,
+  createGA4Destination,
+  createMetaPixelDestination,
+  createVercelAnalyticsDestination,
+  isGtagLoaded,
+} from './analytics-destinations';
+import { initAnalyticsDebug } from './analytics-debug';
+import { dispatch, registerDestination } from './analytics-dispatcher';
+import {
+  resolveAnalyticsEvent,
+  validateAnalyticsEvent,
+  type AnalyticsEventName,
+  type AnalyticsEventParams,
+} from './analytics-events';
+import { getAttributionParams, initAttribution } from './attribution';
+import {
+  applyConsent,
+  getConsent,
+  subscribeToConsent,
+  type ConsentState,
+} from './consent';
+import {
+  isExerciseProgramPath,
+  redactExerciseProgramUrl,
+} from './exercise-program';
+
+const META_PIXEL_ID = '1552455925827622';
+
 // Declare gtag and fbq function types
 declare global {
   interface Window {
@@ -47,7 +108,7 @@ declare global {
 // UTM Parameter Management
 // ============================================
 
-interface UTMParams {
+export interface UTMParams {
   utm_source?: string;
   utm_medium?: string;
   utm_campaign?: string;
@@ -111,7 +172,7 @@ const storeUTMParams = (params: UTMParams): void => {
  * Get stored UTM parameters
  * Priority: sessionStorage (current session) > localStorage (first touch)
  */
-const getStoredUTMParams = (): UTMParams => {
+export const getStoredUTMParams = (): UTMParams => {
   if (typeof window === 'undefined') return {};
 
   try {
@@ -169,482 +230,180 @@ const getUTMForEvents = (): Record<string, string> => {
   return formatted;
 };
 
-// Check if analytics is enabled
-// Only enable in production (not in development mode)
-const isAnalyticsEnabled = () => {
-  const isProduction = import.meta.env.PROD;
-  return typeof window !== 'undefined' && Boolean(window.gtag) && isProduction;
-};
-
-// Check if Meta Pixel is enabled
-const isMetaPixelEnabled = () => {
-  const isProduction = import.meta.env.PROD;
-  return typeof window !== 'undefined' && Boolean(window.fbq) && isProduction;
-};
-
-// Initialize analytics (called in main.tsx)
-// The actual initialization is done in index.html via script tag (loadAnalytics function)
-// This function only initializes UTM tracking - GA4 script is loaded asynchronously in index.html
-export const initAnalytics = () => {
-  // Initialize UTM tracking (this runs immediately on page load)
-  initUTMTracking();
-
-  // Note: window.gtag is created in index.html's loadAnalytics() function,
-  // which runs asynchronously after the initial render. So we don't check for it here.
-  // The actual GA4 script loading is handled in index.html, and main.tsx waits
-  // for the script to load before tracking the initial page view.
-  // Individual tracking functions (trackEvent, trackPageView, etc.) will check
-  // if GA4 is loaded before sending events via isAnalyticsEnabled().
-};
+/**
+ * Load Meta Pixel (fbevents.js) and send the initial PageView.
+ * Only called with marketing consent; safe to call more than once.
+ *
+ * Note: fbevents.js may show deprecation warnings about "unload event listeners".
+ * This is a known issue with Facebook's external script and does not affect functionality.
+ */
+const loadMetaPixel = () => {
+  if (typeof window === 'undefined' || !import.meta.env.PROD) return;
 
-// Track page view
-export const trackPageView = (path: string, title?: string) => {
-  if (!isAnalyticsEnabled()) {
-    if (import.meta.env.DEV) {
-      console.log('Analytics: Page view blocked (dev mode):', path);
-    }
+  if (window.fbq) {
+    window.fbq('consent', 'grant');
     return;
   }
 
-  try {
-    // Get UTM parameters
-    const utmParams = getUTMForEvents();
-
-    // Use 'event' with 'page_view' for virtual pageviews (hash navigation)
-    // This is better for SPAs as it tracks navigation without full page reloads
-    window.gtag('event', 'page_view', {
-      page_path: path,
-      page_title: title || document.title,
-      page_location: window.location.href,
-      ...utmParams, // Include UTM parameters
-    });
-
-    if (import.meta.env.DEV) {
-      console.log(
-        'Analytics: Page view sent:',
-        path,
-        title || document.title,
-        utmParams,
-      );
+  type FbqStub = ((...args: unknown[]) => void) & {
+    callMethod?: (...args: unknown[]) => void;
+    queue: unknown[];
+    push: FbqStub;
+    loaded: boolean;
+    version: string;
+    disablePushState?: boolean;
+  };
+  const fbq = function (...args: unknown[]) {
+    if (fbq.callMethod) {
+      fbq.callMethod(...args);
+    } else {
+      fbq.queue.push(args);
     }
-  } catch (error) {
-    console.error('Analytics: Error sending page view:', error);
+  } as FbqStub;
+  fbq.queue = [];
+  fbq.push = fbq;
+  fbq.loaded = true;
+  fbq.version = '2.0';
+  window.fbq = fbq;
+  (window as Window & { _fbq?: FbqStub })._fbq = fbq;
+
+  const script = document.createElement('script');
+  script.async = true;
+  script.src = 'https://connect.facebook.net/en_US/fbevents.js';
+  document.head.appendChild(script);
+
+  // No automatic PageView on every pushState: fbevents.js would send the full
+  // URL, exercise program fragment included (like GA4, page views are counted
+  // on load). Exercise pages get no PageView at all.
+  fbq.disablePushState = true;
+  fbq('init', META_PIXEL_ID);
+  if (!isExerciseProgramPath(window.location.pathname)) {
+    fbq('track', 'PageView');
   }
 };
 
-// Track custom event
-export const trackEvent = (
-  eventName: string,
-  eventParams?: Record<string, string | number | boolean>,
+// React to consent changes: Consent Mode update, Meta Pixel and the page view
+// that was not sent while analytics consent was missing
+const handleConsentChange = (
+  state: ConsentState | null,
+  previous: ConsentState | null,
 ) => {
-  if (!isAnalyticsEnabled()) {
-    if (import.meta.env.DEV) {
-      console.log(
-        'Analytics: Event blocked (dev mode):',
-        eventName,
-        eventParams,
-      );
-    }
-    return;
-  }
-
-  try {
-    // Get UTM parameters and merge with event params
-    const utmParams = getUTMForEvents();
-    const finalParams = {
-      ...(eventParams || {}),
-      ...utmParams, // UTM params override any conflicting keys
-    };
+  applyConsent(state);
 
-    window.gtag('event', eventName, finalParams);
-
-    if (import.meta.env.DEV) {
-      console.log('Analytics: Event sent:', eventName, finalParams);
-    }
-  } catch (error) {
-    console.error('Analytics: Error sending event:', error);
+  if (state?.choices.marketing) {
+    loadMetaPixel();
+  } else if (previous?.choices.marketing && window.fbq) {
+    window.fbq('consent', 'revoke');
   }
-};
 
-// Track CTA clicks
-export const trackCTAClick = (ctaName: string, location?: string) => {
-  trackEvent('cta_click', {
-    cta_name: ctaName,
-    cta_location: location || 'unknown',
-  });
-
-  // Also track in Meta Pixel
-  if (
-    ctaName.toLowerCase().includes('reservar') ||
-    ctaName.toLowerCase().includes('cita')
-  ) {
-    trackMetaPixelEvent('Lead', {
-      content_name: ctaName,
-      content_category: 'CTA',
-      value: 0,
-      currency: 'MXN',
-    });
+  if (state?.choices.analytics && !previous?.choices.analytics) {
+    trackPageView(
+      window.location.pathname + window.location.hash,
+      document.title,
+    );
   }
 };
 
-// Track external link clicks
-export const trackExternalLink = (url: string, linkText?: string) => {
-  trackEvent('external_link_click', {
-    link_url: url,
-    link_text: linkText || 'unknown',
-  });
-
-  // Track in Meta Pixel if it's a booking link
-  if (url.includes('doctoralia')) {
-    trackMetaPixelEvent('InitiateCheckout', {
-      content_name: 'Doctoralia Booking',
-      content_category: 'Booking Platform',
-      value: 0,
-      currency: 'MXN',
-    });
+// Initialize analytics (called in main.tsx)
+// GA4 is configured and loaded asynchronously from index.html (loadAnalytics);
+// this registers the dispatcher destinations, which hold events until their
+// script is ready
+export const initAnalytics = () => {
+  // Initialize UTM tracking (this runs immediately on page load)
+  initUTMTracking();
+  // Record this visit's touchpoint (UTM, click ids, referrer)
+  initAttribution();
+  // Dev-only event log for the debug overlay (?analytics_debug=1)
+  initAnalyticsDebug();
+
+  registerDestination(createConsoleDestination());
+  registerDestination(createGA4Destination());
+  registerDestination(createMetaPixelDestination());
+  registerDestination(createVercelAnalyticsDestination());
+  if (import.meta.env.VITE_ANALYTICS_ENDPOINT) {
+    registerDestination(
+      createBeaconDestination(import.meta.env.VITE_ANALYTICS_ENDPOINT),
+    );
   }
-};
-
-// Track phone number clicks
-export const trackPhoneClick = (phoneNumber: string, location?: string) => {
-  trackEvent('phone_click', {
-    phone_number: phoneNumber,
-    location: location || 'unknown',
-  });
-
-  // Also track in Meta Pixel as 'Contact' event
-  trackMetaPixelEvent('Contact', {
-    content_name: 'Phone Call',
-    content_category: 'Contact Method',
-    value: 0,
-    currency: 'MXN',
-  });
-};
-
-// Track WhatsApp clicks
-export const trackWhatsAppClick = (message?: string, location?: string) => {
-  trackEvent('whatsapp_click', {
-    message_preview: message?.substring(0, 50) || 'default',
-    location: location || 'unknown',
-  });
 
-  // Also track in Meta Pixel as 'Contact' event
-  trackMetaPixelEvent('Contact', {
-    content_name: 'WhatsApp',
-    content_category: 'Contact Method',
-    value: 0,
-    currency: 'MXN',
-  });
-};
-
-// Track form interactions (if forms are added in the future)
-// NOTA: Función comentada porque no se usa actualmente
-// Descomentar cuando se agreguen formularios
-/*
-export const trackFormInteraction = (
-  formName: string,
-  action: 'start' | 'submit' | 'error',
-  errorMessage?: string,
-) => {
-  trackEvent('form_interaction', {
-    form_name: formName,
-    action: action,
-    error_message: errorMessage || '',
-  });
-};
-*/
-
-// Track section views (when user scrolls to a section)
-export const trackSectionView = (sectionName: string) => {
-  trackEvent('section_view', {
-    section_name: sectionName,
-  });
-};
-
-// Track service interest (improved with Meta Pixel tracking)
-export const trackServiceInterest = (
-  serviceName: string,
-  action: 'view' | 'click' = 'view',
-) => {
-  // Track in GA4
-  trackEvent('select_content', {
-    content_type: 'service',
-    content_id: serviceName,
-    content_name: serviceName,
-    interaction_type: action,
-  });
-
-  // Track in Meta Pixel as ViewContent (indicates interest)
-  trackMetaPixelEvent('ViewContent', {
-    content_name: serviceName,
-    content_category: 'Service',
-    content_type: 'service',
-  });
-
-  if (import.meta.env.DEV) {
-    console.log('Analytics: Service interest:', serviceName, action);
+  // Apply the stored consent (Consent Mode defaults are set in index.html)
+  // and load Meta Pixel only if marketing was already accepted
+  let previousConsent = getConsent();
+  applyConsent(previousConsent);
+  if (previousConsent?.choices.marketing) {
+    loadMetaPixel();
   }
-};
-
-// Track testimonial interaction
-export const trackTestimonialInteraction = (
-  action: 'view' | 'expand' | 'doctoralia_click',
-) => {
-  trackEvent('testimonial_interaction', {
-    action: action,
+  subscribeToConsent((state) => {
+    handleConsentChange(state, previousConsent);
+    previousConsent = state;
   });
 };
 
-// Track FAQ interaction
-export const trackFAQInteraction = (
-  question: string,
-  action: 'expand' | 'collapse',
-) => {
-  trackEvent('faq_interaction', {
-    question: question.substring(0, 100), // Limit length
-    action: action,
-  });
-};
-
-// Track share button clicks
-// NOTA: Función comentada porque no se usa actualmente
-// Descomentar cuando se implementen botones de compartir
-/*
-export const trackShareClick = (method: string, platform: string) => {
-  trackEvent('share', {
-    method: method,
-    platform: platform,
-  });
-};
-*/
-
-// Track pricing tab change (high value event - indicates interest)
-export const trackPricingTabChange = (tabName: string) => {
-  // Track in GA4 as select_item (standard e-commerce event)
-  trackEvent('select_item', {
-    item_list_id: 'pricing_tabs',
-    item_list_name: 'Precios',
-    item_name: tabName,
-    content_type: 'pricing_category',
-  });
-
-  // Track in Meta Pixel as ViewContent (indicates interest in pricing)
-  trackMetaPixelEvent('ViewContent', {
-    content_name: tabName,
-    content_category: 'Pricing',
-    content_type: 'pricing_category',
-  });
-
-  if (import.meta.env.DEV) {
-    console.log('Analytics: Pricing tab changed to:', tabName);
-  }
-};
-
-// Track time spent on key sections (only if significant time)
-export const trackTimeOnSection = (sectionName: string, timeSpent: number) => {
-  // Only track if user spent significant time (>30 seconds)
-  // This indicates real interest, not just passing through
-  if (timeSpent < 30) return;
-
-  trackEvent('time_on_section', {
-    section_name: sectionName,
-    time_spent: Math.round(timeSpent),
-    engagement_time_msec: Math.round(timeSpent * 1000),
-  });
-
-  // For key sections, also track in Meta Pixel
-  const keySections = ['precios', 'servicios', 'contacto'];
-  if (keySections.includes(sectionName.toLowerCase())) {
-    trackMetaPixelCustomEvent('TimeOnSection', {
-      section_name: sectionName,
-      time_spent: Math.round(timeSpent),
-    });
-  }
-
-  if (import.meta.env.DEV) {
-    console.log(
-      'Analytics: Time on section:',
-      sectionName,
-      `${Math.round(timeSpent)}s`,
-    );
-  }
-};
-
-// ============================================
-// Meta Pixel Event Tracking
-// ============================================
+const createEventId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 
 /**
- * Track event in Meta Pixel (Facebook Pixel)
- * @param eventName - Standard Meta Pixel event name (e.g., 'Lead', 'Contact', 'ViewContent')
- * @param eventParams - Optional parameters for the event
+ * Track an event from the catalog (src/lib/analytics-events.ts)
+ * Resolves its GA4 / Meta Pixel mapping and hands it to the dispatcher, which
+ * delivers it to every enabled destination once each one is ready.
+ * @param name - Event name in the catalog (e.g. 'cta_click')
+ * @param params - Event params, typed by the catalog schema
  */
-export const trackMetaPixelEvent = (
-  eventName: string,
-  eventParams?: Record<string, string | number>,
+export const track = <N extends AnalyticsEventName>(
+  name: N,
+  params: AnalyticsEventParams<N>,
 ) => {
-  if (!isMetaPixelEnabled()) {
-    if (import.meta.env.DEV) {
-      console.log(
-        'Meta Pixel: Event blocked (dev mode):',
-        eventName,
-        eventParams,
-      );
-    }
-    return;
-  }
-
-  try {
-    // Get UTM parameters and merge with event params
-    const utmParams = getUTMForEvents();
-    const finalParams = {
-      ...(eventParams || {}),
-      ...utmParams, // UTM params override any conflicting keys
-    };
-
-    window.fbq('track', eventName, finalParams);
-
-    if (import.meta.env.DEV) {
-      console.log('Meta Pixel: Event sent:', eventName, finalParams);
+  if (import.meta.env.DEV) {
+    const problems = validateAnalyticsEvent(name, params);
+    if (problems.length > 0) {
+      console.warn(`Analytics: Invalid event:\n  - ${problems.join('\n  - ')}`);
     }
-  } catch (error) {
-    console.error('Meta Pixel: Error sending event:', error);
   }
-};
 
-/**
- * Track custom event in Meta Pixel
- * @param eventName - Custom event name
- * @param eventParams - Optional parameters for the event
- */
-export const trackMetaPixelCustomEvent = (
-  eventName: string,
-  eventParams?: Record<string, string | number>,
-) => {
-  if (!isMetaPixelEnabled()) {
-    if (import.meta.env.DEV) {
-      console.log(
-        'Meta Pixel: Custom event blocked (dev mode):',
-        eventName,
-        eventParams,
-      );
-    }
-    return;
-  }
+  if (typeof window === 'undefined') return;
 
   try {
-    // Get UTM parameters and merge with event params
-    const utmParams = getUTMForEvents();
-    const finalParams = {
-      ...(eventParams || {}),
-      ...utmParams, // UTM params override any conflicting keys
-    };
-
-    window.fbq('trackCustom', eventName, finalParams);
-
-    if (import.meta.env.DEV) {
-      console.log('Meta Pixel: Custom event sent:', eventName, finalParams);
-    }
+    const resolved = resolveAnalyticsEvent(name, params);
+    if (!resolved) return;
+    dispatch({
+      id: createEventId(),
+      name,
+      params,
+      ...resolved,
+      // Conversions dispatched before gtag.js runs (idle-time load, blockers)
+      // reach GA4 through the relay only; decided here, once per event
+      ga4Relay:
+        resolved.conversion &&
+        Boolean(import.meta.env.VITE_ANALYTICS_ENDPOINT) &&
+        !isGtagLoaded(),
+      attribution: resolved.conversion ? getAttributionParams() : {},
+      utm: getUTMForEvents(),
+      // Without the exercise program fragment (patient name and notes)
+      page: {
+        path: redactExerciseProgramUrl(
+          window.location.pathname + window.location.hash,
+        ),
+        location: redactExerciseProgramUrl(window.location.href),
+        title: document.title,
+      },
+      timestamp: Date.now(),
+    });
   } catch (error) {
-    console.error('Meta Pixel: Error sending custom event:', error);
+    console.error('Analytics: Error tracking event:', name, error);
   }
 };
 
-// ============================================
-// Combined Tracking Functions
-// Track events in both GA4 and Meta Pixel
-// ============================================
-
-// NOTA: Las siguientes funciones "Combined" no se están usando actualmente
-// Se han comentado para reducir el bundle size
-// Descomentar cuando se necesiten funciones combinadas de tracking
-
-/*
-export const trackPhoneClickCombined = (
-  phoneNumber: string,
-  location?: string,
-) => {
-  trackPhoneClick(phoneNumber, location);
-  trackMetaPixelEvent('Contact', {
-    content_name: 'Phone Call',
-    content_category: 'Contact Method',
-    value: 0,
-    currency: 'MXN',
-  });
-  trackMetaPixelCustomEvent('PhoneClick', {
-    phone_number: phoneNumber,
-    location: location || 'unknown',
-  });
-};
-
-export const trackWhatsAppClickCombined = (
-  message?: string,
-  location?: string,
-) => {
-  trackWhatsAppClick(message, location);
-  trackMetaPixelEvent('Contact', {
-    content_name: 'WhatsApp',
-    content_category: 'Contact Method',
-    value: 0,
-    currency: 'MXN',
-  });
-  trackMetaPixelCustomEvent('WhatsAppClick', {
-    location: location || 'unknown',
-    message_preview: message?.substring(0, 50) || 'default',
-  });
-};
-
-export const trackCTAClickCombined = (ctaName: string, location?: string) => {
-  trackCTAClick(ctaName, location);
-  if (
-    ctaName.toLowerCase().includes('reservar') ||
-    ctaName.toLowerCase().includes('cita')
-  ) {
-    trackMetaPixelEvent('Lead', {
-      content_name: ctaName,
-      content_category: 'CTA',
-      value: 0,
-      currency: 'MXN',
-    });
-  } else {
-    trackMetaPixelEvent('ViewContent', {
-      content_name: ctaName,
-      content_category: 'CTA',
-    });
-  }
-  trackMetaPixelCustomEvent('CTAClick', {
-    cta_name: ctaName,
-    location: location || 'unknown',
-  });
-};
+// Track page view
+// Use 'page_view' events for virtual pageviews (hash navigation)
+// This is better for SPAs as it tracks navigation without full page reloads
+export const trackPageView = (path: string, title?: string) => {
+  if (typeof window === 'undefined') return;
 
-export const trackBookingClickCombined = (
-  platform: string,
-  location?: string,
-) => {
-  trackExternalLink(
-    `https://www.doctoralia.com.mx/analaura-reyes-priego/fisioterapeuta/metepec`,
-    platform,
-  );
-  trackMetaPixelEvent('InitiateCheckout', {
-    content_name: 'Doctoralia Booking',
-    content_category: 'Booking Platform',
-    value: 0,
-    currency: 'MXN',
-  });
-  trackMetaPixelCustomEvent('BookingClick', {
-    platform: platform,
-    location: location || 'unknown',
+  track('page_view', {
+    page_path: redactExerciseProgramUrl(path),
+    page_title: title || document.title,
+    page_location: redactExerciseProgramUrl(window.location.href),
   });
 };
-
-export const trackMetaPixelPageView = () => {
-  if (isMetaPixelEnabled()) {
-    try {
-      window.fbq('track', 'PageView');
-    } catch (error) {
-      console.error('Meta Pixel: Error sending page view:', error);
-    }
-  }
-};
-*/
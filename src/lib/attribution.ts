@@ -0,0 +1,330 @@
+/**
+ * Atribución multi-touch
+ *
+ * Cada visita que llega desde fuera del sitio (UTM, gclid/fbclid o un
+ * referrer externo) se guarda como un punto de contacto (touchpoint) con su
+ * canal, fuente, campaña y página de entrada. Las visitas directas solo cuentan
+ * como touchpoint si son la primera de la sesión.
+ *
+ * - El touchpoint de la sesión actual vive en sessionStorage; el historial, en
+ *   localStorage y solo con consentimiento de analítica o de marketing (se
+ *   borra si se retiran ambos). Lo capturado antes de aceptar el banner se
+ *   guarda al aceptar.
+ * - Los touchpoints más viejos que `ATTRIBUTION_WINDOW_DAYS` se descartan.
+ * - Modelos: first (primer contacto), last (último) y linear (crédito
+ *   repartido). Como en GA4, las visitas directas no reciben crédito si hay
+ *   algún otro contacto en la ventana.
+ *
+ * `track()` (lib/analytics.ts) agrega `getAttributionParams()` a los eventos de
+ * conversión del catálogo (reserva y contacto).
+ */
+import { hasConsent, subscribeToConsent } from './consent';
+
+export type AttributionChannel =
+  | 'paid_search'
+  | 'paid_social'
+  | 'organic_search'
+  | 'organic_social'
+  | 'email'
+  | 'referral'
+  | 'direct'
+  | 'other';
+
+export type AttributionModel = 'first' | 'last' | 'linear';
+
+export interface Touchpoint {
+  /** Milisegundos desde epoch */
+  timestamp: number;
+  channel: AttributionChannel;
+  /** utm_source, dominio del referrer o "(direct)" */
+  source: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+  gclid?: string;
+  fbclid?: string;
+  /** Dominio del referrer externo, si lo hubo */
+  referrer?: string;
+  /** Ruta de la página de entrada */
+  landingPage: string;
+}
+
+export interface AttributionCredit {
+  touchpoint: Touchpoint;
+  /** Fracción de la conversión (0-1) */
+  credit: number;
+}
+
+interface AttributionOptions {
+  /** Ventana de atribución en días (por defecto `ATTRIBUTION_WINDOW_DAYS`) */
+  windowDays?: number;
+}
+
+/** Días que un touchpoint sigue contando para la atribución */
+export const ATTRIBUTION_WINDOW_DAYS = 90;
+/** Modelo de `attribution_channel` en los eventos de conversión */
+export const ATTRIBUTION_MODEL: AttributionModel = 'last';
+
+const HISTORY_STORAGE_KEY = 'attribution_touchpoints';
+const SESSION_STORAGE_KEY = 'attribution_session_touch';
+/** Tope del historial para no llenar localStorage */
+const MAX_TOUCHPOINTS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEARCH_ENGINES =
+  /(^|\.)(google|bing|yahoo|duckduckgo|ecosia|baidu|yandex)(\.|$)/;
+const SOCIAL_NETWORKS =
+  /(^|\.)(facebook|fb|meta|instagram|ig|t\.co|twitter|x\.com|linkedin|lnkd|tiktok|youtube|pinterest|threads|whatsapp)(\.|$)/;
+const PAID_MEDIUMS = /^(cpc|ppc|paid|paidsearch|paid_social|paidsocial|ads?)$/i;
+
+let initialized = false;
+
+const readJson = <T>(storage: Storage, key: string): T | null => {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Canal del touchpoint, a partir de UTM, click ids y referrer */
+export const classifyChannel = (
+  touchpoint: Pick<
+    Touchpoint,
+    'source' | 'medium' | 'gclid' | 'fbclid' | 'referrer'
+  >,
+): AttributionChannel => {
+  const medium = touchpoint.medium?.toLowerCase() ?? '';
+  const source = touchpoint.source.toLowerCase();
+  const isSearch = SEARCH_ENGINES.test(source);
+  const isSocial = SOCIAL_NETWORKS.test(source);
+
+  if (touchpoint.gclid) return 'paid_search';
+  if (PAID_MEDIUMS.test(medium)) {
+    if (isSocial || touchpoint.fbclid) return 'paid_social';
+    return isSearch ? 'paid_search' : 'other';
+  }
+  if (medium === 'email' || medium === 'newsletter') return 'email';
+  if (touchpoint.fbclid || medium === 'social' || isSocial) {
+    return 'organic_social';
+  }
+  if (medium === 'organic' || isSearch) return 'organic_search';
+  if (medium === 'referral' || touchpoint.referrer) return 'referral';
+  if (source === '(direct)') return 'direct';
+  return 'other';
+};
+
+const getReferrerHost = () => {
+  try {
+    return document.referrer ? new URL(document.referrer).hostname : '';
+  } catch {
+    return '';
+  }
+};
+
+/** Touchpoint de la visita actual, o null si viene de otra página del sitio */
+const touchpointFromLocation = (): Touchpoint | null => {
+  const referrerHost = getReferrerHost();
+  if (referrerHost === window.location.hostname) return null;
+
+  const params = new URLSearchParams(window.location.search);
+  const get = (key: string) => params.get(key) || undefined;
+  const referrer = referrerHost || undefined;
+  const gclid = get('gclid');
+  const fbclid = get('fbclid');
+
+  const fields = {
+    source:
+      get('utm_source') ??
+      referrer ??
+      (gclid ? 'google' : fbclid ? 'facebook' : '(direct)'),
+    medium: get('utm_medium'),
+    campaign: get('utm_campaign'),
+    term: get('utm_term'),
+    content: get('utm_content'),
+    gclid,
+    fbclid,
+    referrer,
+  };
+
+  return {
+    ...fields,
+    channel: classifyChannel(fields),
+    timestamp: Date.now(),
+    landingPage: window.location.pathname,
+  };
+};
+
+const isSameTouch = (a: Touchpoint, b: Touchpoint) =>
+  a.channel === b.channel &&
+  a.source === b.source &&
+  a.medium === b.medium &&
+  a.campaign === b.campaign &&
+  a.gclid === b.gclid &&
+  a.fbclid === b.fbclid;
+
+const canPersist = () => hasConsent('analytics') || hasConsent('marketing');
+
+const readHistory = (): Touchpoint[] =>
+  readJson<Touchpoint[]>(localStorage, HISTORY_STORAGE_KEY) ?? [];
+
+/** Pasa el touchpoint de la sesión al historial (si hay consentimiento) */
+const persistSessionTouchpoint = () => {
+  if (!canPersist()) return;
+  const touchpoint = readJson<Touchpoint>(sessionStorage, SESSION_STORAGE_KEY);
+  if (!touchpoint) return;
+
+  try {
+    const history = readHistory();
+    if (history.some((stored) => stored.timestamp === touchpoint.timestamp)) {
+      return;
+    }
+    const minTimestamp = Date.now() - ATTRIBUTION_WINDOW_DAYS * DAY_MS;
+    const updated = [...history, touchpoint]
+      .filter((stored) => stored.timestamp >= minTimestamp)
+      .slice(-MAX_TOUCHPOINTS);
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Attribution: Error storing touchpoint:', error);
+  }
+};
+
+/**
+ * Registra el touchpoint de la visita actual y mantiene el historial al día con
+ * el consentimiento. Se llama una vez al cargar (initAnalytics).
+ */
+export const initAttribution = () => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  const touchpoint = touchpointFromLocation();
+  const sessionTouchpoint = readJson<Touchpoint>(
+    sessionStorage,
+    SESSION_STORAGE_KEY,
+  );
+  const isNewTouch =
+    touchpoint !== null &&
+    (sessionTouchpoint === null ||
+      (touchpoint.channel !== 'direct' &&
+        !isSameTouch(touchpoint, sessionTouchpoint)));
+
+  if (isNewTouch) {
+    try {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(touchpoint));
+    } catch (error) {
+      console.error('Attribution: Error storing session touchpoint:', error);
+    }
+    if (import.meta.env.DEV) {
+      console.log('Attribution: Touchpoint captured:', touchpoint);
+    }
+  }
+  persistSessionTouchpoint();
+
+  subscribeToConsent(() => {
+    if (canPersist()) {
+      persistSessionTouchpoint();
+    } else {
+      localStorage.removeItem(HISTORY_STORAGE_KEY);
+    }
+  });
+};
+
+/**
+ * Touchpoints dentro de la ventana de atribución, del más viejo al más nuevo
+ * (incluye el de la sesión actual aunque aún no haya consentimiento)
+ */
+export const getTouchpoints = ({
+  windowDays = ATTRIBUTION_WINDOW_DAYS,
+}: AttributionOptions = {}): Touchpoint[] => {
+  if (typeof window === 'undefined') return [];
+
+  const history = readHistory();
+  const sessionTouchpoint = readJson<Touchpoint>(
+    sessionStorage,
+    SESSION_STORAGE_KEY,
+  );
+  const touchpoints =
+    sessionTouchpoint &&
+    !history.some((stored) => stored.timestamp === sessionTouchpoint.timestamp)
+      ? [...history, sessionTouchpoint]
+      : history;
+
+  const minTimestamp = Date.now() - windowDays * DAY_MS;
+  return touchpoints.filter(
+    (touchpoint) => touchpoint.timestamp >= minTimestamp,
+  );
+};
+
+/**
+ * Reparte el crédito de una conversión entre los touchpoints según el modelo.
+ * Las visitas directas solo reciben crédito si no hay otros contactos.
+ */
+export const attributeConversion = (
+  model: AttributionModel,
+  touchpoints: Touchpoint[] = getTouchpoints(),
+): AttributionCredit[] => {
+  const nonDirect = touchpoints.filter(
+    (touchpoint) => touchpoint.channel !== 'direct',
+  );
+  const eligible = nonDirect.length > 0 ? nonDirect : touchpoints;
+  if (eligible.length === 0) return [];
+
+  switch (model) {
+    case 'first':
+      return [{ touchpoint: eligible[0], credit: 1 }];
+    case 'last':
+      return [{ touchpoint: eligible[eligible.length - 1], credit: 1 }];
+    case 'linear':
+      return eligible.map((touchpoint) => ({
+        touchpoint,
+        credit: 1 / eligible.length,
+      }));
+  }
+};
+
+/**
+ * Touchpoint al que se atribuye la conversión: el primero o el último, o con
+ * linear el más reciente del canal con más crédito
+ */
+export const getAttributedTouchpoint = (
+  model: AttributionModel = ATTRIBUTION_MODEL,
+  touchpoints: Touchpoint[] = getTouchpoints(),
+): Touchpoint | null => {
+  const credits = attributeConversion(model, touchpoints);
+  const channelCredit = new Map<AttributionChannel, number>();
+  for (const { touchpoint, credit } of credits) {
+    channelCredit.set(
+      touchpoint.channel,
+      (channelCredit.get(touchpoint.channel) ?? 0) + credit,
+    );
+  }
+  const creditOf = (touchpoint: Touchpoint) =>
+    channelCredit.get(touchpoint.channel) ?? 0;
+  let best: Touchpoint | null = null;
+  for (const { touchpoint } of credits) {
+    if (!best || creditOf(touchpoint) >= creditOf(best)) best = touchpoint;
+  }
+  return best;
+};
+
+/**
+ * Parámetros de atribución para los eventos de conversión: canal, fuente y
+ * campaña según `ATTRIBUTION_MODEL`, canal del primer contacto y número de
+ * touchpoints en la ventana
+ */
+export const getAttributionParams = (): Record<string, string | number> => {
+  const touchpoints = getTouchpoints();
+  const attributed = getAttributedTouchpoint(ATTRIBUTION_MODEL, touchpoints);
+  const first = getAttributedTouchpoint('first', touchpoints);
+  return {
+    attribution_channel: attributed?.channel ?? 'direct',
+    attribution_source: attributed?.source ?? '(direct)',
+    ...(attributed?.campaign && {
+      attribution_campaign: attributed.campaign,
+    }),
+    first_touch_channel: first?.channel ?? 'direct',
+    touchpoint_count: touchpoints.length,
+  };
+};
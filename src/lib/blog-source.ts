@@ -0,0 +1,134 @@
+/**
+ * Lee los artículos del blog desde el disco (`src/content/blog/*.mdx` y
+ * `src/content/en/blog/*.mdx`) y valida su frontmatter. Lo usan los plugins
+ * de vite.config.ts: el módulo `virtual:blog-posts` del cliente, el feed RSS,
+ * las imágenes Open Graph y la validación del JSON-LD salen de aquí.
+ *
+ * Solo para el build: lee archivos del disco.
+ */
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import specialtiesData from '../content/specialties.json';
+import { blogPostSchema, formatContentIssues } from '../content/schema';
+import {
+  blogPostPath,
+  getReadingTime,
+  parseBlogPath,
+  type BlogPost,
+  type BlogPosts,
+} from './blog';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_INFO, type Locale } from './i18n';
+
+/** Directorio de los artículos de cada idioma, relativo a la raíz del repo */
+export const blogDirectory = (locale: Locale) =>
+  join('src', 'content', LOCALE_INFO[locale].prefix.slice(1), 'blog');
+
+// Campos que una traducción no cambia: el artículo es el mismo
+const SHARED_FIELDS = ['date', 'updated', 'category', 'services'] as const;
+
+const specialtySlugs = new Set(
+  (specialtiesData as { slug: string }[]).map((specialty) => specialty.slug),
+);
+
+const readPost = (directory: string, file: string): BlogPost => {
+  const source = join(directory, file);
+  const slug = file.replace(/\.mdx$/, '');
+  const value = readFileSync(join(process.cwd(), source), 'utf-8');
+  const issues: string[] = [];
+
+  if (!/^[a-z0-9-]+$/.test(slug)) {
+    issues.push('  - (archivo): Usa kebab-case (a-z, 0-9, -) en el nombre');
+  }
+  if (parseBlogPath(blogPostPath(slug))?.type !== 'post') {
+    issues.push(`  - (archivo): "${slug}" es una ruta reservada del blog`);
+  }
+  const frontmatter = value.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1];
+  if (frontmatter === undefined) {
+    throw new Error(
+      `Contenido inválido en ${source}:\n  - (raíz): Falta el frontmatter (--- ... ---)`,
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(frontmatter);
+  } catch (error) {
+    throw new Error(
+      `Contenido inválido en ${source}:\n  - ${(error as Error).message}`,
+    );
+  }
+  const result = blogPostSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(formatContentIssues(source, result.error));
+  }
+  result.data.services.forEach((service, index) => {
+    if (!specialtySlugs.has(service)) {
+      issues.push(
+        `  - services[${index}]: "${service}" no existe en specialties.json`,
+      );
+    }
+  });
+  if (issues.length > 0) {
+    throw new Error(`Contenido inválido en ${source}:\n${issues.join('\n')}`);
+  }
+
+  return { ...result.data, slug, readingTime: getReadingTime(value) };
+};
+
+/**
+ * Artículos de cada idioma, del más reciente al más antiguo. Lanza un error
+ * legible (formato de `formatContentIssues`) si un frontmatter es inválido o
+ * si una traducción no corresponde a un artículo en español (mismos slugs,
+ * fechas, categoría y servicios).
+ */
+export const loadBlogPosts = (): BlogPosts => {
+  const posts = Object.fromEntries(
+    LOCALES.map((locale) => {
+      const directory = blogDirectory(locale);
+      const files = readdirSync(join(process.cwd(), directory)).filter((file) =>
+        file.endsWith('.mdx'),
+      );
+      return [
+        locale,
+        files
+          .map((file) => readPost(directory, file))
+          .sort((a, b) => b.date.localeCompare(a.date)),
+      ];
+    }),
+  ) as BlogPosts;
+
+  const issues: string[] = [];
+  const original = new Map(
+    posts[DEFAULT_LOCALE].map((post) => [post.slug, post]),
+  );
+  for (const locale of LOCALES.filter((item) => item !== DEFAULT_LOCALE)) {
+    const directory = blogDirectory(locale);
+    const translated = new Set(posts[locale].map((post) => post.slug));
+    for (const slug of original.keys()) {
+      if (!translated.has(slug)) {
+        issues.push(`  - ${directory}/${slug}.mdx: falta la traducción`);
+      }
+    }
+    for (const post of posts[locale]) {
+      const source = original.get(post.slug);
+      if (!source) {
+        issues.push(
+          `  - ${directory}/${post.slug}.mdx: no existe en ${blogDirectory(DEFAULT_LOCALE)}/`,
+        );
+        continue;
+      }
+      for (const field of SHARED_FIELDS) {
+        if (JSON.stringify(post[field]) !== JSON.stringify(source[field])) {
+          issues.push(
+            `  - ${directory}/${post.slug}.mdx: "${field}" debe ser igual al original`,
+          );
+        }
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw new Error(`Traducciones del blog incompletas:\n${issues.join('\n')}`);
+  }
+  return posts;
+};
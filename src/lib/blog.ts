@@ -0,0 +1,164 @@
+/**
+ * Blog de educación para pacientes (/blog)
+ *
+ * Cada artículo es un MDX en `src/content/blog/<slug>.mdx` (su traducción, con
+ * el mismo slug, en `src/content/en/blog/`) con frontmatter YAML validado por
+ * `blogPostSchema`. El cuerpo lo compila @mdx-js/rollup y se carga bajo
+ * demanda; los metadatos (frontmatter, slug y minutos de lectura) los lee
+ * `blog-source.ts` en Node y llegan al cliente por el módulo
+ * `virtual:blog-posts` (blogPlugin en vite.config.ts).
+ *
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import {
+  BLOG_CATEGORIES,
+  type BlogCategory,
+  type BlogPostFrontmatter,
+} from '../content/schema';
+import {
+  LOCALE_INFO,
+  getLocaleFromPath,
+  localizePath,
+  stripLocalePrefix,
+  translate,
+  type Locale,
+} from './i18n';
+import { absoluteUrl, siteConfig } from './site-config';
+
+export interface BlogPost extends BlogPostFrontmatter {
+  /** Nombre del archivo sin .mdx; segmento de URL (/blog/<slug>) */
+  slug: string;
+  /** Minutos de lectura (`getReadingTime`) */
+  readingTime: number;
+}
+
+/** Artículos de cada idioma, del más reciente al más antiguo */
+export type BlogPosts = Record<Locale, BlogPost[]>;
+
+export const BLOG_PATH = '/blog';
+
+/** Feed RSS de cada idioma (sin prefijo: "/blog/rss.xml", "/en/blog/rss.xml") */
+export const BLOG_FEED_PATH = `${BLOG_PATH}/rss.xml`;
+
+export const blogPostPath = (slug: string) => `${BLOG_PATH}/${slug}`;
+
+// El slug "categoria" queda reservado para las páginas de categoría
+export const blogCategoryPath = (category: BlogCategory) =>
+  `${BLOG_PATH}/categoria/${category}`;
+
+/** Fecha del frontmatter ("2026-03-10") como texto: "10 de marzo de 2026" */
+export const formatBlogDate = (date: string, locale: Locale) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString(
+    LOCALE_INFO[locale].hreflang,
+    { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' },
+  );
+
+// Palabras por minuto de un lector promedio en pantalla
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Minutos de lectura de un archivo MDX (mínimo 1). Cuenta las palabras del
+ * texto sin frontmatter, imports/exports, etiquetas JSX ni URLs de enlaces.
+ */
+export const getReadingTime = (source: string): number => {
+  const text = source
+    .replace(/^---\r?\n[\s\S]*?\r?\n---/, '')
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\]\([^)]*\)/g, ']');
+  // Las marcas de Markdown sueltas (#, -, >, **) no tienen letras ni dígitos
+  const words = text
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+};
+
+export type BlogPage =
+  | { type: 'index' }
+  | { type: 'category'; category: BlogCategory }
+  | { type: 'post'; slug: string };
+
+/**
+ * Página del blog de una ruta sin prefijo de idioma ("/blog",
+ * "/blog/categoria/ejercicios", "/blog/<slug>"), o null si no es del blog.
+ * No comprueba que el artículo exista.
+ */
+export const parseBlogPath = (basePath: string): BlogPage | null => {
+  const [, section, slug, category, ...rest] = basePath.split('/');
+  if (section !== BLOG_PATH.slice(1) || rest.length > 0) return null;
+  if (!slug) return { type: 'index' };
+  if (slug === 'categoria') {
+    const match = BLOG_CATEGORIES.find((item) => item === category);
+    return match ? { type: 'category', category: match } : null;
+  }
+  return category === undefined ? { type: 'post', slug } : null;
+};
+
+/**
+ * Artículo de una ruta ("/blog/<slug>", "/en/blog/<slug>"), o undefined si la
+ * ruta no es un artículo publicado
+ */
+export const getBlogPostByPath = (
+  posts: BlogPosts,
+  path: string,
+): BlogPost | undefined => {
+  const normalizedPath = path.replace(/\/+$/, '') || '/';
+  const page = parseBlogPath(stripLocalePrefix(normalizedPath));
+  if (page?.type !== 'post') return undefined;
+  return posts[getLocaleFromPath(normalizedPath)].find(
+    (post) => post.slug === page.slug,
+  );
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// RFC 822, como lo pide RSS 2.0 (las fechas del frontmatter son días)
+const toRfc822 = (date: string) => new Date(`${date}T12:00:00Z`).toUTCString();
+
+/**
+ * Serializa los artículos de un idioma como feed RSS 2.0 (con `atom:link` a
+ * sí mismo, como recomienda el validador de W3C)
+ */
+export const renderBlogFeed = (posts: BlogPost[], locale: Locale): string => {
+  const feedUrl = absoluteUrl(localizePath(BLOG_FEED_PATH, locale));
+  const lastBuildDate = posts
+    .map((post) => post.updated ?? post.date)
+    .sort()
+    .at(-1);
+
+  const items = posts.map((post) => {
+    const url = absoluteUrl(localizePath(blogPostPath(post.slug), locale));
+    const lines = [
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <description>${escapeXml(post.description)}</description>`,
+      `      <dc:creator>${escapeXml(post.author)}</dc:creator>`,
+      `      <pubDate>${toRfc822(post.date)}</pubDate>`,
+      `      <category>${escapeXml(translate(locale, `blog.categories.${post.category}`))}</category>`,
+      ...post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+    ];
+    return `    <item>\n${lines.join('\n')}\n    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+     xmlns:atom="http://www.w3.org/2005/Atom"
+     xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(`${translate(locale, 'blog.title')} | ${siteConfig.name}`)}</title>
+    <link>${escapeXml(absoluteUrl(localizePath(BLOG_PATH, locale)))}</link>
+    <description>${escapeXml(translate(locale, 'blog.description'))}</description>
+    <language>${LOCALE_INFO[locale].hreflang}</language>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />
+${lastBuildDate ? `    <lastBuildDate>${toRfc822(lastBuildDate)}</lastBuildDate>\n` : ''}${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
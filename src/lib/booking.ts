@@ -0,0 +1,238 @@
+/**
+ * Solicitudes de cita desde el formulario del sitio
+ *
+ * El formulario (`AppointmentRequestForm`) valida los datos con
+ * `appointmentRequestSchema` y los entrega a un `BookingProvider`. Cada
+ * proveedor decide cómo llega la solicitud al consultorio:
+ * - `whatsapp`: abre WhatsApp con el mensaje ya redactado (por defecto)
+ * - `email`: abre el cliente de correo (mailto) con asunto y cuerpo
+ * - `http`: envía la solicitud como JSON a `VITE_BOOKING_ENDPOINT`
+ *
+ * El proveedor se elige con `VITE_BOOKING_PROVIDER`. Para probar el modo
+ * `http` en local: `npm run booking:stub` y
+ * `VITE_BOOKING_PROVIDER=http VITE_BOOKING_ENDPOINT=http://localhost:8787/booking`.
+ *
+ * Los mensajes de validación, las etiquetas y el resumen que recibe el
+ * consultorio salen del catálogo del idioma de la página (`booking.*`).
+ */
+import { z } from 'zod';
+import { DOCTORALIA_ADDRESSES, localizeAddress } from './doctoralia-addresses';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_INFO,
+  translate,
+  type Locale,
+  type MessageKey,
+} from './i18n';
+import { siteConfig } from './site-config';
+
+/** Fecha de hoy "YYYY-MM-DD" en hora local del navegador */
+const today = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+/** Etiqueta (clave del catálogo) de cada franja horaria */
+export const TIME_PREFERENCES = {
+  morning: 'booking.timePreferences.morning',
+  afternoon: 'booking.timePreferences.afternoon',
+  any: 'booking.timePreferences.any',
+} as const satisfies Record<string, MessageKey>;
+
+export const createAppointmentRequestSchema = (
+  locale: Locale = DEFAULT_LOCALE,
+) => {
+  const message = (key: MessageKey) => translate(locale, key);
+  const preferredDate = z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, message('booking.errors.date'))
+    .refine((value) => value >= today(), message('booking.errors.pastDate'));
+
+  return z.object({
+    /** addressId de DOCTORALIA_ADDRESSES */
+    locationId: z
+      .string()
+      .refine(
+        (value) =>
+          DOCTORALIA_ADDRESSES.some((addr) => addr.addressId === value),
+        message('booking.errors.location'),
+      ),
+    /** Título de la especialidad (specialties.json) o "No estoy seguro/a" */
+    service: z.string().min(1, message('booking.errors.service')),
+    firstDate: preferredDate,
+    secondDate: z.union([preferredDate, z.literal('')]),
+    timePreference: z.enum(
+      Object.keys(TIME_PREFERENCES) as [keyof typeof TIME_PREFERENCES],
+    ),
+    name: z
+      .string()
+      .trim()
+      .min(3, message('booking.errors.name'))
+      .max(80, translate(locale, 'booking.errors.maxLength', { max: 80 })),
+    phone: z
+      .string()
+      .trim()
+      .refine((value) => {
+        const digits = value.replace(/\D/g, '');
+        return (
+          digits.length === 10 ||
+          (digits.length === 12 && digits.startsWith('52'))
+        );
+      }, message('booking.errors.phone')),
+    email: z.union([
+      z.string().trim().email(message('booking.errors.email')),
+      z.literal(''),
+    ]),
+    notes: z
+      .string()
+      .trim()
+      .max(500, translate(locale, 'booking.errors.maxLength', { max: 500 })),
+    privacyConsent: z
+      .boolean()
+      .refine(Boolean, message('booking.errors.privacyConsent')),
+  });
+};
+
+export const appointmentRequestSchema = createAppointmentRequestSchema();
+
+export type AppointmentRequest = z.infer<typeof appointmentRequestSchema>;
+
+export interface BookingResult {
+  /**
+   * `sent`: la solicitud ya llegó al consultorio (http)
+   * `handoff`: se abrió otra app (WhatsApp/correo) y el usuario debe enviarla
+   */
+  status: 'sent' | 'handoff';
+  /** Folio devuelto por el endpoint (solo http) */
+  reference?: string;
+}
+
+export interface BookingProvider {
+  id: 'whatsapp' | 'email' | 'http';
+  /** Texto del botón de envío */
+  submitLabel: string;
+  submit: (request: AppointmentRequest) => Promise<BookingResult>;
+}
+
+const formatDate = (value: string, locale: Locale) =>
+  new Date(`${value}T12:00:00`).toLocaleDateString(
+    LOCALE_INFO[locale].hreflang,
+    { weekday: 'long', day: 'numeric', month: 'long' },
+  );
+
+/**
+ * Resumen legible de la solicitud, compartido por WhatsApp y correo
+ */
+export const formatAppointmentRequest = (
+  request: AppointmentRequest,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  const t = (key: MessageKey, values?: Record<string, string>) =>
+    translate(locale, key, values);
+  const address = DOCTORALIA_ADDRESSES.find(
+    (addr) => addr.addressId === request.locationId,
+  );
+  const location = address
+    ? localizeAddress(address, locale).name
+    : request.locationId;
+  const dates = [request.firstDate, request.secondDate]
+    .filter(Boolean)
+    .map((date) => formatDate(date, locale))
+    .join(t('booking.summary.dateSeparator'));
+
+  return [
+    t('booking.summary.greeting', { name: request.name }),
+    '',
+    t('booking.summary.service', { service: request.service }),
+    t('booking.summary.location', { location }),
+    t('booking.summary.dates', { dates }),
+    t('booking.summary.time', {
+      time: t(TIME_PREFERENCES[request.timePreference]),
+    }),
+    t('booking.summary.phone', { phone: request.phone }),
+    ...(request.email
+      ? [t('booking.summary.email', { email: request.email })]
+      : []),
+    ...(request.notes
+      ? ['', t('booking.summary.notes', { notes: request.notes })]
+      : []),
+  ].join('\n');
+};
+
+export const createWhatsAppBookingProvider = (
+  locale: Locale = DEFAULT_LOCALE,
+): BookingProvider => ({
+  id: 'whatsapp',
+  submitLabel: translate(locale, 'booking.submit.whatsapp'),
+  submit: async (request) => {
+    const text = encodeURIComponent(formatAppointmentRequest(request, locale));
+    const url = `${siteConfig.whatsappUrl}?text=${text}`;
+    // Si el navegador bloquea la ventana nueva, abrir en la misma pestaña
+    const popup = window.open(url, '_blank');
+    if (popup) {
+      popup.opener = null;
+    } else {
+      window.location.href = url;
+    }
+    return { status: 'handoff' };
+  },
+});
+
+export const createEmailBookingProvider = (
+  locale: Locale = DEFAULT_LOCALE,
+): BookingProvider => ({
+  id: 'email',
+  submitLabel: translate(locale, 'booking.submit.email'),
+  submit: async (request) => {
+    const subject = encodeURIComponent(
+      translate(locale, 'booking.emailSubject', { service: request.service }),
+    );
+    const body = encodeURIComponent(formatAppointmentRequest(request, locale));
+    window.location.href = `${siteConfig.mailtoHref}?subject=${subject}&body=${body}`;
+    return { status: 'handoff' };
+  },
+});
+
+export const createHttpBookingProvider = (
+  endpoint: string,
+  locale: Locale = DEFAULT_LOCALE,
+): BookingProvider => ({
+  id: 'http',
+  submitLabel: translate(locale, 'booking.submit.http'),
+  submit: async (request) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...request, locale }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `No se pudo enviar la solicitud (HTTP ${response.status})`,
+      );
+    }
+    const data: { reference?: string } = await response
+      .json()
+      .catch(() => ({}));
+    return { status: 'sent', reference: data.reference };
+  },
+});
+
+/**
+ * Proveedor configurado por entorno. Si `http` no tiene endpoint, se usa
+ * WhatsApp para que el formulario siga funcionando.
+ */
+export const getBookingProvider = (
+  locale: Locale = DEFAULT_LOCALE,
+): BookingProvider => {
+  const provider = import.meta.env.VITE_BOOKING_PROVIDER;
+  const endpoint = import.meta.env.VITE_BOOKING_ENDPOINT;
+
+  if (provider === 'http' && endpoint) {
+    return createHttpBookingProvider(endpoint, locale);
+  }
+  if (provider === 'email') {
+    return createEmailBookingProvider(locale);
+  }
+  return createWhatsAppBookingProvider(locale);
+};
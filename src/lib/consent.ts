@@ -0,0 +1,145 @@
+/**
+ * Consentimiento de cookies y rastreo
+ *
+ * Tres categorías opcionales:
+ * - analytics: Google Analytics 4 (cookies de medición)
+ * - marketing: Meta Pixel y cookies publicitarias de Google
+ * - errors: reportes de error y grabación de sesión de Sentry
+ *
+ * La decisión se guarda en localStorage junto con `CONSENT_VERSION`. Al
+ * cambiar las categorías o lo que cubre cada una se sube la versión: las
+ * decisiones guardadas con otra versión se ignoran y el banner vuelve a salir.
+ *
+ * Google Consent Mode v2: index.html declara todo como "denied" antes de
+ * cargar gtag.js; `applyConsent` envía el `gtag('consent', 'update')` con la
+ * decisión guardada al hidratar y cada vez que cambia. Meta Pixel no se carga
+ * hasta que hay consentimiento de marketing (ver loadMetaPixel en analytics.ts)
+ * y Sentry descarta eventos y no graba sesiones sin consentimiento de errores
+ * (main.tsx).
+ *
+ * Uso en componentes: `const { consent, save } = useConsent();`
+ */
+
+export const CONSENT_CATEGORIES = ['analytics', 'marketing', 'errors'] as const;
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+export interface ConsentState {
+  version: number;
+  /** Fecha ISO de la última decisión */
+  updatedAt: string;
+  choices: ConsentChoices;
+}
+
+export const CONSENT_VERSION = 1;
+
+const CONSENT_STORAGE_KEY = 'consent_preferences';
+
+/** Evento para abrir el diálogo de preferencias desde cualquier parte */
+const OPEN_PREFERENCES_EVENT = 'consent:open-preferences';
+
+type ConsentListener = (state: ConsentState | null) => void;
+
+const listeners = new Set<ConsentListener>();
+
+// Cache de la lectura de localStorage: useSyncExternalStore exige que
+// getConsent devuelva la misma referencia mientras no cambie
+let cached: ConsentState | null | undefined;
+
+const readStoredConsent = (): ConsentState | null => {
+  try {
+    const raw = localStorage.getItem(CONSENT_STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as ConsentState;
+    if (stored.version !== CONSENT_VERSION || !stored.choices) return null;
+    return {
+      ...stored,
+      choices: Object.fromEntries(
+        CONSENT_CATEGORIES.map((category) => [
+          category,
+          stored.choices[category] === true,
+        ]),
+      ) as ConsentChoices,
+    };
+  } catch (error) {
+    console.error('Consent: Error reading stored consent:', error);
+    return null;
+  }
+};
+
+/**
+ * Decisión vigente, o null si el visitante aún no decide (o decidió con otra
+ * versión). En el servidor siempre es null.
+ */
+export const getConsent = (): ConsentState | null => {
+  if (typeof window === 'undefined') return null;
+  if (cached === undefined) cached = readStoredConsent();
+  return cached;
+};
+
+/** ¿Hay consentimiento para la categoría? Sin decisión cuenta como "no". */
+export const hasConsent = (category: ConsentCategory): boolean =>
+  getConsent()?.choices[category] === true;
+
+/** Envía la decisión a Google Consent Mode v2 (index.html define gtag) */
+export const applyConsent = (state: ConsentState | null = getConsent()) => {
+  if (typeof window === 'undefined' || !window.gtag) return;
+  const grant = (granted: boolean | undefined) =>
+    granted ? 'granted' : 'denied';
+  window.gtag('consent', 'update', {
+    analytics_storage: grant(state?.choices.analytics),
+    ad_storage: grant(state?.choices.marketing),
+    ad_user_data: grant(state?.choices.marketing),
+    ad_personalization: grant(state?.choices.marketing),
+  });
+};
+
+/** Guarda la decisión y avisa a los suscriptores (analytics, Sentry, UI) */
+export const saveConsent = (choices: ConsentChoices): ConsentState => {
+  const state: ConsentState = {
+    version: CONSENT_VERSION,
+    updatedAt: new Date().toISOString(),
+    choices: { ...choices },
+  };
+
+  try {
+    localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Consent: Error storing consent:', error);
+  }
+
+  cached = state;
+  applyConsent(state);
+  listeners.forEach((listener) => listener(state));
+
+  if (import.meta.env.DEV) {
+    console.log('Consent: Saved:', state.choices);
+  }
+  return state;
+};
+
+export const acceptAllConsent = () =>
+  saveConsent({ analytics: true, marketing: true, errors: true });
+
+export const rejectAllConsent = () =>
+  saveConsent({ analytics: false, marketing: false, errors: false });
+
+/** Suscribe a cambios de la decisión; devuelve la función para cancelar */
+export const subscribeToConsent = (listener: ConsentListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Abre el diálogo de preferencias (enlace del Footer, aviso de privacidad) */
+export const openConsentPreferences = () => {
+  window.dispatchEvent(new Event(OPEN_PREFERENCES_EVENT));
+};
+
+export const onOpenConsentPreferences = (handler: () => void) => {
+  window.addEventListener(OPEN_PREFERENCES_EVENT, handler);
+  return () => window.removeEventListener(OPEN_PREFERENCES_EVENT, handler);
+};
@@ -10,13 +10,35 @@
  * 3. O revisa las URLs que contienen addressId o highlight-calendar
  */
 
+import type { Locale } from './i18n';
+import {
+  MX_HOLIDAYS,
+  WEEKDAY_SCHEDULE,
+  type OpeningSchedule,
+} from './opening-hours';
+import { siteConfig } from './site-config';
+
+/** URL base del perfil en Doctoralia (sin ciudad) */
+export const DOCTORALIA_PROFILE_URL = siteConfig.doctoralia.profileUrl;
+
 export interface DoctoraliaAddress {
   /** ID único de la dirección en Doctoralia */
   addressId: string;
+  /** Segmento de URL de la landing del consultorio (/consultorio/<slug>) */
+  slug: string;
   /** Nombre de la ubicación/consultorio */
   name: string;
   /** Dirección física completa */
   address: string;
+  /** Dirección desglosada para schema.org PostalAddress (solo consultorios físicos) */
+  postalAddress?: {
+    streetAddress: string;
+    addressLocality: string;
+    addressRegion: string;
+    postalCode: string;
+  };
+  /** Ciudad del perfil en Doctoralia (último segmento de la URL del perfil) */
+  doctoraliaCity: string;
   /** Coordenadas para mapas (opcional) */
   coordinates?: {
     lat: number;
@@ -28,6 +50,12 @@ export interface DoctoraliaAddress {
   isOnline?: boolean;
   /** ID del calendario (highlight-calendar) si está disponible */
   calendarId?: string;
+  /** Horario semanal y excepciones (hora de la Ciudad de México) */
+  schedule: OpeningSchedule;
+  /** Nombre y dirección en otros idiomas (ver localizeAddress) */
+  translations?: Partial<
+    Record<Locale, Partial<Pick<DoctoraliaAddress, 'name' | 'address'>>>
+  >;
 }
 
 /**
@@ -41,33 +69,70 @@ export interface DoctoraliaAddress {
 export const DOCTORALIA_ADDRESSES: DoctoraliaAddress[] = [
   {
     addressId: '238870',
+    slug: 'en-linea',
     name: 'Consulta en línea',
     address: 'Consulta virtual por videollamada',
+    doctoraliaCity: 'metepec',
     isOnline: true,
     calendarId: '94360',
+    schedule: { weekly: WEEKDAY_SCHEDULE, exceptions: MX_HOLIDAYS },
+    translations: {
+      en: {
+        name: 'Online consultation',
+        address: 'Virtual visit by video call',
+      },
+    },
   },
   {
     addressId: '238871',
+    slug: 'iztapalapa',
     name: 'Consultorio Iztapalapa',
     address: 'Andres Tutino 25c, 09360 Iztapalapa, CDMX',
+    postalAddress: {
+      streetAddress: 'Andres Tutino 25c',
+      addressLocality: 'Iztapalapa',
+      addressRegion: 'CDMX',
+      postalCode: '09360',
+    },
+    doctoraliaCity: 'iztapalapa',
     coordinates: {
       lat: 19.3540592,
       lng: -99.0791321,
     },
     mapUrl: 'https://google.com/maps?q=19.3540592,-99.0791321',
     calendarId: '94289',
+    schedule: { weekly: WEEKDAY_SCHEDULE, exceptions: MX_HOLIDAYS },
+    translations: {
+      en: { name: 'Iztapalapa Clinic' },
+    },
   },
   {
     addressId: '238872',
+    slug: 'metepec',
     name: 'Consultorio Metepec',
     address:
       'Priv. 5 de Mayo 5, San Jerónimo Chicahualco, 52179 Metepec, Estado de México',
+    postalAddress: {
+      streetAddress: 'Priv. 5 de Mayo 5, San Jerónimo Chicahualco',
+      addressLocality: 'Metepec',
+      addressRegion: 'México',
+      postalCode: '52179',
+    },
+    doctoraliaCity: 'metepec',
     coordinates: {
       lat: 19.2797222,
       lng: -99.593811,
     },
     mapUrl: 'https://google.com/maps?q=19.2797222,-99.5938110',
     calendarId: '94291',
+    schedule: { weekly: WEEKDAY_SCHEDULE, exceptions: MX_HOLIDAYS },
+    translations: {
+      en: {
+        name: 'Metepec Clinic',
+        address:
+          'Priv. 5 de Mayo 5, San Jerónimo Chicahualco, 52179 Metepec, State of Mexico',
+      },
+    },
   },
 ];
 
@@ -100,3 +165,44 @@ export const getPhysicalAddresses = (): DoctoraliaAddress[] => {
 export const getOnlineAddress = (): DoctoraliaAddress | undefined => {
   return DOCTORALIA_ADDRESSES.find((addr) => addr.isOnline);
 };
+
+/**
+ * Obtiene una dirección por el slug de su landing (/consultorio/:slug)
+ */
+export const getAddressBySlug = (
+  slug: string,
+): DoctoraliaAddress | undefined => {
+  return DOCTORALIA_ADDRESSES.find((addr) => addr.slug === slug);
+};
+
+/**
+ * Dirección con el nombre y la dirección en `locale` (los que no estén
+ * traducidos se quedan en español)
+ */
+export const localizeAddress = (
+  address: DoctoraliaAddress,
+  locale: Locale,
+): DoctoraliaAddress => ({
+  ...address,
+  ...address.translations?.[locale],
+});
+
+/**
+ * URL de reserva en Doctoralia que abre el perfil con el consultorio ya
+ * seleccionado (address-id) y su calendario resaltado (highlight-calendar)
+ */
+export const getDoctoraliaBookingUrl = (address: DoctoraliaAddress): string => {
+  const params = new URLSearchParams({ 'address-id': address.addressId });
+  if (address.calendarId) {
+    params.set('highlight-calendar', address.calendarId);
+  }
+  return `${DOCTORALIA_PROFILE_URL}/${address.doctoraliaCity}#${params.toString()}`;
+};
+
+/**
+ * URL de embed de Google Maps para una dirección con coordenadas
+ * Usa el formato de búsqueda con output=embed, que funciona sin API key
+ */
+export const getGoogleMapsEmbedUrl = (lat: number, lng: number): string => {
+  return `https://www.google.com/maps?q=${lat},${lng}&output=embed&hl=es&z=15`;
+};
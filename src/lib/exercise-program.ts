@@ -0,0 +1,165 @@
+/**
+ * Programas de ejercicios para casa (/ejercicios/programa)
+ *
+ * La fisioterapeuta arma el programa en el catálogo (/ejercicios) y lo
+ * comparte como enlace o lo imprime. No hay base de datos: el enlace es el
+ * programa. Viaja completo en el fragmento de la URL:
+ *
+ *   /ejercicios/programa#e=puente-gluteo:3x12,plancha-frontal:3x30s&p=Ana
+ *
+ * - `e`: ejercicios en orden, `<id>:<series>x<repeticiones>` o
+ *   `<id>:<series>x<segundos>s` (sin dosis se usa la del catálogo)
+ * - `p`: nombre del paciente; `n`: indicaciones generales
+ *
+ * El navegador no manda el fragmento al servidor, pero sí queda en
+ * `location.href`: la analítica (lib/analytics.ts, Vercel Analytics) y Sentry
+ * reciben estas URLs pasadas por `redactExerciseProgramUrl`, que lo quita, para
+ * que el nombre y las notas no salgan del navegador.
+ *
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import { EXERCISE_DOSAGE_LIMITS, type ExerciseEntry } from '../content/schema';
+import { stripLocalePrefix, translate, type Locale } from './i18n';
+
+export const EXERCISES_PATH = '/ejercicios';
+
+export const EXERCISE_PROGRAM_PATH = `${EXERCISES_PATH}/programa`;
+
+/** Ejercicios como máximo en un programa */
+export const MAX_PROGRAM_EXERCISES = 20;
+
+/** Longitud máxima del nombre del paciente y de las indicaciones */
+export const PROGRAM_TEXT_LIMITS = { patient: 60, notes: 500 } as const;
+
+export type ExerciseDosage = Pick<
+  ExerciseEntry,
+  'sets' | 'reps' | 'holdSeconds'
+>;
+
+export interface ProgramExercise extends ExerciseDosage {
+  /** `id` del ejercicio en exercises.json */
+  id: string;
+}
+
+export interface ExerciseProgram {
+  exercises: ProgramExercise[];
+  patient?: string;
+  notes?: string;
+}
+
+type CatalogExercise = Pick<ExerciseEntry, 'id'> & ExerciseDosage;
+
+const clamp = (
+  value: number,
+  field: keyof typeof EXERCISE_DOSAGE_LIMITS,
+): number => {
+  const { min, max } = EXERCISE_DOSAGE_LIMITS[field];
+  return Math.min(max, Math.max(min, Math.round(value)));
+};
+
+/**
+ * Dosis válida para un ejercicio: conserva si es por repeticiones o por
+ * segundos (lo define el catálogo) y ajusta cada valor a su rango
+ */
+export const normalizeDosage = (
+  exercise: ExerciseDosage,
+  dosage: Partial<ExerciseDosage>,
+): ExerciseDosage => {
+  const sets = clamp(dosage.sets ?? exercise.sets, 'sets');
+  return exercise.holdSeconds !== undefined
+    ? {
+        sets,
+        holdSeconds: clamp(
+          dosage.holdSeconds ?? exercise.holdSeconds,
+          'holdSeconds',
+        ),
+      }
+    : { sets, reps: clamp(dosage.reps ?? exercise.reps ?? 1, 'reps') };
+};
+
+/** Dosis como texto: "3 series × 12 repeticiones", "3 series × 30 s" */
+export const formatDosage = (dosage: ExerciseDosage, locale: Locale): string =>
+  dosage.holdSeconds !== undefined
+    ? translate(locale, 'exercises.dosageHold', {
+        sets: dosage.sets,
+        seconds: dosage.holdSeconds,
+      })
+    : translate(locale, 'exercises.dosageReps', {
+        sets: dosage.sets,
+        reps: dosage.reps ?? 1,
+      });
+
+const trimText = (value: string | null | undefined, limit: number) =>
+  value?.trim().slice(0, limit) || undefined;
+
+/** Fragmento de la URL de un programa, sin "#" */
+export const serializeExerciseProgram = (program: ExerciseProgram): string => {
+  const items = program.exercises.map(({ id, sets, reps, holdSeconds }) =>
+    holdSeconds !== undefined
+      ? `${id}:${sets}x${holdSeconds}s`
+      : `${id}:${sets}x${reps}`,
+  );
+  const params = [`e=${items.join(',')}`];
+  const patient = trimText(program.patient, PROGRAM_TEXT_LIMITS.patient);
+  const notes = trimText(program.notes, PROGRAM_TEXT_LIMITS.notes);
+  if (patient) params.push(`p=${encodeURIComponent(patient)}`);
+  if (notes) params.push(`n=${encodeURIComponent(notes)}`);
+  return params.join('&');
+};
+
+/**
+ * Programa de un fragmento de URL ("#e=...&p=..."). Tolera enlaces viejos o
+ * editados a mano: omite ids que ya no existen, repetidos o mal formados,
+ * ajusta las dosis a su rango y se queda con los primeros
+ * `MAX_PROGRAM_EXERCISES`.
+ */
+export const parseExerciseProgram = (
+  hash: string,
+  catalog: CatalogExercise[],
+): ExerciseProgram => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const byId = new Map(catalog.map((exercise) => [exercise.id, exercise]));
+  const seen = new Set<string>();
+  const exercises: ProgramExercise[] = [];
+
+  for (const item of (params.get('e') ?? '').split(',')) {
+    const match = item.match(/^([a-z0-9-]+)(?::(\d+)x(\d+)(s?))?$/);
+    const exercise = match && byId.get(match[1]);
+    if (!match || !exercise || seen.has(exercise.id)) continue;
+    seen.add(exercise.id);
+    const [, , sets, amount, seconds] = match;
+    const dosage: Partial<ExerciseDosage> =
+      sets === undefined
+        ? {}
+        : {
+            sets: Number(sets),
+            [seconds ? 'holdSeconds' : 'reps']: Number(amount),
+          };
+    exercises.push({ id: exercise.id, ...normalizeDosage(exercise, dosage) });
+  }
+
+  return {
+    exercises: exercises.slice(0, MAX_PROGRAM_EXERCISES),
+    patient: trimText(params.get('p'), PROGRAM_TEXT_LIMITS.patient),
+    notes: trimText(params.get('n'), PROGRAM_TEXT_LIMITS.notes),
+  };
+};
+
+/** Si la ruta (con o sin prefijo de idioma) es del catálogo o de un programa */
+export const isExerciseProgramPath = (pathname: string): boolean => {
+  const path = stripLocalePrefix(pathname.replace(/(.)\/$/, '$1'));
+  return path === EXERCISES_PATH || path === EXERCISE_PROGRAM_PATH;
+};
+
+/**
+ * URL (absoluta o ruta) sin el fragmento si es del catálogo o de un programa,
+ * para la analítica y Sentry: "/en/ejercicios/programa#e=...&p=Ana" →
+ * "/en/ejercicios/programa". Las demás URLs quedan igual.
+ */
+export const redactExerciseProgramUrl = (url: string): string => {
+  const hashIndex = url.indexOf('#');
+  if (hashIndex === -1) return url;
+  const withoutHash = url.slice(0, hashIndex);
+  const { pathname } = new URL(withoutHash, 'http://localhost');
+  return isExerciseProgramPath(pathname) ? withoutHash : url;
+};
@@ -0,0 +1,225 @@
+/**
+ * Experimentos A/B
+ *
+ * Cada experimento declara sus variantes con un peso; `control` es siempre la
+ * versión actual y la que se prerenderiza. La asignación es determinista: un
+ * hash del id de visitante y del experimento, así que el visitante ve la misma
+ * variante en cada visita sin guardar nada más. El id vive en sessionStorage
+ * y pasa a localStorage solo con consentimiento de analítica (se borra de ahí
+ * si se retira).
+ *
+ * - Uso en componentes: `const variant = useExperiment('hero-headline');`
+ *   (hooks/use-experiment.tsx). Devuelve `control` en el prerender y en el
+ *   primer render del cliente, y la variante asignada después de hidratar.
+ * - La primera vez por sesión que se muestra una variante se envía
+ *   `experiment_exposure` (GA4: `experience_impression`), para comparar las
+ *   conversiones por variante. Las exposiciones previas al consentimiento
+ *   quedan en memoria y se envían al aceptar.
+ * - QA: `?experiment=hero-headline:benefit` fuerza una variante en la pestaña.
+ * - Para pausar un experimento, `active: false` (todos ven control).
+ */
+import { track } from './analytics';
+import { hasConsent, subscribeToConsent } from './consent';
+
+interface ExperimentDefinition {
+  description: string;
+  active: boolean;
+  /** Variante → peso relativo; debe incluir `control` */
+  variants: { control: number } & Record<string, number>;
+}
+
+export const EXPERIMENTS = {
+  'hero-headline': {
+    description:
+      'Titular del hero: especialidad y ubicación (control) o beneficio para el paciente',
+    active: true,
+    variants: { control: 50, benefit: 50 },
+  },
+  'hero-cta': {
+    description:
+      'Texto del CTA principal del hero: "Reservar cita" o "Agenda tu valoración"',
+    active: true,
+    variants: { control: 50, assessment: 50 },
+  },
+  'pricing-layout': {
+    description:
+      'Orden de los planes en móvil: el de la configuración o el más popular primero',
+    active: true,
+    variants: { control: 50, 'popular-first': 50 },
+  },
+} satisfies Record<string, ExperimentDefinition>;
+
+export type ExperimentId = keyof typeof EXPERIMENTS;
+
+export type ExperimentVariant<E extends ExperimentId> = Extract<
+  keyof (typeof EXPERIMENTS)[E]['variants'],
+  string
+>;
+
+const VISITOR_ID_STORAGE_KEY = 'experiment_visitor_id';
+const OVERRIDES_STORAGE_KEY = 'experiment_overrides';
+const EXPOSURES_STORAGE_KEY = 'experiment_exposures';
+const OVERRIDE_QUERY_PARAM = 'experiment';
+
+const createVisitorId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Id sin almacenamiento disponible (modo privado estricto): solo esta carga */
+let memoryVisitorId: string | null = null;
+/** Exposiciones mostradas antes del consentimiento de analítica */
+const pendingExposures = new Map<ExperimentId, string>();
+let watchingConsent = false;
+
+/** Copia el id de la sesión a localStorage si hay consentimiento */
+const persistVisitorId = (visitorId: string) => {
+  if (!hasConsent('analytics')) return;
+  try {
+    localStorage.setItem(VISITOR_ID_STORAGE_KEY, visitorId);
+  } catch (error) {
+    console.error('Experiments: Error storing visitor id:', error);
+  }
+};
+
+/** Id del visitante para la asignación; se crea la primera vez */
+export const getVisitorId = (): string => {
+  watchConsent();
+  try {
+    const visitorId =
+      localStorage.getItem(VISITOR_ID_STORAGE_KEY) ??
+      sessionStorage.getItem(VISITOR_ID_STORAGE_KEY) ??
+      memoryVisitorId ??
+      createVisitorId();
+    sessionStorage.setItem(VISITOR_ID_STORAGE_KEY, visitorId);
+    persistVisitorId(visitorId);
+    return visitorId;
+  } catch {
+    memoryVisitorId ??= createVisitorId();
+    return memoryVisitorId;
+  }
+};
+
+/** Hash FNV-1a de 32 bits, normalizado a [0, 1) */
+const hashToUnit = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 2 ** 32;
+};
+
+/**
+ * Variante que corresponde a un visitante (determinista: mismo id, misma
+ * variante). Los pesos no necesitan sumar 100.
+ */
+export const assignVariant = <E extends ExperimentId>(
+  experimentId: E,
+  visitorId: string,
+): ExperimentVariant<E> => {
+  const entries = Object.entries(EXPERIMENTS[experimentId].variants);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let point = hashToUnit(`${visitorId}:${experimentId}`) * total;
+  for (const [variant, weight] of entries) {
+    if (point < weight) return variant as ExperimentVariant<E>;
+    point -= weight;
+  }
+  return 'control' as ExperimentVariant<E>;
+};
+
+const readOverrides = (): Record<string, string> => {
+  try {
+    const stored = JSON.parse(
+      sessionStorage.getItem(OVERRIDES_STORAGE_KEY) ?? '{}',
+    ) as Record<string, string>;
+    const param = new URLSearchParams(window.location.search).get(
+      OVERRIDE_QUERY_PARAM,
+    );
+    if (param) {
+      const [experimentId, variant] = param.split(':');
+      if (experimentId && variant) {
+        stored[experimentId] = variant;
+        sessionStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(stored));
+      }
+    }
+    return stored;
+  } catch {
+    return {};
+  }
+};
+
+/** Variante del visitante actual (control en el servidor o si está pausado) */
+export const getExperimentVariant = <E extends ExperimentId>(
+  experimentId: E,
+): ExperimentVariant<E> => {
+  const experiment = EXPERIMENTS[experimentId];
+  if (typeof window === 'undefined') return 'control' as ExperimentVariant<E>;
+
+  const override = readOverrides()[experimentId];
+  if (override && override in experiment.variants) {
+    return override as ExperimentVariant<E>;
+  }
+  if (!experiment.active) return 'control' as ExperimentVariant<E>;
+  return assignVariant(experimentId, getVisitorId());
+};
+
+const sendExposure = (experimentId: ExperimentId, variant: string) => {
+  try {
+    const exposures = JSON.parse(
+      sessionStorage.getItem(EXPOSURES_STORAGE_KEY) ?? '{}',
+    ) as Record<string, string>;
+    if (exposures[experimentId] === variant) return;
+    exposures[experimentId] = variant;
+    sessionStorage.setItem(EXPOSURES_STORAGE_KEY, JSON.stringify(exposures));
+  } catch {
+    // Sin sessionStorage se envía en cada montaje
+  }
+  track('experiment_exposure', {
+    experiment_id: experimentId,
+    variant_id: variant,
+  });
+};
+
+/**
+ * Al aceptar: guarda el id en localStorage y envía las exposiciones
+ * pendientes. Al retirar el consentimiento se borra el id persistente (el de
+ * la sesión sigue, para no cambiar de variante a mitad de la visita).
+ */
+const watchConsent = () => {
+  if (watchingConsent) return;
+  watchingConsent = true;
+
+  subscribeToConsent((state) => {
+    if (!state?.choices.analytics) {
+      try {
+        localStorage.removeItem(VISITOR_ID_STORAGE_KEY);
+      } catch {
+        // Sin localStorage no hay nada que borrar
+      }
+      return;
+    }
+    getVisitorId();
+    for (const [experimentId, variant] of pendingExposures) {
+      sendExposure(experimentId, variant);
+    }
+    pendingExposures.clear();
+  });
+};
+
+/**
+ * Envía `experiment_exposure` una vez por sesión y experimento; sin
+ * consentimiento de analítica la guarda en memoria hasta que se acepte
+ */
+export const trackExperimentExposure = (
+  experimentId: ExperimentId,
+  variant: string,
+) => {
+  if (!EXPERIMENTS[experimentId].active) return;
+  if (!hasConsent('analytics')) {
+    watchConsent();
+    pendingExposures.set(experimentId, variant);
+    return;
+  }
+  sendExposure(experimentId, variant);
+};
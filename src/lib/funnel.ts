@@ -0,0 +1,239 @@
+/**
+ * Embudo de conversión: de la entrada al sitio a la reserva o el contacto
+ *
+ * Pasos (en orden, `FUNNEL_STEP_IDS` en lib/analytics-events.ts):
+ * 1. landing: primera página de la sesión
+ * 2. services: sección de servicios en pantalla (useSectionTracking) o una
+ *    landing de servicio (/servicios/:slug)
+ * 3. pricing: sección de precios en pantalla (useSectionTracking o
+ *    useSectionTimeTracking) o interacción con los precios
+ * 4. agenda: el widget de Doctoralia entra en pantalla
+ * 5. contact: clic en Doctoralia, WhatsApp o teléfono
+ *
+ * El embudo observa los eventos que ya despacha el sitio
+ * (`addDispatchInspector`), así que no requiere cambios en los componentes.
+ * Cada paso se registra una vez por sesión (sessionStorage) y se envía como
+ * `funnel_step` con su número y el tiempo desde el paso anterior; se permite
+ * saltar pasos. Al salir de la página (`pagehide`) sin llegar a contact se
+ * envía `funnel_drop_off` con el último paso y el motivo.
+ *
+ * Sin consentimiento de analítica no se escribe nada en sessionStorage: los
+ * pasos alcanzados quedan en memoria y se envían (con sus tiempos originales)
+ * cuando el visitante acepta.
+ */
+import { track } from './analytics';
+import { addDispatchInspector } from './analytics-dispatcher';
+import { FUNNEL_STEP_IDS, type AnalyticsEnvelope } from './analytics-events';
+import { hasConsent, subscribeToConsent } from './consent';
+
+export type FunnelStep = (typeof FUNNEL_STEP_IDS)[number];
+
+type ContactMethod = 'doctoralia' | 'whatsapp' | 'phone';
+
+interface PendingStep {
+  step: FunnelStep;
+  at: number;
+  contactMethod?: ContactMethod;
+}
+
+interface FunnelState {
+  /** Timestamp (ms) en que se alcanzó cada paso */
+  reached: Partial<Record<FunnelStep, number>>;
+  /** Último paso con drop-off enviado, para no repetirlo en cada recarga */
+  dropOffReported?: FunnelStep;
+}
+
+const FUNNEL_STORAGE_KEY = 'funnel_state';
+const FINAL_STEP: FunnelStep = 'contact';
+/** Menos que esto solo con la entrada cuenta como rebote */
+const BOUNCE_MS = 10_000;
+/** Sin interacción durante este tiempo antes de salir: motivo idle */
+const IDLE_MS = 60_000;
+
+let initialized = false;
+let lastInteraction = Date.now();
+/** Pasos alcanzados antes del consentimiento, en orden */
+let pendingSteps: PendingStep[] = [];
+
+const readState = (): FunnelState => {
+  try {
+    const raw = sessionStorage.getItem(FUNNEL_STORAGE_KEY);
+    if (raw) return JSON.parse(raw) as FunnelState;
+  } catch (error) {
+    console.error('Funnel: Error reading state:', error);
+  }
+  return { reached: {} };
+};
+
+const writeState = (state: FunnelState) => {
+  try {
+    sessionStorage.setItem(FUNNEL_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Funnel: Error storing state:', error);
+  }
+};
+
+const stepNumber = (step: FunnelStep) => FUNNEL_STEP_IDS.indexOf(step) + 1;
+
+/** Último paso alcanzado (el más reciente) */
+const lastReached = (state: FunnelState) => {
+  let last: { step: FunnelStep; at: number } | null = null;
+  for (const step of FUNNEL_STEP_IDS) {
+    const at = state.reached[step];
+    if (at !== undefined && (!last || at >= last.at)) last = { step, at };
+  }
+  return last;
+};
+
+const seconds = (ms: number) => Math.max(0, Math.round(ms / 1000));
+
+/** Registra el paso en la sesión y envía `funnel_step` */
+const sendStep = (state: FunnelState, pending: PendingStep) => {
+  const { step, at, contactMethod } = pending;
+  const previous = lastReached(state);
+  const landingAt = state.reached.landing ?? at;
+  state.reached[step] = at;
+  writeState(state);
+
+  track('funnel_step', {
+    step_name: step,
+    step_number: stepNumber(step),
+    previous_step: previous?.step,
+    seconds_since_previous: previous ? seconds(at - previous.at) : 0,
+    seconds_since_landing: seconds(at - landingAt),
+    ...(contactMethod && { contact_method: contactMethod }),
+  });
+};
+
+/** Envía los pasos alcanzados mientras faltaba el consentimiento */
+const flushPendingSteps = () => {
+  if (pendingSteps.length === 0) return;
+  const steps = pendingSteps;
+  pendingSteps = [];
+  const state = readState();
+  for (const pending of steps) {
+    if (state.reached[pending.step] === undefined) sendStep(state, pending);
+  }
+};
+
+/**
+ * Marca un paso como alcanzado y envía `funnel_step` (una vez por sesión).
+ * Los pasos se detectan solos; esto sirve para casos que no pasan por un evento.
+ */
+export const reachFunnelStep = (
+  step: FunnelStep,
+  contactMethod?: ContactMethod,
+) => {
+  if (typeof window === 'undefined') return;
+  const pending: PendingStep = { step, at: Date.now(), contactMethod };
+
+  if (!hasConsent('analytics')) {
+    if (!pendingSteps.some((item) => item.step === step)) {
+      pendingSteps.push(pending);
+    }
+    return;
+  }
+
+  flushPendingSteps();
+  const state = readState();
+  if (state.reached[step] === undefined) sendStep(state, pending);
+};
+
+const SERVICE_PATH = /^(\/[a-z]{2})?\/servicios\/[^/]+/;
+
+/** Paso del embudo que representa un evento despachado, si alguno */
+const stepForEvent = (
+  event: AnalyticsEnvelope,
+): { step: FunnelStep; contactMethod?: ContactMethod } | null => {
+  const { params } = event;
+  switch (event.name) {
+    case 'page_view':
+      return SERVICE_PATH.test(event.page.path) ? { step: 'services' } : null;
+    case 'section_view':
+      if (params.section_name === 'Services Section') {
+        return { step: 'services' };
+      }
+      return params.section_name === 'Pricing Section'
+        ? { step: 'pricing' }
+        : null;
+    case 'time_on_section':
+      return params.section_name === 'Precios' ? { step: 'pricing' } : null;
+    case 'service_interest':
+    case 'pricing_tab_change':
+      return { step: 'pricing' };
+    case 'agenda_view':
+      return { step: 'agenda' };
+    case 'external_link_click':
+      return String(params.link_url).includes('doctoralia')
+        ? { step: 'contact', contactMethod: 'doctoralia' }
+        : null;
+    case 'whatsapp_click':
+      return { step: 'contact', contactMethod: 'whatsapp' };
+    case 'phone_click':
+      return { step: 'contact', contactMethod: 'phone' };
+    default:
+      return null;
+  }
+};
+
+const handlePageExit = () => {
+  if (!hasConsent('analytics')) return;
+  const state = readState();
+  const last = lastReached(state);
+  if (!last || state.reached[FINAL_STEP] !== undefined) return;
+  if (state.dropOffReported === last.step) return;
+
+  const now = Date.now();
+  const completed = FUNNEL_STEP_IDS.filter(
+    (step) => state.reached[step] !== undefined,
+  ).length;
+  const reason =
+    last.step === 'landing' && now - last.at < BOUNCE_MS
+      ? 'bounce'
+      : now - lastInteraction >= IDLE_MS
+        ? 'idle'
+        : 'exit';
+
+  state.dropOffReported = last.step;
+  writeState(state);
+
+  track('funnel_drop_off', {
+    last_step: last.step,
+    last_step_number: stepNumber(last.step),
+    reason,
+    seconds_since_last_step: seconds(now - last.at),
+    steps_completed: completed,
+  });
+};
+
+/**
+ * Empieza a registrar el embudo: marca la entrada (si es la primera página de
+ * la sesión), observa los eventos despachados, la salida de la página y el
+ * consentimiento (para enviar los pasos pendientes).
+ * Se llama una vez desde main.tsx, después del page view inicial.
+ */
+export const initFunnel = () => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  reachFunnelStep('landing');
+  if (SERVICE_PATH.test(window.location.pathname)) reachFunnelStep('services');
+
+  addDispatchInspector((inspection) => {
+    if (inspection.type !== 'dispatch') return;
+    const match = stepForEvent(inspection.event);
+    if (match) reachFunnelStep(match.step, match.contactMethod);
+  });
+
+  const markInteraction = () => {
+    lastInteraction = Date.now();
+  };
+  for (const type of ['pointerdown', 'keydown', 'scroll'] as const) {
+    window.addEventListener(type, markInteraction, { passive: true });
+  }
+  window.addEventListener('pagehide', handlePageExit);
+
+  subscribeToConsent((state) => {
+    if (state?.choices.analytics) flushPendingSteps();
+  });
+};
@@ -0,0 +1,190 @@
+/**
+ * Internacionalización del sitio (es-MX / en)
+ *
+ * El español de México es el idioma por defecto y vive en la raíz del sitio;
+ * cada idioma adicional se prerenderiza bajo su prefijo (/en, /en/servicios/atm).
+ * El idioma de una página se deduce siempre de su ruta, así el HTML estático y
+ * el del cliente coinciden al hidratar.
+ *
+ * Los textos de la interfaz viven en catálogos `src/locales/<locale>.json`.
+ * `es-MX.json` es la referencia: `findMissingTranslations` compara los demás
+ * contra él y `i18nValidationPlugin` (vite.config.ts) detiene el build si falta
+ * una clave, sobra alguna o no coinciden los `{placeholders}`.
+ *
+ * Uso en componentes: `const { t, localizePath } = useTranslation();`
+ *
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import esMX from '../locales/es-MX.json';
+import en from '../locales/en.json';
+
+export const LOCALES = ['es-MX', 'en'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'es-MX';
+
+interface LocaleInfo {
+  /** Prefijo de ruta ("" para el idioma por defecto) */
+  prefix: string;
+  /** Atributo lang de <html> */
+  htmlLang: string;
+  /** Código hreflang / BCP 47 (también para Intl) */
+  hreflang: string;
+  /** og:locale */
+  ogLocale: string;
+  /** Nombre del idioma en ese idioma (selector del Navbar) */
+  label: string;
+  /** Abreviatura del selector */
+  shortLabel: string;
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  'es-MX': {
+    prefix: '',
+    htmlLang: 'es',
+    hreflang: 'es-MX',
+    ogLocale: 'es_MX',
+    label: 'Español',
+    shortLabel: 'ES',
+  },
+  en: {
+    prefix: '/en',
+    htmlLang: 'en',
+    hreflang: 'en',
+    ogLocale: 'en_US',
+    label: 'English',
+    shortLabel: 'EN',
+  },
+};
+
+type Messages = typeof esMX;
+
+/** Claves "a.b.c" de las hojas de un catálogo */
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageValues = Record<string, string | number>;
+
+// Tipar los catálogos con la forma de es-MX hace que tsc también señale las
+// claves faltantes; las sobrantes solo las detecta findMissingTranslations
+const CATALOGS: Record<Locale, Messages> = { 'es-MX': esMX, en };
+
+type CatalogNode = string | { [key: string]: CatalogNode };
+
+const lookup = (catalog: Messages, key: string): string | undefined => {
+  let node: CatalogNode | undefined = catalog;
+  for (const segment of key.split('.')) {
+    if (typeof node !== 'object') return undefined;
+    node = node[segment];
+  }
+  return typeof node === 'string' ? node : undefined;
+};
+
+/**
+ * Texto de `key` en `locale` con los `{placeholders}` reemplazados.
+ * Si faltara en el catálogo (el build lo impide) cae al español.
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  values?: MessageValues,
+): string => {
+  const message =
+    lookup(CATALOGS[locale], key) ?? lookup(CATALOGS[DEFAULT_LOCALE], key);
+  if (message === undefined) return key;
+  if (!values) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  );
+};
+
+/** Idioma de una ruta: "/en/servicios/atm" → "en" */
+export const getLocaleFromPath = (pathname: string): Locale =>
+  LOCALES.find((locale) => {
+    const { prefix } = LOCALE_INFO[locale];
+    return (
+      prefix !== '' &&
+      (pathname === prefix || pathname.startsWith(`${prefix}/`))
+    );
+  }) ?? DEFAULT_LOCALE;
+
+/** Ruta sin el prefijo de idioma: "/en/servicios/atm" → "/servicios/atm" */
+export const stripLocalePrefix = (pathname: string): string => {
+  const { prefix } = LOCALE_INFO[getLocaleFromPath(pathname)];
+  return pathname.slice(prefix.length) || '/';
+};
+
+/**
+ * Ruta de la versión en `locale` de una ruta del idioma por defecto:
+ * localizePath('/servicios/atm', 'en') → "/en/servicios/atm",
+ * localizePath('/#precios', 'en') → "/en#precios"
+ */
+export const localizePath = (path: string, locale: Locale): string => {
+  const { prefix } = LOCALE_INFO[locale];
+  if (!prefix) return path;
+  const [pathname, hash = ''] = path.split('#');
+  const localized =
+    pathname === '/' || pathname === '' ? prefix : `${prefix}${pathname}`;
+  return hash ? `${localized}#${hash}` : localized;
+};
+
+const collectLeaves = (
+  node: CatalogNode,
+  prefix = '',
+  leaves = new Map<string, string>(),
+) => {
+  if (typeof node === 'string') {
+    leaves.set(prefix, node);
+  } else {
+    for (const [key, child] of Object.entries(node)) {
+      collectLeaves(child, prefix ? `${prefix}.${key}` : key, leaves);
+    }
+  }
+  return leaves;
+};
+
+const placeholders = (message: string) =>
+  [...message.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+
+/**
+ * Compara cada catálogo con es-MX. Devuelve una línea por problema
+ * (mismo formato que los errores de contenido); vacío si todo está traducido.
+ */
+export const findMissingTranslations = (
+  catalogs: Record<string, unknown> = CATALOGS,
+): string[] => {
+  const reference = collectLeaves(catalogs[DEFAULT_LOCALE] as CatalogNode);
+  return Object.entries(catalogs)
+    .filter(([locale]) => locale !== DEFAULT_LOCALE)
+    .flatMap(([locale, catalog]) => {
+      const file = `src/locales/${locale}.json`;
+      const leaves = collectLeaves(catalog as CatalogNode);
+      const problems: string[] = [];
+      for (const [key, message] of reference) {
+        const translated = leaves.get(key);
+        if (translated === undefined) {
+          problems.push(`  - ${file}: falta "${key}"`);
+        } else if (!translated.trim()) {
+          problems.push(`  - ${file}: "${key}" está vacío`);
+        } else if (
+          placeholders(translated).join() !== placeholders(message).join()
+        ) {
+          problems.push(
+            `  - ${file}: "${key}" usa {${placeholders(translated).join('}, {')}}, se esperaba {${placeholders(message).join('}, {')}}`,
+          );
+        }
+      }
+      for (const key of leaves.keys()) {
+        if (!reference.has(key)) {
+          problems.push(`  - ${file}: "${key}" no existe en es-MX.json`);
+        }
+      }
+      return problems;
+    });
+};
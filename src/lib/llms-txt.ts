@@ -0,0 +1,105 @@
+/**
+ * Genera `llms.txt` (guía para crawlers de LLMs) a partir de `siteConfig`,
+ * la capa de contenido y las direcciones de los consultorios, para que nunca
+ * quede desactualizado respecto del sitio.
+ *
+ * Lo usa `llmsTxtPlugin` (vite.config.ts): se sirve en dev y se escribe en
+ * dist/ al hacer build. Solo imports relativos (se carga desde vite.config.ts).
+ */
+import { parseContent } from '../content/schema';
+import plansData from '../content/plans.json';
+import serviceCategoriesData from '../content/service-categories.json';
+import specialtiesData from '../content/specialties.json';
+import { DOCTORALIA_ADDRESSES } from './doctoralia-addresses';
+import { formatWeeklySchedule } from './opening-hours';
+import { absoluteUrl, siteConfig } from './site-config';
+
+export const renderLlmsTxt = (): string => {
+  const plans = parseContent('plans.json', plansData);
+  const serviceCategories = parseContent(
+    'service-categories.json',
+    serviceCategoriesData,
+  );
+  const specialties = parseContent('specialties.json', specialtiesData);
+  const physicalAddresses = DOCTORALIA_ADDRESSES.filter(
+    (addr) => !addr.isOnline,
+  );
+  const schedules = [
+    ...new Set(
+      physicalAddresses.map((addr) => formatWeeklySchedule(addr.schedule)),
+    ),
+  ];
+
+  return [
+    '# llms.txt - Guía para LLM Crawlers',
+    '# Este archivo ayuda a los crawlers de Large Language Models a entender mejor el contenido del sitio',
+    '# Generado en el build desde src/content/site.json (no editar a mano)',
+    '',
+    '# Información del sitio',
+    `Sitio: ${siteConfig.title}`,
+    `URL: ${siteConfig.url}`,
+    `Descripción: Sitio web profesional de ${siteConfig.professional.name}. ${siteConfig.description}`,
+    '',
+    '# Información del profesional',
+    `Profesional: ${siteConfig.professional.name}`,
+    `Cédula Profesional: ${siteConfig.professional.license}`,
+    'Formación:',
+    ...siteConfig.professional.credentials.map((item) => `  - ${item}`),
+    '',
+    '# Ubicaciones',
+    'Consultorios:',
+    ...[
+      ...physicalAddresses,
+      ...DOCTORALIA_ADDRESSES.filter((addr) => addr.isOnline),
+    ].map(
+      (addr) =>
+        `  - ${addr.name}: ${addr.address} (${absoluteUrl(`/consultorio/${addr.slug}`)})`,
+    ),
+    '',
+    '# Contacto',
+    `Teléfono: ${siteConfig.phoneDisplay}`,
+    `Email: ${siteConfig.email}`,
+    `WhatsApp: ${siteConfig.whatsappUrl}`,
+    `Reservas en línea: ${siteConfig.doctoraliaUrl}`,
+    '',
+    '# Servicios principales',
+    ...specialties.map(
+      (specialty) =>
+        `- ${specialty.title}: ${absoluteUrl(`/servicios/${specialty.slug}`)}`,
+    ),
+    '',
+    '# Precios',
+    ...plans.map(
+      (plan) =>
+        `- ${plan.name}: $${plan.price} MXN${plan.originalPrice ? ` (precio normal $${plan.originalPrice})` : ''}`,
+    ),
+    ...serviceCategories.flatMap((category) => [
+      '',
+      `## ${category.title}`,
+      ...category.services.map(
+        (service) => `- ${service.name}: $${service.price} MXN`,
+      ),
+    ]),
+    '',
+    '# Horarios',
+    ...schedules,
+    '',
+    '# Redes sociales',
+    `Instagram: ${siteConfig.social.instagram}`,
+    `Facebook: ${siteConfig.social.facebook}`,
+    `Doctoralia: ${siteConfig.doctoraliaUrl}`,
+    '',
+    '# Páginas importantes',
+    `- Inicio: ${absoluteUrl('/')}`,
+    `- Aviso de Privacidad: ${absoluteUrl('/aviso-privacidad')}`,
+    `- Política de Cancelación: ${absoluteUrl('/politica-cancelacion')}`,
+    `- Términos y Condiciones: ${absoluteUrl('/terminos-condiciones')}`,
+    '',
+    '# Nota técnica',
+    'Cada página se prerenderiza en el build (SSG): el HTML ya incluye el contenido principal.',
+    '',
+    '# Sitemap',
+    `Sitemap: ${absoluteUrl('/sitemap.xml')}`,
+    '',
+  ].join('\n');
+};
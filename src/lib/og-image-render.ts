@@ -0,0 +1,235 @@
+/**
+ * Dibuja las tarjetas de og-images.ts como PNG, sin navegador: satori
+ * convierte la plantilla (elementos de React, sin JSX para que la cargue
+ * vite.config.ts) a SVG y resvg lo rasteriza.
+ *
+ * Las fuentes salen de @fontsource en .woff (satori no lee woff2) y el logo de
+ * public/logo-isotipo.svg. Solo para el build: lee archivos del disco y usa
+ * el módulo nativo de resvg.
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Resvg } from '@resvg/resvg-js';
+import { createElement as h, type CSSProperties } from 'react';
+import satori, { type SatoriOptions } from 'satori';
+import {
+  OG_IMAGE_SIZES,
+  type OGImageCard,
+  type OGImageFormat,
+} from './og-images';
+import { siteConfig } from './site-config';
+
+// Colores de la marca (--primary-light, --primary y --accent de index.css)
+const COLORS = {
+  primaryLight: '#29a6db',
+  primary: '#1776b5',
+  accentLight: '#d4ecbd',
+  white: '#ffffff',
+};
+
+const readFont = (family: string, file: string) =>
+  readFileSync(
+    join(process.cwd(), 'node_modules', '@fontsource', family, 'files', file),
+  );
+
+let fonts: SatoriOptions['fonts'] | undefined;
+let logo: string | undefined;
+
+const loadFonts = (): SatoriOptions['fonts'] =>
+  (fonts ??= [
+    {
+      name: 'Poppins',
+      data: readFont('poppins', 'poppins-latin-700-normal.woff'),
+      weight: 700,
+      style: 'normal',
+    },
+    {
+      name: 'Inter',
+      data: readFont('inter', 'inter-latin-400-normal.woff'),
+      weight: 400,
+      style: 'normal',
+    },
+    {
+      name: 'Inter',
+      data: readFont('inter', 'inter-latin-500-normal.woff'),
+      weight: 500,
+      style: 'normal',
+    },
+  ]);
+
+const loadLogo = () =>
+  (logo ??= `data:image/svg+xml;base64,${readFileSync(
+    join(process.cwd(), 'public', 'logo-isotipo.svg'),
+  ).toString('base64')}`);
+
+/** Medidas de la plantilla según el formato (la vertical tiene más aire) */
+const LAYOUT: Record<
+  OGImageFormat,
+  {
+    padding: number;
+    logo: number;
+    brand: number;
+    eyebrow: number;
+    title: number;
+    detail: number;
+  }
+> = {
+  horizontal: {
+    padding: 72,
+    logo: 88,
+    brand: 34,
+    eyebrow: 28,
+    title: 76,
+    detail: 28,
+  },
+  vertical: {
+    padding: 96,
+    logo: 120,
+    brand: 44,
+    eyebrow: 36,
+    title: 104,
+    detail: 34,
+  },
+};
+
+const row: CSSProperties = { display: 'flex', alignItems: 'center' };
+
+const template = (card: OGImageCard, format: OGImageFormat) => {
+  const size = LAYOUT[format];
+  // Los títulos largos bajan un escalón para caber en dos líneas
+  const titleSize =
+    card.title.length > 24 ? Math.round(size.title * 0.78) : size.title;
+
+  return h(
+    'div',
+    {
+      style: {
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        width: '100%',
+        height: '100%',
+        padding: size.padding,
+        backgroundImage: `linear-gradient(135deg, ${COLORS.primaryLight} 0%, ${COLORS.primary} 100%)`,
+        color: COLORS.white,
+        fontFamily: 'Inter',
+      },
+    },
+    h(
+      'div',
+      { style: { ...row, justifyContent: 'space-between' } },
+      h(
+        'div',
+        { style: { ...row, gap: size.logo / 4 } },
+        h(
+          'div',
+          {
+            style: {
+              ...row,
+              justifyContent: 'center',
+              width: size.logo,
+              height: size.logo,
+              borderRadius: size.logo / 4,
+              backgroundColor: COLORS.white,
+            },
+          },
+          h('img', {
+            src: loadLogo(),
+            width: size.logo * 0.8,
+            height: size.logo * 0.8,
+          }),
+        ),
+        h(
+          'div',
+          {
+            style: {
+              fontFamily: 'Poppins',
+              fontWeight: 700,
+              fontSize: size.brand,
+            },
+          },
+          siteConfig.name,
+        ),
+      ),
+      h(
+        'div',
+        { style: { fontSize: size.detail, opacity: 0.85 } },
+        new URL(siteConfig.url).host,
+      ),
+    ),
+    h(
+      'div',
+      { style: { display: 'flex', flexDirection: 'column' } },
+      h(
+        'div',
+        {
+          style: {
+            fontWeight: 500,
+            fontSize: size.eyebrow,
+            color: COLORS.accentLight,
+            textTransform: 'uppercase',
+            letterSpacing: 2,
+            marginBottom: size.eyebrow / 2,
+          },
+        },
+        card.eyebrow,
+      ),
+      h(
+        'div',
+        {
+          style: {
+            fontFamily: 'Poppins',
+            fontWeight: 700,
+            fontSize: titleSize,
+            lineHeight: 1.1,
+          },
+        },
+        card.title,
+      ),
+    ),
+    h(
+      'div',
+      {
+        style: {
+          display: 'flex',
+          flexDirection: format === 'vertical' ? 'column' : 'row',
+          flexWrap: 'wrap',
+          gap: size.detail / 2,
+        },
+      },
+      ...card.details.map((detail) =>
+        h(
+          'div',
+          {
+            key: detail,
+            style: {
+              display: 'flex',
+              padding: `${size.detail / 2.5}px ${size.detail / 1.5}px`,
+              borderRadius: size.detail,
+              backgroundColor: 'rgba(255, 255, 255, 0.16)',
+              fontWeight: 500,
+              fontSize: size.detail,
+            },
+          },
+          detail,
+        ),
+      ),
+    ),
+  );
+};
+
+/** PNG de la tarjeta en el formato pedido (1200×630 o 1080×1350) */
+export const renderOGImage = async (
+  card: OGImageCard,
+  format: OGImageFormat,
+): Promise<Buffer> => {
+  const { width, height } = OG_IMAGE_SIZES[format];
+  const svg = await satori(template(card, format), {
+    width,
+    height,
+    fonts: loadFonts(),
+  });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: width } })
+    .render()
+    .asPng();
+};
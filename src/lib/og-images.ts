@@ -0,0 +1,216 @@
+/**
+ * Imágenes Open Graph de cada ruta
+ *
+ * Cada página prerenderizada tiene su tarjeta (especialidad, precio,
+ * ubicación...) en dos formatos: horizontal 1200×630 (Facebook, X, LinkedIn)
+ * y vertical 1080×1350 (WhatsApp, Instagram, Pinterest). El build las dibuja
+ * en dist/og/ con `og-image-render.ts` y PageHead las referencia con las
+ * mismas URLs; las rutas sin tarjeta (404) usan las imágenes estáticas de
+ * public/.
+ *
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import { parseContent } from '../content/schema';
+import specialtiesData from '../content/specialties.json';
+import specialtiesEnData from '../content/en/specialties.json';
+import { parseBlogPath, type BlogPost } from './blog';
+import { DOCTORALIA_ADDRESSES, localizeAddress } from './doctoralia-addresses';
+import { EXERCISES_PATH } from './exercise-program';
+import {
+  getLocaleFromPath,
+  stripLocalePrefix,
+  translate,
+  type Locale,
+} from './i18n';
+import { absoluteUrl, siteConfig } from './site-config';
+import { LEGAL_PAGES } from './structured-data';
+
+export type OGImageFormat = 'horizontal' | 'vertical';
+
+export const OG_IMAGE_FORMATS: readonly OGImageFormat[] = [
+  'horizontal',
+  'vertical',
+];
+
+export const OG_IMAGE_SIZES: Record<
+  OGImageFormat,
+  { width: number; height: number }
+> = {
+  horizontal: { width: 1200, height: 630 }, // 1.91:1 estándar Open Graph
+  vertical: { width: 1080, height: 1350 }, // 4:5 de Instagram / WhatsApp
+};
+
+/** Imágenes de public/ para las rutas sin tarjeta propia */
+const STATIC_IMAGES: Record<OGImageFormat, string> = {
+  horizontal: siteConfig.ogImageUrl,
+  vertical: `${siteConfig.url}/og-image-v.png`,
+};
+
+const FORMAT_SUFFIX: Record<OGImageFormat, string> = {
+  horizontal: 'h',
+  vertical: 'v',
+};
+
+const specialties = {
+  'es-MX': parseContent('specialties.json', specialtiesData),
+  en: parseContent('en/specialties.json', specialtiesEnData),
+} satisfies Record<Locale, unknown>;
+
+/** Textos de la tarjeta, en el idioma de la ruta */
+export interface OGImageCard {
+  locale: Locale;
+  /** Línea corta sobre el título */
+  eyebrow: string;
+  title: string;
+  /** Datos destacados bajo el título (precio, ubicación, dirección...) */
+  details: string[];
+}
+
+/** Datos de la página que no se deducen de la ruta */
+export interface OGImageOptions {
+  /** Artículo de la ruta si es /blog/<slug> (sin él la ruta no tiene tarjeta) */
+  article?: BlogPost;
+}
+
+const normalizePath = (path: string) => path.replace(/\/+$/, '') || '/';
+
+/**
+ * Tarjeta de una ruta del sitio ("/", "/en/servicios/atm"...), o null si la
+ * ruta no es una página conocida (404)
+ */
+export const getOGImageCard = (
+  path: string,
+  options: OGImageOptions = {},
+): OGImageCard | null => {
+  const normalizedPath = normalizePath(path);
+  const locale = getLocaleFromPath(normalizedPath);
+  const basePath = stripLocalePrefix(normalizedPath);
+  const [, section, slug] = basePath.split('/');
+
+  if (basePath === '/') {
+    return {
+      locale,
+      eyebrow: translate(locale, 'hero.name'),
+      title: `${translate(locale, 'hero.titleLine1')} ${translate(locale, 'hero.titleLine2')}`,
+      details: [
+        translate(locale, 'hero.firstVisit'),
+        translate(locale, 'hero.badge'),
+      ],
+    };
+  }
+
+  if (section === 'servicios' && slug) {
+    const specialty = specialties[locale].find((item) => item.slug === slug);
+    if (!specialty) return null;
+    return {
+      locale,
+      eyebrow: translate(locale, 'services.eyebrow'),
+      title: specialty.title,
+      details: [
+        translate(locale, 'services.priceFrom', {
+          price: specialty.priceFrom,
+        }),
+        translate(locale, 'footer.locationsShort'),
+      ],
+    };
+  }
+
+  if (section === 'consultorio' && slug) {
+    const address = DOCTORALIA_ADDRESSES.find((item) => item.slug === slug);
+    if (!address) return null;
+    const localized = localizeAddress(address, locale);
+    return {
+      locale,
+      eyebrow: translate(locale, 'hero.name'),
+      title: localized.name,
+      details: [localized.address, translate(locale, 'hero.firstVisit')],
+    };
+  }
+
+  const blogPage = parseBlogPath(basePath);
+  if (blogPage?.type === 'index') {
+    return {
+      locale,
+      eyebrow: translate(locale, 'hero.name'),
+      title: translate(locale, 'blog.title'),
+      details: [translate(locale, 'blog.tagline')],
+    };
+  }
+  if (blogPage?.type === 'category') {
+    return {
+      locale,
+      eyebrow: translate(locale, 'blog.title'),
+      title: translate(locale, `blog.categories.${blogPage.category}`),
+      details: [translate(locale, 'blog.tagline')],
+    };
+  }
+  if (blogPage?.type === 'post') {
+    const { article } = options;
+    if (article?.slug !== blogPage.slug) return null;
+    return {
+      locale,
+      eyebrow: translate(locale, `blog.categories.${article.category}`),
+      title: article.title,
+      details: [
+        article.author,
+        translate(locale, 'blog.readingTime', {
+          minutes: article.readingTime,
+        }),
+      ],
+    };
+  }
+
+  if (basePath === EXERCISES_PATH) {
+    return {
+      locale,
+      eyebrow: translate(locale, 'hero.name'),
+      title: translate(locale, 'exercises.title'),
+      details: [translate(locale, 'exercises.tagline')],
+    };
+  }
+
+  const legalPage = LEGAL_PAGES[basePath];
+  if (legalPage) {
+    return {
+      locale,
+      eyebrow: translate(locale, 'hero.name'),
+      title: translate(locale, legalPage),
+      details: [],
+    };
+  }
+
+  return null;
+};
+
+/** Archivo de la imagen dentro de dist/: "og/servicios/atm-h.png" */
+export const getOGImageFile = (path: string, format: OGImageFormat): string => {
+  const normalizedPath = normalizePath(path);
+  const name = normalizedPath === '/' ? 'index' : normalizedPath.slice(1);
+  return `og/${name}-${FORMAT_SUFFIX[format]}.png`;
+};
+
+/** Ruta y formato de un archivo de getOGImageFile (null si no es uno) */
+export const parseOGImageFile = (
+  file: string,
+): { path: string; format: OGImageFormat } | null => {
+  const match = file.match(/^\/?og\/(.+)-([hv])\.png$/);
+  if (!match) return null;
+  const [, name, suffix] = match;
+  return {
+    path: name === 'index' ? '/' : `/${name}`,
+    format: suffix === FORMAT_SUFFIX.vertical ? 'vertical' : 'horizontal',
+  };
+};
+
+/**
+ * URL absoluta de la imagen Open Graph de una ruta (la estática de public/ si
+ * la ruta no tiene tarjeta)
+ */
+export const getOGImageUrl = (
+  path: string,
+  format: OGImageFormat = 'horizontal',
+  options: OGImageOptions = {},
+): string =>
+  getOGImageCard(path, options)
+    ? absoluteUrl(`/${getOGImageFile(path, format)}`)
+    : STATIC_IMAGES[format];
@@ -0,0 +1,344 @@
+/**
+ * Horarios de atención de los consultorios
+ *
+ * Cada dirección de `doctoralia-addresses.ts` declara un horario semanal y,
+ * opcionalmente, excepciones por fecha (días festivos, vacaciones, horario
+ * especial). Todo se evalúa en la zona horaria de la Ciudad de México, sin
+ * importar la zona del navegador del usuario.
+ *
+ * El mismo horario alimenta:
+ * - El estado "Abierto ahora / Abre mañana a las 9:00" (ver `useOpeningStatus`)
+ * - El texto del horario ("Lun - Vie: 9:00 - 19:00")
+ * - `openingHoursSpecification` en JSON-LD
+ *
+ * Los textos salen de los catálogos de i18n (`openingHours.*`, `weekdays.*`).
+ */
+import { DEFAULT_LOCALE, translate, type Locale } from './i18n';
+
+export const SCHEDULE_TIMEZONE = 'America/Mexico_City';
+
+export const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** Hora en formato 24h "HH:mm" (p. ej. "09:00", "19:00") */
+export type TimeOfDay = `${number}:${number}`;
+
+/** Fecha de calendario "YYYY-MM-DD" en hora de la Ciudad de México */
+export type CalendarDate = `${number}-${number}-${number}`;
+
+export interface TimeRange {
+  opens: TimeOfDay;
+  closes: TimeOfDay;
+}
+
+/** Rangos de atención por día; un arreglo vacío significa cerrado */
+export type WeeklySchedule = Record<Weekday, TimeRange[]>;
+
+export interface ScheduleException {
+  /** Día al que aplica la excepción */
+  date: CalendarDate;
+  /** Horario de ese día; vacío = cerrado */
+  ranges: TimeRange[];
+  /** Motivo, solo informativo (p. ej. "Navidad") */
+  label?: string;
+}
+
+export interface OpeningSchedule {
+  weekly: WeeklySchedule;
+  exceptions?: ScheduleException[];
+}
+
+export type OpeningStatus =
+  | {
+      isOpen: true;
+      /** Hora de cierre del rango actual */
+      closesAt: TimeOfDay;
+    }
+  | {
+      isOpen: false;
+      /** Próxima apertura dentro de las siguientes dos semanas (si existe) */
+      nextOpening?: {
+        /** 0 = hoy, 1 = mañana, ... */
+        daysFromToday: number;
+        weekday: Weekday;
+        opens: TimeOfDay;
+      };
+    };
+
+/** Lunes a viernes de 9:00 a 19:00 */
+export const WEEKDAY_SCHEDULE: WeeklySchedule = {
+  monday: [{ opens: '09:00', closes: '19:00' }],
+  tuesday: [{ opens: '09:00', closes: '19:00' }],
+  wednesday: [{ opens: '09:00', closes: '19:00' }],
+  thursday: [{ opens: '09:00', closes: '19:00' }],
+  friday: [{ opens: '09:00', closes: '19:00' }],
+  saturday: [],
+  sunday: [],
+};
+
+/**
+ * Días de descanso obligatorio (LFT art. 74) y cierres por vacaciones
+ * Actualizar cada año: las fechas que caen en fin de semana no hace falta listarlas
+ */
+export const MX_HOLIDAYS: ScheduleException[] = [
+  { date: '2026-11-16', ranges: [], label: 'Día de la Revolución' },
+  { date: '2026-12-25', ranges: [], label: 'Navidad' },
+  { date: '2027-01-01', ranges: [], label: 'Año Nuevo' },
+  { date: '2027-02-01', ranges: [], label: 'Día de la Constitución' },
+  { date: '2027-03-15', ranges: [], label: 'Natalicio de Benito Juárez' },
+  { date: '2027-03-25', ranges: [], label: 'Jueves Santo' },
+  { date: '2027-03-26', ranges: [], label: 'Viernes Santo' },
+  { date: '2027-09-16', ranges: [], label: 'Día de la Independencia' },
+];
+
+const SCHEMA_DAY_NAMES: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+// Cuántos días hacia adelante se busca la próxima apertura
+const LOOKAHEAD_DAYS = 14;
+
+const toMinutes = (time: TimeOfDay): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** "09:00" → "9:00" (formato usado en los textos del sitio) */
+export const formatTime = (time: TimeOfDay): string => time.replace(/^0/, '');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fecha, día de la semana y minuto del día de `now` en la Ciudad de México
+ */
+const getLocalParts = (now: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: SCHEDULE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: get('hour') * 60 + get('minute'),
+  };
+};
+
+/**
+ * Día de calendario desplazado `offset` días (aritmética en UTC para que el
+ * horario de verano del navegador no afecte el resultado)
+ */
+const shiftDate = (
+  { year, month, day }: { year: number; month: number; day: number },
+  offset: number,
+) => {
+  const date = new Date(Date.UTC(year, month - 1, day + offset));
+  // getUTCDay(): 0 = domingo
+  const weekday = WEEKDAYS[(date.getUTCDay() + 6) % 7];
+  const calendarDate = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return { weekday, calendarDate: calendarDate as CalendarDate };
+};
+
+/** Rangos de un día concreto, aplicando excepciones si las hay */
+const getRangesForDate = (
+  schedule: OpeningSchedule,
+  weekday: Weekday,
+  calendarDate: CalendarDate,
+): TimeRange[] => {
+  const exception = schedule.exceptions?.find(
+    (item) => item.date === calendarDate,
+  );
+  return exception ? exception.ranges : schedule.weekly[weekday];
+};
+
+/**
+ * Calcula si el consultorio está abierto en `now` y, si no, cuándo abre
+ */
+export const getOpeningStatus = (
+  schedule: OpeningSchedule,
+  now: Date = new Date(),
+): OpeningStatus => {
+  const local = getLocalParts(now);
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const { weekday, calendarDate } = shiftDate(local, offset);
+    const ranges = [...getRangesForDate(schedule, weekday, calendarDate)].sort(
+      (a, b) => toMinutes(a.opens) - toMinutes(b.opens),
+    );
+
+    for (const range of ranges) {
+      if (offset === 0) {
+        const opens = toMinutes(range.opens);
+        const closes = toMinutes(range.closes);
+        if (local.minutes >= opens && local.minutes < closes) {
+          return { isOpen: true, closesAt: range.closes };
+        }
+        if (local.minutes >= opens) continue;
+      }
+      return {
+        isOpen: false,
+        nextOpening: { daysFromToday: offset, weekday, opens: range.opens },
+      };
+    }
+  }
+
+  return { isOpen: false };
+};
+
+/**
+ * Combina los estados de varios consultorios: abierto si alguno lo está
+ * (cerrando con el último), si no, la próxima apertura más cercana
+ */
+export const combineOpeningStatuses = (
+  statuses: OpeningStatus[],
+): OpeningStatus => {
+  const open = statuses.filter((status) => status.isOpen);
+  if (open.length > 0) {
+    const closesAt = open
+      .map((status) => status.closesAt)
+      .sort((a, b) => toMinutes(b) - toMinutes(a))[0];
+    return { isOpen: true, closesAt };
+  }
+
+  const next = statuses
+    .flatMap((status) =>
+      !status.isOpen && status.nextOpening ? [status.nextOpening] : [],
+    )
+    .sort(
+      (a, b) =>
+        a.daysFromToday - b.daysFromToday ||
+        toMinutes(a.opens) - toMinutes(b.opens),
+    )[0];
+  return next ? { isOpen: false, nextOpening: next } : { isOpen: false };
+};
+
+/**
+ * Texto corto del estado:
+ *   "Abierto ahora · Cierra a las 19:00"
+ *   "Cerrado · Abre hoy a las 9:00" / "Abre mañana a las 9:00" / "Abre el lunes a las 9:00"
+ */
+export const formatOpeningStatus = (
+  status: OpeningStatus,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  if (status.isOpen) {
+    return translate(locale, 'openingHours.openNow', {
+      time: formatTime(status.closesAt),
+    });
+  }
+  if (!status.nextOpening) {
+    return translate(locale, 'openingHours.closedTemporarily');
+  }
+
+  const { daysFromToday, weekday, opens } = status.nextOpening;
+  const time = formatTime(opens);
+  if (daysFromToday === 0) {
+    return translate(locale, 'openingHours.opensToday', { time });
+  }
+  if (daysFromToday === 1) {
+    return translate(locale, 'openingHours.opensTomorrow', { time });
+  }
+  return translate(locale, 'openingHours.opensOn', {
+    weekday: translate(locale, `weekdays.long.${weekday}`),
+    time,
+  });
+};
+
+const rangesKey = (ranges: TimeRange[]) =>
+  ranges.map((range) => `${range.opens}-${range.closes}`).join(',');
+
+/**
+ * Agrupa días consecutivos con el mismo horario (lunes a domingo)
+ */
+const groupWeekdays = (weekly: WeeklySchedule) => {
+  const groups: { days: Weekday[]; ranges: TimeRange[] }[] = [];
+  for (const day of WEEKDAYS) {
+    const ranges = weekly[day];
+    if (ranges.length === 0) continue;
+    const last = groups[groups.length - 1];
+    const previousDay = WEEKDAYS[WEEKDAYS.indexOf(day) - 1];
+    if (
+      last &&
+      last.days[last.days.length - 1] === previousDay &&
+      rangesKey(last.ranges) === rangesKey(ranges)
+    ) {
+      last.days.push(day);
+    } else {
+      groups.push({ days: [day], ranges });
+    }
+  }
+  return groups;
+};
+
+/**
+ * Horario semanal legible: "Lun - Vie: 9:00 - 19:00"
+ * (varios grupos se separan con " | ")
+ */
+export const formatWeeklySchedule = (
+  schedule: OpeningSchedule,
+  locale: Locale = DEFAULT_LOCALE,
+): string =>
+  groupWeekdays(schedule.weekly)
+    .map(({ days, ranges }) => {
+      const first = translate(locale, `weekdays.short.${days[0]}`);
+      const last = translate(locale, `weekdays.short.${days[days.length - 1]}`);
+      const dayLabel = days.length > 1 ? `${first} - ${last}` : first;
+      const hours = ranges
+        .map(
+          (range) => `${formatTime(range.opens)} - ${formatTime(range.closes)}`,
+        )
+        .join(', ');
+      return `${dayLabel}: ${hours}`;
+    })
+    .join(' | ');
+
+/**
+ * `openingHoursSpecification` de schema.org: un bloque por rango semanal
+ * más uno por excepción (con validFrom/validThrough). Los días cerrados por
+ * excepción se expresan con opens = closes = "00:00", como indica Google.
+ */
+export const toOpeningHoursSpecification = (schedule: OpeningSchedule) => [
+  ...groupWeekdays(schedule.weekly).flatMap(({ days, ranges }) =>
+    ranges.map((range) => ({
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: days.map((day) => SCHEMA_DAY_NAMES[day]),
+      opens: range.opens,
+      closes: range.closes,
+    })),
+  ),
+  ...(schedule.exceptions ?? []).flatMap((exception) =>
+    (exception.ranges.length > 0
+      ? exception.ranges
+      : [{ opens: '00:00', closes: '00:00' }]
+    ).map((range) => ({
+      '@type': 'OpeningHoursSpecification',
+      validFrom: exception.date,
+      validThrough: exception.date,
+      opens: range.opens,
+      closes: range.closes,
+    })),
+  ),
+];
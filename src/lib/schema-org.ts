@@ -0,0 +1,333 @@
+/**
+ * Vocabulario de schema.org que usa el sitio y validación del JSON-LD
+ *
+ * No es el vocabulario completo: solo los tipos y propiedades que emite
+ * `structured-data.ts`, con su herencia (Physician → MedicalBusiness →
+ * LocalBusiness → Organization...). Un tipo o propiedad que no esté aquí se
+ * reporta como error, así que al agregar datos nuevos al grafo hay que
+ * declararlos (comprobando antes el nombre exacto en https://schema.org).
+ *
+ * Lo usa vite.config.ts: cada página prerenderizada se valida en el build y
+ * cualquier problema lo detiene. Solo imports relativos (se carga desde
+ * vite.config.ts).
+ */
+
+export type JsonLdValue =
+  | string
+  | number
+  | boolean
+  | JsonLdNode
+  | JsonLdValue[];
+
+export interface JsonLdNode {
+  [property: string]: JsonLdValue;
+}
+
+export interface JsonLdGraph {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+interface SchemaOrgType {
+  /** Tipos padre: se heredan sus propiedades y requeridos */
+  extends?: readonly string[];
+  properties: readonly string[];
+  /** Propiedades obligatorias (las que exige Google para el rich result) */
+  required?: readonly string[];
+}
+
+export const SCHEMA_ORG_TYPES: Record<string, SchemaOrgType> = {
+  Thing: {
+    properties: [
+      'name',
+      'alternateName',
+      'description',
+      'url',
+      'image',
+      'identifier',
+      'sameAs',
+      'mainEntityOfPage',
+    ],
+  },
+  CreativeWork: {
+    extends: ['Thing'],
+    properties: [
+      'inLanguage',
+      'isPartOf',
+      'publisher',
+      'author',
+      'about',
+      'datePublished',
+      'dateModified',
+      'keywords',
+      'timeRequired',
+    ],
+  },
+  WebSite: {
+    extends: ['CreativeWork'],
+    properties: [],
+    required: ['name', 'url'],
+  },
+  WebPage: {
+    extends: ['CreativeWork'],
+    properties: ['mainEntity', 'breadcrumb', 'lastReviewed', 'reviewedBy'],
+  },
+  MedicalWebPage: { extends: ['WebPage'], properties: [] },
+  Blog: { extends: ['CreativeWork'], properties: [] },
+  Article: {
+    extends: ['CreativeWork'],
+    properties: ['headline', 'articleSection'],
+    required: ['headline', 'datePublished', 'author'],
+  },
+  FAQPage: { extends: ['WebPage'], properties: [], required: ['mainEntity'] },
+  Question: {
+    extends: ['CreativeWork'],
+    properties: ['acceptedAnswer'],
+    required: ['name', 'acceptedAnswer'],
+  },
+  Answer: {
+    extends: ['CreativeWork'],
+    properties: ['text'],
+    required: ['text'],
+  },
+  Review: {
+    extends: ['CreativeWork'],
+    properties: ['author', 'reviewRating', 'reviewBody'],
+    required: ['author', 'reviewRating'],
+  },
+  Rating: {
+    extends: ['Thing'],
+    properties: ['ratingValue', 'bestRating', 'worstRating'],
+    required: ['ratingValue'],
+  },
+  AggregateRating: {
+    extends: ['Rating'],
+    properties: ['reviewCount'],
+    required: ['reviewCount'],
+  },
+  ItemList: {
+    extends: ['Thing'],
+    properties: ['itemListElement'],
+    required: ['itemListElement'],
+  },
+  BreadcrumbList: { extends: ['ItemList'], properties: [] },
+  OfferCatalog: { extends: ['ItemList'], properties: [] },
+  ListItem: {
+    extends: ['Thing'],
+    properties: ['position', 'item'],
+    required: ['position', 'name'],
+  },
+  Organization: {
+    extends: ['Thing'],
+    properties: [
+      'address',
+      'telephone',
+      'email',
+      'logo',
+      'department',
+      'parentOrganization',
+      'areaServed',
+      'aggregateRating',
+      'review',
+      'hasOfferCatalog',
+      'knowsAbout',
+      'knowsLanguage',
+    ],
+    required: ['name'],
+  },
+  Place: {
+    extends: ['Thing'],
+    properties: [
+      'address',
+      'geo',
+      'hasMap',
+      'telephone',
+      'openingHoursSpecification',
+    ],
+  },
+  LocalBusiness: {
+    extends: ['Organization', 'Place'],
+    properties: ['priceRange'],
+  },
+  MedicalOrganization: {
+    extends: ['Organization'],
+    properties: ['medicalSpecialty'],
+  },
+  MedicalBusiness: { extends: ['LocalBusiness'], properties: [] },
+  MedicalClinic: {
+    extends: ['MedicalBusiness', 'MedicalOrganization'],
+    properties: ['availableService'],
+  },
+  Physician: {
+    extends: ['MedicalBusiness', 'MedicalOrganization'],
+    properties: [],
+  },
+  EducationalOrganization: { extends: ['Organization'], properties: [] },
+  Person: {
+    extends: ['Thing'],
+    properties: [
+      'jobTitle',
+      'email',
+      'worksFor',
+      'alumniOf',
+      'hasCredential',
+      'knowsLanguage',
+    ],
+    required: ['name'],
+  },
+  EducationalOccupationalCredential: {
+    extends: ['CreativeWork'],
+    properties: ['credentialCategory', 'recognizedBy', 'educationalLevel'],
+  },
+  Service: {
+    extends: ['Thing'],
+    properties: ['serviceType', 'provider', 'areaServed', 'offers'],
+    required: ['name', 'provider'],
+  },
+  Offer: {
+    extends: ['Thing'],
+    properties: ['price', 'priceCurrency'],
+    required: ['price', 'priceCurrency'],
+  },
+  MedicalEntity: { extends: ['Thing'], properties: [] },
+  MedicalProcedure: {
+    extends: ['MedicalEntity'],
+    properties: ['procedureType'],
+  },
+  MedicalTherapy: { extends: ['MedicalProcedure'], properties: [] },
+  MedicalCondition: {
+    extends: ['MedicalEntity'],
+    properties: [],
+    required: ['name'],
+  },
+  PostalAddress: {
+    extends: ['Thing'],
+    properties: [
+      'streetAddress',
+      'addressLocality',
+      'addressRegion',
+      'postalCode',
+      'addressCountry',
+    ],
+    required: ['addressCountry'],
+  },
+  GeoCoordinates: {
+    extends: ['Thing'],
+    properties: ['latitude', 'longitude'],
+    required: ['latitude', 'longitude'],
+  },
+  OpeningHoursSpecification: {
+    extends: ['Thing'],
+    properties: ['dayOfWeek', 'opens', 'closes', 'validFrom', 'validThrough'],
+    required: ['opens', 'closes'],
+  },
+  AdministrativeArea: { extends: ['Place'], properties: [] },
+  City: { extends: ['AdministrativeArea'], properties: [] },
+  Country: { extends: ['AdministrativeArea'], properties: [] },
+  PropertyValue: {
+    extends: ['Thing'],
+    properties: ['value'],
+    required: ['value'],
+  },
+};
+
+/** Propiedades y requeridos de un tipo, incluidos los heredados */
+const resolveType = (
+  type: string,
+): { properties: Set<string>; required: Set<string> } | undefined => {
+  const definition = SCHEMA_ORG_TYPES[type];
+  if (!definition) return undefined;
+  const properties = new Set(definition.properties);
+  const required = new Set(definition.required);
+  for (const parent of definition.extends ?? []) {
+    const inherited = resolveType(parent);
+    inherited?.properties.forEach((property) => properties.add(property));
+    inherited?.required.forEach((property) => required.add(property));
+  }
+  return { properties, required };
+};
+
+const isNode = (value: JsonLdValue): value is JsonLdNode =>
+  typeof value === 'object' && !Array.isArray(value);
+
+const isEmpty = (value: JsonLdValue | undefined) =>
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Valida un grafo JSON-LD contra SCHEMA_ORG_TYPES. Devuelve la lista de
+ * problemas (vacía si es válido):
+ * - Tipos o propiedades desconocidos y propiedades requeridas ausentes
+ * - Nodos del @graph sin @id, o con @id repetido
+ * - Referencias `{ "@id": ... }` a nodos que no están en el grafo
+ */
+export const validateStructuredData = (graph: JsonLdGraph): string[] => {
+  const issues: string[] = [];
+  const definedIds = new Set<string>();
+  const references: { id: string; path: string }[] = [];
+
+  const visit = (value: JsonLdValue, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`));
+      return;
+    }
+    if (!isNode(value)) return;
+
+    const keys = Object.keys(value);
+    const id = value['@id'];
+    if (keys.length === 1 && typeof id === 'string') {
+      references.push({ id, path });
+      return;
+    }
+    if (typeof id === 'string') {
+      if (definedIds.has(id)) issues.push(`${path}: @id repetido "${id}"`);
+      definedIds.add(id);
+    }
+
+    const type = value['@type'];
+    if (typeof type !== 'string') {
+      issues.push(`${path}: objeto sin @type`);
+      return;
+    }
+    const resolved = resolveType(type);
+    if (!resolved) {
+      issues.push(`${path}: tipo desconocido "${type}"`);
+      return;
+    }
+    for (const key of keys) {
+      if (key.startsWith('@')) continue;
+      if (!resolved.properties.has(key)) {
+        issues.push(`${path}: "${key}" no es una propiedad de ${type}`);
+      }
+      visit(value[key], `${path}.${key}`);
+    }
+    for (const key of resolved.required) {
+      if (isEmpty(value[key])) {
+        issues.push(`${path}: falta "${key}" (requerida en ${type})`);
+      }
+    }
+  };
+
+  graph['@graph'].forEach((node, index) => {
+    const path = `@graph[${index}]`;
+    if (typeof node['@id'] !== 'string') {
+      issues.push(`${path}: los nodos del grafo necesitan @id`);
+    }
+    visit(node, path);
+  });
+
+  for (const { id, path } of references) {
+    if (!definedIds.has(id)) {
+      issues.push(`${path}: referencia a "${id}", que no está en el grafo`);
+    }
+  }
+  return issues;
+};
+
+/**
+ * Serializa el grafo para un `<script type="application/ld+json">`
+ * (escapa `<` para que un texto nunca pueda cerrar el script)
+ */
+export const serializeStructuredData = (graph: JsonLdGraph): string =>
+  JSON.stringify(graph).replace(/</g, '\\u003c');
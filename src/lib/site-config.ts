@@ -0,0 +1,41 @@
+/**
+ * Configuración del sitio y del negocio
+ *
+ * Única fuente para el dominio, nombre, teléfono, correo, perfiles externos y
+ * Facebook App ID. Los datos viven en `src/content/site.json` (validado con
+ * `siteSchema`); aquí se exponen tipados junto con los valores derivados
+ * (enlaces tel:/wa.me, URL de Doctoralia, URLs absolutas).
+ *
+ * Lo consumen:
+ * - El código de la app (componentes, hooks, JSON-LD)
+ * - vite.config.ts: manifest PWA, 404.html, llms.txt, sitemap.xml y el
+ *   chequeo `siteConfigDriftPlugin` de los archivos estáticos (index.html,
+ *   public/)
+ *
+ * Solo usa imports relativos para poder cargarse desde vite.config.ts.
+ */
+import { parseContent } from '../content/schema';
+import siteData from '../content/site.json';
+
+const site = parseContent('site.json', siteData);
+const phoneDigits = site.phone.replace(/\D/g, '');
+
+export const siteConfig = {
+  ...site,
+  /** Teléfono solo con dígitos, formato de wa.me ("525565053202") */
+  whatsappNumber: phoneDigits,
+  telHref: `tel:${site.phone}`,
+  mailtoHref: `mailto:${site.email}`,
+  whatsappUrl: `https://wa.me/${phoneDigits}`,
+  /** Perfil de Doctoralia con la ciudad por defecto (reserva general) */
+  doctoraliaUrl: `${site.doctoralia.profileUrl}/${site.doctoralia.defaultCity}`,
+  ogImageUrl: `${site.url}${site.ogImage}`,
+};
+
+export type SiteConfig = typeof siteConfig;
+
+/**
+ * URL absoluta dentro del sitio: absoluteUrl('/servicios/atm')
+ */
+export const absoluteUrl = (path = '/'): string =>
+  new URL(path, siteConfig.url).toString();
@@ -0,0 +1,193 @@
+/**
+ * Generación de sitemap.xml a partir del árbol de rutas (routes.tsx)
+ *
+ * vite-react-ssg resuelve las rutas prerenderizadas (incluidas las dinámicas
+ * vía `getStaticPaths`); `sitemapSsgOptions` en vite.config.ts las recoge y
+ * arma una entrada por página con este módulo:
+ * - `handle.sitemap` de cada ruta define changefreq, priority y los archivos
+ *   fuente cuyo último commit se usa como `lastmod`
+ * - Las imágenes marcadas con `data-sitemap-image` en el HTML renderizado
+ *   (galería de consultorios) se añaden como `<image:image>`
+ * - Si hay más de un locale, cada URL lleva sus alternativas `hreflang`
+ *
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import type { RouteRecord } from 'vite-react-ssg';
+import { absoluteUrl } from './site-config';
+
+export type ChangeFrequency =
+  | 'always'
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'yearly'
+  | 'never';
+
+/** Metadatos de sitemap de una ruta: `handle: { sitemap: {...} }` */
+export interface SitemapRouteHandle {
+  changefreq: ChangeFrequency;
+  /** "0.0" a "1.0" */
+  priority: string;
+  /**
+   * Archivos o directorios (relativos a la raíz del repo) de los que sale el
+   * contenido de la página; su último commit es el `lastmod`
+   */
+  sources: string[];
+}
+
+export interface SitemapLocale {
+  /** Código hreflang (p. ej. "es-MX", "en") */
+  hreflang: string;
+  /** Prefijo de ruta del locale ("" para el locale por defecto, "/en") */
+  prefix: string;
+}
+
+export interface SitemapEntry {
+  /** Ruta dentro del sitio ("/servicios/atm") */
+  path: string;
+  /** Fecha "YYYY-MM-DD" */
+  lastmod?: string;
+  changefreq?: ChangeFrequency;
+  priority?: string;
+  /** URLs de imágenes (absolutas o relativas al sitio) */
+  images?: string[];
+}
+
+/**
+ * Aplana el árbol de rutas en una función que devuelve el `handle.sitemap`
+ * de la ruta que genera una página: "/servicios/atm" → ruta "servicios/:slug"
+ */
+export const createSitemapHandleMatcher = (routes: readonly RouteRecord[]) => {
+  const patterns: { pattern: RegExp; handle: SitemapRouteHandle }[] = [];
+
+  const visit = (items: readonly RouteRecord[], prefix: string) => {
+    for (const route of items) {
+      const path = route.path
+        ? route.path.startsWith('/')
+          ? route.path
+          : `${prefix.replace(/\/$/, '')}/${route.path}`
+        : prefix;
+      const handle = (route.handle as { sitemap?: SitemapRouteHandle })
+        ?.sitemap;
+      if (handle) {
+        const source = path.replace(/:[^/]+/g, '[^/]+').replace(/\/$/, '');
+        patterns.push({ pattern: new RegExp(`^${source}/?$`), handle });
+      }
+      if (route.children) visit(route.children, path || '/');
+    }
+  };
+  visit(routes, '');
+
+  return (path: string) =>
+    patterns.find((item) => item.pattern.test(path))?.handle;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Quita el prefijo de locale de una ruta: "/en/servicios/atm" → "/servicios/atm"
+ */
+const stripLocalePrefix = (path: string, locales: SitemapLocale[]) => {
+  const locale = locales.find(
+    (item) =>
+      item.prefix &&
+      (path === item.prefix || path.startsWith(`${item.prefix}/`)),
+  );
+  if (!locale) return path;
+  return path.slice(locale.prefix.length) || '/';
+};
+
+const withLocalePrefix = (path: string, locale: SitemapLocale) =>
+  locale.prefix ? `${locale.prefix}${path === '/' ? '' : path}` : path;
+
+/**
+ * Alternativas hreflang de `path`: una por locale cuya versión de la página
+ * existe en `allPaths`, más `x-default` (locale sin prefijo). Vacío si el
+ * sitio tiene un solo locale o la página no está traducida.
+ */
+export const getHreflangAlternates = (
+  path: string,
+  allPaths: Set<string>,
+  locales: SitemapLocale[],
+): { hreflang: string; href: string }[] => {
+  if (locales.length < 2) return [];
+
+  const basePath = stripLocalePrefix(path, locales);
+  const alternates = locales
+    .map((locale) => ({ locale, path: withLocalePrefix(basePath, locale) }))
+    .filter((item) => allPaths.has(item.path))
+    .map((item) => ({
+      hreflang: item.locale.hreflang,
+      href: absoluteUrl(item.path),
+    }));
+  if (alternates.length < 2) return [];
+
+  const defaultLocale = locales.find((locale) => !locale.prefix);
+  return defaultLocale && allPaths.has(basePath)
+    ? [...alternates, { hreflang: 'x-default', href: absoluteUrl(basePath) }]
+    : alternates;
+};
+
+/**
+ * Extrae las imágenes marcadas con `data-sitemap-image` de un HTML renderizado
+ */
+export const extractSitemapImages = (html: string): string[] => {
+  const images = new Set<string>();
+  for (const [tag] of html.matchAll(
+    /<img\b[^>]*\bdata-sitemap-image\b[^>]*>/g,
+  )) {
+    const src = tag.match(/\bsrc="([^"]+)"/)?.[1];
+    if (src) images.add(src.replace(/&amp;/g, '&'));
+  }
+  return [...images];
+};
+
+/**
+ * Serializa las entradas como sitemap.xml (con extensiones image y xhtml)
+ */
+export const renderSitemapXml = (
+  entries: SitemapEntry[],
+  locales: SitemapLocale[] = [],
+): string => {
+  const allPaths = new Set(entries.map((entry) => entry.path));
+
+  const urls = entries.map((entry) => {
+    const lines = [`    <loc>${escapeXml(absoluteUrl(entry.path))}</loc>`];
+    if (entry.lastmod) lines.push(`    <lastmod>${entry.lastmod}</lastmod>`);
+    if (entry.changefreq) {
+      lines.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+    }
+    if (entry.priority)
+      lines.push(`    <priority>${entry.priority}</priority>`);
+    for (const alternate of getHreflangAlternates(
+      entry.path,
+      allPaths,
+      locales,
+    )) {
+      lines.push(
+        `    <xhtml:link rel="alternate" hreflang="${alternate.hreflang}" href="${escapeXml(alternate.href)}" />`,
+      );
+    }
+    for (const image of entry.images ?? []) {
+      lines.push(
+        `    <image:image>\n      <image:loc>${escapeXml(absoluteUrl(image))}</image:loc>\n    </image:image>`,
+      );
+    }
+    return `  <url>\n${lines.join('\n')}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+        xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join('\n')}
+</urlset>
+`;
+};
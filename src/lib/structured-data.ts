@@ -0,0 +1,582 @@
+/**
+ * Datos estructurados (JSON-LD) del sitio como un solo `@graph` por ruta
+ *
+ * Cada entidad tiene un `@id` estable (el mismo en todas las páginas e
+ * idiomas), así Google las reconoce como la misma cosa y las relaciones
+ * quedan explícitas:
+ * - `/#website` (WebSite) lo publica `/#physician`
+ * - `/#physician` (Physician): el negocio; reseñas, catálogo de servicios y
+ *   sus consultorios como `department`
+ * - `/#person` (Person): la fisioterapeuta, con `worksFor` al negocio
+ * - `/consultorio/<slug>#clinic` (MedicalClinic): uno por dirección de
+ *   Doctoralia, con `parentOrganization` al negocio
+ * - `/servicios/<slug>#service` (Service): uno por especialidad
+ * - `/blog#blog` (Blog) y, en cada artículo, `<url>#webpage` (MedicalWebPage)
+ *   con su `<url>#article` (Article) escrito por `/#person`
+ * - `<url de la página>#faq` y `#breadcrumb`: propios de cada página
+ *
+ * PageHead lo escribe en el <head> de cada página (en el prerenderizado y al
+ * navegar) y vite.config.ts lo valida contra `schema-org.ts` en el build.
+ * Solo imports relativos (se carga desde vite.config.ts).
+ */
+import { parseContent, type Specialty } from '../content/schema';
+import conditionsData from '../content/conditions.json';
+import faqsData from '../content/faqs.json';
+import serviceCategoriesData from '../content/service-categories.json';
+import specialtiesData from '../content/specialties.json';
+import testimonialsData from '../content/testimonials.json';
+import conditionsEnData from '../content/en/conditions.json';
+import faqsEnData from '../content/en/faqs.json';
+import serviceCategoriesEnData from '../content/en/service-categories.json';
+import specialtiesEnData from '../content/en/specialties.json';
+import {
+  BLOG_PATH,
+  blogCategoryPath,
+  parseBlogPath,
+  type BlogPost,
+} from './blog';
+import {
+  DOCTORALIA_ADDRESSES,
+  localizeAddress,
+  type DoctoraliaAddress,
+} from './doctoralia-addresses';
+import { EXERCISES_PATH } from './exercise-program';
+import {
+  LOCALE_INFO,
+  getLocaleFromPath,
+  localizePath,
+  stripLocalePrefix,
+  translate,
+  type Locale,
+  type MessageKey,
+} from './i18n';
+import { toOpeningHoursSpecification } from './opening-hours';
+import type { JsonLdGraph, JsonLdNode } from './schema-org';
+import { absoluteUrl, siteConfig } from './site-config';
+
+const BUSINESS_NAME = 'Fisioterapia Analaura Reyes Priego';
+
+const content = {
+  'es-MX': {
+    specialties: parseContent('specialties.json', specialtiesData),
+    serviceCategories: parseContent(
+      'service-categories.json',
+      serviceCategoriesData,
+    ),
+    conditions: parseContent('conditions.json', conditionsData),
+    faqs: parseContent('faqs.json', faqsData),
+  },
+  en: {
+    specialties: parseContent('en/specialties.json', specialtiesEnData),
+    serviceCategories: parseContent(
+      'en/service-categories.json',
+      serviceCategoriesEnData,
+    ),
+    conditions: parseContent('en/conditions.json', conditionsEnData),
+    faqs: parseContent('en/faqs.json', faqsEnData),
+  },
+} satisfies Record<Locale, unknown>;
+
+// Los testimonios no se traducen: se publican en español en todos los idiomas
+const testimonials = parseContent('testimonials.json', testimonialsData);
+
+/** Páginas legales (sin contenido propio en el grafo, solo breadcrumb) */
+export const LEGAL_PAGES: Record<string, MessageKey> = {
+  '/aviso-privacidad': 'breadcrumb.privacy',
+  '/politica-cancelacion': 'breadcrumb.cancellation',
+  '/terminos-condiciones': 'breadcrumb.terms',
+};
+
+const ids = {
+  website: `${siteConfig.url}/#website`,
+  physician: `${siteConfig.url}/#physician`,
+  person: `${siteConfig.url}/#person`,
+  clinic: (slug: string) => `${siteConfig.url}/consultorio/${slug}#clinic`,
+  service: (slug: string) => `${siteConfig.url}/servicios/${slug}#service`,
+  procedure: (slug: string) => `${siteConfig.url}/servicios/${slug}#procedure`,
+  blog: `${siteConfig.url}${BLOG_PATH}#blog`,
+};
+
+const ref = (id: string): JsonLdNode => ({ '@id': id });
+
+const pageUrl = (path: string, locale: Locale) =>
+  absoluteUrl(localizePath(path, locale));
+
+const sameAs = [
+  siteConfig.doctoraliaUrl,
+  siteConfig.social.instagram,
+  siteConfig.social.facebook,
+];
+
+const areaServed = (locale: Locale): JsonLdNode[] => [
+  { '@type': 'City', name: translate(locale, 'services.schema.mexicoCity') },
+  { '@type': 'City', name: 'Metepec' },
+  { '@type': 'Country', name: translate(locale, 'services.schema.mexico') },
+];
+
+const postalAddress = (address: DoctoraliaAddress): JsonLdNode | undefined =>
+  address.postalAddress && {
+    '@type': 'PostalAddress',
+    ...address.postalAddress,
+    addressCountry: 'MX',
+  };
+
+/** Rango de precios de los servicios de service-categories.json */
+const priceRange = (locale: Locale) => {
+  const prices = content[locale].serviceCategories.flatMap((category) =>
+    category.services.map((service) => Number(service.price)),
+  );
+  return `$${Math.min(...prices)}-$${Math.max(...prices)} MXN`;
+};
+
+/** Servicios con precio que lista una especialidad */
+const specialtyServices = (specialty: Specialty, locale: Locale) =>
+  specialty.services.flatMap((name) =>
+    content[locale].serviceCategories.flatMap((category) =>
+      category.services.filter((service) => service.name === name),
+    ),
+  );
+
+const websiteNode = (locale: Locale): JsonLdNode => ({
+  '@type': 'WebSite',
+  '@id': ids.website,
+  url: pageUrl('/', locale),
+  name: siteConfig.title,
+  alternateName: siteConfig.name,
+  description: translate(locale, 'meta.home.twitterDescription'),
+  inLanguage: LOCALE_INFO[locale].hreflang,
+  publisher: ref(ids.physician),
+});
+
+const physicianNode = (locale: Locale, extra: JsonLdNode = {}): JsonLdNode => ({
+  '@type': 'Physician',
+  '@id': ids.physician,
+  name: BUSINESS_NAME,
+  alternateName: siteConfig.name,
+  description: translate(locale, 'meta.home.twitterDescription'),
+  url: pageUrl('/', locale),
+  image: siteConfig.ogImageUrl,
+  logo: absoluteUrl('/logo.jpg'),
+  telephone: siteConfig.phoneDisplay,
+  email: siteConfig.email,
+  priceRange: priceRange(locale),
+  medicalSpecialty: 'PhysicalTherapy',
+  address: DOCTORALIA_ADDRESSES.flatMap(
+    (address) => postalAddress(address) ?? [],
+  ),
+  areaServed: areaServed(locale),
+  department: DOCTORALIA_ADDRESSES.map((address) =>
+    ref(ids.clinic(address.slug)),
+  ),
+  sameAs,
+  ...extra,
+});
+
+const personNode = (locale: Locale): JsonLdNode => ({
+  '@type': 'Person',
+  '@id': ids.person,
+  name: siteConfig.professional.name,
+  alternateName: 'Analaura Reyes',
+  jobTitle: translate(locale, 'about.schema.jobTitle'),
+  description: translate(locale, 'about.schema.personDescription'),
+  image: siteConfig.ogImageUrl,
+  url: pageUrl('/', locale),
+  email: siteConfig.email,
+  worksFor: ref(ids.physician),
+  identifier: {
+    '@type': 'PropertyValue',
+    name: translate(locale, 'common.professionalLicense'),
+    value: siteConfig.professional.license,
+  },
+  alumniOf: [
+    {
+      '@type': 'EducationalOrganization',
+      name: 'Universidad Europea de Madrid',
+      address: { '@type': 'PostalAddress', addressCountry: 'ES' },
+    },
+    {
+      '@type': 'EducationalOrganization',
+      name: 'Universidad del Valle de México',
+      address: { '@type': 'PostalAddress', addressCountry: 'MX' },
+    },
+  ],
+  hasCredential: [
+    ['degree', 'Universidad Europea de Madrid', "Bachelor's Degree"],
+    ['degree', 'Universidad del Valle de México', "Bachelor's Degree"],
+    [
+      'certification',
+      'Instituto Nacional de Neurología y Neurocirugía',
+      'Diploma',
+    ],
+  ].map(([credentialCategory, organization, educationalLevel]) => ({
+    '@type': 'EducationalOccupationalCredential',
+    credentialCategory,
+    recognizedBy: { '@type': 'Organization', name: organization },
+    educationalLevel,
+  })),
+  knowsLanguage: ['es-MX', 'en'],
+  sameAs,
+});
+
+const clinicNode = (
+  baseAddress: DoctoraliaAddress,
+  locale: Locale,
+  images: string[] = [],
+): JsonLdNode => {
+  const address = localizeAddress(baseAddress, locale);
+  const postal = postalAddress(address);
+  return {
+    '@type': 'MedicalClinic',
+    '@id': ids.clinic(address.slug),
+    name: `${siteConfig.name} - ${address.name}`,
+    url: pageUrl(`/consultorio/${address.slug}`, locale),
+    telephone: siteConfig.phoneDisplay,
+    email: siteConfig.email,
+    medicalSpecialty: 'PhysicalTherapy',
+    priceRange: priceRange(locale),
+    parentOrganization: ref(ids.physician),
+    ...(images.length > 0 && {
+      image: images.map((image) => absoluteUrl(image)),
+    }),
+    ...(postal && { address: postal }),
+    ...(address.coordinates && {
+      geo: {
+        '@type': 'GeoCoordinates',
+        latitude: address.coordinates.lat,
+        longitude: address.coordinates.lng,
+      },
+    }),
+    ...(address.mapUrl !== undefined && { hasMap: address.mapUrl }),
+    ...(address.isOnline && {
+      availableService: {
+        '@type': 'MedicalTherapy',
+        name: translate(locale, 'clinicPage.schema.onlineService'),
+      },
+    }),
+    openingHoursSpecification: toOpeningHoursSpecification(address.schedule),
+  };
+};
+
+const serviceNode = (specialty: Specialty, locale: Locale): JsonLdNode => {
+  const url = pageUrl(`/servicios/${specialty.slug}`, locale);
+  return {
+    '@type': 'Service',
+    '@id': ids.service(specialty.slug),
+    name: specialty.title,
+    serviceType: specialty.title,
+    description: specialty.seoDescription,
+    url,
+    provider: ref(ids.physician),
+    areaServed: areaServed(locale),
+    offers: specialtyServices(specialty, locale).map((service) => ({
+      '@type': 'Offer',
+      name: service.name,
+      ...(service.description && { description: service.description }),
+      price: service.price,
+      priceCurrency: 'MXN',
+      url,
+    })),
+  };
+};
+
+const faqNode = (
+  url: string,
+  locale: Locale,
+  faqs: { question: string; answer: string }[],
+): JsonLdNode => ({
+  '@type': 'FAQPage',
+  '@id': `${url}#faq`,
+  url,
+  inLanguage: LOCALE_INFO[locale].hreflang,
+  isPartOf: ref(ids.website),
+  mainEntity: faqs.map((faq) => ({
+    '@type': 'Question',
+    name: faq.question,
+    acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+  })),
+});
+
+const blogNode = (locale: Locale): JsonLdNode => ({
+  '@type': 'Blog',
+  '@id': ids.blog,
+  name: translate(locale, 'blog.title'),
+  description: translate(locale, 'blog.description'),
+  url: pageUrl(BLOG_PATH, locale),
+  inLanguage: LOCALE_INFO[locale].hreflang,
+  isPartOf: ref(ids.website),
+  publisher: ref(ids.physician),
+});
+
+/**
+ * Artículo del blog: la página (MedicalWebPage, revisada por la
+ * fisioterapeuta) y su contenido (Article), que habla de los servicios
+ * relacionados
+ */
+const articleNodes = (
+  post: BlogPost,
+  url: string,
+  locale: Locale,
+  images: string[],
+): JsonLdNode[] => {
+  const inLanguage = LOCALE_INFO[locale].hreflang;
+  const dateModified = post.updated ?? post.date;
+  const about = post.services.map((slug) => ref(ids.service(slug)));
+  return [
+    {
+      '@type': 'MedicalWebPage',
+      '@id': `${url}#webpage`,
+      url,
+      name: post.title,
+      description: post.description,
+      inLanguage,
+      isPartOf: ref(ids.website),
+      mainEntity: ref(`${url}#article`),
+      breadcrumb: ref(`${url}#breadcrumb`),
+      lastReviewed: dateModified,
+      reviewedBy: ref(ids.person),
+      ...(about.length > 0 && { about }),
+    },
+    {
+      '@type': 'Article',
+      '@id': `${url}#article`,
+      headline: post.title,
+      description: post.description,
+      url,
+      ...(images.length > 0 && {
+        image: images.map((image) => absoluteUrl(image)),
+      }),
+      datePublished: post.date,
+      dateModified,
+      author:
+        post.author === siteConfig.professional.name
+          ? ref(ids.person)
+          : { '@type': 'Person', name: post.author },
+      publisher: ref(ids.physician),
+      inLanguage,
+      isPartOf: ref(ids.blog),
+      mainEntityOfPage: ref(`${url}#webpage`),
+      articleSection: translate(locale, `blog.categories.${post.category}`),
+      keywords: post.tags.join(', '),
+      timeRequired: `PT${post.readingTime}M`,
+    },
+  ];
+};
+
+/** BreadcrumbList que empieza en Inicio; las rutas van sin prefijo de idioma */
+const breadcrumbNode = (
+  url: string,
+  locale: Locale,
+  items: { name: string; path: string }[],
+): JsonLdNode => ({
+  '@type': 'BreadcrumbList',
+  '@id': `${url}#breadcrumb`,
+  itemListElement: [
+    { name: translate(locale, 'breadcrumb.home'), path: '/' },
+    ...items,
+  ].map((item, index) => ({
+    '@type': 'ListItem',
+    position: index + 1,
+    name: item.name,
+    item: pageUrl(item.path, locale),
+  })),
+});
+
+/** Reseñas de testimonials.json y su calificación promedio */
+const reviewProperties = (): JsonLdNode => {
+  const average =
+    testimonials.reduce((sum, testimonial) => sum + testimonial.rating, 0) /
+    testimonials.length;
+  return {
+    aggregateRating: {
+      '@type': 'AggregateRating',
+      ratingValue: average.toFixed(1),
+      reviewCount: testimonials.length,
+      bestRating: 5,
+      worstRating: 1,
+    },
+    review: testimonials.map((testimonial) => ({
+      '@type': 'Review',
+      author: { '@type': 'Person', name: testimonial.name },
+      reviewRating: {
+        '@type': 'Rating',
+        ratingValue: testimonial.rating,
+        bestRating: 5,
+        worstRating: 1,
+      },
+      reviewBody: testimonial.text,
+      inLanguage: LOCALE_INFO['es-MX'].hreflang,
+    })),
+  };
+};
+
+/**
+ * Grafo JSON-LD de una ruta del sitio ("/", "/en/servicios/atm"...), o null
+ * si la ruta no es una página conocida (404).
+ *
+ * @param path - Ruta de la página, con prefijo de idioma si aplica
+ * @param options.images - Imágenes de la página (las de la galería del
+ *   consultorio, las Open Graph de un artículo)
+ * @param options.article - Artículo de la ruta si es /blog/<slug> (sin él la
+ *   ruta no tiene grafo)
+ */
+export const buildStructuredDataGraph = (
+  path: string,
+  options: { images?: string[]; article?: BlogPost } = {},
+): JsonLdGraph | null => {
+  const normalizedPath = path.replace(/\/+$/, '') || '/';
+  const locale = getLocaleFromPath(normalizedPath);
+  const basePath = stripLocalePrefix(normalizedPath);
+  const url = pageUrl(basePath, locale);
+  const { specialties, conditions, faqs } = content[locale];
+  const [, section, slug] = basePath.split('/');
+
+  const graph = (
+    nodes: JsonLdNode[],
+    physician: JsonLdNode = {},
+    clinicImages?: { slug: string; images: string[] },
+  ): JsonLdGraph => ({
+    '@context': 'https://schema.org',
+    '@graph': [
+      websiteNode(locale),
+      physicianNode(locale, physician),
+      personNode(locale),
+      ...DOCTORALIA_ADDRESSES.map((address) =>
+        clinicNode(
+          address,
+          locale,
+          address.slug === clinicImages?.slug ? clinicImages.images : [],
+        ),
+      ),
+      ...nodes,
+    ],
+  });
+
+  if (basePath === '/') {
+    return graph(
+      [
+        ...specialties.map((specialty) => serviceNode(specialty, locale)),
+        faqNode(url, locale, faqs),
+        breadcrumbNode(url, locale, [
+          {
+            name: translate(locale, 'breadcrumb.services'),
+            path: '/#servicios',
+          },
+          { name: translate(locale, 'breadcrumb.pricing'), path: '/#precios' },
+          {
+            name: translate(locale, 'breadcrumb.testimonials'),
+            path: '/#testimonios',
+          },
+          { name: translate(locale, 'breadcrumb.contact'), path: '/#contacto' },
+        ]),
+      ],
+      {
+        hasOfferCatalog: {
+          '@type': 'OfferCatalog',
+          name: translate(locale, 'services.schema.catalogName'),
+          itemListElement: specialties.map((specialty) =>
+            ref(ids.service(specialty.slug)),
+          ),
+        },
+        knowsAbout: conditions.map((condition) => ({
+          '@type': 'MedicalCondition',
+          name: condition,
+        })),
+        ...reviewProperties(),
+      },
+    );
+  }
+
+  if (section === 'servicios' && slug) {
+    const specialty = specialties.find((item) => item.slug === slug);
+    if (!specialty) return null;
+    return graph([
+      serviceNode(specialty, locale),
+      {
+        '@type': 'MedicalProcedure',
+        '@id': ids.procedure(specialty.slug),
+        name: specialty.title,
+        description: specialty.intro,
+        procedureType: 'https://schema.org/NoninvasiveProcedure',
+        url,
+      },
+      faqNode(url, locale, specialty.faqs),
+      breadcrumbNode(url, locale, [
+        { name: translate(locale, 'breadcrumb.services'), path: '/#servicios' },
+        { name: specialty.title, path: basePath },
+      ]),
+    ]);
+  }
+
+  if (section === 'consultorio' && slug) {
+    const address = DOCTORALIA_ADDRESSES.find((item) => item.slug === slug);
+    if (!address) return null;
+    return graph(
+      [
+        breadcrumbNode(url, locale, [
+          { name: translate(locale, 'breadcrumb.contact'), path: '/#contacto' },
+          { name: localizeAddress(address, locale).name, path: basePath },
+        ]),
+      ],
+      {},
+      { slug, images: options.images ?? [] },
+    );
+  }
+
+  const blogPage = parseBlogPath(basePath);
+  const blogCrumb = {
+    name: translate(locale, 'breadcrumb.blog'),
+    path: BLOG_PATH,
+  };
+  if (blogPage?.type === 'index') {
+    return graph([blogNode(locale), breadcrumbNode(url, locale, [blogCrumb])]);
+  }
+  if (blogPage?.type === 'category') {
+    return graph([
+      blogNode(locale),
+      breadcrumbNode(url, locale, [
+        blogCrumb,
+        {
+          name: translate(locale, `blog.categories.${blogPage.category}`),
+          path: blogCategoryPath(blogPage.category),
+        },
+      ]),
+    ]);
+  }
+  if (blogPage?.type === 'post') {
+    const { article } = options;
+    if (article?.slug !== blogPage.slug) return null;
+    return graph([
+      blogNode(locale),
+      ...articleNodes(article, url, locale, options.images ?? []),
+      ...specialties
+        .filter((specialty) => article.services.includes(specialty.slug))
+        .map((specialty) => serviceNode(specialty, locale)),
+      breadcrumbNode(url, locale, [
+        blogCrumb,
+        { name: article.title, path: basePath },
+      ]),
+    ]);
+  }
+
+  if (basePath === EXERCISES_PATH) {
+    return graph([
+      breadcrumbNode(url, locale, [
+        {
+          name: translate(locale, 'breadcrumb.exercises'),
+          path: EXERCISES_PATH,
+        },
+      ]),
+    ]);
+  }
+
+  const legalPage = LEGAL_PAGES[basePath];
+  if (legalPage) {
+    return graph([
+      breadcrumbNode(url, locale, [
+        { name: translate(locale, legalPage), path: basePath },
+      ]),
+    ]);
+  }
+
+  return null;
+};
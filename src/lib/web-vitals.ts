@@ -0,0 +1,213 @@
+/**
+ * Core Web Vitals de campo: LCP, INP, CLS, TTFB y FCP
+ *
+ * SpeedInsights (Layout) deja los datos en Vercel; este reporter los manda
+ * también a nuestras herramientas, con datos de atribución para saber qué
+ * elemento o qué interacción causó un mal valor:
+ * - GA4 y endpoint propio: evento `web_vital` del catálogo (el destino `beacon`
+ *   lo manda a api/analytics.ts, que lo deja en los logs de la función)
+ * - Sentry: una transacción `ui.webvital` por métrica, con la medición y los
+ *   tags `route`, `device_class` y `app_version` (solo con consentimiento de
+ *   errores, igual que el resto de Sentry)
+ *
+ * Cada reporte lleva la ruta de entrada (las métricas son de la carga completa,
+ * no de cada navegación del SPA), el tipo de dispositivo y la versión de
+ * package.json, para cruzar regresiones con los releases de bump-version.js.
+ *
+ * Muestreo: `VITE_WEB_VITALS_SAMPLE_RATE` (0 a 1, por defecto 1), decidido una
+ * vez por sesión para que una sesión reporte todas sus cargas o ninguna.
+ */
+import * as Sentry from '@sentry/react';
+import {
+  onCLS,
+  onFCP,
+  onINP,
+  onLCP,
+  onTTFB,
+  type MetricWithAttribution,
+} from 'web-vitals/attribution';
+import { track } from './analytics';
+import type { AnalyticsEventParams } from './analytics-events';
+
+type WebVitalParams = AnalyticsEventParams<'web_vital'>;
+
+type DeviceClass = WebVitalParams['device_class'];
+
+const SAMPLE_STORAGE_KEY = 'web_vitals_sampled';
+const DEFAULT_SAMPLE_RATE = 1;
+
+let initialized = false;
+
+const getSampleRate = () => {
+  // `VITE_WEB_VITALS_SAMPLE_RATE=` vacío cuenta como no definido (Number('') es 0)
+  const raw = import.meta.env.VITE_WEB_VITALS_SAMPLE_RATE;
+  if (!raw?.trim()) return DEFAULT_SAMPLE_RATE;
+  const rate = Number(raw);
+  return Number.isFinite(rate) && rate >= 0 && rate <= 1
+    ? rate
+    : DEFAULT_SAMPLE_RATE;
+};
+
+/** Si la sesión entra en la muestra (se decide una vez por sesión) */
+const isSessionSampled = () => {
+  try {
+    const stored = sessionStorage.getItem(SAMPLE_STORAGE_KEY);
+    if (stored !== null) return stored === 'true';
+    const sampled = Math.random() < getSampleRate();
+    sessionStorage.setItem(SAMPLE_STORAGE_KEY, String(sampled));
+    return sampled;
+  } catch {
+    return Math.random() < getSampleRate();
+  }
+};
+
+/** Clase de dispositivo por ancho de viewport y tipo de puntero */
+const getDeviceClass = (): DeviceClass => {
+  const width = window.innerWidth;
+  const coarsePointer = window.matchMedia('(pointer: coarse)').matches;
+  if (width < 768) return 'mobile';
+  if (width < 1024 && coarsePointer) return 'tablet';
+  return 'desktop';
+};
+
+/** Ruta sin query string ni barra final (la home queda como "/") */
+const normalizePath = (pathname: string) =>
+  pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+/** Nombre de la fase con más peso, en kebab-case */
+const largestPhase = (phases: Record<string, number>) =>
+  Object.entries(phases).reduce((largest, current) =>
+    current[1] > largest[1] ? current : largest,
+  )[0];
+
+/** Elemento, fase y tipo de interacción según la métrica */
+const getAttributionParams = (
+  metric: MetricWithAttribution,
+): Pick<
+  WebVitalParams,
+  'debug_target' | 'debug_phase' | 'interaction_type'
+> => {
+  switch (metric.name) {
+    case 'LCP': {
+      const { attribution } = metric;
+      return {
+        debug_target: attribution.target,
+        debug_phase: largestPhase({
+          'time-to-first-byte': attribution.timeToFirstByte,
+          'resource-load-delay': attribution.resourceLoadDelay,
+          'resource-load-duration': attribution.resourceLoadDuration,
+          'element-render-delay': attribution.elementRenderDelay,
+        }),
+      };
+    }
+    case 'INP': {
+      const { attribution } = metric;
+      return {
+        debug_target: attribution.interactionTarget || undefined,
+        debug_phase: largestPhase({
+          'input-delay': attribution.inputDelay,
+          'processing-duration': attribution.processingDuration,
+          'presentation-delay': attribution.presentationDelay,
+        }),
+        interaction_type: attribution.interactionType,
+      };
+    }
+    case 'CLS': {
+      const { attribution } = metric;
+      return {
+        debug_target: attribution.largestShiftTarget,
+        debug_phase: attribution.loadState,
+      };
+    }
+    case 'TTFB': {
+      const { attribution } = metric;
+      return {
+        debug_phase: largestPhase({
+          'waiting-duration': attribution.waitingDuration,
+          'cache-duration': attribution.cacheDuration,
+          'dns-duration': attribution.dnsDuration,
+          'connection-duration': attribution.connectionDuration,
+          'request-duration': attribution.requestDuration,
+        }),
+      };
+    }
+    case 'FCP': {
+      const { attribution } = metric;
+      return {
+        debug_phase: largestPhase({
+          'time-to-first-byte': attribution.timeToFirstByte,
+          'first-byte-to-fcp': attribution.firstByteToFCP,
+        }),
+      };
+    }
+  }
+};
+
+/** Transacción independiente con la medición; Sentry la descarta sin DSN */
+const reportToSentry = (
+  metric: MetricWithAttribution,
+  params: WebVitalParams,
+) => {
+  if (!Sentry.isInitialized()) return;
+  Sentry.withScope((scope) => {
+    scope.setTags({
+      route: params.page_path,
+      device_class: params.device_class,
+      app_version: params.app_version,
+      'web_vital.rating': params.metric_rating,
+    });
+    const span = Sentry.startInactiveSpan({
+      name: `${metric.name} ${params.page_path}`,
+      op: 'ui.webvital',
+      forceTransaction: true,
+      attributes: {
+        'web_vital.name': metric.name,
+        ...(params.debug_target && { 'web_vital.target': params.debug_target }),
+        ...(params.debug_phase && { 'web_vital.phase': params.debug_phase }),
+      },
+    });
+    Sentry.withActiveSpan(span, () => {
+      Sentry.setMeasurement(
+        metric.name.toLowerCase(),
+        metric.value,
+        metric.name === 'CLS' ? '' : 'millisecond',
+      );
+    });
+    span.end();
+  });
+};
+
+/**
+ * Empieza a medir las Core Web Vitals de esta carga (si la sesión está en la
+ * muestra). Se llama una vez desde main.tsx, después de Sentry y la analítica.
+ */
+export const initWebVitals = () => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+  if (!isSessionSampled()) return;
+
+  const pagePath = normalizePath(window.location.pathname);
+  const deviceClass = getDeviceClass();
+
+  const report = (metric: MetricWithAttribution) => {
+    const params: WebVitalParams = {
+      metric_name: metric.name,
+      metric_value: metric.value,
+      metric_delta: metric.delta,
+      metric_id: metric.id,
+      metric_rating: metric.rating,
+      page_path: pagePath,
+      device_class: deviceClass,
+      ...getAttributionParams(metric),
+      app_version: __APP_VERSION__,
+    };
+    track('web_vital', params);
+    reportToSentry(metric, params);
+  };
+
+  onLCP(report);
+  onINP(report);
+  onCLS(report);
+  onTTFB(report);
+  onFCP(report);
+};
@@ -0,0 +1,166 @@
+/**
+ * Enlaces de WhatsApp con mensaje prellenado según el contexto
+ *
+ * Todos los CTAs de WhatsApp del sitio construyen su enlace con
+ * `buildWhatsAppLink`, que arma un mensaje según la intención (agendar,
+ * preguntar, precios...), el servicio o plan que se estaba viendo y el
+ * consultorio elegido. Cada mensaje termina con un folio corto
+ * (p. ej. "Ref. AG-4K2Q") para saber desde qué CTA llegó la conversación.
+ *
+ * El folio es determinista (mismo contexto → mismo folio) para que el HTML
+ * prerenderizado y el del cliente coincidan al hidratar.
+ *
+ * El mensaje se escribe en el idioma de la página (`locale`), para que quien
+ * llega desde /en pueda escribir en inglés desde el primer mensaje.
+ *
+ * Uso:
+ *   const whatsapp = buildWhatsAppLink({ intent: 'booking', service: 'ATM' });
+ *   <a href={whatsapp.href} onClick={() => trackWhatsAppLink(whatsapp, 'Hero Section')}>
+ */
+import { track, type UTMParams } from './analytics';
+import { getAddressBySlug, localizeAddress } from './doctoralia-addresses';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+import { siteConfig } from './site-config';
+
+export type WhatsAppIntent =
+  | 'general'
+  | 'booking'
+  | 'question'
+  | 'pricing'
+  | 'reschedule';
+
+export interface WhatsAppLinkOptions {
+  intent: WhatsAppIntent;
+  /** Servicio o plan que el usuario estaba viendo */
+  service?: string;
+  /** Slug del consultorio (ver DOCTORALIA_ADDRESSES) */
+  location?: string;
+  /** UTMs de la visita; solo afectan al folio */
+  utm?: UTMParams;
+  /** Idioma del mensaje (por defecto es-MX) */
+  locale?: Locale;
+}
+
+export interface WhatsAppLink {
+  href: string;
+  message: string;
+  /** Folio corto incluido al final del mensaje */
+  reference: string;
+  intent: WhatsAppIntent;
+  service?: string;
+  /** Nombre del consultorio (no el slug) */
+  location?: string;
+}
+
+// Prefijo del folio por intención
+const INTENT_CODES: Record<WhatsAppIntent, string> = {
+  general: 'IN',
+  booking: 'AG',
+  question: 'PR',
+  pricing: 'PC',
+  reschedule: 'RP',
+};
+
+type ComposeMessage = (
+  intent: WhatsAppIntent,
+  service?: string,
+  location?: string,
+) => string;
+
+const composeMessage: Record<Locale, ComposeMessage> = {
+  'es-MX': (intent, service, location) => {
+    const inLocation = location ? ` en ${location}` : '';
+
+    switch (intent) {
+      case 'booking':
+        return `Hola, me gustaría agendar una cita${service ? ` de ${service}` : ''}${inLocation}`;
+      case 'question':
+        return `Hola, tengo una pregunta sobre ${service ?? 'fisioterapia'}`;
+      case 'pricing':
+        return `Hola, me gustaría información sobre ${service ? `el ${service}` : 'los precios y paquetes'}${inLocation}`;
+      case 'reschedule':
+        return `Hola, necesito reprogramar o cancelar mi cita${inLocation}`;
+      case 'general':
+        return `Hola, me gustaría más información${service ? ` sobre ${service}` : ''}${inLocation}`;
+    }
+  },
+  en: (intent, service, location) => {
+    const inLocation = location ? ` at ${location}` : '';
+
+    switch (intent) {
+      case 'booking':
+        return `Hi, I'd like to book an appointment${service ? ` for ${service}` : ''}${inLocation}`;
+      case 'question':
+        return `Hi, I have a question about ${service ?? 'physiotherapy'}`;
+      case 'pricing':
+        return `Hi, I'd like information about ${service ? `the ${service}` : 'prices and packages'}${inLocation}`;
+      case 'reschedule':
+        return `Hi, I need to reschedule or cancel my appointment${inLocation}`;
+      case 'general':
+        return `Hi, I'd like more information${service ? ` about ${service}` : ''}${inLocation}`;
+    }
+  },
+};
+
+/**
+ * Hash FNV-1a de 32 bits en base 36: 4 caracteres, suficientes para
+ * distinguir CTAs y campañas sin depender de estado ni de la fecha
+ */
+const shortHash = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).toUpperCase().padStart(4, '0').slice(-4);
+};
+
+/**
+ * Construye el enlace wa.me con el mensaje y el folio del contexto
+ */
+export const buildWhatsAppLink = ({
+  intent,
+  service,
+  location,
+  utm,
+  locale = DEFAULT_LOCALE,
+}: WhatsAppLinkOptions): WhatsAppLink => {
+  const address = location ? getAddressBySlug(location) : undefined;
+  const locationName = address
+    ? localizeAddress(address, locale).name
+    : location;
+  const reference = `${INTENT_CODES[intent]}-${shortHash(
+    [
+      intent,
+      service ?? '',
+      location ?? '',
+      utm?.utm_source ?? '',
+      utm?.utm_campaign ?? '',
+    ].join('|'),
+  )}`;
+  const message = `${composeMessage[locale](intent, service, locationName)}\n\nRef. ${reference}`;
+
+  return {
+    href: `${siteConfig.whatsappUrl}?text=${encodeURIComponent(message)}`,
+    message,
+    reference,
+    intent,
+    service,
+    location: locationName,
+  };
+};
+
+/**
+ * Registra el clic en un enlace de `buildWhatsAppLink` (GA4 + Meta Pixel)
+ * @param ctaLocation - Dónde está el CTA (p. ej. 'Hero Section')
+ */
+export const trackWhatsAppLink = (link: WhatsAppLink, ctaLocation: string) => {
+  track('whatsapp_click', {
+    message_preview: link.message.substring(0, 50),
+    location: ctaLocation,
+    intent: link.intent,
+    reference: link.reference,
+    service: link.service,
+    consultorio: link.location,
+  });
+};
@@ -3,6 +3,85 @@ import * as Sentry from '@sentry/react';
 import { routes } from './routes';
 import './index.css';
 import { initAnalytics, trackPageView } from './lib/analytics';
+import { initFunnel } from './lib/funnel';
+import { initWebVitals } from './lib/web-vitals';
+import { hasConsent, subscribeToConsent } from './lib/consent';
+import {
+  isExerciseProgramPath,
+  redactExerciseProgramUrl,
+} from './lib/exercise-program';
+
+// Exercise program URLs carry the patient's name and notes in the fragment
+// (lib/exercise-program.ts): strip it from what Sentry sends.
+const redactSentryEvent = <T extends Sentry.Event>(event: T): T => {
+  if (event.request?.url) {
+    event.request.url = redactExerciseProgramUrl(event.request.url);
+  }
+  // Replay events list every URL visited during the recording
+  if ('urls' in event && Array.isArray(event.urls)) {
+    event.urls = event.urls.map((url: unknown) =>
+      typeof url === 'string' ? redactExerciseProgramUrl(url) : url,
+    );
+  }
+  return event;
+};
+
+// Redacts the URL-valued keys of a replay frame; true if any was changed
+const redactFrameUrls = (record: object | undefined, keys: string[]) => {
+  if (!record) return false;
+  const fields = record as Record<string, unknown>;
+  let redacted = false;
+  for (const key of keys) {
+    const value = fields[key];
+    if (typeof value !== 'string') continue;
+    const safe = redactExerciseProgramUrl(value);
+    if (safe !== value) {
+      fields[key] = safe;
+      redacted = true;
+    }
+  }
+  return redacted;
+};
+
+// Navigation and click frames recorded by Session Replay carry the full URL.
+// Reaching an exercise program mid-recording also stops the replay: its DOM
+// snapshots record location.href, which no hook can rewrite.
+const redactReplayFrame = (event: Sentry.ReplayFrameEvent) => {
+  const { payload } = event.data;
+  const redacted = [
+    redactFrameUrls(payload, ['description', 'message']),
+    redactFrameUrls('data' in payload ? payload.data : undefined, [
+      'url',
+      'from',
+      'to',
+    ]),
+  ].some(Boolean);
+  if (redacted) {
+    setTimeout(() => void Sentry.getReplay()?.stop());
+  }
+  return event;
+};
+
+// Session replay is only added once the visitor accepts error reporting, and
+// never on the exercise catalog or a program (lib/exercise-program.ts).
+// Revoking stops the current recording; it resumes on the next visit if
+// consent is granted again.
+const syncSentryReplay = () => {
+  const replay = Sentry.getReplay();
+  if (hasConsent('errors')) {
+    if (!replay && !isExerciseProgramPath(window.location.pathname)) {
+      Sentry.addIntegration(
+        Sentry.replayIntegration({
+          maskAllText: true,
+          blockAllMedia: true,
+          beforeAddRecordingEvent: redactReplayFrame,
+        }),
+      );
+    }
+  } else if (replay) {
+    void replay.stop();
+  }
+};
 
 // Browser-only bootstrap. This runs during hydration on the client, never
 // during the server prerender (guarded by `isClient`), so it is safe to touch
@@ -17,17 +96,16 @@ function initClient() {
   if (shouldInitSentry) {
     Sentry.init({
       dsn: import.meta.env.VITE_SENTRY_DSN,
-      integrations: [
-        Sentry.browserTracingIntegration(),
-        Sentry.replayIntegration({
-          maskAllText: true,
-          blockAllMedia: true,
-        }),
-      ],
-      tracesSampleRate: 0.1,
+      integrations: [Sentry.browserTracingIntegration()],
+      // Web vitals (lib/web-vitals.ts) are already sampled per session
+      tracesSampler: ({ attributes, inheritOrSampleWith }) =>
+        attributes?.['web_vital.name'] ? 1 : inheritOrSampleWith(0.1),
       replaysSessionSampleRate: 0.1,
       replaysOnErrorSampleRate: 1.0,
-      environment: import.meta.env.MODE,
+      // Same release name the Vite plugin uploads source maps for (vite.config.ts)
+      release: __SENTRY_RELEASE__,
+      ...(__SENTRY_DIST__ && { dist: __SENTRY_DIST__ }),
+      environment: __SENTRY_ENVIRONMENT__,
       beforeSend(event) {
         if (
           import.meta.env.DEV &&
@@ -35,29 +113,50 @@ function initClient() {
         ) {
           return null;
         }
-        return event;
+        // Nothing is reported without error-reporting consent
+        if (!hasConsent('errors')) {
+          return null;
+        }
+        return redactSentryEvent(event);
+      },
+      beforeSendTransaction(event) {
+        return hasConsent('errors') ? redactSentryEvent(event) : null;
+      },
+      beforeBreadcrumb(breadcrumb) {
+        if (breadcrumb.category === 'navigation' && breadcrumb.data) {
+          for (const key of ['from', 'to']) {
+            if (typeof breadcrumb.data[key] === 'string') {
+              breadcrumb.data[key] = redactExerciseProgramUrl(
+                breadcrumb.data[key],
+              );
+            }
+          }
+        }
+        return breadcrumb;
       },
     });
+
+    Sentry.addEventProcessor((event) =>
+      event.type === 'replay_event' ? redactSentryEvent(event) : event,
+    );
+    syncSentryReplay();
+    subscribeToConsent(syncSentryReplay);
   }
 
   // Initialize analytics.
   initAnalytics();
 
-  // Track initial page view once the GA script has actually loaded
-  // (it is injected asynchronously from index.html).
-  const waitForAnalytics = (maxAttempts = 20, attempt = 0) => {
-    const gaScriptLoaded =
-      document.querySelector('script[src*="googletagmanager.com/gtag/js"]') !==
-      null;
+  // Track initial page view (the dispatcher holds it until gtag.js loads)
+  trackPageView(
+    window.location.pathname + window.location.hash,
+    document.title,
+  );
 
-    if (gaScriptLoaded) {
-      const initialPath = window.location.pathname + window.location.hash;
-      trackPageView(initialPath, document.title);
-    } else if (attempt < maxAttempts) {
-      setTimeout(() => waitForAnalytics(maxAttempts, attempt + 1), 100);
-    }
-  };
-  waitForAnalytics();
+  // Conversion funnel (landing → booking), fed by the events dispatched from here on
+  initFunnel();
+
+  // Field Core Web Vitals to GA4, the analytics endpoint and Sentry
+  initWebVitals();
 }
 
 // vite-react-ssg entry: prerenders every route to static HTML at build time
@@ -0,0 +1,217 @@
+import { lazy, Suspense, type ComponentType } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import type { MDXComponents, MDXProps } from 'mdx/types';
+import { ArrowLeft, ArrowRight, Calendar, Clock } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ShareButtons } from '@/components/ShareButtons';
+import { Button } from '@/components/ui/button';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import { getBlogPostBySlug, loadBlogPostBody, type BlogPost } from '@/content';
+import { track } from '@/lib/analytics';
+import {
+  BLOG_PATH,
+  blogCategoryPath,
+  blogPostPath,
+  formatBlogDate,
+} from '@/lib/blog';
+import type { Locale } from '@/lib/i18n';
+import { absoluteUrl } from '@/lib/site-config';
+import NotFound from './NotFound';
+
+// Un componente lazy por artículo e idioma: se prerenderiza completo en el
+// build (vite-react-ssg espera a los Suspense) y en el cliente el cuerpo se
+// descarga solo al abrir el artículo
+const bodies = new Map<string, ComponentType<MDXProps>>();
+const getBody = (slug: string, locale: Locale) => {
+  const key = `${locale}/${slug}`;
+  let body = bodies.get(key);
+  if (!body) {
+    body = lazy(() => loadBlogPostBody(slug, locale));
+    bodies.set(key, body);
+  }
+  return body;
+};
+
+const ArticuloContent = ({ post }: { post: BlogPost }) => {
+  const { locale, t, localizePath } = useTranslation();
+  const { specialties } = useContent();
+  const Body = getBody(post.slug, locale);
+  const url = absoluteUrl(localizePath(blogPostPath(post.slug)));
+  const relatedServices = specialties.filter((specialty) =>
+    post.services.includes(specialty.slug),
+  );
+
+  // Los enlaces internos del MDX se escriben sin idioma ("/servicios/atm")
+  const components: MDXComponents = {
+    a: ({ href = '', children, ...props }) =>
+      href.startsWith('/') ? (
+        <Link to={localizePath(href)} {...props}>
+          {children}
+        </Link>
+      ) : (
+        <a href={href} target="_blank" rel="noopener noreferrer" {...props}>
+          {children}
+        </a>
+      ),
+    table: (props) => (
+      <div className="overflow-x-auto">
+        <table {...props} />
+      </div>
+    ),
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={post.title}
+        description={post.description}
+        type="article"
+        article={post}
+      />
+      <Navbar />
+      <main className="container mx-auto px-4 py-12 lg:py-24 max-w-3xl">
+        {/* Breadcrumb */}
+        <nav aria-label="Breadcrumb" className="mb-8 text-sm">
+          <Link
+            to={localizePath(BLOG_PATH)}
+            className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-primary transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('blog.backToBlog')}
+          </Link>
+        </nav>
+
+        <article>
+          {/* Header */}
+          <header className="mb-10">
+            <Link
+              to={localizePath(blogCategoryPath(post.category))}
+              className="inline-block text-sm font-semibold uppercase tracking-wider text-primary hover:underline mb-3"
+            >
+              {t(`blog.categories.${post.category}`)}
+            </Link>
+            <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
+              {post.title}
+            </h1>
+            <p className="text-lg text-muted-foreground leading-relaxed mb-6">
+              {post.description}
+            </p>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground">
+              <span className="font-semibold text-foreground">
+                {t('blog.by', { author: post.author })}
+              </span>
+              <time dateTime={post.date}>
+                {t('blog.publishedOn', {
+                  date: formatBlogDate(post.date, locale),
+                })}
+              </time>
+              {post.updated && (
+                <time dateTime={post.updated}>
+                  {t('blog.updatedOn', {
+                    date: formatBlogDate(post.updated, locale),
+                  })}
+                </time>
+              )}
+              <span className="inline-flex items-center gap-1.5">
+                <Clock className="w-4 h-4" />
+                {t('blog.readingTime', { minutes: post.readingTime })}
+              </span>
+            </div>
+          </header>
+
+          {/* Cuerpo (MDX) */}
+          <div className="prose prose-lg max-w-none mb-10 prose-headings:font-display prose-headings:text-foreground prose-p:text-foreground/80 prose-li:text-foreground/80 prose-strong:text-foreground prose-a:text-primary">
+            <Suspense fallback={null}>
+              <Body components={components} />
+            </Suspense>
+          </div>
+
+          {/* Etiquetas */}
+          <footer className="mb-10">
+            <h2 className="sr-only">{t('blog.tags')}</h2>
+            <ul className="flex flex-wrap gap-2 mb-8">
+              {post.tags.map((tag) => (
+                <li
+                  key={tag}
+                  className="px-3 py-1 rounded-full bg-secondary text-secondary-foreground text-sm"
+                >
+                  #{tag}
+                </li>
+              ))}
+            </ul>
+            <ShareButtons
+              url={url}
+              title={post.title}
+              description={post.description}
+            />
+          </footer>
+        </article>
+
+        {/* Aviso y CTA */}
+        <section className="bg-primary/10 rounded-2xl p-6 lg:p-8 border border-primary/20 mb-12">
+          <h2 className="font-display text-2xl font-bold text-foreground mb-2">
+            {t('blog.ctaTitle')}
+          </h2>
+          <p className="text-muted-foreground mb-6">{t('blog.disclaimer')}</p>
+          <Button variant="hero" size="lg" asChild>
+            <a
+              href={localizePath('/#agenda')}
+              onClick={() =>
+                track('cta_click', {
+                  cta_name: 'Agendar cita',
+                  cta_location: `Blog ${post.slug}`,
+                })
+              }
+            >
+              <Calendar className="w-5 h-5" />
+              {t('servicePage.book')}
+            </a>
+          </Button>
+        </section>
+
+        {/* Servicios relacionados (enlazado interno) */}
+        {relatedServices.length > 0 && (
+          <section>
+            <h2 className="font-display text-xl font-bold text-foreground mb-4">
+              {t('blog.relatedServices')}
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {relatedServices.map((specialty) => (
+                <li key={specialty.slug}>
+                  <Link
+                    to={localizePath(`/servicios/${specialty.slug}`)}
+                    className="group inline-flex items-center gap-1.5 px-4 py-2 rounded-full bg-secondary text-secondary-foreground text-sm font-semibold hover:bg-primary hover:text-primary-foreground transition-colors"
+                  >
+                    {specialty.title}
+                    <ArrowRight className="w-3.5 h-3.5 group-hover:translate-x-0.5 transition-transform" />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+/**
+ * Artículo del blog (/blog/:slug), escrito en MDX (src/content/blog/)
+ */
+const Articulo = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { locale } = useTranslation();
+  const post = getBlogPostBySlug(slug, locale);
+
+  if (!post) {
+    return <NotFound />;
+  }
+
+  return <ArticuloContent key={`${locale}-${post.slug}`} post={post} />;
+};
+
+export default Articulo;
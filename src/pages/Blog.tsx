@@ -0,0 +1,159 @@
+import { Link, useParams } from 'react-router-dom';
+import { ArrowRight, Clock, Rss } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ScrollAnimated } from '@/components/ScrollAnimated';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import { BLOG_CATEGORIES } from '@/content';
+import {
+  BLOG_FEED_PATH,
+  BLOG_PATH,
+  blogCategoryPath,
+  blogPostPath,
+  formatBlogDate,
+} from '@/lib/blog';
+import NotFound from './NotFound';
+
+const chipClassName = (active: boolean) =>
+  `inline-flex px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
+    active
+      ? 'bg-primary text-primary-foreground'
+      : 'bg-secondary text-secondary-foreground hover:bg-primary hover:text-primary-foreground'
+  }`;
+
+/**
+ * Índice del blog (/blog) y de cada categoría (/blog/categoria/:category)
+ */
+const Blog = () => {
+  const { category: categoryParam } = useParams<{ category: string }>();
+  const { locale, t, localizePath } = useTranslation();
+  const { blogPosts } = useContent();
+  const category = BLOG_CATEGORIES.find((item) => item === categoryParam);
+
+  if (categoryParam !== undefined && !category) {
+    return <NotFound />;
+  }
+
+  const categoryName = category && t(`blog.categories.${category}`);
+  const posts = category
+    ? blogPosts.filter((post) => post.category === category)
+    : blogPosts;
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={
+          categoryName
+            ? t('blog.categoryMetaTitle', { category: categoryName })
+            : t('blog.title')
+        }
+        description={
+          categoryName
+            ? t('blog.categoryDescription', { category: categoryName })
+            : t('blog.description')
+        }
+      />
+      <Navbar />
+      <main className="container mx-auto px-4 py-12 lg:py-24 max-w-5xl">
+        {/* Header */}
+        <ScrollAnimated animation="fade-up">
+          <header className="mb-10">
+            <span className="inline-block text-sm font-semibold uppercase tracking-wider text-primary mb-3">
+              {t('blog.tagline')}
+            </span>
+            <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
+              {categoryName ?? t('blog.title')}
+            </h1>
+            <p className="text-lg text-muted-foreground leading-relaxed mb-4 max-w-3xl">
+              {t('blog.intro')}
+            </p>
+            <a
+              href={localizePath(BLOG_FEED_PATH)}
+              className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-primary transition-colors"
+            >
+              <Rss className="w-4 h-4" />
+              {t('blog.rss')}
+            </a>
+          </header>
+        </ScrollAnimated>
+
+        {/* Categorías */}
+        <nav aria-label={t('blog.categoriesLabel')} className="mb-10">
+          <ul className="flex flex-wrap gap-2">
+            <li>
+              <Link
+                to={localizePath(BLOG_PATH)}
+                className={chipClassName(!category)}
+                aria-current={!category ? 'page' : undefined}
+              >
+                {t('blog.allCategories')}
+              </Link>
+            </li>
+            {BLOG_CATEGORIES.map((item) => (
+              <li key={item}>
+                <Link
+                  to={localizePath(blogCategoryPath(item))}
+                  className={chipClassName(item === category)}
+                  aria-current={item === category ? 'page' : undefined}
+                >
+                  {t(`blog.categories.${item}`)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        {/* Artículos */}
+        {posts.length === 0 ? (
+          <p className="text-muted-foreground">{t('blog.empty')}</p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {posts.map((post) => (
+              <ScrollAnimated key={post.slug} animation="fade-up" delay={100}>
+                <article className="group h-full flex flex-col bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50 hover:shadow-medium transition-shadow">
+                  <span className="text-xs font-semibold uppercase tracking-wider text-primary mb-3">
+                    {t(`blog.categories.${post.category}`)}
+                  </span>
+                  <h2 className="font-display text-xl lg:text-2xl font-bold text-foreground mb-3">
+                    <Link
+                      to={localizePath(blogPostPath(post.slug))}
+                      className="hover:text-primary transition-colors"
+                    >
+                      {post.title}
+                    </Link>
+                  </h2>
+                  <p className="text-muted-foreground leading-relaxed mb-6 flex-1">
+                    {post.description}
+                  </p>
+                  <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground">
+                    <span className="inline-flex items-center gap-1.5">
+                      <time dateTime={post.date}>
+                        {formatBlogDate(post.date, locale)}
+                      </time>
+                      <span aria-hidden="true">·</span>
+                      <Clock className="w-4 h-4" />
+                      {t('blog.readingTime', { minutes: post.readingTime })}
+                    </span>
+                    <Link
+                      to={localizePath(blogPostPath(post.slug))}
+                      className="inline-flex items-center gap-1 font-semibold text-primary"
+                      aria-label={`${t('blog.readMore')}: ${post.title}`}
+                    >
+                      {t('blog.readMore')}
+                      <ArrowRight className="w-4 h-4 group-hover:translate-x-0.5 transition-transform" />
+                    </Link>
+                  </div>
+                </article>
+              </ScrollAnimated>
+            ))}
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Blog;
@@ -0,0 +1,305 @@
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Calendar,
+  Clock,
+  MapPin,
+  MessageCircle,
+  Phone,
+  Video,
+} from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ScrollAnimated } from '@/components/ScrollAnimated';
+import { LazyMapIframe } from '@/components/LazyMapIframe';
+import { ClinicGallery } from '@/components/ClinicGallery';
+import { OpeningStatusBadge } from '@/components/OpeningStatusBadge';
+import { Button } from '@/components/ui/button';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import { getGalleryImagesByLocation } from '@/content';
+import {
+  DOCTORALIA_ADDRESSES,
+  getAddressBySlug,
+  getDoctoraliaBookingUrl,
+  getGoogleMapsEmbedUrl,
+  localizeAddress,
+  type DoctoraliaAddress,
+} from '@/lib/doctoralia-addresses';
+import { translate, type Locale } from '@/lib/i18n';
+import { formatWeeklySchedule } from '@/lib/opening-hours';
+import { track } from '@/lib/analytics';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import NotFound from './NotFound';
+import { siteConfig } from '@/lib/site-config';
+
+// Título y descripción SEO según el tipo de consultorio
+const getLocationMeta = (address: DoctoraliaAddress, locale: Locale) => {
+  if (address.isOnline || !address.postalAddress) {
+    return {
+      title: translate(locale, 'clinicPage.meta.onlineTitle'),
+      description: translate(locale, 'clinicPage.meta.onlineDescription'),
+    };
+  }
+  const { addressLocality, addressRegion } = address.postalAddress;
+  return {
+    title: translate(locale, 'clinicPage.meta.title', {
+      locality: addressLocality,
+      region: addressRegion,
+    }),
+    description: translate(locale, 'clinicPage.meta.description', {
+      address: address.address,
+    }),
+  };
+};
+
+const ConsultorioContent = ({
+  address: baseAddress,
+}: {
+  address: DoctoraliaAddress;
+}) => {
+  const { locale, t, localizePath } = useTranslation();
+  const { specialties } = useContent();
+  // Textos en el idioma de la página; las etiquetas de analytics usan el
+  // nombre en español (baseAddress) en todos los idiomas
+  const address = localizeAddress(baseAddress, locale);
+  const meta = getLocationMeta(address, locale);
+  const images = getGalleryImagesByLocation(address.slug, locale);
+  const bookingUrl = getDoctoraliaBookingUrl(address);
+  const mapUrl = address.mapUrl;
+  const otherAddresses = DOCTORALIA_ADDRESSES.filter(
+    (other) => other.slug !== address.slug,
+  ).map((other) => localizeAddress(other, locale));
+  const whatsapp = buildWhatsAppLink({
+    intent: 'booking',
+    location: address.slug,
+    locale,
+  });
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={meta.title}
+        description={meta.description}
+        structuredDataImages={images.map((image) => image.fallback)}
+      />
+      <Navbar />
+      <main className="container mx-auto px-4 py-12 lg:py-24 max-w-5xl">
+        {/* Breadcrumb */}
+        <nav aria-label="Breadcrumb" className="mb-8 text-sm">
+          <Link
+            to={localizePath('/#contacto')}
+            className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-primary transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('clinicPage.allClinics')}
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <ScrollAnimated animation="fade-up">
+          <header className="mb-12">
+            <div className="w-16 h-16 rounded-2xl gradient-hero flex items-center justify-center mb-4">
+              {address.isOnline ? (
+                <Video className="w-8 h-8 text-primary-foreground" />
+              ) : (
+                <MapPin className="w-8 h-8 text-primary-foreground" />
+              )}
+            </div>
+            <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
+              {address.name}
+            </h1>
+            <div className="space-y-2 text-muted-foreground mb-6">
+              <p className="flex items-start gap-2">
+                <MapPin className="w-5 h-5 shrink-0 mt-0.5 text-primary" />
+                <span>{address.address}</span>
+              </p>
+              <p className="flex items-start gap-2">
+                <Clock className="w-5 h-5 shrink-0 mt-0.5 text-primary" />
+                <span className="flex flex-col gap-0.5">
+                  <span>{formatWeeklySchedule(address.schedule, locale)}</span>
+                  <OpeningStatusBadge
+                    schedules={address.schedule}
+                    className="text-sm font-semibold text-foreground"
+                  />
+                </span>
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button variant="hero" size="lg" asChild>
+                <a
+                  href={bookingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() =>
+                    track('external_link_click', {
+                      link_url: bookingUrl,
+                      link_text: `Reservar en Doctoralia - ${baseAddress.name}`,
+                    })
+                  }
+                >
+                  <Calendar className="w-5 h-5" />
+                  {t('clinicPage.bookDoctoralia')}
+                </a>
+              </Button>
+              <Button variant="outline" size="lg" asChild>
+                <a
+                  href={whatsapp.href}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  onClick={() => trackWhatsAppLink(whatsapp, baseAddress.name)}
+                >
+                  <MessageCircle className="w-5 h-5" />
+                  {t('common.whatsapp')}
+                </a>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <a
+                  href={siteConfig.telHref}
+                  onClick={() =>
+                    track('phone_click', {
+                      phone_number: siteConfig.phone,
+                      location: baseAddress.name,
+                    })
+                  }
+                >
+                  <Phone className="w-5 h-5" />
+                  {t('contact.call')}
+                </a>
+              </Button>
+            </div>
+          </header>
+        </ScrollAnimated>
+
+        {/* Mapa (solo consultorios físicos) */}
+        {address.coordinates && (
+          <ScrollAnimated animation="fade-up" delay={100}>
+            <section className="bg-card rounded-2xl overflow-hidden shadow-soft border border-border/50 mb-8">
+              <LazyMapIframe
+                src={getGoogleMapsEmbedUrl(
+                  address.coordinates.lat,
+                  address.coordinates.lng,
+                )}
+                title={t('contact.mapTitle', {
+                  name: address.name,
+                  address: address.address,
+                })}
+                className="h-64 md:h-96"
+              />
+              {mapUrl && (
+                <div className="p-4 md:p-6">
+                  <a
+                    href={mapUrl}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="inline-flex items-center gap-1.5 text-sm text-primary font-semibold hover:underline"
+                    onClick={() =>
+                      track('external_link_click', {
+                        link_url: mapUrl,
+                        link_text: `Ver Mapa - ${baseAddress.name}`,
+                      })
+                    }
+                  >
+                    {t('clinicPage.directions')}
+                    <ArrowRight className="w-4 h-4" />
+                  </a>
+                </div>
+              )}
+            </section>
+          </ScrollAnimated>
+        )}
+
+        {/* Consulta en línea: cómo funciona */}
+        {address.isOnline && (
+          <ScrollAnimated animation="fade-up" delay={100}>
+            <section className="bg-primary/10 rounded-2xl p-6 lg:p-8 border border-primary/20 mb-8">
+              <h2 className="font-display text-2xl font-bold text-foreground mb-4">
+                {t('clinicPage.online.title')}
+              </h2>
+              <ol className="space-y-3 text-foreground list-decimal ml-5">
+                <li>{t('clinicPage.online.step1')}</li>
+                <li>{t('clinicPage.online.step2')}</li>
+                <li>{t('clinicPage.online.step3')}</li>
+                <li>{t('clinicPage.online.step4')}</li>
+              </ol>
+            </section>
+          </ScrollAnimated>
+        )}
+
+        {/* Galería del consultorio */}
+        {images.length > 0 && (
+          <ScrollAnimated animation="fade-up" delay={100}>
+            <section className="mb-12">
+              <h2 className="font-display text-2xl font-bold text-foreground mb-6">
+                {t('gallery.eyebrow')}
+              </h2>
+              <ClinicGallery compact images={images} />
+            </section>
+          </ScrollAnimated>
+        )}
+
+        {/* Servicios disponibles (enlazado interno) */}
+        <section className="mb-12">
+          <h2 className="font-display text-xl font-bold text-foreground mb-4">
+            {t('clinicPage.servicesTitle')}
+          </h2>
+          <ul className="flex flex-wrap gap-2">
+            {specialties.map((specialty) => (
+              <li key={specialty.slug}>
+                <Link
+                  to={localizePath(`/servicios/${specialty.slug}`)}
+                  className="group inline-flex items-center gap-1.5 px-4 py-2 rounded-full bg-secondary text-secondary-foreground text-sm font-semibold hover:bg-primary hover:text-primary-foreground transition-colors"
+                >
+                  {specialty.title}
+                  <ArrowRight className="w-3.5 h-3.5 group-hover:translate-x-0.5 transition-transform" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Otros consultorios */}
+        <section>
+          <h2 className="font-display text-xl font-bold text-foreground mb-4">
+            {t('clinicPage.otherLocations')}
+          </h2>
+          <ul className="grid sm:grid-cols-2 gap-4">
+            {otherAddresses.map((other) => (
+              <li key={other.slug}>
+                <Link
+                  to={localizePath(`/consultorio/${other.slug}`)}
+                  className="block p-4 rounded-2xl bg-card shadow-soft border border-border/50 hover:border-primary/30 hover:shadow-glow transition-all duration-300"
+                >
+                  <p className="font-semibold text-foreground">{other.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {other.address}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+const Consultorio = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { locale } = useTranslation();
+  const address = getAddressBySlug(slug);
+
+  if (!address) {
+    return <NotFound />;
+  }
+
+  return (
+    <ConsultorioContent key={`${locale}-${address.slug}`} address={address} />
+  );
+};
+
+export default Consultorio;
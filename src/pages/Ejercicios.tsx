@@ -0,0 +1,308 @@
+import { useEffect, useState } from 'react';
+import { ListChecks, Search } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ScrollAnimated } from '@/components/ScrollAnimated';
+import { ExerciseCard } from '@/components/ExerciseCard';
+import { ExerciseProgramComposer } from '@/components/ExerciseProgramComposer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  EXERCISE_LEVELS,
+  EXERCISE_REGIONS,
+  type Exercise,
+  type ExerciseLevel,
+  type ExerciseRegion,
+} from '@/content';
+import { track } from '@/lib/analytics';
+import {
+  MAX_PROGRAM_EXERCISES,
+  formatDosage,
+  normalizeDosage,
+  parseExerciseProgram,
+  serializeExerciseProgram,
+  type ExerciseProgram,
+} from '@/lib/exercise-program';
+
+const ALL = 'all';
+
+// Búsqueda sin distinguir mayúsculas ni acentos ("ciatica" encuentra "Ciática")
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase();
+
+const searchableText = (exercise: Exercise) =>
+  normalize(
+    [exercise.name, exercise.description, ...exercise.conditions].join(' '),
+  );
+
+interface FilterSelectProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}
+
+const FilterSelect = ({
+  id,
+  label,
+  value,
+  onChange,
+  options,
+}: FilterSelectProps) => (
+  <div className="space-y-1.5">
+    <Label htmlFor={id}>{label}</Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+/**
+ * Catálogo de ejercicios terapéuticos (/ejercicios): búsqueda, filtros por
+ * zona, padecimiento y dificultad, y el editor del programa para casa
+ */
+const Ejercicios = () => {
+  const { locale, t } = useTranslation();
+  const { exercises } = useContent();
+  const [query, setQuery] = useState('');
+  const [region, setRegion] = useState<ExerciseRegion | typeof ALL>(ALL);
+  const [level, setLevel] = useState<ExerciseLevel | typeof ALL>(ALL);
+  const [condition, setCondition] = useState(ALL);
+  const [program, setProgram] = useState<ExerciseProgram>({ exercises: [] });
+  const [restored, setRestored] = useState(false);
+
+  // El programa en edición vive en el fragmento de la URL (como en
+  // /ejercicios/programa): sobrevive a una recarga y "Editar programa" vuelve
+  // aquí con él. Solo existe en el cliente; el prerender sale vacío.
+  useEffect(() => {
+    setProgram(parseExerciseProgram(window.location.hash, exercises));
+    setRestored(true);
+  }, [exercises]);
+
+  useEffect(() => {
+    if (!restored) return;
+    const hash =
+      program.exercises.length > 0
+        ? `#${serializeExerciseProgram(program)}`
+        : '';
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${hash}`,
+    );
+  }, [program, restored]);
+
+  const conditions = [
+    ...new Set(exercises.flatMap((exercise) => exercise.conditions)),
+  ].sort((a, b) => a.localeCompare(b, locale));
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  const filtered = exercises.filter(
+    (exercise) =>
+      (region === ALL || exercise.region === region) &&
+      (level === ALL || exercise.difficulty === level) &&
+      (condition === ALL || exercise.conditions.includes(condition)) &&
+      terms.every((term) => searchableText(exercise).includes(term)),
+  );
+  const hasFilters =
+    terms.length > 0 || region !== ALL || level !== ALL || condition !== ALL;
+  const count = program.exercises.length;
+
+  const clearFilters = () => {
+    setQuery('');
+    setRegion(ALL);
+    setLevel(ALL);
+    setCondition(ALL);
+  };
+
+  const toggleExercise = (exercise: Exercise) => {
+    const selected = program.exercises.some((item) => item.id === exercise.id);
+    if (!selected && count >= MAX_PROGRAM_EXERCISES) return;
+    setProgram({
+      ...program,
+      exercises: selected
+        ? program.exercises.filter((item) => item.id !== exercise.id)
+        : [
+            ...program.exercises,
+            { id: exercise.id, ...normalizeDosage(exercise, {}) },
+          ],
+    });
+    track('exercise_program', {
+      action: selected ? 'remove_exercise' : 'add_exercise',
+      exercise_count: selected ? count - 1 : count + 1,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={t('exercises.metaTitle')}
+        description={t('exercises.description')}
+      />
+      <Navbar />
+      <main className="container mx-auto px-4 py-12 lg:py-24">
+        {/* Header */}
+        <ScrollAnimated animation="fade-up">
+          <header className="mb-10 max-w-3xl">
+            <span className="inline-block text-sm font-semibold uppercase tracking-wider text-primary mb-3">
+              {t('exercises.tagline')}
+            </span>
+            <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
+              {t('exercises.title')}
+            </h1>
+            <p className="text-lg text-muted-foreground leading-relaxed mb-4">
+              {t('exercises.intro')}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {t('exercises.disclaimer')}
+            </p>
+          </header>
+        </ScrollAnimated>
+
+        <div className="grid lg:grid-cols-[1fr_22rem] gap-8 items-start">
+          <div>
+            {/* Búsqueda y filtros */}
+            <div
+              role="search"
+              className="grid sm:grid-cols-2 xl:grid-cols-4 gap-4 mb-6"
+            >
+              <div className="space-y-1.5">
+                <Label htmlFor="exercise-search">
+                  {t('exercises.searchLabel')}
+                </Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="exercise-search"
+                    type="search"
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    placeholder={t('exercises.searchPlaceholder')}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <FilterSelect
+                id="exercise-region"
+                label={t('exercises.regionLabel')}
+                value={region}
+                onChange={(value) => setRegion(value as ExerciseRegion)}
+                options={[
+                  { value: ALL, label: t('exercises.allRegions') },
+                  ...EXERCISE_REGIONS.map((item) => ({
+                    value: item,
+                    label: t(`exercises.regions.${item}`),
+                  })),
+                ]}
+              />
+              <FilterSelect
+                id="exercise-condition"
+                label={t('exercises.conditionLabel')}
+                value={condition}
+                onChange={setCondition}
+                options={[
+                  { value: ALL, label: t('exercises.allConditions') },
+                  ...conditions.map((item) => ({ value: item, label: item })),
+                ]}
+              />
+              <FilterSelect
+                id="exercise-level"
+                label={t('exercises.levelLabel')}
+                value={level}
+                onChange={(value) => setLevel(value as ExerciseLevel)}
+                options={[
+                  { value: ALL, label: t('exercises.allLevels') },
+                  ...EXERCISE_LEVELS.map((item) => ({
+                    value: item,
+                    label: t(`exercises.levels.${item}`),
+                  })),
+                ]}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-muted-foreground">
+              <p aria-live="polite">
+                {t('exercises.results', { count: filtered.length })}
+              </p>
+              {hasFilters && (
+                <Button variant="link" className="px-0" onClick={clearFilters}>
+                  {t('exercises.clearFilters')}
+                </Button>
+              )}
+              {count > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="lg:hidden ml-auto"
+                  onClick={() =>
+                    document
+                      .getElementById('programa')
+                      ?.scrollIntoView({ behavior: 'smooth' })
+                  }
+                >
+                  <ListChecks className="w-4 h-4" />
+                  {t('exercises.program.composerTitle')} ({count})
+                </Button>
+              )}
+            </div>
+
+            {/* Ejercicios */}
+            {filtered.length === 0 ? (
+              <p className="text-muted-foreground">{t('exercises.empty')}</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-6">
+                {filtered.map((exercise) => (
+                  <ExerciseCard
+                    key={exercise.id}
+                    exercise={exercise}
+                    dosage={formatDosage(exercise, locale)}
+                    selected={program.exercises.some(
+                      (item) => item.id === exercise.id,
+                    )}
+                    full={count >= MAX_PROGRAM_EXERCISES}
+                    onToggle={() => toggleExercise(exercise)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Programa para casa */}
+          <aside className="lg:sticky lg:top-8 lg:max-h-[calc(100vh-4rem)] lg:overflow-y-auto">
+            <ExerciseProgramComposer
+              program={program}
+              exercises={exercises}
+              onChange={setProgram}
+            />
+          </aside>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Ejercicios;
@@ -1,4 +1,4 @@
-import { lazy, Suspense, useEffect } from 'react';
+import { lazy, Suspense } from 'react';
 import { Navbar } from '@/components/Navbar';
 import { HeroSection } from '@/components/HeroSection';
 import { TrustBar } from '@/components/TrustBar';
@@ -6,48 +6,11 @@ import { Footer } from '@/components/Footer';
 import { MobileBottomCTA } from '@/components/MobileBottomCTA';
 import { SkipToContent } from '@/components/SkipToContent';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { PageHead } from '@/components/PageHead';
 import { useSectionTracking } from '@/hooks/use-section-tracking';
 import { useHashNavigation } from '@/hooks/use-hash-navigation';
 import { useSectionTimeTracking } from '@/hooks/use-section-time-tracking';
-import { useMetaTags } from '@/hooks/use-meta-tags';
-
-// Genera el schema BreadcrumbList para SEO
-const generateBreadcrumbSchema = () => ({
-  '@context': 'https://schema.org',
-  '@type': 'BreadcrumbList',
-  itemListElement: [
-    {
-      '@type': 'ListItem',
-      position: 1,
-      name: 'Inicio',
-      item: 'https://fisio-movimiento.com/',
-    },
-    {
-      '@type': 'ListItem',
-      position: 2,
-      name: 'Servicios',
-      item: 'https://fisio-movimiento.com/#servicios',
-    },
-    {
-      '@type': 'ListItem',
-      position: 3,
-      name: 'Precios',
-      item: 'https://fisio-movimiento.com/#precios',
-    },
-    {
-      '@type': 'ListItem',
-      position: 4,
-      name: 'Testimonios',
-      item: 'https://fisio-movimiento.com/#testimonios',
-    },
-    {
-      '@type': 'ListItem',
-      position: 5,
-      name: 'Contacto',
-      item: 'https://fisio-movimiento.com/#contacto',
-    },
-  ],
-});
+import { useTranslation } from '@/hooks/use-translation';
 
 // Lazy load components that are below the fold for better initial load performance
 const AboutSection = lazy(() =>
@@ -82,39 +45,11 @@ const FAQSection = lazy(() =>
 );
 
 const Index = () => {
-  // Meta tags para la página principal (unifica con index.html)
-  useMetaTags({
-    title: 'Fisioterapeuta CDMX y Metepec | Analaura Reyes - ATM, Dolor',
-    description:
-      'Fisioterapeuta con doble titulación México-España. Especialista en dolor de espalda, ATM e hipopresivos. CDMX y Metepec. Primera cita $700. ¡Reserva hoy!',
-    url: 'https://fisio-movimiento.com/',
-    type: 'website',
-    twitterTitle: 'Lic. Analaura Reyes Priego | Fisioterapeuta Especializada',
-    twitterDescription:
-      'Fisioterapeuta con doble titulación. Especialista en traumatología, ATM, hipopresivos y manejo del dolor. Consultorios en CDMX y Metepec.',
-  });
+  const { t } = useTranslation();
 
   // Hook para manejar navegación con hash y tracking
   useHashNavigation();
 
-  // Inyectar schema BreadcrumbList para SEO
-  useEffect(() => {
-    const existingScript = document.querySelector(
-      'script[data-breadcrumb-schema]',
-    );
-    if (!existingScript) {
-      const script = document.createElement('script');
-      script.type = 'application/ld+json';
-      script.setAttribute('data-breadcrumb-schema', 'true');
-      script.textContent = JSON.stringify(generateBreadcrumbSchema());
-      document.head.appendChild(script);
-    }
-    return () => {
-      const script = document.querySelector('script[data-breadcrumb-schema]');
-      if (script) script.remove();
-    };
-  }, []);
-
   // Track tiempo en secciones clave (solo si pasa >30 segundos)
   // Esto indica interés real del usuario
   useSectionTimeTracking('servicios', 'Servicios', true);
@@ -141,6 +76,15 @@ const Index = () => {
   return (
     <ErrorBoundary>
       <div className="min-h-screen">
+        <PageHead
+          title={t('meta.home.title')}
+          titleTemplate="%s"
+          description={t('meta.home.description')}
+          ogTitle={t('meta.home.ogTitle')}
+          ogDescription={t('meta.home.ogDescription')}
+          twitterTitle={t('meta.home.twitterTitle')}
+          twitterDescription={t('meta.home.twitterDescription')}
+        />
         <SkipToContent />
         <Navbar />
         <main id="main-content">
@@ -1,7 +1,8 @@
 import { useLocation } from 'react-router-dom';
 import { useEffect } from 'react';
-import { useMetaTags } from '@/hooks/use-meta-tags';
-import { trackEvent } from '@/lib/analytics';
+import { PageHead } from '@/components/PageHead';
+import { useTranslation } from '@/hooks/use-translation';
+import { track } from '@/lib/analytics';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Home, ArrowLeft, Search, Heart, DollarSign, Mail } from 'lucide-react';
@@ -12,19 +13,11 @@ import physio404ImageWebP800 from '@/assets/zen-404-fisio-movimiento.png?w=800&f
 
 const NotFound = () => {
   const location = useLocation();
-
-  // SEO: Meta tags para la página 404
-  useMetaTags({
-    title: '404 - Página no encontrada | FisioAnalaura',
-    description:
-      'La página que buscas no existe. Regresa al inicio o explora nuestros servicios de fisioterapia en CDMX y Metepec.',
-    url: `https://fisio-movimiento.com${location.pathname}`,
-    type: 'website',
-  });
+  const { t, localizePath } = useTranslation();
 
   useEffect(() => {
     // Track 404 error in analytics
-    trackEvent('404_error', {
+    track('not_found', {
       page_path: location.pathname,
       page_url: window.location.href,
     });
@@ -40,6 +33,11 @@ const NotFound = () => {
 
   return (
     <div className="not-found-page relative flex min-h-screen items-center justify-center p-4 sm:p-6 overflow-hidden">
+      <PageHead
+        title={t('notFound.metaTitle')}
+        description={t('notFound.metaDescription')}
+        robots="noindex, follow"
+      />
       {/* Background Image with floating animation */}
       <div className="absolute inset-0 w-full h-full animate-float will-change-transform">
         <picture className="w-full h-full">
@@ -87,11 +85,10 @@ const NotFound = () => {
             style={{ animationDelay: '0.3s' }}
           >
             <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold text-foreground">
-              Página no encontrada
+              {t('notFound.title')}
             </h2>
             <p className="text-base sm:text-lg text-muted-foreground max-w-2xl mx-auto leading-relaxed">
-              Lo sentimos, la página que buscas no existe o ha sido movida. Pero
-              no te preocupes, podemos ayudarte a encontrar lo que necesitas.
+              {t('notFound.description')}
             </p>
           </div>
 
@@ -101,9 +98,9 @@ const NotFound = () => {
             style={{ animationDelay: '0.4s' }}
           >
             <Button asChild size="lg" className="w-full sm:w-auto group">
-              <Link to="/">
+              <Link to={localizePath('/')}>
                 <Home className="mr-2 h-4 w-4 group-hover:scale-110 transition-transform" />
-                Volver al inicio
+                {t('notFound.home')}
               </Link>
             </Button>
             <Button
@@ -112,9 +109,9 @@ const NotFound = () => {
               size="lg"
               className="w-full sm:w-auto group"
             >
-              <Link to="/#servicios">
+              <Link to={localizePath('/#servicios')}>
                 <Search className="mr-2 h-4 w-4 group-hover:scale-110 transition-transform" />
-                Ver servicios
+                {t('notFound.services')}
               </Link>
             </Button>
           </div>
@@ -125,40 +122,40 @@ const NotFound = () => {
             style={{ animationDelay: '0.5s' }}
           >
             <p className="text-sm font-medium text-muted-foreground mb-6">
-              También puedes visitar:
+              {t('notFound.alsoVisit')}
             </p>
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-lg mx-auto">
               <Link
-                to="/#sobre-mi"
+                to={localizePath('/#sobre-mi')}
                 className="group flex flex-col items-center gap-2 p-4 rounded-xl bg-card hover:bg-muted/50 transition-all duration-300 hover:shadow-md border border-border/50 hover:border-primary/30"
               >
                 <div className="p-2 rounded-lg bg-primary/10 group-hover:bg-primary/20 transition-colors">
                   <Heart className="h-5 w-5 text-primary" />
                 </div>
                 <span className="text-sm font-medium text-foreground group-hover:text-primary transition-colors">
-                  Sobre mí
+                  {t('nav.about')}
                 </span>
               </Link>
               <Link
-                to="/#precios"
+                to={localizePath('/#precios')}
                 className="group flex flex-col items-center gap-2 p-4 rounded-xl bg-card hover:bg-muted/50 transition-all duration-300 hover:shadow-md border border-border/50 hover:border-primary/30"
               >
                 <div className="p-2 rounded-lg bg-primary/10 group-hover:bg-primary/20 transition-colors">
                   <DollarSign className="h-5 w-5 text-primary" />
                 </div>
                 <span className="text-sm font-medium text-foreground group-hover:text-primary transition-colors">
-                  Precios
+                  {t('nav.pricing')}
                 </span>
               </Link>
               <Link
-                to="/#contacto"
+                to={localizePath('/#contacto')}
                 className="group flex flex-col items-center gap-2 p-4 rounded-xl bg-card hover:bg-muted/50 transition-all duration-300 hover:shadow-md border border-border/50 hover:border-primary/30"
               >
                 <div className="p-2 rounded-lg bg-primary/10 group-hover:bg-primary/20 transition-colors">
                   <Mail className="h-5 w-5 text-primary" />
                 </div>
                 <span className="text-sm font-medium text-foreground group-hover:text-primary transition-colors">
-                  Contacto
+                  {t('nav.contact')}
                 </span>
               </Link>
             </div>
@@ -175,9 +172,9 @@ const NotFound = () => {
               size="sm"
               className="text-muted-foreground hover:text-foreground"
             >
-              <Link to="/">
+              <Link to={localizePath('/')}>
                 <ArrowLeft className="mr-2 h-4 w-4" />
-                Regresar
+                {t('notFound.back')}
               </Link>
             </Button>
           </div>
@@ -1,22 +1,30 @@
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
 import { ScrollAnimated } from '@/components/ScrollAnimated';
 import { CalendarX, Clock, AlertCircle, CheckCircle } from 'lucide-react';
+import { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { useMetaTags } from '@/hooks/use-meta-tags';
+import { useTranslation } from '@/hooks/use-translation';
+import { LOCALE_INFO } from '@/lib/i18n';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import { siteConfig } from '@/lib/site-config';
 
 const PoliticaCancelacion = () => {
-  useMetaTags({
-    title: 'Política de Cancelación y Reagendación | FisioAnalaura',
-    description:
-      'Política de cancelación y reagendación de citas de fisioterapia. Conoce los tiempos límite, penalizaciones y condiciones para cancelar o reagendar tu cita sin cargo.',
-    url: 'https://fisio-movimiento.com/politica-cancelacion',
-    type: 'article',
-  });
+  const { locale, t, rich, localizePath } = useTranslation();
+  const rescheduleWhatsApp = useMemo(
+    () => buildWhatsAppLink({ intent: 'reschedule', locale }),
+    [locale],
+  );
 
   return (
     <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={t('cancellationPage.metaTitle')}
+        description={t('cancellationPage.metaDescription')}
+        type="article"
+      />
       <Navbar />
       <main className="container mx-auto px-4 py-12 lg:py-24 max-w-4xl">
         <ScrollAnimated animation="fade-up">
@@ -26,12 +34,14 @@ const PoliticaCancelacion = () => {
               <CalendarX className="w-8 h-8 text-primary-foreground" />
             </div>
             <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
-              Política de{' '}
-              <span className="text-primary">Cancelación y Reagendación</span>
+              {t('cancellationPage.titleStart')}{' '}
+              <span className="text-primary">
+                {t('cancellationPage.titleHighlight')}
+              </span>
             </h1>
             <p className="text-muted-foreground">
-              Última actualización:{' '}
-              {new Date().toLocaleDateString('es-MX', {
+              {t('legalPages.lastUpdated')}{' '}
+              {new Date().toLocaleDateString(LOCALE_INFO[locale].hreflang, {
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric',
@@ -42,10 +52,7 @@ const PoliticaCancelacion = () => {
           {/* Introducción */}
           <div className="bg-primary/10 rounded-2xl p-6 lg:p-8 mb-8 border border-primary/20">
             <p className="text-foreground text-lg">
-              En fisioterapia, el tiempo es nuestro activo más valioso. Esta
-              política establece las reglas claras para cancelaciones,
-              reagendaciones y no-presentaciones, garantizando un servicio de
-              calidad para todos nuestros pacientes.
+              {t('cancellationPage.intro')}
             </p>
           </div>
 
@@ -56,56 +63,51 @@ const PoliticaCancelacion = () => {
               <div className="flex items-center gap-3 mb-4">
                 <CheckCircle className="w-6 h-6 text-primary" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  1. Cancelación sin Cargo
+                  {t('cancellationPage.free.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                Puede cancelar su cita <strong>sin ningún cargo</strong> si lo
-                hace con al menos <strong>24 horas de anticipación</strong>a la
-                fecha y hora programada.
+                {rich('cancellationPage.free.text')}
               </p>
               <div className="bg-background/50 rounded-lg p-4 mt-4">
                 <p className="text-sm text-muted-foreground">
-                  <strong>Ejemplo:</strong> Si su cita es el viernes a las 2:00
-                  PM, debe cancelar antes del jueves a las 2:00 PM.
+                  {rich('cancellationPage.free.example')}
                 </p>
               </div>
               <div className="mt-4">
                 <p className="font-semibold text-foreground mb-2">
-                  Formas de cancelar:
+                  {t('cancellationPage.free.howTo')}
                 </p>
                 <ul className="space-y-2 text-foreground ml-4">
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
                     <span>
-                      Llamando al{' '}
+                      {t('cancellationPage.channels.call')}{' '}
                       <a
-                        href="tel:+525565053202"
+                        href={siteConfig.telHref}
                         className="text-primary hover:underline"
                       >
-                        +52 55 6505 3202
+                        {siteConfig.phoneDisplay}
                       </a>
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>Por WhatsApp al mismo número</span>
+                    <span>{t('cancellationPage.channels.whatsapp')}</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>
-                      A través de la plataforma Doctoralia (si reservó en línea)
-                    </span>
+                    <span>{t('cancellationPage.channels.doctoralia')}</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
                     <span>
-                      Enviando un correo a{' '}
+                      {t('cancellationPage.channels.email')}{' '}
                       <a
-                        href="mailto:fisio-movimiento.mx@gmail.com"
+                        href={siteConfig.mailtoHref}
                         className="text-primary hover:underline"
                       >
-                        fisio-movimiento.mx@gmail.com
+                        {siteConfig.email}
                       </a>
                     </span>
                   </li>
@@ -118,19 +120,15 @@ const PoliticaCancelacion = () => {
               <div className="flex items-center gap-3 mb-4">
                 <AlertCircle className="w-6 h-6 text-accent-deep" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  2. Cancelación con Menos de 24 Horas
+                  {t('cancellationPage.late.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                Si cancela su cita con{' '}
-                <strong>menos de 24 horas de anticipación</strong>, se aplicará
-                un cargo del <strong>50% del costo de la sesión</strong>.
+                {rich('cancellationPage.late.text')}
               </p>
               <div className="bg-accent/10 rounded-lg p-4 mt-4 border border-accent/20">
                 <p className="text-sm text-foreground">
-                  <strong>Razón:</strong> Este tiempo no nos permite ofrecer el
-                  espacio a otro paciente que lo necesite. El cargo ayuda a
-                  cubrir los costos operativos del consultorio.
+                  {rich('cancellationPage.late.reason')}
                 </p>
               </div>
             </section>
@@ -140,24 +138,15 @@ const PoliticaCancelacion = () => {
               <div className="flex items-center gap-3 mb-4">
                 <AlertCircle className="w-6 h-6 text-destructive" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  3. No-Presentación (No-Show)
+                  {t('cancellationPage.noShow.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                <strong>
-                  Las sesiones a las que no se asista (sin previo aviso) se
-                  tomarán como sesiones dadas.
-                </strong>
+                <strong>{t('cancellationPage.noShow.text')}</strong>
               </p>
               <div className="bg-destructive/10 rounded-lg p-4 mt-4 border border-destructive/20">
                 <p className="text-sm text-foreground">
-                  <strong>Importante:</strong> Las citas no presentadas sin
-                  aviso previo afectan a otros pacientes que podrían haber
-                  utilizado ese horario. Por favor, siempre notifique si no
-                  podrá asistir.{' '}
-                  <strong>
-                    No hay reembolsos en caso de cancelación o no-presentación.
-                  </strong>
+                  {rich('cancellationPage.noShow.important')}
                 </p>
               </div>
             </section>
@@ -167,53 +156,40 @@ const PoliticaCancelacion = () => {
               <div className="flex items-center gap-3 mb-4">
                 <Clock className="w-6 h-6 text-primary" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  4. Tolerancia de Retardo
+                  {t('cancellationPage.lateArrival.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                Entendemos que pueden surgir imprevistos. Si llega tarde a su
-                cita:
+                {t('cancellationPage.lateArrival.intro')}
               </p>
               <div className="bg-primary/10 rounded-lg p-4 mb-4 border border-primary/20">
                 <p className="text-foreground font-semibold mb-2">
-                  ⚠️ Política de retardo:
+                  ⚠️ {t('cancellationPage.lateArrival.policyTitle')}
                 </p>
                 <p className="text-foreground">
-                  <strong>
-                    Se le dará únicamente el tiempo restante de la sesión
-                  </strong>{' '}
-                  según la hora de llegada. La cita no se considera cancelada,
-                  pero el tiempo de atención será proporcional al tiempo
-                  disponible.
+                  {rich('cancellationPage.lateArrival.policy')}
                 </p>
               </div>
               <div className="bg-background/50 rounded-lg p-4">
                 <p className="text-sm text-foreground mb-2">
-                  <strong>Ejemplos:</strong>
+                  <strong>
+                    {t('cancellationPage.lateArrival.examplesTitle')}
+                  </strong>
                 </p>
                 <ul className="space-y-2 text-sm text-muted-foreground ml-4">
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>
-                      Si su cita es de 60 minutos y llega 15 minutos tarde,
-                      recibirá 45 minutos de atención
-                    </span>
+                    <span>{t('cancellationPage.lateArrival.example1')}</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>
-                      Si llega 30 minutos tarde a una sesión de 60 minutos,
-                      recibirá 30 minutos de atención
-                    </span>
+                    <span>{t('cancellationPage.lateArrival.example2')}</span>
                   </li>
                 </ul>
               </div>
               <div className="bg-background/50 rounded-lg p-4 mt-4">
                 <p className="text-sm text-muted-foreground">
-                  <strong>Recomendación:</strong> Si sabe que llegará tarde,
-                  llámenos con anticipación. Podremos evaluar si es posible
-                  ajustar su horario o reagendar su cita para aprovechar el
-                  tiempo completo de la sesión.
+                  {rich('cancellationPage.lateArrival.recommendation')}
                 </p>
               </div>
             </section>
@@ -223,61 +199,53 @@ const PoliticaCancelacion = () => {
               <div className="flex items-center gap-3 mb-4">
                 <CalendarX className="w-6 h-6 text-primary" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  5. Reagendación de Citas
+                  {t('cancellationPage.reschedule.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                Para reprogramar una cita, debe avisar con al menos{' '}
-                <strong>3 horas de anticipación</strong>.
+                {rich('cancellationPage.reschedule.text')}
               </p>
               <div className="bg-primary/10 rounded-lg p-4 mb-4 border border-primary/20">
                 <p className="text-foreground font-semibold mb-2">
-                  ⚠️ Condiciones importantes:
+                  ⚠️ {t('cancellationPage.reschedule.conditionsTitle')}
                 </p>
                 <ul className="space-y-2 text-foreground ml-4">
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>
-                      Las citas reprogramadas se podrán reagendar{' '}
-                      <strong>únicamente en esa misma semana</strong> (sujeto a
-                      disponibilidad de horarios)
-                    </span>
+                    <span>{rich('cancellationPage.reschedule.sameWeek')}</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
                     <span>
-                      Si no hay disponibilidad en esa semana, la sesión se
-                      considerará como <strong>sesión dada</strong>
+                      {rich('cancellationPage.reschedule.noAvailability')}
                     </span>
                   </li>
                 </ul>
               </div>
               <div className="mt-4">
                 <p className="font-semibold text-foreground mb-2">
-                  Formas de reprogramar:
+                  {t('cancellationPage.reschedule.howTo')}
                 </p>
                 <ul className="space-y-2 text-foreground ml-4">
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
                     <span>
-                      Llamando al{' '}
+                      {t('cancellationPage.channels.call')}{' '}
                       <a
-                        href="tel:+525565053202"
+                        href={siteConfig.telHref}
                         className="text-primary hover:underline"
                       >
-                        +52 55 6505 3202
+                        {siteConfig.phoneDisplay}
                       </a>
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>Por WhatsApp al mismo número</span>
+                    <span>{t('cancellationPage.channels.whatsapp')}</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary mt-1">•</span>
-                    <span>
-                      A través de la plataforma Doctoralia (si reservó en línea)
-                    </span>
+                    <span>{t('cancellationPage.channels.doctoralia')}</span>
                   </li>
                 </ul>
               </div>
@@ -286,23 +254,17 @@ const PoliticaCancelacion = () => {
             {/* Emergencias */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                8. Excepciones y Emergencias
+                {t('cancellationPage.emergencies.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Entendemos que pueden surgir situaciones de emergencia. En casos
-                justificados (emergencias médicas, fallecimientos familiares,
-                desastres naturales), evaluaremos cada situación de manera
-                individual y podremos hacer excepciones a esta política.
+                {t('cancellationPage.emergencies.text')}
               </p>
               <p className="text-muted-foreground text-sm">
-                Por favor, comuníquese con nosotros lo antes posible para que
-                podamos evaluar su situación.
+                {t('cancellationPage.emergencies.contact')}
               </p>
               <div className="bg-accent/10 rounded-lg p-4 mt-4 border border-accent/20">
                 <p className="text-sm text-foreground">
-                  <strong>Nota:</strong> Aún en casos de emergencia, los
-                  paquetes mantienen su vigencia de 6 semanas y no son
-                  reembolsables.
+                  {rich('cancellationPage.emergencies.note')}
                 </p>
               </div>
             </section>
@@ -310,43 +272,31 @@ const PoliticaCancelacion = () => {
             {/* Paquetes de sesiones */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                6. Política de Paquetes de Sesiones
+                {t('cancellationPage.packages.title')}
               </h2>
               <div className="space-y-4">
                 <div className="bg-accent/10 rounded-lg p-4 border border-accent/20">
                   <p className="font-semibold text-foreground mb-2">
-                    Vigencia de Paquetes:
+                    {t('cancellationPage.packages.validityTitle')}
                   </p>
                   <p className="text-foreground">
-                    Los{' '}
-                    <strong>
-                      paquetes de 10 sesiones tienen vigencia de 6 semanas
-                    </strong>{' '}
-                    desde la fecha de compra. Las sesiones caducan
-                    automáticamente después de este período,{' '}
-                    <strong>se tomen o no se tomen</strong>.
+                    {rich('cancellationPage.packages.validity')}
                   </p>
                 </div>
                 <div className="bg-background/50 rounded-lg p-4">
                   <p className="font-semibold text-foreground mb-2">
-                    Transferibilidad:
+                    {t('cancellationPage.packages.transferTitle')}
                   </p>
                   <p className="text-foreground">
-                    Los paquetes son{' '}
-                    <strong>personales y no son transferibles</strong>. Las
-                    sesiones no pueden ser utilizadas por otra persona diferente
-                    al titular del paquete.
+                    {rich('cancellationPage.packages.transfer')}
                   </p>
                 </div>
                 <div className="bg-destructive/10 rounded-lg p-4 border border-destructive/20">
                   <p className="font-semibold text-foreground mb-2">
-                    Reembolsos:
+                    {t('cancellationPage.packages.refundsTitle')}
                   </p>
                   <p className="text-foreground">
-                    <strong>No hay reembolsos en caso de cancelación</strong>,
-                    no-presentación, o vencimiento del paquete. Una vez
-                    adquirido el paquete, el pago no es reembolsable bajo
-                    ninguna circunstancia.
+                    {rich('cancellationPage.packages.refunds')}
                   </p>
                 </div>
               </div>
@@ -355,38 +305,28 @@ const PoliticaCancelacion = () => {
             {/* Aplicación de cargos */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                7. Aplicación de Cargos y Sesiones
+                {t('cancellationPage.charges.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Para pacientes con paquetes de sesiones:
+                {t('cancellationPage.charges.intro')}
               </p>
               <ul className="space-y-2 text-foreground ml-4">
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    Las sesiones no asistidas (sin previo aviso) se descontarán
-                    del paquete como <strong>sesiones dadas</strong>
-                  </span>
+                  <span>{rich('cancellationPage.charges.noShow')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    Las sesiones canceladas con menos de 3 horas de anticipación
-                    también se considerarán como <strong>sesiones dadas</strong>
-                  </span>
+                  <span>{rich('cancellationPage.charges.lateCancel')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    No se realizarán reembolsos por sesiones no utilizadas
-                    dentro del período de vigencia
-                  </span>
+                  <span>{t('cancellationPage.charges.noRefunds')}</span>
                 </li>
               </ul>
               <div className="bg-background/50 rounded-lg p-4 mt-4">
                 <p className="text-sm text-foreground">
-                  <strong>Métodos de pago aceptados:</strong> Efectivo,
-                  transferencia bancaria, tarjeta de débito/crédito
+                  {rich('cancellationPage.charges.paymentMethods')}
                 </p>
               </div>
             </section>
@@ -394,67 +334,68 @@ const PoliticaCancelacion = () => {
             {/* Recordatorios */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                9. Recordatorios de Citas
+                {t('cancellationPage.reminders.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Para ayudarle a recordar sus citas, enviamos recordatorios:
+                {t('cancellationPage.reminders.intro')}
               </p>
               <ul className="space-y-2 text-foreground ml-4">
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    48 horas antes de su cita (por WhatsApp o correo
-                    electrónico)
-                  </span>
+                  <span>{t('cancellationPage.reminders.first')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>24 horas antes de su cita (por WhatsApp o SMS)</span>
+                  <span>{t('cancellationPage.reminders.second')}</span>
                 </li>
               </ul>
               <p className="text-muted-foreground text-sm mt-4">
-                Asegúrese de que sus datos de contacto estén actualizados para
-                recibir estos recordatorios.
+                {t('cancellationPage.reminders.note')}
               </p>
             </section>
 
             {/* Contacto */}
             <section className="bg-primary/10 rounded-2xl p-6 lg:p-8 border border-primary/20">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                ¿Tiene preguntas sobre esta política?
+                {t('cancellationPage.questions.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Si tiene alguna duda o necesita aclaración sobre nuestra
-                política de cancelación y reagendación, no dude en contactarnos:
+                {t('cancellationPage.questions.text')}
               </p>
               <div className="space-y-2 text-foreground">
                 <p>
-                  • Teléfono:{' '}
+                  • {t('legalPages.phone')}{' '}
                   <a
-                    href="tel:+525565053202"
+                    href={siteConfig.telHref}
                     className="text-primary hover:underline font-semibold"
                   >
-                    +52 55 6505 3202
+                    {siteConfig.phoneDisplay}
                   </a>
                 </p>
                 <p>
-                  • WhatsApp:{' '}
+                  • {t('common.whatsapp')}:{' '}
                   <a
-                    href="https://wa.me/525565053202"
+                    href={rescheduleWhatsApp.href}
                     target="_blank"
                     rel="noopener noreferrer nofollow"
+                    onClick={() =>
+                      trackWhatsAppLink(
+                        rescheduleWhatsApp,
+                        'Politica Cancelacion',
+                      )
+                    }
                     className="text-primary hover:underline font-semibold"
                   >
-                    Enviar mensaje
+                    {t('cancellationPage.questions.sendMessage')}
                   </a>
                 </p>
                 <p>
-                  • Correo:{' '}
+                  • {t('legalPages.email')}{' '}
                   <a
-                    href="mailto:fisio-movimiento.mx@gmail.com"
+                    href={siteConfig.mailtoHref}
                     className="text-primary hover:underline font-semibold"
                   >
-                    fisio-movimiento.mx@gmail.com
+                    {siteConfig.email}
                   </a>
                 </p>
               </div>
@@ -464,7 +405,7 @@ const PoliticaCancelacion = () => {
           {/* Botón de regreso */}
           <div className="mt-12 text-center">
             <Button asChild variant="outline" size="lg">
-              <Link to="/">Volver al inicio</Link>
+              <Link to={localizePath('/')}>{t('notFound.home')}</Link>
             </Button>
           </div>
         </ScrollAnimated>
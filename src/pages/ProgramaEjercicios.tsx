@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Printer } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ExerciseInstructions } from '@/components/ExerciseCard';
+import { ExerciseProgramShare } from '@/components/ExerciseProgramShare';
+import { Button } from '@/components/ui/button';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import { track } from '@/lib/analytics';
+import {
+  EXERCISES_PATH,
+  EXERCISE_PROGRAM_PATH,
+  formatDosage,
+  parseExerciseProgram,
+  serializeExerciseProgram,
+  type ExerciseProgram,
+} from '@/lib/exercise-program';
+import { LOCALE_INFO } from '@/lib/i18n';
+import { absoluteUrl, siteConfig } from '@/lib/site-config';
+
+/**
+ * Programa de ejercicios para casa (/ejercicios/programa#e=...), listo para
+ * imprimir o guardar como PDF desde el navegador
+ *
+ * El programa se lee del fragmento de la URL (lib/exercise-program.ts), que
+ * solo existe en el cliente: el prerender es la página vacía y el programa se
+ * dibuja tras el montaje. No se indexa (cada enlace es de un paciente).
+ */
+const ProgramaEjercicios = () => {
+  const { locale, t, localizePath } = useTranslation();
+  const { exercises } = useContent();
+  const [program, setProgram] = useState<ExerciseProgram | null>(null);
+  const [date, setDate] = useState('');
+
+  useEffect(() => {
+    const read = () =>
+      setProgram(parseExerciseProgram(window.location.hash, exercises));
+    read();
+    setDate(
+      new Date().toLocaleDateString(LOCALE_INFO[locale].hreflang, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      }),
+    );
+    window.addEventListener('hashchange', read);
+    return () => window.removeEventListener('hashchange', read);
+  }, [exercises, locale]);
+
+  const items = (program?.exercises ?? []).flatMap((item) => {
+    const exercise = exercises.find((entry) => entry.id === item.id);
+    return exercise ? [{ item, exercise }] : [];
+  });
+  const hash = program ? serializeExerciseProgram(program) : '';
+  const count = items.length;
+
+  const handlePrint = () => {
+    track('exercise_program', { action: 'print', exercise_count: count });
+    window.print();
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0 print:pt-0">
+      <PageHead
+        title={t('exercises.program.title')}
+        description={t('exercises.program.description')}
+        robots="noindex, follow"
+      />
+      <div className="print:hidden">
+        <Navbar />
+      </div>
+      <main className="container mx-auto px-4 py-12 lg:py-24 max-w-3xl print:max-w-none print:p-0">
+        <nav aria-label="Breadcrumb" className="mb-8 text-sm print:hidden">
+          <Link
+            to={localizePath(EXERCISES_PATH)}
+            className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-primary transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('exercises.title')}
+          </Link>
+        </nav>
+
+        {/* Encabezado (también en la hoja impresa) */}
+        <header className="mb-8 border-b border-border pb-6">
+          <p className="font-display text-lg font-bold text-foreground">
+            Fisio<span className="text-primary">Analaura</span>
+          </p>
+          <p className="text-sm text-muted-foreground mb-6">
+            {t('exercises.program.preparedBy', {
+              name: siteConfig.professional.name,
+              license: siteConfig.professional.license,
+            })}
+          </p>
+          <h1 className="font-display text-3xl lg:text-4xl font-bold text-foreground mb-3 print:text-2xl">
+            {t('exercises.program.title')}
+          </h1>
+          {program?.patient && (
+            <p className="text-foreground font-semibold">
+              {t('exercises.program.patientLine', { name: program.patient })}
+            </p>
+          )}
+          {date && (
+            <p className="text-sm text-muted-foreground">
+              {t('exercises.program.dateLine', { date })}
+            </p>
+          )}
+        </header>
+
+        {program && count === 0 && (
+          <div className="space-y-4">
+            <p className="text-muted-foreground">
+              {t('exercises.program.empty')}
+            </p>
+            <Button variant="hero" asChild>
+              <Link to={localizePath(EXERCISES_PATH)}>
+                {t('exercises.program.browse')}
+              </Link>
+            </Button>
+          </div>
+        )}
+
+        {count > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2 mb-8 print:hidden">
+              <Button variant="hero" onClick={handlePrint}>
+                <Printer className="w-4 h-4" />
+                {t('exercises.program.print')}
+              </Button>
+              <ExerciseProgramShare
+                url={absoluteUrl(
+                  `${localizePath(EXERCISE_PROGRAM_PATH)}#${hash}`,
+                )}
+                exerciseCount={count}
+              />
+              <Button variant="ghost" asChild>
+                <Link to={`${localizePath(EXERCISES_PATH)}#${hash}`}>
+                  <Pencil className="w-4 h-4" />
+                  {t('exercises.program.edit')}
+                </Link>
+              </Button>
+            </div>
+
+            {program?.notes && (
+              <section className="mb-8 rounded-xl bg-secondary/60 p-4 print:border print:border-border">
+                <h2 className="font-semibold text-foreground mb-1">
+                  {t('exercises.program.notes')}
+                </h2>
+                <p className="text-muted-foreground whitespace-pre-line">
+                  {program.notes}
+                </p>
+              </section>
+            )}
+
+            <ol className="space-y-6 mb-8">
+              {items.map(({ item, exercise }, index) => (
+                <li
+                  key={item.id}
+                  className="break-inside-avoid rounded-2xl border border-border p-5 sm:flex sm:gap-6 print:flex print:gap-6 print:rounded-none print:border-x-0 print:border-t-0 print:px-0"
+                >
+                  <img
+                    src={exercise.image}
+                    alt={exercise.name}
+                    width={240}
+                    height={160}
+                    className="w-full max-w-[240px] sm:w-48 print:w-40 shrink-0 self-start mb-4 sm:mb-0"
+                  />
+                  <div className="flex-1">
+                    <h2 className="font-display text-xl font-bold text-foreground">
+                      {index + 1}. {exercise.name}
+                    </h2>
+                    <p className="text-primary font-semibold mb-3">
+                      {formatDosage(item, locale)}
+                    </p>
+                    <ExerciseInstructions exercise={exercise} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <footer className="border-t border-border pt-4 text-sm text-muted-foreground space-y-1">
+              <p>{t('exercises.program.safety')}</p>
+              <p>
+                {t('exercises.program.contact', {
+                  phone: siteConfig.phoneDisplay,
+                })}
+              </p>
+            </footer>
+          </>
+        )}
+      </main>
+      <div className="print:hidden">
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default ProgramaEjercicios;
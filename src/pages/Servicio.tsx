@@ -0,0 +1,280 @@
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Calendar,
+  Check,
+  HelpCircle,
+  MessageCircle,
+} from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
+import { ScrollAnimated } from '@/components/ScrollAnimated';
+import { SpecialtyIcon } from '@/components/SpecialtyIcon';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { useContent } from '@/hooks/use-content';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  getSpecialtyBySlug,
+  getSpecialtyServices,
+  type Specialty,
+} from '@/content';
+import { track } from '@/lib/analytics';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import NotFound from './NotFound';
+
+const ServicioContent = ({ specialty }: { specialty: Specialty }) => {
+  const { locale, t, localizePath } = useTranslation();
+  const { specialties } = useContent();
+  const services = getSpecialtyServices(specialty, locale);
+  const otherSpecialties = specialties.filter(
+    (other) => other.slug !== specialty.slug,
+  );
+  const whatsapp = buildWhatsAppLink({
+    intent: 'booking',
+    service: specialty.title,
+    locale,
+  });
+  // Las etiquetas de analytics usan el título en español en todos los idiomas
+  const ctaLocation = `Servicio ${getSpecialtyBySlug(specialty.slug)?.title ?? specialty.title}`;
+
+  const bookingButtons = (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <Button variant="hero" size="lg" asChild>
+        <a
+          href={localizePath('/#agenda')}
+          onClick={() =>
+            track('cta_click', {
+              cta_name: 'Agendar cita',
+              cta_location: ctaLocation,
+            })
+          }
+        >
+          <Calendar className="w-5 h-5" />
+          {t('servicePage.book')}
+        </a>
+      </Button>
+      <Button variant="outline" size="lg" asChild>
+        <a
+          href={whatsapp.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={() => trackWhatsAppLink(whatsapp, ctaLocation)}
+        >
+          <MessageCircle className="w-5 h-5" />
+          {t('common.whatsapp')}
+        </a>
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={specialty.seoTitle}
+        titleTemplate="%s"
+        description={specialty.seoDescription}
+      />
+      <Navbar />
+      <main className="container mx-auto px-4 py-12 lg:py-24 max-w-5xl">
+        {/* Breadcrumb */}
+        <nav aria-label="Breadcrumb" className="mb-8 text-sm">
+          <Link
+            to={localizePath('/#servicios')}
+            className="inline-flex items-center gap-1.5 text-muted-foreground hover:text-primary transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('servicePage.allServices')}
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <ScrollAnimated animation="fade-up">
+          <header className="mb-12">
+            <div className="w-16 h-16 rounded-2xl gradient-hero flex items-center justify-center mb-4">
+              <SpecialtyIcon
+                icon={specialty.icon}
+                className="w-8 h-8 text-primary-foreground"
+              />
+            </div>
+            <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
+              {specialty.title}
+            </h1>
+            <p className="text-lg text-muted-foreground leading-relaxed mb-6 max-w-3xl">
+              {specialty.intro}
+            </p>
+            {bookingButtons}
+          </header>
+        </ScrollAnimated>
+
+        {/* ¿Qué tratamos? */}
+        <ScrollAnimated animation="fade-up" delay={100}>
+          <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50 mb-8">
+            <h2 className="font-display text-2xl font-bold text-foreground mb-4">
+              {t('servicePage.treats')}
+            </h2>
+            <ul className="grid sm:grid-cols-2 gap-3">
+              {specialty.treats.map((item) => (
+                <li key={item} className="flex items-start gap-3">
+                  <div className="w-5 h-5 rounded-full bg-primary/10 flex items-center justify-center shrink-0 mt-0.5">
+                    <Check className="w-3 h-3 text-primary" />
+                  </div>
+                  <span className="text-foreground">{item}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </ScrollAnimated>
+
+        {/* Precios */}
+        <ScrollAnimated animation="fade-up" delay={100}>
+          <section className="bg-secondary/50 rounded-2xl p-6 lg:p-8 mb-8">
+            <h2 className="font-display text-2xl font-bold text-foreground mb-4">
+              {t('nav.pricing')}
+            </h2>
+            <ul className="divide-y divide-border/50">
+              {services.map((service) => (
+                <li
+                  key={service.name}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div>
+                    <p className="font-semibold text-foreground">
+                      {service.name}
+                    </p>
+                    {service.description && (
+                      <p className="text-sm text-muted-foreground">
+                        {service.description}
+                      </p>
+                    )}
+                  </div>
+                  <span className="font-display text-xl font-bold text-primary whitespace-nowrap">
+                    {t('servicePage.price', { price: service.price })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-muted-foreground mt-4">
+              {t('servicePage.firstVisit')}{' '}
+              <Link
+                to={localizePath('/#precios')}
+                className="text-primary hover:underline"
+              >
+                {t('services.seeAllPrices')}
+              </Link>
+            </p>
+          </section>
+        </ScrollAnimated>
+
+        {/* Preguntas frecuentes */}
+        <ScrollAnimated animation="fade-up" delay={100}>
+          <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50 mb-8">
+            <h2 className="font-display text-2xl font-bold text-foreground mb-2">
+              {t('servicePage.faqTitle')}
+            </h2>
+            <Accordion
+              type="single"
+              collapsible
+              className="w-full"
+              onValueChange={(value) => {
+                const faq = specialty.faqs.find(
+                  (_, index) => `item-${index}` === value,
+                );
+                if (faq) {
+                  track('faq_interaction', {
+                    question: faq.question.substring(0, 100),
+                    action: 'expand',
+                  });
+                }
+              }}
+            >
+              {specialty.faqs.map((faq, index) => (
+                <AccordionItem
+                  key={index}
+                  value={`item-${index}`}
+                  className="border-b border-border/50 last:border-b-0"
+                >
+                  <AccordionTrigger className="text-left font-semibold text-foreground hover:text-primary py-4 text-base">
+                    <div className="flex items-start gap-3">
+                      <HelpCircle className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+                      <span>{faq.question}</span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="text-muted-foreground leading-relaxed pt-2 pb-4 pl-8">
+                    {faq.answer}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+            <Link
+              to={localizePath('/#faqs')}
+              className="inline-block text-sm text-primary hover:underline mt-4"
+            >
+              {t('servicePage.allFaqs')}
+            </Link>
+          </section>
+        </ScrollAnimated>
+
+        {/* CTA final */}
+        <ScrollAnimated animation="fade-up" delay={100}>
+          <section className="bg-primary/10 rounded-2xl p-6 lg:p-8 border border-primary/20 mb-12">
+            <h2 className="font-display text-2xl font-bold text-foreground mb-2">
+              {t('servicePage.ctaTitle')}
+            </h2>
+            <p className="text-muted-foreground mb-6">
+              {t('servicePage.ctaDescription')}
+            </p>
+            {bookingButtons}
+          </section>
+        </ScrollAnimated>
+
+        {/* Otros servicios (enlazado interno) */}
+        <section>
+          <h2 className="font-display text-xl font-bold text-foreground mb-4">
+            {t('servicePage.otherServices')}
+          </h2>
+          <ul className="flex flex-wrap gap-2">
+            {otherSpecialties.map((other) => (
+              <li key={other.slug}>
+                <Link
+                  to={localizePath(`/servicios/${other.slug}`)}
+                  className="group inline-flex items-center gap-1.5 px-4 py-2 rounded-full bg-secondary text-secondary-foreground text-sm font-semibold hover:bg-primary hover:text-primary-foreground transition-colors"
+                >
+                  {other.title}
+                  <ArrowRight className="w-3.5 h-3.5 group-hover:translate-x-0.5 transition-transform" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+const Servicio = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { locale } = useTranslation();
+  const specialty = getSpecialtyBySlug(slug, locale);
+
+  if (!specialty) {
+    return <NotFound />;
+  }
+
+  return (
+    <ServicioContent
+      key={`${locale}-${specialty.slug}`}
+      specialty={specialty}
+    />
+  );
+};
+
+export default Servicio;
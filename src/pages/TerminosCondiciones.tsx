@@ -1,22 +1,50 @@
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
+import { PageHead } from '@/components/PageHead';
 import { ScrollAnimated } from '@/components/ScrollAnimated';
 import { FileText, AlertTriangle, Shield, CreditCard } from 'lucide-react';
+import { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { useMetaTags } from '@/hooks/use-meta-tags';
+import { useTranslation } from '@/hooks/use-translation';
+import { LOCALE_INFO } from '@/lib/i18n';
+import { buildWhatsAppLink, trackWhatsAppLink } from '@/lib/whatsapp';
+import { siteConfig } from '@/lib/site-config';
+
+// Claves de las listas de los términos (textos en termsPage.* del catálogo)
+const PROHIBITED_USES = [
+  'illegal',
+  'restricted',
+  'malware',
+  'copying',
+] as const;
+const MEDICAL_DISCLAIMERS = [
+  'notAdvice',
+  'noSelfDiagnosis',
+  'consult',
+  'emergency',
+] as const;
+const LIABILITY_EXCLUSIONS = [
+  'damages',
+  'interruptions',
+  'dataLoss',
+  'decisions',
+] as const;
 
 const TerminosCondiciones = () => {
-  useMetaTags({
-    title: 'Términos y Condiciones | FisioAnalaura - Servicios de Fisioterapia',
-    description:
-      'Términos y condiciones de uso del sitio web y servicios de fisioterapia de FisioAnalaura. Conoce las condiciones, métodos de pago y políticas de servicio.',
-    url: 'https://fisio-movimiento.com/terminos-condiciones',
-    type: 'article',
-  });
+  const { locale, t, rich, localizePath } = useTranslation();
+  const questionWhatsApp = useMemo(
+    () => buildWhatsAppLink({ intent: 'question', locale }),
+    [locale],
+  );
 
   return (
     <div className="min-h-screen bg-background pt-24 lg:pt-0">
+      <PageHead
+        title={t('termsPage.metaTitle')}
+        description={t('termsPage.metaDescription')}
+        type="article"
+      />
       <Navbar />
       <main className="container mx-auto px-4 py-12 lg:py-24 max-w-4xl">
         <ScrollAnimated animation="fade-up">
@@ -26,11 +54,14 @@ const TerminosCondiciones = () => {
               <FileText className="w-8 h-8 text-primary-foreground" />
             </div>
             <h1 className="font-display text-3xl lg:text-5xl font-bold text-foreground mb-4">
-              Términos y <span className="text-primary">Condiciones</span>
+              {t('termsPage.titleStart')}{' '}
+              <span className="text-primary">
+                {t('termsPage.titleHighlight')}
+              </span>
             </h1>
             <p className="text-muted-foreground">
-              Última actualización:{' '}
-              {new Date().toLocaleDateString('es-MX', {
+              {t('legalPages.lastUpdated')}{' '}
+              {new Date().toLocaleDateString(LOCALE_INFO[locale].hreflang, {
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric',
@@ -40,13 +71,7 @@ const TerminosCondiciones = () => {
 
           {/* Introducción */}
           <div className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50 mb-8">
-            <p className="text-foreground">
-              Al acceder y utilizar este sitio web y los servicios de
-              fisioterapia ofrecidos por la{' '}
-              <strong>Lic. Analaura Reyes Priego</strong>, usted acepta estar
-              sujeto a los siguientes términos y condiciones. Le recomendamos
-              leerlos cuidadosamente.
-            </p>
+            <p className="text-foreground">{rich('termsPage.intro')}</p>
           </div>
 
           {/* Contenido */}
@@ -54,27 +79,22 @@ const TerminosCondiciones = () => {
             {/* Aceptación */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                1. Aceptación de los Términos
+                {t('termsPage.acceptance.title')}
               </h2>
               <p className="text-foreground">
-                Al utilizar este sitio web, reservar una cita, o utilizar
-                nuestros servicios, usted reconoce que ha leído, entendido y
-                acepta estar vinculado por estos términos y condiciones, así
-                como por nuestra
+                {t('termsPage.acceptance.text')}{' '}
                 <Link
-                  to="/aviso-privacidad"
+                  to={localizePath('/aviso-privacidad')}
                   className="text-primary hover:underline"
                 >
-                  {' '}
-                  Política de Privacidad
+                  {t('legal.privacy')}
                 </Link>{' '}
-                y
+                {t('termsPage.acceptance.and')}{' '}
                 <Link
-                  to="/politica-cancelacion"
+                  to={localizePath('/politica-cancelacion')}
                   className="text-primary hover:underline"
                 >
-                  {' '}
-                  Política de Cancelación
+                  {t('legal.cancellation')}
                 </Link>
                 .
               </p>
@@ -83,20 +103,21 @@ const TerminosCondiciones = () => {
             {/* Información del sitio */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                2. Información del Sitio Web
+                {t('termsPage.owner.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Este sitio web es propiedad y está operado por:
+                {t('termsPage.owner.intro')}
               </p>
               <div className="bg-background/50 rounded-lg p-4">
                 <p className="font-semibold text-foreground">
                   Lic. Analaura Reyes Priego
                 </p>
                 <p className="text-muted-foreground">
-                  Cédula Profesional: 10909109
+                  {t('common.professionalLicense')}:{' '}
+                  {siteConfig.professional.license}
                 </p>
                 <p className="text-muted-foreground mt-2">
-                  Fisioterapeuta registrada y certificada
+                  {t('termsPage.owner.certified')}
                 </p>
               </div>
             </section>
@@ -104,33 +125,16 @@ const TerminosCondiciones = () => {
             {/* Uso del sitio */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                3. Uso del Sitio Web
+                {t('termsPage.use.title')}
               </h2>
-              <p className="text-foreground mb-4">
-                Usted se compromete a utilizar este sitio web de manera legal y
-                apropiada. Está prohibido:
-              </p>
+              <p className="text-foreground mb-4">{t('termsPage.use.intro')}</p>
               <ul className="space-y-2 text-foreground ml-4">
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Utilizar el sitio para fines ilegales o no autorizados
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>Intentar acceder a áreas restringidas del sitio</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>Transmitir virus, malware o código malicioso</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Copiar, modificar o distribuir el contenido sin autorización
-                  </span>
-                </li>
+                {PROHIBITED_USES.map((item) => (
+                  <li key={item} className="flex items-start gap-2">
+                    <span className="text-primary mt-1">•</span>
+                    <span>{t(`termsPage.use.items.${item}`)}</span>
+                  </li>
+                ))}
               </ul>
             </section>
 
@@ -139,96 +143,63 @@ const TerminosCondiciones = () => {
               <div className="flex items-center gap-3 mb-4">
                 <AlertTriangle className="w-6 h-6 text-accent-deep" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  4. Información Médica y Deslinde de Responsabilidad
+                  {t('termsPage.medical.title')}
                 </h2>
               </div>
               <div className="bg-accent/10 rounded-lg p-4 mb-4 border border-accent/20">
                 <p className="text-foreground font-semibold mb-2">
-                  ⚠️ IMPORTANTE:
+                  ⚠️ {t('termsPage.medical.important')}
                 </p>
                 <p className="text-foreground">
-                  La información proporcionada en este sitio web tiene fines
-                  informativos y educativos únicamente.
-                  <strong>
-                    {' '}
-                    No sustituye una consulta médica profesional, un diagnóstico
-                    o un tratamiento personalizado.
-                  </strong>
+                  {rich('termsPage.medical.text')}
                 </p>
               </div>
               <ul className="space-y-2 text-foreground ml-4">
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    La información del sitio no constituye asesoramiento médico
-                    profesional
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    No debe utilizarse para autodiagnóstico o autotratamiento
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Consulte siempre con un profesional de la salud calificado
-                    antes de tomar decisiones sobre su salud
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    En caso de emergencia médica, contacte inmediatamente a los
-                    servicios de emergencia (911)
-                  </span>
-                </li>
+                {MEDICAL_DISCLAIMERS.map((item) => (
+                  <li key={item} className="flex items-start gap-2">
+                    <span className="text-primary mt-1">•</span>
+                    <span>{t(`termsPage.medical.items.${item}`)}</span>
+                  </li>
+                ))}
               </ul>
             </section>
 
             {/* Reserva de citas */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                5. Reserva de Citas y Servicios
+                {t('termsPage.booking.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Al reservar una cita a través de este sitio web o cualquier
-                plataforma asociada (como Doctoralia), usted acepta:
+                {t('termsPage.booking.intro')}
               </p>
               <ul className="space-y-2 text-foreground ml-4">
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>Proporcionar información veraz y completa</span>
+                  <span>{t('termsPage.booking.items.truthful')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
                   <span>
-                    Cumplir con nuestra{' '}
+                    {t('termsPage.booking.items.comply')}{' '}
                     <Link
-                      to="/politica-cancelacion"
+                      to={localizePath('/politica-cancelacion')}
                       className="text-primary hover:underline"
                     >
-                      Política de Cancelación y Reagendación
+                      {t('termsPage.booking.items.policyLink')}
                     </Link>
                   </span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>Llegar puntualmente a su cita</span>
+                  <span>{t('termsPage.booking.items.punctual')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    Comunicar cualquier cambio en su estado de salud antes de la
-                    cita
-                  </span>
+                  <span>{t('termsPage.booking.items.healthChanges')}</span>
                 </li>
               </ul>
               <p className="text-muted-foreground text-sm mt-4">
-                La confirmación de una cita está sujeta a disponibilidad. Nos
-                reservamos el derecho de cancelar o reagendar citas en caso de
-                emergencias o circunstancias imprevistas.
+                {t('termsPage.booking.note')}
               </p>
             </section>
 
@@ -237,26 +208,20 @@ const TerminosCondiciones = () => {
               <div className="flex items-center gap-3 mb-4">
                 <CreditCard className="w-6 h-6 text-primary" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  6. Métodos de Pago
+                  {t('termsPage.payment.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                Aceptamos los siguientes métodos de pago:
+                {t('termsPage.payment.intro')}
               </p>
               <ul className="space-y-2 text-foreground ml-4">
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    <strong>Efectivo:</strong> Pago en el consultorio al momento
-                    de la consulta
-                  </span>
+                  <span>{rich('termsPage.payment.cash')}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
-                  <span>
-                    <strong>Transferencia bancaria:</strong> Se proporcionarán
-                    los datos bancarios al confirmar la cita
-                  </span>
+                  <span>{rich('termsPage.payment.transfer')}</span>
                 </li>
                 {/*  <li className="flex items-start gap-2">
                   <span className="text-primary mt-1">•</span>
@@ -274,48 +239,33 @@ const TerminosCondiciones = () => {
             {/* Precios */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                7. Precios y Tarifas
+                {t('termsPage.prices.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Los precios mostrados en este sitio web están sujetos a cambios
-                sin previo aviso. El precio final de los servicios se confirmará
-                al momento de la reserva de la cita.
+                {t('termsPage.prices.text')}
               </p>
               <p className="text-muted-foreground text-sm">
-                Los precios pueden variar según el tipo de servicio, duración de
-                la sesión, y si es consulta presencial u online.
+                {t('termsPage.prices.note')}
               </p>
             </section>
 
             {/* Propiedad intelectual */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                8. Propiedad Intelectual
+                {t('termsPage.ip.title')}
               </h2>
-              <p className="text-foreground mb-4">
-                Todo el contenido de este sitio web, incluyendo textos,
-                imágenes, logotipos, gráficos, y diseño, es propiedad de la Lic.
-                Analaura Reyes Priego y está protegido por las leyes de
-                propiedad intelectual de México.
-              </p>
+              <p className="text-foreground mb-4">{t('termsPage.ip.text')}</p>
               <p className="text-muted-foreground text-sm">
-                Está prohibida la reproducción, distribución, modificación o uso
-                comercial del contenido sin autorización escrita.
+                {t('termsPage.ip.note')}
               </p>
             </section>
 
             {/* Enlaces externos */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                9. Enlaces a Sitios de Terceros
+                {t('termsPage.links.title')}
               </h2>
-              <p className="text-foreground">
-                Este sitio web puede contener enlaces a sitios de terceros (como
-                Doctoralia, redes sociales, etc.). No somos responsables del
-                contenido, políticas de privacidad o prácticas de estos sitios
-                externos. Le recomendamos revisar los términos y condiciones de
-                cualquier sitio de terceros que visite.
-              </p>
+              <p className="text-foreground">{t('termsPage.links.text')}</p>
             </section>
 
             {/* Limitación de responsabilidad */}
@@ -323,106 +273,80 @@ const TerminosCondiciones = () => {
               <div className="flex items-center gap-3 mb-4">
                 <Shield className="w-6 h-6 text-primary" />
                 <h2 className="font-display text-2xl font-bold text-foreground">
-                  10. Limitación de Responsabilidad
+                  {t('termsPage.liability.title')}
                 </h2>
               </div>
               <p className="text-foreground mb-4">
-                En la medida permitida por la ley aplicable, no seremos
-                responsables de:
+                {t('termsPage.liability.intro')}
               </p>
               <ul className="space-y-2 text-foreground ml-4">
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Daños directos, indirectos, incidentales o consecuentes
-                    derivados del uso de este sitio web
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Interrupciones en el servicio, errores técnicos o fallas en
-                    el sitio web
-                  </span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>Pérdida de datos o información</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span>
-                    Decisiones médicas tomadas basándose únicamente en la
-                    información del sitio web
-                  </span>
-                </li>
+                {LIABILITY_EXCLUSIONS.map((item) => (
+                  <li key={item} className="flex items-start gap-2">
+                    <span className="text-primary mt-1">•</span>
+                    <span>{t(`termsPage.liability.items.${item}`)}</span>
+                  </li>
+                ))}
               </ul>
             </section>
 
             {/* Modificaciones */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                11. Modificaciones a los Términos
+                {t('termsPage.changes.title')}
               </h2>
-              <p className="text-foreground">
-                Nos reservamos el derecho de modificar estos términos y
-                condiciones en cualquier momento. Los cambios serán publicados
-                en esta página con la fecha de última actualización. Le
-                recomendamos revisar periódicamente estos términos.
-              </p>
+              <p className="text-foreground">{t('termsPage.changes.text')}</p>
             </section>
 
             {/* Ley aplicable */}
             <section className="bg-card rounded-2xl p-6 lg:p-8 shadow-soft border border-border/50">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                12. Ley Aplicable y Jurisdicción
+                {t('termsPage.law.title')}
               </h2>
-              <p className="text-foreground">
-                Estos términos y condiciones se rigen por las leyes de los
-                Estados Unidos Mexicanos. Cualquier disputa relacionada con
-                estos términos o con nuestros servicios será resuelta en los
-                tribunales competentes de la Ciudad de México o del Estado de
-                México, según corresponda.
-              </p>
+              <p className="text-foreground">{t('termsPage.law.text')}</p>
             </section>
 
             {/* Contacto */}
             <section className="bg-primary/10 rounded-2xl p-6 lg:p-8 border border-primary/20">
               <h2 className="font-display text-2xl font-bold text-foreground mb-4">
-                ¿Tiene preguntas sobre estos términos?
+                {t('termsPage.questions.title')}
               </h2>
               <p className="text-foreground mb-4">
-                Si tiene alguna duda o necesita aclaración sobre estos términos
-                y condiciones, no dude en contactarnos:
+                {t('termsPage.questions.text')}
               </p>
               <div className="space-y-2 text-foreground">
                 <p>
-                  • Teléfono:{' '}
+                  • {t('legalPages.phone')}{' '}
                   <a
-                    href="tel:+525565053202"
+                    href={siteConfig.telHref}
                     className="text-primary hover:underline font-semibold"
                   >
-                    +52 55 6505 3202
+                    {siteConfig.phoneDisplay}
                   </a>
                 </p>
                 <p>
-                  • WhatsApp:{' '}
+                  • {t('common.whatsapp')}:{' '}
                   <a
-                    href="https://wa.me/525565053202"
+                    href={questionWhatsApp.href}
                     target="_blank"
                     rel="noopener noreferrer nofollow"
+                    onClick={() =>
+                      trackWhatsAppLink(
+                        questionWhatsApp,
+                        'Terminos Condiciones',
+                      )
+                    }
                     className="text-primary hover:underline font-semibold"
                   >
-                    Enviar mensaje
+                    {t('cancellationPage.questions.sendMessage')}
                   </a>
                 </p>
                 <p>
-                  • Correo:{' '}
+                  • {t('legalPages.email')}{' '}
                   <a
-                    href="mailto:fisio-movimiento.mx@gmail.com"
+                    href={siteConfig.mailtoHref}
                     className="text-primary hover:underline font-semibold"
                   >
-                    fisio-movimiento.mx@gmail.com
+                    {siteConfig.email}
                   </a>
                 </p>
               </div>
@@ -432,7 +356,7 @@ const TerminosCondiciones = () => {
           {/* Botón de regreso */}
           <div className="mt-12 text-center">
             <Button asChild variant="outline" size="lg">
-              <Link to="/">Volver al inicio</Link>
+              <Link to={localizePath('/')}>{t('notFound.home')}</Link>
             </Button>
           </div>
         </ScrollAnimated>
@@ -5,6 +5,157 @@ import NotFound from '@/pages/NotFound';
 import AvisoPrivacidad from '@/pages/AvisoPrivacidad';
 import PoliticaCancelacion from '@/pages/PoliticaCancelacion';
 import TerminosCondiciones from '@/pages/TerminosCondiciones';
+import Servicio from '@/pages/Servicio';
+import Consultorio from '@/pages/Consultorio';
+import Blog from '@/pages/Blog';
+import Articulo from '@/pages/Articulo';
+import Ejercicios from '@/pages/Ejercicios';
+import ProgramaEjercicios from '@/pages/ProgramaEjercicios';
+import { BLOG_CATEGORIES, blogPosts, specialties } from '@/content';
+import { blogCategoryPath, blogPostPath } from '@/lib/blog';
+import { DOCTORALIA_ADDRESSES } from '@/lib/doctoralia-addresses';
+import { EXERCISES_PATH, EXERCISE_PROGRAM_PATH } from '@/lib/exercise-program';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_INFO } from '@/lib/i18n';
+import type { SitemapRouteHandle } from '@/lib/sitemap';
+
+// Metadatos de sitemap.xml de cada ruta (ver sitemapSsgOptions en vite.config.ts)
+const sitemap = (handle: SitemapRouteHandle) => ({ sitemap: handle });
+
+const LEGAL_PAGE = { changefreq: 'yearly', priority: '0.5' } as const;
+
+const BLOG_SOURCES = ['src/content/blog', 'src/content/en/blog', 'src/locales'];
+
+// Páginas del sitio. El idioma por defecto vive en la raíz y cada idioma
+// adicional repite el árbol bajo su prefijo (/en, /en/servicios/atm); las
+// páginas deducen el idioma de la ruta (ver useTranslation).
+const pageRoutes = (): RouteRecord[] => [
+  {
+    index: true,
+    element: <Index />,
+    handle: sitemap({
+      changefreq: 'weekly',
+      priority: '1.0',
+      sources: [
+        'src/pages/Index.tsx',
+        'src/components',
+        'src/content',
+        'src/locales',
+      ],
+    }),
+  },
+  {
+    path: 'aviso-privacidad',
+    element: <AvisoPrivacidad />,
+    handle: sitemap({
+      ...LEGAL_PAGE,
+      sources: ['src/pages/AvisoPrivacidad.tsx', 'src/locales'],
+    }),
+  },
+  {
+    path: 'politica-cancelacion',
+    element: <PoliticaCancelacion />,
+    handle: sitemap({
+      ...LEGAL_PAGE,
+      sources: ['src/pages/PoliticaCancelacion.tsx', 'src/locales'],
+    }),
+  },
+  {
+    path: 'terminos-condiciones',
+    element: <TerminosCondiciones />,
+    handle: sitemap({
+      ...LEGAL_PAGE,
+      sources: ['src/pages/TerminosCondiciones.tsx', 'src/locales'],
+    }),
+  },
+  {
+    // Una landing prerenderizada por especialidad (src/content/specialties.json)
+    path: 'servicios/:slug',
+    element: <Servicio />,
+    getStaticPaths: () =>
+      specialties.map((specialty) => `servicios/${specialty.slug}`),
+    handle: sitemap({
+      changefreq: 'monthly',
+      priority: '0.8',
+      sources: [
+        'src/pages/Servicio.tsx',
+        'src/content/specialties.json',
+        'src/content/service-categories.json',
+        'src/content/en/specialties.json',
+        'src/content/en/service-categories.json',
+        'src/locales',
+      ],
+    }),
+  },
+  {
+    // Una landing prerenderizada por consultorio (lib/doctoralia-addresses.ts)
+    path: 'consultorio/:slug',
+    element: <Consultorio />,
+    getStaticPaths: () =>
+      DOCTORALIA_ADDRESSES.map((address) => `consultorio/${address.slug}`),
+    handle: sitemap({
+      changefreq: 'monthly',
+      priority: '0.8',
+      sources: [
+        'src/pages/Consultorio.tsx',
+        'src/lib/doctoralia-addresses.ts',
+        'src/content/gallery.json',
+        'src/content/en/gallery.json',
+        'src/locales',
+      ],
+    }),
+  },
+  {
+    path: 'blog',
+    element: <Blog />,
+    handle: sitemap({
+      changefreq: 'weekly',
+      priority: '0.7',
+      sources: ['src/pages/Blog.tsx', ...BLOG_SOURCES],
+    }),
+  },
+  {
+    path: 'blog/categoria/:category',
+    element: <Blog />,
+    getStaticPaths: () =>
+      BLOG_CATEGORIES.map((category) => blogCategoryPath(category).slice(1)),
+    handle: sitemap({
+      changefreq: 'weekly',
+      priority: '0.5',
+      sources: ['src/pages/Blog.tsx', ...BLOG_SOURCES],
+    }),
+  },
+  {
+    // Un artículo prerenderizado por archivo MDX (src/content/blog/)
+    path: 'blog/:slug',
+    element: <Articulo />,
+    getStaticPaths: () =>
+      blogPosts.map((post) => blogPostPath(post.slug).slice(1)),
+    handle: sitemap({
+      changefreq: 'monthly',
+      priority: '0.7',
+      sources: ['src/pages/Articulo.tsx', ...BLOG_SOURCES],
+    }),
+  },
+  {
+    path: EXERCISES_PATH.slice(1),
+    element: <Ejercicios />,
+    handle: sitemap({
+      changefreq: 'monthly',
+      priority: '0.7',
+      sources: [
+        'src/pages/Ejercicios.tsx',
+        'src/content/exercises.json',
+        'src/content/en/exercises.json',
+        'src/locales',
+      ],
+    }),
+  },
+  {
+    // Programa de un paciente (en el fragmento de la URL): sin sitemap, noindex
+    path: EXERCISE_PROGRAM_PATH.slice(1),
+    element: <ProgramaEjercicios />,
+  },
+];
 
 // Route tree consumed by vite-react-ssg. Every static path below is
 // prerendered to its own HTML file at build time and hydrated on the client.
@@ -13,10 +164,13 @@ export const routes: RouteRecord[] = [
     path: '/',
     element: <Layout />,
     children: [
-      { index: true, element: <Index /> },
-      { path: 'aviso-privacidad', element: <AvisoPrivacidad /> },
-      { path: 'politica-cancelacion', element: <PoliticaCancelacion /> },
-      { path: 'terminos-condiciones', element: <TerminosCondiciones /> },
+      ...pageRoutes(),
+      ...LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map(
+        (locale) => ({
+          path: LOCALE_INFO[locale].prefix.slice(1),
+          children: pageRoutes(),
+        }),
+      ),
       { path: '*', element: <NotFound /> },
     ],
   },
@@ -73,3 +73,28 @@ declare module '*?*' {
   const src: string;
   export default src;
 }
+
+// Metadatos de los artículos del blog (blogPlugin en vite.config.ts)
+declare module 'virtual:blog-posts' {
+  export const blogPosts: import('./lib/blog').BlogPosts;
+}
+
+interface ImportMetaEnv {
+  /** Proveedor del formulario de citas: whatsapp (por defecto), email o http */
+  readonly VITE_BOOKING_PROVIDER?: 'whatsapp' | 'email' | 'http';
+  /** Endpoint que recibe las solicitudes cuando VITE_BOOKING_PROVIDER=http */
+  readonly VITE_BOOKING_ENDPOINT?: string;
+  /** Endpoint propio que recibe los eventos de analítica por lotes (beacon) */
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+  /** Fracción de sesiones (0 a 1) que reportan Core Web Vitals; por defecto 1 */
+  readonly VITE_WEB_VITALS_SAMPLE_RATE?: string;
+}
+
+/** Versión de package.json (`define` en vite.config.ts) */
+declare const __APP_VERSION__: string;
+/** Release de Sentry: `fisio-movimiento@<versión>` */
+declare const __SENTRY_RELEASE__: string;
+/** Entorno de Sentry: `VERCEL_ENV` (production / preview) o el modo de Vite */
+declare const __SENTRY_ENVIRONMENT__: string;
+/** Commit corto del build en Vercel; vacío en local */
+declare const __SENTRY_DIST__: string;
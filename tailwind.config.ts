@@ -1,5 +1,6 @@
 import type { Config } from 'tailwindcss';
 import tailwindcssAnimate from 'tailwindcss-animate';
+import typography from '@tailwindcss/typography';
 
 export default {
   darkMode: ['class'],
@@ -141,5 +142,6 @@ export default {
       },
     },
   },
-  plugins: [tailwindcssAnimate],
+  // typography: clases `prose` del cuerpo de los artículos del blog (MDX)
+  plugins: [tailwindcssAnimate, typography],
 } satisfies Config;
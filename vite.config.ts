@@ -1,14 +1,69 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react-swc';
+import mdx from '@mdx-js/rollup';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
 import path from 'path';
 import { componentTagger } from 'lovable-tagger';
 import { imagetools } from 'vite-imagetools';
 import { VitePWA } from 'vite-plugin-pwa';
 import { visualizer } from 'rollup-plugin-visualizer';
 import { sentryVitePlugin } from '@sentry/vite-plugin';
-import type { Plugin } from 'vite';
-import { readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import type { Connect, Plugin, ResolvedConfig } from 'vite';
+import type { ViteReactSSGOptions } from 'vite-react-ssg';
+import { execFileSync } from 'child_process';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import {
+  CONTENT_COLLECTIONS,
+  TRANSLATED_CONTENT,
+  findBrokenContentReferences,
+  findTranslationDrift,
+  formatContentIssues,
+  type ContentFile,
+  type ServiceCategory,
+  type Specialty,
+} from './src/content/schema';
+import { absoluteUrl, siteConfig } from './src/lib/site-config';
+import { renderLlmsTxt } from './src/lib/llms-txt';
+import { renderTrackingPlan } from './src/lib/analytics-events';
+import { POST as relayAnalytics } from './api/analytics';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_INFO,
+  findMissingTranslations,
+  localizePath,
+  translate,
+} from './src/lib/i18n';
+import {
+  BLOG_FEED_PATH,
+  getBlogPostByPath,
+  renderBlogFeed,
+} from './src/lib/blog';
+import { blogDirectory, loadBlogPosts } from './src/lib/blog-source';
+import {
+  createSitemapHandleMatcher,
+  extractSitemapImages,
+  renderSitemapXml,
+  type SitemapEntry,
+  type SitemapRouteHandle,
+} from './src/lib/sitemap';
+import { buildStructuredDataGraph } from './src/lib/structured-data';
+import {
+  OG_IMAGE_FORMATS,
+  getOGImageCard,
+  getOGImageFile,
+  parseOGImageFile,
+} from './src/lib/og-images';
+import { renderOGImage } from './src/lib/og-image-render';
+import { validateStructuredData, type JsonLdGraph } from './src/lib/schema-org';
 
 /**
  * Plugin para cargar CSS de forma asíncrona (no bloqueante)
@@ -60,6 +115,597 @@ const asyncCSSPlugin = (): Plugin => {
   };
 };
 
+/**
+ * Plugin para validar la capa de contenido (src/content/*.json)
+ * Se ejecuta al arrancar dev y build: si algún JSON no cumple su esquema,
+ * el build se detiene con la lista de campos inválidos en lugar de fallar
+ * más tarde (o en runtime) con un error poco claro
+ */
+const contentValidationPlugin = (): Plugin => {
+  return {
+    name: 'content-validation',
+    buildStart() {
+      const files = Object.keys(CONTENT_COLLECTIONS) as ContentFile[];
+      const parsed: Partial<Record<ContentFile, unknown>> = {};
+
+      for (const file of files) {
+        const source = `src/content/${file}`;
+        const fullPath = join(process.cwd(), source);
+        this.addWatchFile(fullPath);
+
+        let data: unknown;
+        try {
+          data = JSON.parse(readFileSync(fullPath, 'utf-8'));
+        } catch (error) {
+          this.error(
+            `Contenido inválido en ${source}:\n  - ${(error as Error).message}`,
+          );
+        }
+
+        const result = CONTENT_COLLECTIONS[file].safeParse(data);
+        if (!result.success) {
+          this.error(formatContentIssues(source, result.error));
+        }
+        parsed[file] = result.data;
+      }
+
+      for (const prefix of ['', 'en/'] as const) {
+        const brokenReferences = findBrokenContentReferences(
+          parsed[`${prefix}specialties.json`] as Specialty[],
+          parsed[`${prefix}service-categories.json`] as ServiceCategory[],
+        );
+        if (brokenReferences) {
+          this.error(brokenReferences);
+        }
+      }
+
+      // Cada traducción debe tener los mismos elementos, slugs y precios
+      const drift = TRANSLATED_CONTENT.map((file) =>
+        findTranslationDrift(file, parsed[file], parsed[`en/${file}`]),
+      ).filter(Boolean);
+      if (drift.length > 0) {
+        this.error(drift.join('\n'));
+      }
+    },
+  };
+};
+
+/**
+ * Plugin que detiene el build si a un catálogo de src/locales/ le falta una
+ * clave de es-MX.json (o le sobra, o cambia sus {placeholders})
+ */
+const i18nValidationPlugin = (): Plugin => {
+  return {
+    name: 'i18n-validation',
+    buildStart() {
+      const catalogs = Object.fromEntries(
+        LOCALES.map((locale) => {
+          const fullPath = join(
+            process.cwd(),
+            'src',
+            'locales',
+            `${locale}.json`,
+          );
+          this.addWatchFile(fullPath);
+          return [locale, JSON.parse(readFileSync(fullPath, 'utf-8'))];
+        }),
+      );
+      const problems = findMissingTranslations(catalogs);
+      if (problems.length > 0) {
+        this.error(`Traducciones incompletas:\n${problems.join('\n')}`);
+      }
+    },
+  };
+};
+
+/**
+ * Plugin que comprueba que docs/TRACKING_PLAN.md coincide con el catálogo de
+ * eventos (src/lib/analytics-events.ts). No lo reescribe: el build falla (en
+ * dev solo avisa) hasta que se regenera con `npm run tracking-plan`.
+ */
+const trackingPlanPlugin = (): Plugin => {
+  let command: ResolvedConfig['command'] = 'build';
+  return {
+    name: 'tracking-plan',
+    configResolved(config) {
+      command = config.command;
+    },
+    buildStart() {
+      const fullPath = join(process.cwd(), 'docs', 'TRACKING_PLAN.md');
+      this.addWatchFile(fullPath);
+      const current = existsSync(fullPath)
+        ? readFileSync(fullPath, 'utf-8')
+        : '';
+      if (current === renderTrackingPlan()) return;
+      const message =
+        'docs/TRACKING_PLAN.md no coincide con el catálogo de eventos; ejecuta `npm run tracking-plan`';
+      if (command === 'build') {
+        this.error(message);
+      } else {
+        this.warn(message);
+      }
+    },
+  };
+};
+
+/**
+ * Plugin que monta el relay de conversiones (api/analytics.ts) en
+ * /api/analytics durante `npm run dev` y `npm run preview`, como lo hace
+ * Vercel en producción. Toma META_* y GA4_* de .env.local o del entorno.
+ */
+const analyticsRelayPlugin = (): Plugin => {
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (req.method !== 'POST') {
+      next();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', async () => {
+      try {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (typeof value === 'string') headers.set(name, value);
+        }
+        if (req.socket.remoteAddress && !headers.has('x-forwarded-for')) {
+          headers.set('x-forwarded-for', req.socket.remoteAddress);
+        }
+        const response = await relayAnalytics(
+          new Request(`http://${req.headers.host}/api/analytics`, {
+            method: 'POST',
+            headers,
+            body: Buffer.concat(chunks),
+          }),
+        );
+        res.statusCode = response.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(await response.text());
+      } catch (error) {
+        next(error);
+      }
+    });
+  };
+  const loadRelayEnv = (mode: string) => {
+    Object.assign(process.env, {
+      ...loadEnv(mode, process.cwd(), ['META_', 'GA4_']),
+      ...process.env,
+    });
+  };
+
+  return {
+    name: 'analytics-relay',
+    configureServer(server) {
+      loadRelayEnv(server.config.mode);
+      server.middlewares.use('/api/analytics', middleware);
+    },
+    configurePreviewServer(server) {
+      loadRelayEnv(server.config.mode);
+      server.middlewares.use('/api/analytics', middleware);
+    },
+  };
+};
+
+/**
+ * Plugin para generar llms.txt desde siteConfig y la capa de contenido
+ * En dev se sirve desde memoria; en build se escribe en dist/llms.txt
+ */
+const llmsTxtPlugin = (): Plugin => {
+  return {
+    name: 'llms-txt',
+    configureServer(server) {
+      server.middlewares.use('/llms.txt', (_req, res) => {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.end(renderLlmsTxt());
+      });
+    },
+    closeBundle() {
+      try {
+        writeFileSync(
+          join(process.cwd(), 'dist', 'llms.txt'),
+          renderLlmsTxt(),
+          'utf-8',
+        );
+        console.log('✅ llms.txt generado desde siteConfig');
+      } catch (error) {
+        console.error('❌ Error al generar llms.txt:', error);
+      }
+    },
+  };
+};
+
+const BLOG_POSTS_MODULE = 'virtual:blog-posts';
+
+/**
+ * Plugin del blog (src/content/blog/*.mdx; el cuerpo lo compila @mdx-js/rollup):
+ * - Expone los metadatos de los artículos (frontmatter validado, slug y
+ *   minutos de lectura) como `virtual:blog-posts`; un frontmatter inválido o
+ *   una traducción faltante detiene el build
+ * - Publica el feed RSS de cada idioma (lib/blog.ts). En dev se sirve desde
+ *   memoria; en build se escribe en dist/blog/rss.xml y dist/en/blog/rss.xml
+ */
+const blogPlugin = (): Plugin => {
+  const resolvedId = `\0${BLOG_POSTS_MODULE}`;
+  const feedFiles = LOCALES.map((locale) => ({
+    locale,
+    path: localizePath(BLOG_FEED_PATH, locale),
+  }));
+
+  return {
+    name: 'blog',
+    resolveId(id) {
+      return id === BLOG_POSTS_MODULE ? resolvedId : undefined;
+    },
+    load(id) {
+      if (id !== resolvedId) return undefined;
+      for (const locale of LOCALES) {
+        this.addWatchFile(join(process.cwd(), blogDirectory(locale)));
+      }
+      try {
+        return `export const blogPosts = ${JSON.stringify(loadBlogPosts())};`;
+      } catch (error) {
+        this.error((error as Error).message);
+      }
+    },
+    configureServer(server) {
+      // Un artículo nuevo, editado o borrado cambia los metadatos
+      server.watcher.on('all', (_event, file) => {
+        if (!file.endsWith('.mdx')) return;
+        const module = server.moduleGraph.getModuleById(resolvedId);
+        if (!module) return;
+        server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      });
+      for (const { locale, path: feedPath } of feedFiles) {
+        server.middlewares.use(feedPath, (_req, res) => {
+          res.setHeader('Content-Type', 'application/rss+xml; charset=utf-8');
+          res.end(renderBlogFeed(loadBlogPosts()[locale], locale));
+        });
+      }
+    },
+    closeBundle() {
+      try {
+        const posts = loadBlogPosts();
+        for (const { locale, path: feedPath } of feedFiles) {
+          const file = join(process.cwd(), 'dist', feedPath);
+          mkdirSync(dirname(file), { recursive: true });
+          writeFileSync(file, renderBlogFeed(posts[locale], locale), 'utf-8');
+        }
+        console.log('✅ Feeds RSS del blog generados');
+      } catch (error) {
+        console.error('❌ Error al generar los feeds RSS del blog:', error);
+      }
+    },
+  };
+};
+
+/**
+ * Plugin que sirve en dev las imágenes Open Graph de cada ruta (/og/...png),
+ * dibujadas al vuelo; en build las escribe withOgImages en dist/og/
+ */
+const ogImagesPlugin = (): Plugin => {
+  return {
+    name: 'og-images',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/og', async (req, res, next) => {
+        const image = parseOGImageFile(`/og${req.url?.split('?')[0] ?? ''}`);
+        const card =
+          image &&
+          getOGImageCard(image.path, {
+            article: getBlogPostByPath(loadBlogPosts(), image.path),
+          });
+        if (!image || !card) return next();
+        try {
+          res.setHeader('Content-Type', 'image/png');
+          res.end(await renderOGImage(card, image.format));
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+  };
+};
+
+/**
+ * Fecha (YYYY-MM-DD) del último commit que tocó alguno de los archivos; si no
+ * hay historial de git (p. ej. un tarball), la última modificación en disco
+ */
+const getLastModified = (sources: string[]): string | undefined => {
+  try {
+    const date = execFileSync(
+      'git',
+      ['log', '-1', '--format=%cI', '--', ...sources],
+      { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] },
+    ).trim();
+    if (date) return date.slice(0, 10);
+  } catch {
+    // Sin git: se usa la fecha del sistema de archivos
+  }
+  const mtimes = sources.flatMap((source) => {
+    try {
+      return [statSync(join(process.cwd(), source)).mtime.getTime()];
+    } catch {
+      return [];
+    }
+  });
+  return mtimes.length
+    ? new Date(Math.max(...mtimes)).toISOString().slice(0, 10)
+    : undefined;
+};
+
+// vite-react-ssg entrega las rutas hijas sin "/" inicial ("servicios/atm")
+const toSitePath = (path: string) => (path.startsWith('/') ? path : `/${path}`);
+
+/**
+ * Opciones de vite-react-ssg que generan dist/sitemap.xml desde routes.tsx:
+ * una entrada por página prerenderizada (incluidas las de `getStaticPaths`),
+ * con los metadatos de `handle.sitemap`, `lastmod` según git y las imágenes
+ * marcadas con `data-sitemap-image` en el HTML renderizado.
+ */
+const sitemapSsgOptions = (): Partial<ViteReactSSGOptions> => {
+  let paths: string[] = [];
+  let matchHandle: (path: string) => SitemapRouteHandle | undefined = () =>
+    undefined;
+  const images = new Map<string, string[]>();
+
+  return {
+    includedRoutes(allPaths, routes) {
+      // Mismo filtro que el de vite-react-ssg: sin rutas dinámicas ni '*'
+      paths = allPaths.filter(
+        (path) => !path.includes(':') && !path.includes('*'),
+      );
+      matchHandle = createSitemapHandleMatcher(routes);
+      return paths;
+    },
+    onPageRendered(route, html) {
+      images.set(toSitePath(route), extractSitemapImages(html));
+      return html;
+    },
+    onFinished(dir) {
+      const entries: SitemapEntry[] = paths.map(toSitePath).flatMap((path) => {
+        const handle = matchHandle(path);
+        // Rutas sin `handle.sitemap` no se publican en el sitemap
+        if (!handle) return [];
+        return [
+          {
+            path,
+            lastmod: getLastModified(handle.sources),
+            changefreq: handle.changefreq,
+            priority: handle.priority,
+            images: images.get(path),
+          },
+        ];
+      });
+      writeFileSync(
+        join(dir, 'sitemap.xml'),
+        renderSitemapXml(
+          entries,
+          LOCALES.map((locale) => LOCALE_INFO[locale]),
+        ),
+        'utf-8',
+      );
+      console.log(`✅ sitemap.xml generado (${entries.length} URLs)`);
+    },
+  };
+};
+
+/**
+ * Envuelve las opciones de SSG para revisar el <head> de cada página
+ * prerenderizada. Lo escribe PageHead (vite-react-ssg antepone las etiquetas
+ * de react-helmet-async justo después de `<head>`), así que aquí solo:
+ * - Se devuelve `<meta charset>` al inicio del <head> (debe estar en los
+ *   primeros 1024 bytes del documento)
+ * - Se valida el JSON-LD contra el vocabulario de lib/schema-org.ts: un tipo o
+ *   propiedad desconocido, un requerido ausente, una referencia rota o una ruta
+ *   con grafo que no lo incluye (página sin PageHead) lanza un error
+ */
+const withValidatedHead = (
+  options: Partial<ViteReactSSGOptions>,
+): Partial<ViteReactSSGOptions> => ({
+  ...options,
+  async onPageRendered(route, html, appCtx) {
+    const rendered =
+      (await options.onPageRendered?.(route, html, appCtx)) || html;
+    const path = toSitePath(route);
+
+    const scripts = [
+      ...rendered.matchAll(
+        /<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/g,
+      ),
+    ];
+    const article = getBlogPostByPath(loadBlogPosts(), path);
+    if (scripts.length === 0 && buildStructuredDataGraph(path, { article })) {
+      throw new Error(`Falta el JSON-LD en ${path} (¿la página usa PageHead?)`);
+    }
+    const issues = scripts.flatMap(([, json]) =>
+      validateStructuredData(JSON.parse(json) as JsonLdGraph),
+    );
+    if (scripts.length > 1) {
+      issues.push(`${scripts.length} bloques JSON-LD (debe haber uno)`);
+    }
+    if (issues.length > 0) {
+      throw new Error(
+        `JSON-LD inválido en ${path}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+      );
+    }
+
+    const charset = rendered.match(/<meta charset="[^"]*"\s*\/?>/i)?.[0];
+    if (!charset) return rendered;
+    return rendered
+      .replace(charset, '')
+      .replace('<head>', () => `<head>${charset}`);
+  },
+});
+
+/**
+ * Envuelve las opciones de SSG para dibujar en dist/og/ las imágenes Open
+ * Graph (horizontal y vertical) de cada página prerenderizada, con las mismas
+ * URLs que PageHead pone en su <head> (lib/og-images.ts)
+ */
+const withOgImages = (
+  options: Partial<ViteReactSSGOptions>,
+): Partial<ViteReactSSGOptions> => {
+  const paths: string[] = [];
+
+  return {
+    ...options,
+    async onPageRendered(route, html, appCtx) {
+      paths.push(toSitePath(route));
+      return (await options.onPageRendered?.(route, html, appCtx)) || html;
+    },
+    async onFinished(dir) {
+      await options.onFinished?.(dir);
+      const posts = loadBlogPosts();
+      let count = 0;
+      // Una a la vez: resvg usa toda la CPU en cada imagen
+      for (const path of paths) {
+        const card = getOGImageCard(path, {
+          article: getBlogPostByPath(posts, path),
+        });
+        if (!card) continue;
+        for (const format of OG_IMAGE_FORMATS) {
+          const file = join(dir, getOGImageFile(path, format));
+          mkdirSync(dirname(file), { recursive: true });
+          writeFileSync(file, await renderOGImage(card, format));
+          count++;
+        }
+      }
+      console.log(`✅ Imágenes Open Graph generadas en og/ (${count})`);
+    },
+  };
+};
+
+/**
+ * Plugin que detiene el build si un archivo estático (index.html, public/)
+ * tiene un dato del negocio distinto de siteConfig (src/content/site.json).
+ * Esos archivos no pueden importar la configuración, así que se comparan:
+ * al cambiar el teléfono, dominio, etc., hay que actualizarlos a mano.
+ */
+const siteConfigDriftPlugin = (): Plugin => {
+  return {
+    name: 'site-config-drift',
+    buildStart() {
+      const problems: string[] = [];
+      const read = (file: string) => {
+        const fullPath = join(process.cwd(), file);
+        this.addWatchFile(fullPath);
+        return readFileSync(fullPath, 'utf-8');
+      };
+      // Compara cada valor encontrado con el esperado (sin repetir errores)
+      const expectAll = (
+        file: string,
+        label: string,
+        found: string[],
+        expected: (value: string) => boolean,
+        expectedLabel: string,
+      ) => {
+        for (const value of new Set(found)) {
+          if (!expected(value)) {
+            problems.push(
+              `  - ${file} (${label}): "${value}", se esperaba ${expectedLabel}`,
+            );
+          }
+        }
+      };
+      const matchAll = (source: string, pattern: RegExp) =>
+        [...source.matchAll(pattern)].map((match) => match[1]);
+
+      const host = new URL(siteConfig.url).host;
+      const cname = read('public/CNAME').trim();
+      expectAll(
+        'public/CNAME',
+        'dominio',
+        [cname],
+        (v) => v === host,
+        `"${host}"`,
+      );
+
+      const sitemapUrl = absoluteUrl('/sitemap.xml');
+      expectAll(
+        'public/robots.txt',
+        'Sitemap',
+        matchAll(read('public/robots.txt'), /^Sitemap:\s*(\S+)/gm),
+        (v) => v === sitemapUrl,
+        `"${sitemapUrl}"`,
+      );
+
+      const manifest = JSON.parse(read('public/manifest.json'));
+      expectAll(
+        'public/manifest.json',
+        'name',
+        [manifest.name],
+        (v) => v === siteConfig.title,
+        `"${siteConfig.title}"`,
+      );
+      expectAll(
+        'public/manifest.json',
+        'short_name',
+        [manifest.short_name],
+        (v) => v === siteConfig.name,
+        `"${siteConfig.name}"`,
+      );
+      expectAll(
+        'public/manifest.json',
+        'description',
+        [manifest.description],
+        (v) => v === siteConfig.description,
+        'la descripción de site.json',
+      );
+
+      const html = read('index.html');
+      expectAll(
+        'index.html',
+        'og:site_name',
+        matchAll(html, /property="og:site_name"\s+content="([^"]*)"/g),
+        (v) => v === siteConfig.name,
+        `"${siteConfig.name}"`,
+      );
+      expectAll(
+        'index.html',
+        'fb:app_id',
+        matchAll(html, /property="fb:app_id"\s+content="([^"]*)"/g),
+        (v) => v === siteConfig.facebookAppId,
+        `"${siteConfig.facebookAppId}"`,
+      );
+      expectAll(
+        'index.html',
+        'tel:',
+        matchAll(html, /tel:(\+?\d+)/g),
+        (v) => v === siteConfig.phone,
+        `"${siteConfig.phone}"`,
+      );
+      expectAll(
+        'index.html',
+        'Doctoralia',
+        matchAll(html, /(https:\/\/www\.doctoralia\.com\.mx\/[^"'\s]+)/g),
+        (v) => v.startsWith(siteConfig.doctoralia.profileUrl),
+        `el perfil "${siteConfig.doctoralia.profileUrl}"`,
+      );
+      expectAll(
+        'index.html',
+        'Instagram',
+        matchAll(html, /(https:\/\/www\.instagram\.com\/[^"'\s]+)/g),
+        (v) => v === siteConfig.social.instagram,
+        `"${siteConfig.social.instagram}"`,
+      );
+      expectAll(
+        'index.html',
+        'Facebook',
+        // Excluye el pixel (facebook.com/tr)
+        matchAll(html, /(https:\/\/www\.facebook\.com\/(?!tr\?)[^"'\s]+)/g),
+        (v) => v === siteConfig.social.facebook,
+        `"${siteConfig.social.facebook}"`,
+      );
+
+      if (problems.length > 0) {
+        this.error(
+          `Archivos estáticos desactualizados respecto de src/content/site.json:\n${problems.join('\n')}`,
+        );
+      }
+    },
+  };
+};
+
 /**
  * Plugin para generar 404.html después del build
  * Útil para SEO (meta tags específicos para 404) y Google Search Console
@@ -70,69 +716,45 @@ const generate404Plugin = (): Plugin => {
   return {
     name: 'generate-404',
     closeBundle() {
-      const BASE_URL = 'https://fisio-movimiento.com';
+      const BASE_URL = siteConfig.url;
+      const notFoundTitle = `${translate(DEFAULT_LOCALE, 'notFound.metaTitle')} | ${siteConfig.name}`;
+      const notFoundDescription = translate(
+        DEFAULT_LOCALE,
+        'notFound.metaDescription',
+      );
 
       try {
-        // Leer index.html desde dist/
+        // Leer index.html desde dist/ (la plantilla, sin las etiquetas de
+        // PageHead: se agregan aquí las de la página 404)
         const distIndexPath = join(process.cwd(), 'dist', 'index.html');
         let indexHTML = readFileSync(distIndexPath, 'utf-8');
 
-        // Reemplazar meta tags para la página 404
-        const replacements = [
-          // Title
-          [
-            /<title>.*?<\/title>/i,
-            '<title>404 - Página no encontrada | FisioAnalaura</title>',
-          ],
-          // Meta title
-          [
-            /<meta\s+name="title"\s+content=".*?"\s*\/?>/i,
-            '<meta name="title" content="404 - Página no encontrada | FisioAnalaura" />',
-          ],
-          // Meta description
-          [
-            /<meta\s+name="description"\s+content=".*?"\s*\/?>/i,
-            '<meta name="description" content="La página que buscas no existe. Regresa al inicio o explora nuestros servicios de fisioterapia en CDMX y Metepec." />',
-          ],
-          // Open Graph title
-          [
-            /<meta\s+property="og:title"\s+content=".*?"\s*\/?>/i,
-            '<meta property="og:title" content="404 - Página no encontrada | FisioAnalaura" />',
-          ],
-          // Open Graph description
-          [
-            /<meta\s+property="og:description"\s+content=".*?"\s*\/?>/i,
-            '<meta property="og:description" content="La página que buscas no existe. Regresa al inicio o explora nuestros servicios de fisioterapia en CDMX y Metepec." />',
-          ],
-          // Open Graph URL
-          [
-            /<meta\s+property="og:url"\s+content=".*?"\s*\/?>/i,
-            `<meta property="og:url" content="${BASE_URL}/404" />`,
-          ],
-          // Canonical URL
-          [
-            /<link\s+rel="canonical"\s+href=".*?"\s*\/?>/i,
-            `<link rel="canonical" href="${BASE_URL}/404" />`,
-          ],
-          // Twitter Card title
-          [
-            /<meta\s+name="twitter:title"\s+content=".*?"\s*\/?>/i,
-            '<meta name="twitter:title" content="404 - Página no encontrada | FisioAnalaura" />',
-          ],
-          // Twitter Card description
-          [
-            /<meta\s+name="twitter:description"\s+content=".*?"\s*\/?>/i,
-            '<meta name="twitter:description" content="La página que buscas no existe. Regresa al inicio o explora nuestros servicios de fisioterapia en CDMX y Metepec." />',
-          ],
+        const headTags = [
+          `<title>${notFoundTitle}</title>`,
+          `<meta name="title" content="${notFoundTitle}" />`,
+          `<meta name="description" content="${notFoundDescription}" />`,
+          '<meta name="robots" content="noindex, follow" />',
+          `<link rel="canonical" href="${BASE_URL}/404" />`,
+          '<meta property="og:type" content="website" />',
+          `<meta property="og:url" content="${BASE_URL}/404" />`,
+          `<meta property="og:title" content="${notFoundTitle}" />`,
+          `<meta property="og:description" content="${notFoundDescription}" />`,
+          `<meta property="og:image" content="${siteConfig.ogImageUrl}" />`,
+          `<meta property="og:locale" content="${LOCALE_INFO[DEFAULT_LOCALE].ogLocale}" />`,
+          '<meta name="twitter:card" content="summary_large_image" />',
+          `<meta name="twitter:title" content="${notFoundTitle}" />`,
+          `<meta name="twitter:description" content="${notFoundDescription}" />`,
+          `<meta name="twitter:image" content="${siteConfig.ogImageUrl}" />`,
         ];
 
-        // Aplicar todas las sustituciones
-        replacements.forEach(([pattern, replacement]) => {
-          indexHTML = indexHTML.replace(
-            pattern as RegExp,
-            replacement as string,
+        indexHTML = indexHTML
+          .replace(
+            '<html',
+            `<html lang="${LOCALE_INFO[DEFAULT_LOCALE].htmlLang}"`,
+          )
+          .replace(/(<meta charset="[^"]*"\s*\/?>)/i, (charset: string) =>
+            [charset, ...headTags].join('\n    '),
           );
-        });
 
         // Escribir 404.html en dist/
         const outputPath = join(process.cwd(), 'dist', '404.html');
@@ -148,11 +770,44 @@ const generate404Plugin = (): Plugin => {
   };
 };
 
+/**
+ * Release de Sentry: `fisio-movimiento@<versión de package.json>` (la sube
+ * scripts/bump-version.js). Se inyecta en el cliente para `Sentry.init`
+ * (main.tsx) y el plugin sube los source maps y asocia los commits con el
+ * mismo nombre, así cada error apunta al deploy que lo produjo. En Vercel el
+ * commit identifica el build dentro del release (`dist`).
+ */
+const APP_VERSION: string = JSON.parse(
+  readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'),
+).version;
+const SENTRY_RELEASE = `fisio-movimiento@${APP_VERSION}`;
+const SENTRY_DIST = process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 7) ?? '';
+
+/** Commits del release: los de Vercel si existen, si no el repo git local */
+const sentrySetCommits = () => {
+  const {
+    VERCEL_GIT_COMMIT_SHA: commit,
+    VERCEL_GIT_REPO_OWNER: owner,
+    VERCEL_GIT_REPO_SLUG: slug,
+  } = process.env;
+  return commit && owner && slug
+    ? { repo: `${owner}/${slug}`, commit, ignoreMissing: true }
+    : { auto: true as const, ignoreMissing: true };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   // Base path: always "/" because we use custom domain (fisio-movimiento.com)
   // Works the same in local development
   base: '/',
+  // Versión y release de Sentry (main.tsx, lib/web-vitals.ts). El SDK de
+  // Sentry también lee `__SENTRY_RELEASE__` como release por defecto
+  define: {
+    __APP_VERSION__: JSON.stringify(APP_VERSION),
+    __SENTRY_RELEASE__: JSON.stringify(SENTRY_RELEASE),
+    __SENTRY_ENVIRONMENT__: JSON.stringify(process.env.VERCEL_ENV || mode),
+    __SENTRY_DIST__: JSON.stringify(SENTRY_DIST),
+  },
   server: {
     host: '::',
     port: 8080,
@@ -161,8 +816,29 @@ export default defineConfig(({ mode }) => ({
     },
   },
   plugins: [
+    // Artículos del blog en MDX (antes de react() para que los compile primero)
+    {
+      enforce: 'pre',
+      ...mdx({ remarkPlugins: [remarkFrontmatter, remarkGfm] }),
+    },
     react(),
     imagetools(),
+    // Validar src/content/*.json contra sus esquemas (dev y build)
+    contentValidationPlugin(),
+    // Catálogos de src/locales/ completos respecto de es-MX (dev y build)
+    i18nValidationPlugin(),
+    // Comparar index.html y public/ con siteConfig (dev y build)
+    siteConfigDriftPlugin(),
+    // llms.txt generado desde siteConfig (dev: middleware, build: dist/)
+    llmsTxtPlugin(),
+    // Metadatos de los artículos (virtual:blog-posts) y feeds RSS del blog
+    blogPlugin(),
+    // Imágenes Open Graph de cada ruta en dev (en build: withOgImages)
+    ogImagesPlugin(),
+    // docs/TRACKING_PLAN.md generado desde el catálogo de eventos
+    trackingPlanPlugin(),
+    // Relay de conversiones (api/analytics.ts) en dev y preview
+    analyticsRelayPlugin(),
     // Cargar CSS de forma asíncrona (no bloqueante) - solo en producción
     ...(mode === 'production' ? [asyncCSSPlugin()] : []),
     // Generate 404.html after build (only in production)
@@ -191,15 +867,12 @@ export default defineConfig(({ mode }) => ({
         'favicon/favicon-96x96.png',
         'favicon/apple-touch-icon.png',
         'robots.txt',
-        'sitemap.xml',
-        'llms.txt',
       ],
       manifestFilename: 'manifest.json', // Extensión .json estándar para PWA manifest
       manifest: {
-        name: 'FisioAnalaura - Fisioterapeuta en CDMX y Metepec',
-        short_name: 'FisioAnalaura',
-        description:
-          'Fisioterapeuta con doble titulación (México y España). Especialista en traumatología, ATM, hipopresivos y manejo del dolor.',
+        name: siteConfig.title,
+        short_name: siteConfig.name,
+        description: siteConfig.description,
         theme_color: '#1876B6',
         background_color: '#F7FBFC',
         display: 'standalone',
@@ -248,6 +921,8 @@ export default defineConfig(({ mode }) => ({
           globPatterns: [
             '**/*.{js,css,html,ico,png,svg,webp,jpg,jpeg,woff,woff2}',
           ],
+          // Las imágenes Open Graph solo las piden los crawlers
+          globIgnores: ['og/**'],
         }),
         // En desarrollo, deshabilitar precaching completamente para evitar warnings
         // Workbox usa un patrón por defecto si no se define globPatterns, por eso lo deshabilitamos
@@ -324,6 +999,17 @@ export default defineConfig(({ mode }) => ({
             org: 'pat-company-mn',
             project: 'fisio-movimiento',
             authToken: process.env.SENTRY_AUTH_TOKEN,
+            release: {
+              name: SENTRY_RELEASE,
+              ...(SENTRY_DIST && { dist: SENTRY_DIST }),
+              setCommits: sentrySetCommits(),
+              deploy: {
+                env: process.env.VERCEL_ENV || mode,
+                ...(process.env.VERCEL_URL && {
+                  url: `https://${process.env.VERCEL_URL}`,
+                }),
+              },
+            },
             sourcemaps: {
               assets: './dist/**',
               ignore: ['node_modules'],
@@ -333,6 +1019,8 @@ export default defineConfig(({ mode }) => ({
         ]
       : []),
   ].filter(Boolean),
+  // sitemap.xml desde el árbol de rutas, `lang` por idioma y JSON-LD en el HTML
+  ssgOptions: withOgImages(withValidatedHead(sitemapSsgOptions())),
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -342,9 +1030,10 @@ export default defineConfig(({ mode }) => ({
     // Ensure proper build output
     outDir: 'dist',
     assetsDir: 'assets',
-    // Generate source maps for Sentry (only uploaded to Sentry, not exposed publicly)
+    // Generate source maps for Sentry (only uploaded to Sentry, not exposed publicly).
+    // 'hidden' omits the sourceMappingURL comment; the maps are deleted after upload
     sourcemap:
-      mode === 'production' && process.env.SENTRY_AUTH_TOKEN ? true : false,
+      mode === 'production' && process.env.SENTRY_AUTH_TOKEN ? 'hidden' : false,
     // Ensure proper minification
     minify: 'esbuild',
     // Increase chunk size warning limit since we're not using manual chunking